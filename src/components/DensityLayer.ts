@@ -0,0 +1,179 @@
+/**
+ * Leaflet layer drawing sightings as a heatmap or a grid of hexagons with counts,
+ * on one canvas redrawn after each move so tens of thousands of points stay smooth
+ */
+
+import L from 'leaflet';
+import { kernelDensity, hexBin, hexagonCorners, densityColor } from '../utils/densityLayers';
+
+export type DensityMode = 'heatmap' | 'hexbin';
+
+// Heatmap cells in screen pixels and how far each sighting spreads
+const HEAT_CELL_SIZE = 4;
+const HEAT_RADIUS = 28;
+// Hexagons are sized on screen, large enough for their count, so they cover more ground when zoomed out
+const HEX_RADIUS = 22;
+
+export class DensityLayer extends L.Layer {
+  private map: L.Map | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private points: Array<[number, number]> = [];
+  private mode: DensityMode;
+  private frame = 0;
+
+  constructor(mode: DensityMode) {
+    super();
+    this.mode = mode;
+  }
+
+  /**
+   * Replace the sightings drawn, as [lat, lng] pairs
+   */
+  setPoints(points: Array<[number, number]>): this {
+    this.points = points;
+    this.scheduleDraw();
+    return this;
+  }
+
+  setMode(mode: DensityMode): this {
+    if (mode !== this.mode) {
+      this.mode = mode;
+      this.scheduleDraw();
+    }
+    return this;
+  }
+
+  onAdd(map: L.Map): this {
+    this.map = map;
+    this.canvas = L.DomUtil.create('canvas', 'leaflet-density-layer') as HTMLCanvasElement;
+    this.canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(this.canvas);
+
+    map.on('moveend resize', this.reset);
+    map.on('zoomstart', this.hide);
+    this.reset();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    map.off('moveend resize', this.reset);
+    map.off('zoomstart', this.hide);
+    cancelAnimationFrame(this.frame);
+    this.canvas?.remove();
+    this.canvas = null;
+    this.map = null;
+    return this;
+  }
+
+  // The canvas would be scaled wrongly during the zoom animation, so it reappears after it
+  private hide = () => {
+    if (this.canvas) this.canvas.style.visibility = 'hidden';
+  };
+
+  // Cover the visible map again after a move or resize
+  private reset = () => {
+    const { map, canvas } = this;
+    if (!map || !canvas) return;
+
+    const size = map.getSize();
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.x * ratio);
+    canvas.height = Math.round(size.y * ratio);
+    canvas.style.width = `${size.x}px`;
+    canvas.style.height = `${size.y}px`;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+    canvas.style.visibility = '';
+    this.draw();
+  };
+
+  private scheduleDraw() {
+    cancelAnimationFrame(this.frame);
+    this.frame = requestAnimationFrame(() => this.draw());
+  }
+
+  private draw() {
+    const { map, canvas } = this;
+    const ctx = canvas?.getContext('2d');
+    if (!map || !canvas || !ctx) return;
+
+    const size = map.getSize();
+    const ratio = canvas.width / Math.max(1, size.x);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, size.x, size.y);
+
+    // World pixels of the sightings in and around the view
+    const zoom = map.getZoom();
+    const origin = map.project(map.containerPointToLatLng([0, 0]), zoom);
+    const bounds = map.getBounds().pad(0.25);
+    const world = new Float64Array(this.points.length * 2);
+    let length = 0;
+    for (const point of this.points) {
+      if (!bounds.contains(point)) continue;
+      const { x, y } = map.project(point, zoom);
+      world[length++] = x;
+      world[length++] = y;
+    }
+    if (length === 0) return;
+
+    if (this.mode === 'heatmap') {
+      this.drawHeatmap(ctx, world.subarray(0, length), origin, size);
+    } else {
+      this.drawHexagons(ctx, world.subarray(0, length), origin);
+    }
+  }
+
+  private drawHeatmap(ctx: CanvasRenderingContext2D, world: Float64Array, origin: L.Point, size: L.Point) {
+    const screen = new Float64Array(world.length);
+    for (let i = 0; i < world.length; i += 2) {
+      screen[i] = world[i] - origin.x;
+      screen[i + 1] = world[i + 1] - origin.y;
+    }
+
+    const grid = kernelDensity(screen, size.x, size.y, HEAT_CELL_SIZE, HEAT_RADIUS);
+    if (grid.max === 0) return;
+
+    // One pixel per cell, scaled up smoothly
+    const image = new ImageData(grid.columns, grid.rows);
+    for (let i = 0; i < grid.values.length; i++) {
+      image.data.set(densityColor(grid.values[i] / grid.max), i * 4);
+    }
+    const cells = document.createElement('canvas');
+    cells.width = grid.columns;
+    cells.height = grid.rows;
+    cells.getContext('2d')?.putImageData(image, 0, 0);
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(cells, 0, 0, grid.columns * HEAT_CELL_SIZE, grid.rows * HEAT_CELL_SIZE);
+  }
+
+  private drawHexagons(ctx: CanvasRenderingContext2D, world: Float64Array, origin: L.Point) {
+    const bins = hexBin(world, HEX_RADIUS);
+    const max = bins.reduce((most, bin) => Math.max(most, bin.count), 0);
+
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.font = 'bold 11px system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    for (const bin of bins) {
+      const x = bin.x - origin.x;
+      const y = bin.y - origin.y;
+      // Even a single sighting stays visible against the tiles
+      const [r, g, b] = densityColor(0.2 + 0.8 * bin.count / max);
+
+      ctx.beginPath();
+      hexagonCorners(x, y, HEX_RADIUS - 1).forEach(([cornerX, cornerY], index) => {
+        if (index === 0) ctx.moveTo(cornerX, cornerY);
+        else ctx.lineTo(cornerX, cornerY);
+      });
+      ctx.closePath();
+      ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.6)`;
+      ctx.fill();
+      ctx.stroke();
+
+      ctx.fillStyle = '#111827';
+      ctx.fillText(String(bin.count), x, y);
+    }
+  }
+}
@@ -2,14 +2,17 @@
  * EncounterInfoCard - Component for displaying encounter details with edit/delete actions
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import type { CatEncounter } from '../types';
 import { storageService } from '../services/StorageService';
+import { getEncounterPhotos, getCoverPhotoIndex } from '../models/CatEncounter';
+import { PhotoLightbox } from './PhotoLightbox';
 
 interface EncounterInfoCardProps {
   encounter: CatEncounter;
   onEdit: (encounter: CatEncounter) => void;
   onDelete: (encounter: CatEncounter) => void;
+  onShare?: (encounter: CatEncounter) => void;
   className?: string;
   photoUrl?: string | null;
 }
@@ -18,17 +21,20 @@ export function EncounterInfoCard({
   encounter,
   onEdit,
   onDelete,
+  onShare,
   className = '',
   photoUrl: initialPhotoUrl = null
 }: EncounterInfoCardProps) {
   const [photoUrl, setPhotoUrl] = useState<string | null>(initialPhotoUrl);
   const [isLoadingPhoto, setIsLoadingPhoto] = useState(false);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const photos = useMemo(() => getEncounterPhotos(encounter), [encounter]);
 
   // Load photo thumbnail if available and not already provided
   useEffect(() => {
     if (encounter.photoBlobId && !initialPhotoUrl) {
       setIsLoadingPhoto(true);
-      storageService.getPhoto(encounter.photoBlobId)
+      storageService.getThumbnail(encounter.photoBlobId)
         .then(blob => {
           if (blob) {
             const url = URL.createObjectURL(blob);
@@ -88,17 +94,41 @@ export function EncounterInfoCard({
               Loading...
             </div>
           ) : photoUrl ? (
-            <img 
-              src={photoUrl} 
-              alt="Cat encounter" 
-              style={{
-                width: '80px',
-                height: '80px',
-                objectFit: 'cover',
-                borderRadius: '4px',
-                border: '1px solid #ddd'
-              }}
-            />
+            <button
+              type="button"
+              onClick={() => setIsLightboxOpen(true)}
+              title={photos.length > 1 ? `View all ${photos.length} photos` : 'View photo'}
+              style={{ position: 'relative', padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+            >
+              <img 
+                src={photoUrl} 
+                alt="Cat encounter" 
+                style={{
+                  width: '80px',
+                  height: '80px',
+                  objectFit: 'cover',
+                  borderRadius: '4px',
+                  border: '1px solid #ddd'
+                }}
+              />
+              {photos.length > 1 && (
+                <span
+                  className="photo-count"
+                  style={{
+                    position: 'absolute',
+                    right: '4px',
+                    bottom: '4px',
+                    padding: '0 4px',
+                    borderRadius: '4px',
+                    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                    color: 'white',
+                    fontSize: '0.7rem'
+                  }}
+                >
+                  +{photos.length - 1}
+                </span>
+              )}
+            </button>
           ) : (
             <div 
               className="photo-error"
@@ -121,11 +151,19 @@ export function EncounterInfoCard({
         </div>
       )}
 
+      {isLightboxOpen && (
+        <PhotoLightbox
+          photos={photos}
+          initialIndex={Math.max(getCoverPhotoIndex(encounter), 0)}
+          onClose={() => setIsLightboxOpen(false)}
+        />
+      )}
+
       {/* Encounter details */}
       <div className="encounter-details">
         <div className="encounter-header mb-2">
           <h3 className="encounter-title" style={{ margin: 0, fontSize: '1.1rem' }}>
-            {encounter.catColor} {encounter.catType}
+            {encounter.isDraft ? 'Draft encounter' : `${encounter.catColor} ${encounter.catType}`}
           </h3>
           <div className="encounter-datetime" style={{ fontSize: '0.875rem', color: '#666' }}>
             {formattedDate} at {formattedTime}
@@ -166,6 +204,16 @@ export function EncounterInfoCard({
         >
           Edit
         </button>
+        {onShare && (
+          <button
+            type="button"
+            onClick={() => onShare(encounter)}
+            className="btn btn-secondary btn-sm"
+            style={{ flex: 1 }}
+          >
+            Share
+          </button>
+        )}
         <button
           type="button"
           onClick={() => onDelete(encounter)}
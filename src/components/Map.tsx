@@ -5,18 +5,21 @@ import 'leaflet/dist/leaflet.css';
 import 'leaflet.markercluster/dist/MarkerCluster.css';
 import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
 import 'leaflet.markercluster';
-import type { MapProps, CatEncounter } from '../types';
+import type { MapProps, CatEncounter, Colony } from '../types';
+import type { MapLayerMode } from '../utils/densityLayers';
 import { useUI } from '../hooks/useUI';
 import { useGeolocation } from '../hooks/useGeolocation';
 import { DeleteConfirmationDialog } from './DeleteConfirmationDialog';
 import { EncounterInfoCard } from './EncounterInfoCard';
 import { LocationButton } from './LocationButton';
+import { DensityLayer } from './DensityLayer';
 
 // Declare global window functions for popup buttons
 declare global {
   interface Window {
     editEncounter: (id: string) => void;
     deleteEncounter: (id: string) => void;
+    shareEncounter: (id: string) => void;
   }
 }
 
@@ -62,6 +65,20 @@ const createPawIcon = (color: string, isSelected: boolean = false) => {
   });
 };
 
+// Colony boundaries and the boundary being drawn
+const COLONY_COLOR = '#7c3aed';
+
+// Draggable corner of the boundary being drawn
+const createVertexIcon = (isMidpoint: boolean = false) => {
+  const size = isMidpoint ? 10 : 14;
+  return L.divIcon({
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:${isMidpoint ? 'rgba(255,255,255,0.7)' : '#fff'};border:2px solid ${COLONY_COLOR}"></div>`,
+    className: 'colony-vertex',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+};
+
 // Create user location marker icon
 const createUserLocationIcon = (accuracy?: number) => {
   const isHighAccuracy = accuracy && accuracy <= 50;
@@ -86,7 +103,16 @@ const createUserLocationIcon = (accuracy?: number) => {
 interface ExtendedMapProps extends MapProps {
   onEncounterEdit?: (encounter: CatEncounter) => void;
   onEncounterDelete?: (encounter: CatEncounter) => void;
+  onEncounterShare?: (encounter: CatEncounter) => void;
   photoUrls?: Record<string, string>;
+  colonies?: Colony[];
+  onColonySelect?: (colony: Colony) => void;
+  // While set, map clicks add corners to this boundary instead of selecting a location
+  editingBoundary?: [number, number][] | null;
+  onBoundaryChange?: (boundary: [number, number][]) => void;
+  // Heatmap and hex grid replace the markers, drawing densityEncounters or else encounters
+  layerMode?: MapLayerMode;
+  densityEncounters?: CatEncounter[];
 }
 
 
@@ -96,7 +122,14 @@ export const Map: FC<ExtendedMapProps> = ({
   onEncounterSelect,
   onEncounterEdit,
   onEncounterDelete,
+  onEncounterShare,
   photoUrls = {},
+  colonies = [],
+  onColonySelect,
+  editingBoundary = null,
+  onBoundaryChange,
+  layerMode = 'markers',
+  densityEncounters,
   center = [40.7128, -74.0060], // Default to NYC
   zoom = 13
 }) => {
@@ -104,6 +137,9 @@ export const Map: FC<ExtendedMapProps> = ({
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersRef = useRef<L.LayerGroup<L.Marker> | null>(null);
   const userLocationMarkerRef = useRef<L.Marker | null>(null);
+  const coloniesLayerRef = useRef<L.LayerGroup | null>(null);
+  const boundaryLayerRef = useRef<L.LayerGroup | null>(null);
+  const densityLayerRef = useRef<DensityLayer | null>(null);
   const { selectedEncounter } = useUI();
   const onLocationSelectRef = useRef(onLocationSelect);
 
@@ -115,6 +151,18 @@ export const Map: FC<ExtendedMapProps> = ({
   useEffect(() => {
     onEncounterSelectRef.current = onEncounterSelect;
   }, [onEncounterSelect]);
+  const onColonySelectRef = useRef(onColonySelect);
+
+  useEffect(() => {
+    onColonySelectRef.current = onColonySelect;
+  }, [onColonySelect]);
+  const editingBoundaryRef = useRef(editingBoundary);
+  const onBoundaryChangeRef = useRef(onBoundaryChange);
+
+  useEffect(() => {
+    editingBoundaryRef.current = editingBoundary;
+    onBoundaryChangeRef.current = onBoundaryChange;
+  }, [editingBoundary, onBoundaryChange]);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [encounterToDelete, setEncounterToDelete] = useState<CatEncounter | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -195,13 +243,14 @@ export const Map: FC<ExtendedMapProps> = ({
         encounter={encounter}
         onEdit={(enc) => window.editEncounter(enc.id)}
         onDelete={(enc) => window.deleteEncounter(enc.id)}
+        onShare={onEncounterShare ? (enc) => window.shareEncounter(enc.id) : undefined}
         className="map-popup-card"
         photoUrl={photoUrl}
       />
     );
 
     return container;
-  }, []);
+  }, [onEncounterShare]);
 
 
   // Initialize map
@@ -230,6 +279,12 @@ export const Map: FC<ExtendedMapProps> = ({
 
     map.addLayer(markers);
 
+    // Colonies sit below the markers; the boundary being drawn sits above them
+    const coloniesLayer = L.layerGroup();
+    const boundaryLayer = L.layerGroup();
+    map.addLayer(coloniesLayer);
+    map.addLayer(boundaryLayer);
+
     // Remove map move end handler to prevent re-render loops
     // map.on('moveend', handleMapMoveEnd);
 
@@ -239,6 +294,7 @@ export const Map: FC<ExtendedMapProps> = ({
 
     const handleMouseDown = (e: L.LeafletMouseEvent) => {
       longPressTriggered = false;
+      if (editingBoundaryRef.current) return;
       longPressTimer = setTimeout(() => {
         longPressTriggered = true;
         onLocationSelectRef.current(e.latlng.lat, e.latlng.lng);
@@ -247,7 +303,7 @@ export const Map: FC<ExtendedMapProps> = ({
 
     const handleTouchStart = (e: L.LeafletEvent) => {
       const touchEvent = e as L.LeafletMouseEvent; // Touch events have latlng in Leaflet
-      if (touchEvent.latlng) {
+      if (touchEvent.latlng && !editingBoundaryRef.current) {
         longPressTriggered = false;
         longPressTimer = setTimeout(() => {
           longPressTriggered = true;
@@ -269,7 +325,12 @@ export const Map: FC<ExtendedMapProps> = ({
       // Check if the click target is the map container itself (not a marker or other element)
       const target = e.originalEvent?.target as HTMLElement;
       const isMarkerClick = target.closest('.leaflet-marker-icon') || target.closest('.paw-marker');
-      if (!isMarkerClick) {
+      const boundary = editingBoundaryRef.current;
+      if (boundary) {
+        if (!isMarkerClick) {
+          onBoundaryChangeRef.current?.([...boundary, [e.latlng.lat, e.latlng.lng]]);
+        }
+      } else if (!isMarkerClick) {
         onLocationSelectRef.current(e.latlng.lat, e.latlng.lng);
       }
     };
@@ -281,11 +342,16 @@ export const Map: FC<ExtendedMapProps> = ({
 
     mapInstanceRef.current = map;
     markersRef.current = markers;
+    coloniesLayerRef.current = coloniesLayer;
+    boundaryLayerRef.current = boundaryLayer;
 
     return () => {
       map.remove();
       mapInstanceRef.current = null;
       markersRef.current = null;
+      coloniesLayerRef.current = null;
+      boundaryLayerRef.current = null;
+      densityLayerRef.current = null;
     };
     // The map should only be initialized once.
     // `center` and `zoom` are only used for the initial view.
@@ -430,6 +496,97 @@ export const Map: FC<ExtendedMapProps> = ({
     });
   }, [encounters, selectedEncounter, createPopupContent, photoUrls]);
 
+  // Swap the markers for a heatmap or hex grid of the same or filtered encounters
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const markers = markersRef.current;
+    if (!map || !markers) return;
+
+    if (layerMode === 'markers') {
+      densityLayerRef.current?.remove();
+      densityLayerRef.current = null;
+      if (!map.hasLayer(markers)) map.addLayer(markers);
+      return;
+    }
+
+    map.removeLayer(markers);
+    if (!densityLayerRef.current) {
+      densityLayerRef.current = new DensityLayer(layerMode).addTo(map);
+    }
+    densityLayerRef.current
+      .setMode(layerMode)
+      .setPoints((densityEncounters ?? encounters).map(encounter => [encounter.lat, encounter.lng]));
+  }, [layerMode, densityEncounters, encounters]);
+
+  // Draw colony boundaries; clicking one selects the colony
+  useEffect(() => {
+    const layer = coloniesLayerRef.current;
+    if (!layer) return;
+
+    layer.clearLayers();
+    colonies
+      .filter(colony => !colony.isDeleted)
+      .forEach(colony => {
+        const polygon = L.polygon(colony.boundary, {
+          color: COLONY_COLOR,
+          weight: 2,
+          fillOpacity: 0.1,
+          bubblingMouseEvents: false
+        });
+        polygon.bindTooltip(colony.name, { sticky: true });
+        polygon.on('click', (e: L.LeafletMouseEvent) => {
+          // While drawing, clicks inside another colony still add corners
+          const boundary = editingBoundaryRef.current;
+          if (boundary) {
+            onBoundaryChangeRef.current?.([...boundary, [e.latlng.lat, e.latlng.lng]]);
+          } else {
+            onColonySelectRef.current?.(colony);
+          }
+        });
+        layer.addLayer(polygon);
+      });
+  }, [colonies]);
+
+  // Draw the boundary being edited: drag a corner to move it, click it to remove it,
+  // and click a midpoint to add a corner between two others
+  useEffect(() => {
+    const layer = boundaryLayerRef.current;
+    const map = mapInstanceRef.current;
+    if (!layer || !map) return;
+
+    layer.clearLayers();
+    map.getContainer().style.cursor = editingBoundary ? 'crosshair' : '';
+    if (!editingBoundary) return;
+
+    const change = (boundary: [number, number][]) => onBoundaryChangeRef.current?.(boundary);
+    const shapeOptions = { color: COLONY_COLOR, weight: 2, dashArray: '6 4', interactive: false };
+    layer.addLayer(editingBoundary.length >= 3
+      ? L.polygon(editingBoundary, { ...shapeOptions, fillOpacity: 0.2 })
+      : L.polyline(editingBoundary, shapeOptions));
+
+    editingBoundary.forEach((point, index) => {
+      const vertex = L.marker(point, { icon: createVertexIcon(), draggable: true, bubblingMouseEvents: false });
+      vertex.on('dragend', () => {
+        const { lat, lng } = vertex.getLatLng();
+        change(editingBoundary.map((p, i): [number, number] => i === index ? [lat, lng] : p));
+      });
+      vertex.on('click', () => change(editingBoundary.filter((_, i) => i !== index)));
+      layer.addLayer(vertex);
+
+      // Midpoints only make sense once the shape is closed
+      if (editingBoundary.length < 3) return;
+      const next = editingBoundary[(index + 1) % editingBoundary.length];
+      const midpoint: [number, number] = [(point[0] + next[0]) / 2, (point[1] + next[1]) / 2];
+      const handle = L.marker(midpoint, { icon: createVertexIcon(true), bubblingMouseEvents: false });
+      handle.on('click', () => change([
+        ...editingBoundary.slice(0, index + 1),
+        midpoint,
+        ...editingBoundary.slice(index + 1)
+      ]));
+      layer.addLayer(handle);
+    });
+  }, [editingBoundary]);
+
   // Global functions for popup buttons
   useEffect(() => {
     window.editEncounter = (encounterId: string) => {
@@ -446,14 +603,22 @@ export const Map: FC<ExtendedMapProps> = ({
       }
     };
 
+    window.shareEncounter = (encounterId: string) => {
+      const encounter = encounters.find(e => e.id === encounterId);
+      if (encounter && onEncounterShare) {
+        onEncounterShare(encounter);
+      }
+    };
+
     return () => {
       // Remove the functions from the window object when the component unmounts
       // to prevent memory leaks and unexpected behavior.
       // No-op assignments are a safe way to handle this.
       window.editEncounter = () => { };
       window.deleteEncounter = () => { };
+      window.shareEncounter = () => { };
     };
-  }, [encounters, handleEncounterEdit, handleEncounterDelete]);
+  }, [encounters, handleEncounterEdit, handleEncounterDelete, onEncounterShare]);
 
 
 
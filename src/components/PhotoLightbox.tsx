@@ -0,0 +1,159 @@
+/**
+ * PhotoLightbox - Full-screen viewer for the photos of an encounter
+ * Swipe, use the arrow keys or the side buttons to move between photos.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import type { EncounterPhoto } from '../types';
+import { storageService } from '../services/StorageService';
+
+interface PhotoLightboxProps {
+  photos: EncounterPhoto[];
+  initialIndex?: number;
+  onClose: () => void;
+}
+
+// Horizontal travel in pixels that counts as a swipe
+const SWIPE_THRESHOLD = 50;
+
+const navButtonStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '50%',
+  transform: 'translateY(-50%)',
+  background: 'rgba(0, 0, 0, 0.5)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '50%',
+  width: '44px',
+  height: '44px',
+  fontSize: '1.5rem',
+  cursor: 'pointer'
+};
+
+export function PhotoLightbox({ photos, initialIndex = 0, onClose }: PhotoLightboxProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const [photoUrls, setPhotoUrls] = useState<Array<string | null>>([]);
+  const touchStartX = useRef<number | null>(null);
+
+  // Load every photo of the encounter; missing ones show as unavailable
+  useEffect(() => {
+    let cancelled = false;
+    const urls: Array<string | null> = [];
+
+    Promise.all(photos.map(photo => photo.blobId ? storageService.getPhoto(photo.blobId).catch(() => null) : null))
+      .then(blobs => {
+        if (cancelled) return;
+        blobs.forEach(blob => urls.push(blob ? URL.createObjectURL(blob) : null));
+        setPhotoUrls(urls);
+      });
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => url && URL.revokeObjectURL(url));
+    };
+  }, [photos]);
+
+  const showPrevious = () => setIndex(i => (i - 1 + photos.length) % photos.length);
+  const showNext = () => setIndex(i => (i + 1) % photos.length);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') setIndex(i => (i - 1 + photos.length) % photos.length);
+      if (e.key === 'ArrowRight') setIndex(i => (i + 1) % photos.length);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [photos.length, onClose]);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const distance = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (distance > SWIPE_THRESHOLD) showPrevious();
+    if (distance < -SWIPE_THRESHOLD) showNext();
+  };
+
+  const url = photoUrls[index];
+  const hasSeveral = photos.length > 1;
+
+  // Rendered into the body so map panes do not clip or transform it
+  return createPortal(
+    <div
+      className="photo-lightbox"
+      role="dialog"
+      aria-label="Encounter photos"
+      onClick={onClose}
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 2000,
+        backgroundColor: 'rgba(0, 0, 0, 0.9)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center'
+      }}
+    >
+      {url ? (
+        <img
+          src={url}
+          alt={`Cat encounter photo ${index + 1} of ${photos.length}`}
+          onClick={(e) => e.stopPropagation()}
+          style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
+        />
+      ) : (
+        <div style={{ color: '#ccc', fontSize: '0.875rem' }}>
+          {photoUrls.length === 0 ? 'Loading...' : 'Photo unavailable'}
+        </div>
+      )}
+
+      <button
+        type="button"
+        aria-label="Close"
+        onClick={onClose}
+        style={{ ...navButtonStyle, top: '1.5rem', right: '1rem', transform: 'none' }}
+      >
+        ×
+      </button>
+
+      {hasSeveral && (
+        <>
+          <button
+            type="button"
+            aria-label="Previous photo"
+            onClick={(e) => { e.stopPropagation(); showPrevious(); }}
+            style={{ ...navButtonStyle, left: '1rem' }}
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            aria-label="Next photo"
+            onClick={(e) => { e.stopPropagation(); showNext(); }}
+            style={{ ...navButtonStyle, right: '1rem' }}
+          >
+            ›
+          </button>
+          <div
+            style={{
+              position: 'absolute',
+              bottom: '1.5rem',
+              color: 'white',
+              fontSize: '0.875rem'
+            }}
+          >
+            {index + 1} / {photos.length}
+          </div>
+        </>
+      )}
+    </div>,
+    document.body
+  );
+}
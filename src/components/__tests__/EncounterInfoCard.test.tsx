@@ -13,7 +13,7 @@ import type { CatEncounter } from '../../types';
 // Mock the storage service
 vi.mock('../../services/StorageService', () => ({
   storageService: {
-    getPhoto: vi.fn()
+    getThumbnail: vi.fn()
   }
 }));
 
@@ -52,7 +52,7 @@ describe('EncounterInfoCard', () => {
   });
 
   it('renders encounter details correctly', () => {
-    mockStorageService.getPhoto.mockResolvedValue(null);
+    mockStorageService.getThumbnail.mockResolvedValue(null);
     
     render(<EncounterInfoCard {...defaultProps} />);
     
@@ -65,7 +65,7 @@ describe('EncounterInfoCard', () => {
 
   it('renders without comment when not provided', () => {
     const encounterWithoutComment = { ...mockEncounter, comment: undefined };
-    mockStorageService.getPhoto.mockResolvedValue(null);
+    mockStorageService.getThumbnail.mockResolvedValue(null);
     
     render(<EncounterInfoCard {...defaultProps} encounter={encounterWithoutComment} />);
     
@@ -83,7 +83,7 @@ describe('EncounterInfoCard', () => {
 
   it('loads and displays photo when photoBlobId is provided', async () => {
     const mockBlob = new Blob(['fake image data'], { type: 'image/jpeg' });
-    mockStorageService.getPhoto.mockResolvedValue(mockBlob);
+    mockStorageService.getThumbnail.mockResolvedValue(mockBlob);
 
     render(<EncounterInfoCard {...defaultProps} />);
     
@@ -95,12 +95,12 @@ describe('EncounterInfoCard', () => {
       expect(screen.getByAltText('Cat encounter')).toBeInTheDocument();
     });
     
-    expect(mockStorageService.getPhoto).toHaveBeenCalledWith('photo-123');
+    expect(mockStorageService.getThumbnail).toHaveBeenCalledWith('photo-123');
     expect(global.URL.createObjectURL).toHaveBeenCalledWith(mockBlob);
   });
 
   it('shows error state when photo fails to load', async () => {
-    mockStorageService.getPhoto.mockRejectedValue(new Error('Failed to load'));
+    mockStorageService.getThumbnail.mockRejectedValue(new Error('Failed to load'));
 
     render(<EncounterInfoCard {...defaultProps} />);
     
@@ -110,7 +110,7 @@ describe('EncounterInfoCard', () => {
   });
 
   it('shows error state when photo blob is null', async () => {
-    mockStorageService.getPhoto.mockResolvedValue(null);
+    mockStorageService.getThumbnail.mockResolvedValue(null);
 
     render(<EncounterInfoCard {...defaultProps} />);
     
@@ -120,7 +120,7 @@ describe('EncounterInfoCard', () => {
   });
 
   it('calls onEdit when edit button is clicked', () => {
-    mockStorageService.getPhoto.mockResolvedValue(null);
+    mockStorageService.getThumbnail.mockResolvedValue(null);
     
     render(<EncounterInfoCard {...defaultProps} />);
     
@@ -130,7 +130,7 @@ describe('EncounterInfoCard', () => {
   });
 
   it('calls onDelete when delete button is clicked', () => {
-    mockStorageService.getPhoto.mockResolvedValue(null);
+    mockStorageService.getThumbnail.mockResolvedValue(null);
     
     render(<EncounterInfoCard {...defaultProps} />);
     
@@ -140,7 +140,7 @@ describe('EncounterInfoCard', () => {
   });
 
   it('formats date and time correctly', () => {
-    mockStorageService.getPhoto.mockResolvedValue(null);
+    mockStorageService.getThumbnail.mockResolvedValue(null);
     
     render(<EncounterInfoCard {...defaultProps} />);
     
@@ -154,7 +154,7 @@ describe('EncounterInfoCard', () => {
   });
 
   it('applies custom className', () => {
-    mockStorageService.getPhoto.mockResolvedValue(null);
+    mockStorageService.getThumbnail.mockResolvedValue(null);
     
     const { container } = render(<EncounterInfoCard {...defaultProps} className="custom-class" />);
     
@@ -163,7 +163,7 @@ describe('EncounterInfoCard', () => {
 
   it('cleans up object URL on unmount', async () => {
     const mockBlob = new Blob(['fake image data'], { type: 'image/jpeg' });
-    mockStorageService.getPhoto.mockResolvedValue(mockBlob);
+    mockStorageService.getThumbnail.mockResolvedValue(mockBlob);
 
     const { unmount } = render(<EncounterInfoCard {...defaultProps} />);
     
@@ -2,7 +2,9 @@ import React from 'react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render } from '@testing-library/react';
 import '@testing-library/jest-dom';
+import L from 'leaflet';
 import { Map } from '../Map';
+import { DensityLayer } from '../DensityLayer';
 import { CatEncounter } from '../../types';
 import { AppProvider } from '../../context/AppContext';
 
@@ -11,15 +13,21 @@ vi.mock('leaflet', () => {
   const mockMap = {
     setView: vi.fn(),
     addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    hasLayer: vi.fn(() => true),
+    invalidateSize: vi.fn(),
+    getContainer: vi.fn(() => ({ style: {} })),
     on: vi.fn(),
     remove: vi.fn(),
     getCenter: vi.fn(() => ({ lat: 40.7128, lng: -74.0060 })),
     getZoom: vi.fn(() => 13)
   };
 
-  const mockMarker = vi.fn(() => ({
+  const mockMarker = vi.fn(([lat, lng]: [number, number], options: object) => ({
     bindPopup: vi.fn(),
-    on: vi.fn()
+    on: vi.fn(),
+    getLatLng: () => ({ lat, lng }),
+    options
   }));
 
   return {
@@ -32,10 +40,28 @@ vi.mock('leaflet', () => {
         clearLayers: vi.fn(),
         addLayer: vi.fn()
       })),
+      layerGroup: vi.fn(() => ({
+        clearLayers: vi.fn(),
+        addLayer: vi.fn(),
+        removeLayer: vi.fn()
+      })),
       marker: mockMarker,
       divIcon: vi.fn(() => ({})),
       DomEvent: {
         stopPropagation: vi.fn()
+      },
+      DomUtil: {
+        create: vi.fn((tagName: string) => document.createElement(tagName)),
+        setPosition: vi.fn()
+      },
+      Layer: class {
+        addTo(map: typeof mockMap) {
+          map.addLayer(this);
+          return this;
+        }
+        remove() {
+          return this;
+        }
       }
     }
   };
@@ -77,7 +103,7 @@ const mockEncounters: CatEncounter[] = [
 
 // Wrapper component for tests
 const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
-  <AppProvider>{children}</AppProvider>
+  <AppProvider showSnackbar={vi.fn()}>{children}</AppProvider>
 );
 
 describe('Map Component', () => {
@@ -170,4 +196,40 @@ describe('Map Component', () => {
     const mapContainer = document.querySelector('.map-container');
     expect(mapContainer).toBeTruthy();
   });
-});
\ No newline at end of file
+
+  it('swaps the markers for a density layer and back when layerMode changes', () => {
+    const removeDensityLayer = vi.spyOn(DensityLayer.prototype, 'remove');
+    // A stable center keeps the map from being rebuilt on rerender
+    const center: [number, number] = [40.7128, -74.0060];
+    const renderMap = (layerMode: 'markers' | 'heatmap' | 'hexbin') => (
+      <TestWrapper>
+        <Map
+          encounters={mockEncounters}
+          onLocationSelect={mockOnLocationSelect}
+          onEncounterSelect={mockOnEncounterSelect}
+          center={center}
+          layerMode={layerMode}
+        />
+      </TestWrapper>
+    );
+
+    const { rerender } = render(renderMap('markers'));
+    const map = vi.mocked(L.map).mock.results[0].value;
+    const markers = vi.mocked(L.layerGroup).mock.results[0].value;
+    const densityLayers = () => map.addLayer.mock.calls.filter(([layer]: [unknown]) => layer instanceof DensityLayer);
+    expect(densityLayers()).toHaveLength(0);
+
+    rerender(renderMap('heatmap'));
+    expect(map.removeLayer).toHaveBeenCalledWith(markers);
+    expect(densityLayers()).toHaveLength(1);
+
+    // Switching between density modes keeps the same layer
+    rerender(renderMap('hexbin'));
+    expect(densityLayers()).toHaveLength(1);
+    expect(removeDensityLayer).not.toHaveBeenCalled();
+
+    rerender(renderMap('markers'));
+    expect(removeDensityLayer).toHaveBeenCalledTimes(1);
+    removeDensityLayer.mockRestore();
+  });
+});
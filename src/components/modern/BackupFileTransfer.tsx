@@ -0,0 +1,105 @@
+/**
+ * Saves and restores a complete .catalog.zip backup file on this device
+ */
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { Archive, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ImportPreviewDialog } from './ImportPreviewDialog';
+import { useAppContext } from '@/hooks/useAppContext';
+import { storageService, type PendingImport } from '@/services/StorageService';
+import { BACKUP_ARCHIVE_EXTENSION } from '@/utils/backupFormat';
+import { downloadFile } from '@/utils/download';
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: Array<{ description: string; accept: Record<string, string[]> }>;
+}) => Promise<FileSystemFileHandle>;
+
+export function BackupFileTransfer() {
+  const { showSnackbar } = useAppContext();
+  const [isWorking, setIsWorking] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [restoreFileName, setRestoreFileName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleBackup = async () => {
+    const fileName = `cat-a-log-${new Date().toISOString().slice(0, 10)}${BACKUP_ARCHIVE_EXTENSION}`;
+    setIsWorking(true);
+    try {
+      // Where the browser can write files directly, stream the archive to disk
+      if ('showSaveFilePicker' in window) {
+        const showSaveFilePicker = (window as unknown as { showSaveFilePicker: SaveFilePicker }).showSaveFilePicker;
+        const handle = await showSaveFilePicker({
+          suggestedName: fileName,
+          types: [{ description: 'CAT-a-log backup', accept: { 'application/zip': [BACKUP_ARCHIVE_EXTENSION] } }]
+        });
+        await storageService.exportArchive().pipeTo(await handle.createWritable());
+      } else {
+        const blob = await new Response(storageService.exportArchive()).blob();
+        downloadFile([blob], fileName, 'application/zip');
+      }
+      showSnackbar('Backup saved', 'success');
+    } catch (error) {
+      // Closing the save dialog is not an error
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Backup failed:', error);
+        showSnackbar('Backup failed', 'error');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      // Backups from before zip archives are a single JSON file
+      const prepared = file.name.toLowerCase().endsWith('.json')
+        ? await storageService.prepareImportData(await file.text())
+        : await storageService.prepareImportArchive(file);
+      setRestoreFileName(file.name);
+      setPending(prepared);
+    } catch (error) {
+      console.error('Reading backup file failed:', error);
+      showSnackbar(error instanceof Error ? error.message : 'Restore failed', 'error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">Backup File</h4>
+      <p className="text-sm text-muted-foreground">
+        Save everything, photos included, to a {BACKUP_ARCHIVE_EXTENSION} file, or restore from one.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={handleBackup} disabled={isWorking} variant="outline" size="sm">
+          <Archive className="h-4 w-4 mr-2" />
+          {isWorking ? 'Working...' : 'Save Backup'}
+        </Button>
+        <Button onClick={() => fileInputRef.current?.click()} disabled={isWorking} variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Restore Backup
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,.json,application/zip"
+          onChange={handleRestore}
+          className="hidden"
+        />
+      </div>
+      <ImportPreviewDialog
+        pending={pending}
+        fileName={restoreFileName}
+        onOpenChange={(open) => !open && setPending(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Health history of a known cat, gathered from the health records of its encounters
+ */
+
+import { Activity, Baby, Scissors, Stethoscope, Syringe } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { useCats } from '@/hooks/useCats';
+import { getCatDisplayName } from '@/models/Cat';
+import { getTnrStatusLabel, type HealthTimelineEntry } from '@/models/CatEncounter';
+import type { Cat } from '@/types';
+
+const ENTRY_ICONS: Record<HealthTimelineEntry['kind'], typeof Syringe> = {
+  'tnr': Scissors,
+  'vaccination': Syringe,
+  'injury': Activity,
+  'pregnancy': Baby,
+  'vet-visit': Stethoscope
+};
+
+interface CatHealthTimelineProps {
+  cat: Cat | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CatHealthTimeline({ cat, onOpenChange }: CatHealthTimelineProps) {
+  const { getHealthTimelineForCat, getTnrStatusForCat } = useCats();
+
+  if (!cat) return null;
+
+  const timeline = getHealthTimelineForCat(cat.id);
+  const tnrStatus = getTnrStatusForCat(cat.id);
+
+  // Dates without a time are calendar dates, shown without a time zone shift
+  const formatDate = (date: string) => date.length === 10
+    ? new Date(`${date}T00:00:00`).toLocaleDateString()
+    : new Date(date).toLocaleDateString();
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{getCatDisplayName(cat)}</DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            Health history
+            <Badge variant={tnrStatus === 'intact' ? 'destructive' : 'secondary'}>
+              {getTnrStatusLabel(tnrStatus)}
+            </Badge>
+          </DialogDescription>
+        </DialogHeader>
+
+        {timeline.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No health information has been recorded at this cat's encounters yet.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <ol className="relative border-l ml-3 space-y-4 py-1">
+              {timeline.map((entry, index) => {
+                const Icon = ENTRY_ICONS[entry.kind];
+                return (
+                  <li key={`${entry.kind}-${entry.date}-${index}`} className="ml-5">
+                    <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted">
+                      <Icon className="h-3 w-3" />
+                    </span>
+                    <div className="text-xs text-muted-foreground">{formatDate(entry.date)}</div>
+                    <div className="text-sm font-medium">{entry.label}</div>
+                    {entry.details && <p className="text-sm text-muted-foreground">{entry.details}</p>}
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * A colony with its feeding schedule, caretaker notes, the known cats seen in it
+ * and its most recent sightings
+ */
+
+import { Clock, Pencil, Shapes, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { useColonies } from '@/hooks/useColonies';
+import { getCatDisplayName } from '@/models/Cat';
+import type { Cat, CatEncounter, Colony } from '@/types';
+
+// Sightings listed in the detail view; older ones stay on the map
+const RECENT_SIGHTINGS_LIMIT = 10;
+
+interface ColonyDetailProps {
+  colony: Colony | null;
+  onOpenChange: (open: boolean) => void;
+  onEditDetails: (colony: Colony) => void;
+  onEditBoundary: (colony: Colony) => void;
+  onDelete: (colony: Colony) => void;
+  onEncounterSelect: (encounter: CatEncounter) => void;
+  onCatSelect: (cat: Cat) => void;
+}
+
+export function ColonyDetail({
+  colony,
+  onOpenChange,
+  onEditDetails,
+  onEditBoundary,
+  onDelete,
+  onEncounterSelect,
+  onCatSelect
+}: ColonyDetailProps) {
+  const { getEncountersForColony, getCatsForColony } = useColonies();
+
+  if (!colony) return null;
+
+  const sightings = getEncountersForColony(colony.id);
+  const cats = getCatsForColony(colony.id);
+  const lastSeen = (catId: string) => sightings.find(encounter => encounter.catId === catId)?.dateTime;
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{colony.name}</DialogTitle>
+          <DialogDescription>
+            {sightings.length} sightings of {cats.length} known cats
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-4 text-sm pr-2">
+            {colony.feedingSchedule && (
+              <p className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                {colony.feedingSchedule}
+              </p>
+            )}
+            {colony.caretakerNotes && (
+              <p className="whitespace-pre-wrap text-muted-foreground">{colony.caretakerNotes}</p>
+            )}
+
+            <section className="space-y-2">
+              <h4 className="font-medium">Cats</h4>
+              {cats.length === 0 ? (
+                <p className="text-muted-foreground">No known cats have been seen here yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {cats.map(cat => (
+                    <button key={cat.id} type="button" onClick={() => onCatSelect(cat)}>
+                      <Badge variant="secondary" title={`Last seen ${new Date(lastSeen(cat.id)!).toLocaleDateString()}`}>
+                        {getCatDisplayName(cat)}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h4 className="font-medium">Recent Sightings</h4>
+              {sightings.length === 0 ? (
+                <p className="text-muted-foreground">No encounters inside this colony yet.</p>
+              ) : (
+                <ul className="divide-y border rounded-lg">
+                  {sightings.slice(0, RECENT_SIGHTINGS_LIMIT).map(encounter => (
+                    <li key={encounter.id}>
+                      <button
+                        type="button"
+                        className="w-full text-left px-3 py-2 hover:bg-muted"
+                        onClick={() => onEncounterSelect(encounter)}
+                      >
+                        <div className="font-medium capitalize">{encounter.catColor} {encounter.catType}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(encounter.dateTime).toLocaleString()} · {encounter.behavior}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onDelete(colony)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+          <Button variant="outline" onClick={() => onEditBoundary(colony)}>
+            <Shapes className="h-4 w-4 mr-2" />
+            Edit Boundary
+          </Button>
+          <Button onClick={() => onEditDetails(colony)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit Details
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Name, caretaker notes and feeding schedule of a colony
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import type { Colony } from '@/types';
+
+export type ColonyDetails = Pick<Colony, 'name' | 'caretakerNotes' | 'feedingSchedule'>;
+
+interface ColonyFormProps {
+  isOpen: boolean;
+  colony?: Colony;
+  onSave: (details: ColonyDetails) => void;
+  onCancel: () => void;
+}
+
+const TEXTAREA_CLASS = 'flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+export function ColonyForm({ isOpen, colony, onSave, onCancel }: ColonyFormProps) {
+  const [name, setName] = useState('');
+  const [feedingSchedule, setFeedingSchedule] = useState('');
+  const [caretakerNotes, setCaretakerNotes] = useState('');
+
+  // Start from the colony being edited, or blank for a new one
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(colony?.name ?? '');
+    setFeedingSchedule(colony?.feedingSchedule ?? '');
+    setCaretakerNotes(colony?.caretakerNotes ?? '');
+  }, [isOpen, colony]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({
+      name: name.trim(),
+      feedingSchedule: feedingSchedule.trim() || undefined,
+      caretakerNotes: caretakerNotes.trim() || undefined
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{colony ? 'Edit Colony' : 'New Colony'}</DialogTitle>
+            <DialogDescription>
+              Encounters inside the colony boundary are added to it automatically.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="colonyName">Name</Label>
+            <Input
+              id="colonyName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Harbor Street alley"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="colonyFeedingSchedule">Feeding Schedule</Label>
+            <Input
+              id="colonyFeedingSchedule"
+              value={feedingSchedule}
+              onChange={(e) => setFeedingSchedule(e.target.value)}
+              placeholder="e.g. Daily at 7am and 6pm"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="colonyCaretakerNotes">Caretaker Notes</Label>
+            <textarea
+              id="colonyCaretakerNotes"
+              value={caretakerNotes}
+              onChange={(e) => setCaretakerNotes(e.target.value)}
+              placeholder="Who feeds them, shelters, access..."
+              className={TEXTAREA_CLASS}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button type="submit" disabled={!name.trim()}>Save Colony</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
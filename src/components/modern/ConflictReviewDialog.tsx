@@ -0,0 +1,204 @@
+/**
+ * Side-by-side review of sync conflicts, one record at a time
+ */
+
+import { useEffect, useState } from 'react';
+import { Cloud, Smartphone, GitMerge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { useSyncConflicts } from '@/hooks/useSyncConflicts';
+import type { CatEncounter, Cat, Colony, Resolution, SyncConflict } from '@/types';
+
+interface ConflictReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: { [field: string]: string } = {
+  dateTime: 'Date & Time',
+  lat: 'Latitude',
+  lng: 'Longitude',
+  catColor: 'Color',
+  coatLength: 'Coat Length',
+  catType: 'Type',
+  behavior: 'Behavior',
+  comment: 'Comment',
+  catId: 'Known Cat',
+  photoDriveId: 'Photo',
+  photos: 'Photos',
+  name: 'Name',
+  nickname: 'Nickname',
+  distinguishingMarks: 'Distinguishing Marks',
+  notes: 'Notes',
+  profilePhotoDriveId: 'Profile Photo',
+  colonyId: 'Colony',
+  caretakerNotes: 'Caretaker Notes',
+  feedingSchedule: 'Feeding Schedule',
+  boundary: 'Boundary'
+};
+
+export function ConflictReviewDialog({ open, onOpenChange }: ConflictReviewDialogProps) {
+  const { conflicts, resolveConflict } = useSyncConflicts();
+  const [resolutions, setResolutions] = useState<{ [field: string]: Resolution }>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const conflict = conflicts[0];
+
+  // Start each record with no choices made
+  useEffect(() => {
+    setResolutions({});
+  }, [conflict?.id]);
+
+  const choose = (field: string, resolution: Resolution) => {
+    setResolutions(prev => ({ ...prev, [field]: resolution }));
+  };
+
+  const chooseAll = (action: 'use_local' | 'use_cloud') => {
+    if (!conflict) return;
+    setResolutions(Object.fromEntries(conflict.conflicts.map(c => [c.field, { action }])));
+  };
+
+  const isComplete = !!conflict && conflict.conflicts.every(c => resolutions[c.field]);
+
+  const handleApply = async () => {
+    if (!conflict || !isComplete) return;
+    setIsSaving(true);
+    try {
+      await resolveConflict(conflict.id, resolutions);
+      if (conflicts.length <= 1) {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Sync Conflicts</DialogTitle>
+          <DialogDescription>
+            {conflict
+              ? `${describeRecord(conflict)} was changed on this device and in the cloud. Choose which value to keep for each field. (${conflicts.length} left)`
+              : 'There are no conflicts to review.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+              <div className="flex items-center gap-1">
+                <Smartphone className="h-3 w-3" />
+                This device
+              </div>
+              <div className="flex items-center gap-1">
+                <Cloud className="h-3 w-3" />
+                Cloud
+              </div>
+            </div>
+
+            {conflict.conflicts.map(fieldConflict => {
+              const resolution = resolutions[fieldConflict.field];
+              const canCombine = typeof fieldConflict.localValue === 'string' && typeof fieldConflict.cloudValue === 'string';
+
+              return (
+                <div key={fieldConflict.field} className="space-y-2 rounded-lg border p-3">
+                  <div className="text-sm font-medium">{FIELD_LABELS[fieldConflict.field] ?? fieldConflict.field}</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      type="button"
+                      variant={resolution?.action === 'use_local' ? 'default' : 'outline'}
+                      className="h-auto whitespace-normal break-words text-left justify-start"
+                      onClick={() => choose(fieldConflict.field, { action: 'use_local' })}
+                    >
+                      {formatValue(fieldConflict.localValue)}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={resolution?.action === 'use_cloud' ? 'default' : 'outline'}
+                      className="h-auto whitespace-normal break-words text-left justify-start"
+                      onClick={() => choose(fieldConflict.field, { action: 'use_cloud' })}
+                    >
+                      {formatValue(fieldConflict.cloudValue)}
+                    </Button>
+                  </div>
+                  {fieldConflict.baseValue !== undefined && (
+                    <p className="text-xs text-muted-foreground">Before both edits: {formatValue(fieldConflict.baseValue)}</p>
+                  )}
+                  {canCombine && (
+                    resolution?.action === 'merge' ? (
+                      <Input
+                        aria-label={`Merged ${FIELD_LABELS[fieldConflict.field] ?? fieldConflict.field}`}
+                        value={String(resolution.mergedValue ?? '')}
+                        onChange={(e) => choose(fieldConflict.field, { action: 'merge', mergedValue: e.target.value })}
+                      />
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => choose(fieldConflict.field, {
+                          action: 'merge',
+                          mergedValue: `${fieldConflict.localValue} ${fieldConflict.cloudValue}`.trim()
+                        })}
+                      >
+                        <GitMerge className="h-4 w-4 mr-2" />
+                        Combine both
+                      </Button>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {conflict ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => chooseAll('use_local')}>Keep All Mine</Button>
+              <Button type="button" variant="outline" onClick={() => chooseAll('use_cloud')}>Use All Cloud</Button>
+              <Button type="button" onClick={handleApply} disabled={!isComplete || isSaving}>
+                {isSaving ? 'Saving...' : 'Apply'}
+              </Button>
+            </>
+          ) : (
+            <Button type="button" onClick={() => onOpenChange(false)}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function describeRecord(conflict: SyncConflict): string {
+  if (conflict.recordType === 'cat') {
+    return `Known cat "${(conflict.local as Cat).name}"`;
+  }
+  if (conflict.recordType === 'colony') {
+    return `Colony "${(conflict.local as Colony).name}"`;
+  }
+  const encounter = conflict.local as CatEncounter;
+  return `The ${encounter.catColor} ${encounter.catType} encounter from ${new Date(encounter.dateTime).toLocaleDateString()}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (typeof value === 'string') {
+    const date = /^\d{4}-\d{2}-\d{2}T/.test(value) ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date.toLocaleString() : value;
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
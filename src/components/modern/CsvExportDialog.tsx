@@ -0,0 +1,155 @@
+/**
+ * Exports encounters as a CSV spreadsheet with the columns and formats the user picks
+ */
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { useCats } from '@/hooks/useCats';
+import { useEncounters } from '@/hooks/useEncounters';
+import {
+  CSV_DATE_FORMATS,
+  DEFAULT_CSV_EXPORT_OPTIONS,
+  ENCOUNTER_CSV_FIELDS,
+  encountersToCsv,
+  type CsvDateFormat,
+  type EncounterCsvExportOptions
+} from '@/utils/encounterCsv';
+import type { CsvDelimiter } from '@/utils/csv';
+import { downloadFile } from '@/utils/download';
+
+const DELIMITERS: { delimiter: CsvDelimiter; label: string }[] = [
+  { delimiter: ',', label: 'Comma' },
+  { delimiter: ';', label: 'Semicolon' },
+  { delimiter: '\t', label: 'Tab' }
+];
+
+interface CsvExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CsvExportDialog({ open, onOpenChange }: CsvExportDialogProps) {
+  const { encounters } = useEncounters();
+  const { cats } = useCats();
+  const [options, setOptions] = useState<EncounterCsvExportOptions>(DEFAULT_CSV_EXPORT_OPTIONS);
+
+  const toggleField = (field: EncounterCsvExportOptions['fields'][number], checked: boolean) => {
+    setOptions(current => ({
+      ...current,
+      // Keep the columns in their standard order
+      fields: ENCOUNTER_CSV_FIELDS
+        .map(f => f.field)
+        .filter(f => f === field ? checked : current.fields.includes(f))
+    }));
+  };
+
+  const handleExport = () => {
+    const csv = encountersToCsv(encounters, cats, options);
+    // The BOM makes Excel read the file as UTF-8
+    downloadFile(['\uFEFF', csv], `cat-a-log-encounters-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv;charset=utf-8');
+    console.log(`Exported ${encounters.length} encounters to CSV`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Spreadsheet</DialogTitle>
+          <DialogDescription>
+            Download {encounters.length} encounters as a CSV file for Excel, Numbers or Google Sheets.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {ENCOUNTER_CSV_FIELDS.map(({ field, header }) => (
+                <label key={field} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={options.fields.includes(field)}
+                    onChange={(e) => toggleField(field, e.target.checked)}
+                  />
+                  {header}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="csvDateFormat">Date Format</Label>
+            <Select
+              value={options.dateFormat}
+              onValueChange={(value) => setOptions({ ...options, dateFormat: value as CsvDateFormat })}
+            >
+              <SelectTrigger id="csvDateFormat">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_DATE_FORMATS.map(({ format, label }) => (
+                  <SelectItem key={format} value={format}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="csvPrecision">Coordinate Decimals</Label>
+              <Select
+                value={String(options.coordinatePrecision)}
+                onValueChange={(value) => setOptions({ ...options, coordinatePrecision: Number(value) })}
+              >
+                <SelectTrigger id="csvPrecision">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[2, 3, 4, 5, 6].map(places => (
+                    <SelectItem key={places} value={String(places)}>{places}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="csvDelimiter">Separator</Label>
+              <Select
+                value={options.delimiter}
+                onValueChange={(value) => setOptions({ ...options, delimiter: value as CsvDelimiter })}
+              >
+                <SelectTrigger id="csvDelimiter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIMITERS.map(({ delimiter, label }) => (
+                    <SelectItem key={label} value={delimiter}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={options.fields.length === 0 || encounters.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
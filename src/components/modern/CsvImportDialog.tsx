@@ -0,0 +1,293 @@
+/**
+ * Imports encounters from a CSV spreadsheet in three steps:
+ * pick a file, match its columns to encounter fields, then review every row before importing
+ */
+
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import { AlertTriangle, CheckCircle2, Upload, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCats } from '@/hooks/useCats';
+import { storageService } from '@/services/StorageService';
+import { syncService } from '@/services/SyncService';
+import { parseCsv } from '@/utils/csv';
+import {
+  CSV_DATE_FORMATS,
+  ENCOUNTER_CSV_FIELDS,
+  IMPORTABLE_CSV_FIELDS,
+  REQUIRED_CSV_FIELDS,
+  csvRowsToEncounters,
+  guessColumnMapping,
+  isOwnCsvExport,
+  type CsvColumnMapping,
+  type CsvDateFormat,
+  type OptionField
+} from '@/utils/encounterCsv';
+
+type Step = 'file' | 'mapping' | 'preview';
+
+const NOT_MAPPED = 'none';
+
+const OPTION_LABELS: Record<OptionField, string> = {
+  catColor: 'color',
+  coatLength: 'coat length',
+  catType: 'type',
+  behavior: 'behavior'
+};
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CsvImportDialog({ open, onOpenChange }: CsvImportDialogProps) {
+  const { dispatch, showSnackbar } = useAppContext();
+  const { cats } = useCats();
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('ymd');
+  const [customOptions, setCustomOptions] = useState<Record<OptionField, string[]>>({
+    catColor: [], coatLength: [], catType: [], behavior: []
+  });
+  const [addUnknownValues, setAddUnknownValues] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setStep('file');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+
+    storageService.getPreferences()
+      .then(preferences => setCustomOptions({
+        catColor: preferences.customCatColors || [],
+        coatLength: preferences.customCoatLengths || [],
+        catType: preferences.customCatTypes || [],
+        behavior: preferences.customBehaviors || []
+      }))
+      .catch(error => console.error('Failed to load custom options:', error));
+  }, [open]);
+
+  const results = useMemo(
+    () => step === 'preview'
+      ? csvRowsToEncounters(rows, mapping, { dateFormat, cats, customOptions, fromOwnExport: isOwnCsvExport(headers) })
+      : [],
+    [step, headers, rows, mapping, dateFormat, cats, customOptions]
+  );
+  const validRows = results.filter(row => row.encounter);
+  const unknownValues = useMemo(() => {
+    const unique = new Map<string, { field: OptionField; value: string }>();
+    for (const row of results) {
+      if (!row.encounter) continue;
+      for (const unknown of row.unknownValues) {
+        unique.set(`${unknown.field}:${unknown.value.toLowerCase()}`, unknown);
+      }
+    }
+    return [...unique.values()];
+  }, [results]);
+
+  const missingRequired = REQUIRED_CSV_FIELDS.filter(field => mapping[field] === undefined);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const [headerRow = [], ...dataRows] = parseCsv(await file.text());
+      if (dataRows.length === 0) {
+        showSnackbar('The file has no rows to import', 'error');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Failed to read CSV file:', error);
+      showSnackbar('Failed to read the file', 'error');
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      if (addUnknownValues) {
+        for (const { field, value } of unknownValues) {
+          await storageService.addCustomOption(field, value);
+        }
+      }
+      await storageService.saveEncounters(validRows.map(row => row.encounter!));
+      dispatch({ type: 'SET_ENCOUNTERS', payload: await storageService.getEncounters() });
+      syncService.syncEncounter();
+
+      const skipped = results.length - validRows.length;
+      showSnackbar(`Imported ${validRows.length} encounters${skipped > 0 ? `, skipped ${skipped} rows with errors` : ''}`, 'success');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('CSV import failed:', error);
+      showSnackbar('Import failed', 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const fieldLabel = (field: string) => ENCOUNTER_CSV_FIELDS.find(f => f.field === field)?.header ?? field;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Spreadsheet</DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Choose a CSV file with one encounter per row and a header row.'}
+            {step === 'mapping' && `Match the columns in ${fileName} to encounter fields.`}
+            {step === 'preview' && `${validRows.length} of ${results.length} rows are ready to import.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <label className="flex flex-col items-center gap-2 p-8 border border-dashed rounded-lg cursor-pointer hover:bg-muted/50">
+            <Upload className="h-6 w-6 text-muted-foreground" />
+            <span className="text-sm">Choose CSV File</span>
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+          </label>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {IMPORTABLE_CSV_FIELDS.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`csvColumn-${field}`}>
+                    {fieldLabel(field)}{REQUIRED_CSV_FIELDS.includes(field) && ' *'}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) => setMapping({
+                      ...mapping,
+                      [field]: value === NOT_MAPPED ? undefined : Number(value)
+                    })}
+                  >
+                    <SelectTrigger id={`csvColumn-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="csvImportDateFormat">Dates In The File</Label>
+              <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as CsvDateFormat)}>
+                <SelectTrigger id="csvImportDateFormat">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CSV_DATE_FORMATS.map(({ format, label }) => (
+                    <SelectItem key={format} value={format}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">
+                Choose a column for: {missingRequired.map(fieldLabel).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <ScrollArea className="h-72 border rounded-lg">
+              <ul className="divide-y text-sm">
+                {results.map(row => (
+                  <li key={row.rowNumber} className="p-2 space-y-1">
+                    <div className="flex items-center gap-2">
+                      {row.encounter
+                        ? <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+                        : <XCircle className="h-4 w-4 text-destructive shrink-0" />}
+                      <span className="font-medium">Row {row.rowNumber}</span>
+                      {row.encounter && (
+                        <span className="text-muted-foreground truncate">
+                          {new Date(row.encounter.dateTime).toLocaleString()} · {row.encounter.catColor} {row.encounter.catType}
+                        </span>
+                      )}
+                    </div>
+                    {row.errors.map(error => (
+                      <p key={error} className="pl-6 text-destructive">{error}</p>
+                    ))}
+                    {row.warnings.map(warning => (
+                      <p key={warning} className="pl-6 text-muted-foreground flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3" /> {warning}
+                      </p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            {unknownValues.length > 0 && (
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={addUnknownValues}
+                  onChange={(e) => setAddUnknownValues(e.target.checked)}
+                />
+                <span>
+                  Add new values to my custom options:{' '}
+                  {unknownValues.map(({ field, value }) => `${value} (${OPTION_LABELS[field]})`).join(', ')}
+                </span>
+              </label>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('file')}>Back</Button>
+              <Button onClick={() => setStep('preview')} disabled={missingRequired.length > 0}>Preview</Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')}>Back</Button>
+              <Button onClick={handleImport} disabled={isImporting || validRows.length === 0}>
+                {isImporting ? 'Importing...' : `Import ${validRows.length} Encounters`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
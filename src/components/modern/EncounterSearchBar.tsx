@@ -0,0 +1,129 @@
+/**
+ * Search box for encounters, completing filter names and known values as you type
+ */
+
+import { useId, useMemo, useState, type KeyboardEvent } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { getSearchSuggestions, type SearchOptions } from '@/utils/encounterSearch';
+
+interface EncounterSearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  options: SearchOptions;
+  errors?: string[];
+  resultCount?: number;
+  className?: string;
+}
+
+export function EncounterSearchBar({ value, onChange, options, errors = [], resultCount, className }: EncounterSearchBarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listId = useId();
+
+  const suggestions = useMemo(() => getSearchSuggestions(value, options), [value, options]);
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  const handleChange = (next: string) => {
+    onChange(next);
+    setIsOpen(true);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      if (showSuggestions) {
+        event.preventDefault();
+        setIsOpen(false);
+      }
+      return;
+    }
+    if (!showSuggestions) {
+      if (event.key === 'ArrowDown') setIsOpen(true);
+      return;
+    }
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if ((event.key === 'Enter' || event.key === 'Tab') && activeIndex >= 0) {
+      event.preventDefault();
+      handleChange(suggestions[activeIndex].query);
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        role="combobox"
+        aria-label="Search encounters"
+        aria-expanded={showSuggestions}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        placeholder='Search, e.g. color:black near:500m has:photo'
+        value={value}
+        onChange={event => handleChange(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        className="h-9 pl-9 pr-9"
+        autoComplete="off"
+        spellCheck={false}
+      />
+      {value && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="absolute right-0.5 top-1/2 h-8 w-8 -translate-y-1/2"
+          onClick={() => handleChange('')}
+          aria-label="Clear search"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+
+      {showSuggestions && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-50 mt-1 max-h-64 overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.query}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5",
+                index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+              )}
+              onMouseDown={event => event.preventDefault()}
+              onClick={() => handleChange(suggestion.query)}
+            >
+              <span className="font-mono text-xs">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="truncate text-xs text-muted-foreground">{suggestion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {value.trim() && !showSuggestions && (errors.length > 0 || resultCount !== undefined) && (
+        <p className={cn(
+          "absolute left-0 top-full mt-1 rounded bg-background/90 px-2 py-0.5 text-xs shadow-sm backdrop-blur",
+          errors.length > 0 ? "text-destructive" : "text-muted-foreground"
+        )}>
+          {errors.length > 0 ? errors.join('; ') : `${resultCount} matching encounter${resultCount === 1 ? '' : 's'}`}
+        </p>
+      )}
+    </div>
+  );
+}
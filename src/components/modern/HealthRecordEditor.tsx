@@ -0,0 +1,165 @@
+/**
+ * Form fields for the health sub-record of an encounter: TNR status, injuries,
+ * pregnancy, vaccinations and vet visits
+ */
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TNR_STATUSES } from '@/models/CatEncounter';
+import type { EncounterHealth, TnrStatus } from '@/types';
+
+interface HealthRecordEditorProps {
+  value: EncounterHealth;
+  onChange: (health: EncounterHealth) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function HealthRecordEditor({ value, onChange }: HealthRecordEditorProps) {
+  const vaccinations = value.vaccinations ?? [];
+  const vetVisits = value.vetVisits ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>TNR Status</Label>
+        <Select
+          value={value.tnrStatus ?? 'unknown'}
+          onValueChange={(tnrStatus) => onChange({ ...value, tnrStatus: tnrStatus as TnrStatus })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TNR_STATUSES.map(({ status, label }) => (
+              <SelectItem key={status} value={status}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="healthInjuries">Injuries</Label>
+        <Input
+          id="healthInjuries"
+          value={value.injuries ?? ''}
+          onChange={(e) => onChange({ ...value, injuries: e.target.value })}
+          placeholder="e.g. Limping on front left leg"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={!!value.pregnant}
+          onChange={(e) => onChange({ ...value, pregnant: e.target.checked })}
+        />
+        Pregnant
+      </label>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Vaccinations</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, vaccinations: [...vaccinations, { name: '', date: today() }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />Add
+          </Button>
+        </div>
+        {vaccinations.map((vaccination, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              value={vaccination.name}
+              onChange={(e) => onChange({
+                ...value,
+                vaccinations: vaccinations.map((v, i) => i === index ? { ...v, name: e.target.value } : v)
+              })}
+              placeholder="Rabies, FVRCP..."
+              aria-label="Vaccine"
+            />
+            <Input
+              type="date"
+              className="w-40"
+              value={vaccination.date}
+              onChange={(e) => onChange({
+                ...value,
+                vaccinations: vaccinations.map((v, i) => i === index ? { ...v, date: e.target.value } : v)
+              })}
+              aria-label="Vaccination date"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange({ ...value, vaccinations: vaccinations.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Vet Visits</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, vetVisits: [...vetVisits, { date: today(), reason: '' }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />Add
+          </Button>
+        </div>
+        {vetVisits.map((visit, index) => (
+          <div key={index} className="space-y-2 rounded-lg border p-2">
+            <div className="flex gap-2">
+              <Input
+                value={visit.reason}
+                onChange={(e) => onChange({
+                  ...value,
+                  vetVisits: vetVisits.map((v, i) => i === index ? { ...v, reason: e.target.value } : v)
+                })}
+                placeholder="Reason, e.g. Spay surgery"
+                aria-label="Visit reason"
+              />
+              <Input
+                type="date"
+                className="w-40"
+                value={visit.date}
+                onChange={(e) => onChange({
+                  ...value,
+                  vetVisits: vetVisits.map((v, i) => i === index ? { ...v, date: e.target.value } : v)
+                })}
+                aria-label="Visit date"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...value, vetVisits: vetVisits.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Input
+              value={visit.notes ?? ''}
+              onChange={(e) => onChange({
+                ...value,
+                vetVisits: vetVisits.map((v, i) => i === index ? { ...v, notes: e.target.value } : v)
+              })}
+              placeholder="Notes (optional)"
+              aria-label="Visit notes"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
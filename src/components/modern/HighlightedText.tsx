@@ -0,0 +1,23 @@
+/**
+ * Text with the parts matching a search marked
+ */
+
+import { splitHighlights } from '@/utils/encounterSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: string[];
+}
+
+export function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+  if (terms.length === 0) return <>{text}</>;
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, index) => part.match ? (
+        <mark key={index} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40">{part.text}</mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      ))}
+    </>
+  );
+}
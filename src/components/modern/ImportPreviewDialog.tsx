@@ -0,0 +1,291 @@
+/**
+ * Shows what restoring a backup file would change before anything is written:
+ * new, updated, unchanged, older and invalid records, each of which can be ticked or left out
+ */
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { useAppContext } from '@/hooks/useAppContext';
+import { getCatDisplayName } from '@/models/Cat';
+import { storageService, type PendingImport } from '@/services/StorageService';
+import { syncService } from '@/services/SyncService';
+import {
+  IMPORT_RECORD_STATUSES,
+  isSelectedByDefault,
+  type ImportRecordPreview,
+  type ImportSummary
+} from '@/utils/dataTransform';
+import type { Cat, CatEncounter, Colony } from '@/types';
+
+interface ImportPreviewDialogProps {
+  pending: PendingImport | null;
+  fileName: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImportPreviewDialog({ pending, fileName, onOpenChange }: ImportPreviewDialogProps) {
+  const { dispatch, showSnackbar } = useAppContext();
+  const [encounterIds, setEncounterIds] = useState<Set<string>>(new Set());
+  const [catIds, setCatIds] = useState<Set<string>>(new Set());
+  const [colonyIds, setColonyIds] = useState<Set<string>>(new Set());
+  const [settings, setSettings] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Start from the default selection for each file
+  useEffect(() => {
+    if (!pending) return;
+    const { preview } = pending;
+    setEncounterIds(new Set(preview.encounters.filter(isSelectedByDefault).map(({ record }) => record.id)));
+    setCatIds(new Set(preview.cats.filter(isSelectedByDefault).map(({ record }) => record.id)));
+    setColonyIds(new Set(preview.colonies.filter(isSelectedByDefault).map(({ record }) => record.id)));
+    setSettings(preview.hasSettings);
+    setSummary(null);
+  }, [pending]);
+
+  if (!pending) return null;
+  const { preview } = pending;
+  const selectedCount = encounterIds.size + catIds.size + colonyIds.size;
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const result = await storageService.applyImport(pending, {
+        encounterIds: [...encounterIds],
+        catIds: [...catIds],
+        colonyIds: [...colonyIds],
+        settings
+      });
+      dispatch({ type: 'SET_ENCOUNTERS', payload: await storageService.getEncounters() });
+      dispatch({ type: 'SET_CATS', payload: await storageService.getCats() });
+      dispatch({ type: 'SET_COLONIES', payload: await storageService.getColonies() });
+      if (result.settings) {
+        dispatch({ type: 'SET_USER_PREFERENCES', payload: await storageService.getPreferences() });
+      }
+      syncService.syncEncounter();
+      // Restored photos are shown full size until their thumbnails are made
+      storageService.backfillThumbnails().catch(error => console.error('Failed to make photo thumbnails:', error));
+      setSummary(result);
+    } catch (error) {
+      console.error('Applying import failed:', error);
+      showSnackbar(error instanceof Error ? error.message : 'Import failed', 'error');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const describeEncounter = (encounter: CatEncounter) =>
+    `${new Date(encounter.dateTime).toLocaleString()} · ${encounter.catColor} ${encounter.catType}`;
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{summary ? 'Import Complete' : 'Review Import'}</DialogTitle>
+          <DialogDescription>
+            {summary
+              ? `From ${fileName}`
+              : `${fileName} has ${preview.encounters.length + preview.invalidEncounters.length} encounters, ` +
+                `${preview.cats.length + preview.invalidCats.length} cats, ` +
+                `${preview.colonies.length + preview.invalidColonies.length} colonies and ${preview.photoCount} photos ` +
+                `(${preview.newPhotoCount} not on this device yet).`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary ? (
+          <ul className="space-y-1 text-sm">
+            <li className="flex items-center gap-2">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              {summary.encounters} encounters, {summary.cats} cats and {summary.colonies} colonies imported
+            </li>
+            <li className="flex items-center gap-2">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              {summary.photos} photos saved
+            </li>
+            {summary.settings && (
+              <li className="flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                Settings restored
+              </li>
+            )}
+            {summary.skipped > 0 && (
+              <li className="flex items-center gap-2 text-muted-foreground">
+                <XCircle className="h-4 w-4" />
+                {summary.skipped} records left as they were
+              </li>
+            )}
+          </ul>
+        ) : (
+          <div className="space-y-3">
+            {preview.warnings.map(warning => (
+              <p key={warning} className="text-sm text-muted-foreground flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" /> {warning}
+              </p>
+            ))}
+
+            <ScrollArea className="h-80 border rounded-lg">
+              <div className="p-2 space-y-4 text-sm">
+                <RecordSection
+                  title="Encounters"
+                  records={preview.encounters}
+                  invalid={preview.invalidEncounters}
+                  selected={encounterIds}
+                  onSelectedChange={setEncounterIds}
+                  describe={describeEncounter}
+                />
+                <RecordSection
+                  title="Cats"
+                  records={preview.cats}
+                  invalid={preview.invalidCats}
+                  selected={catIds}
+                  onSelectedChange={setCatIds}
+                  describe={getCatDisplayName}
+                />
+                <RecordSection
+                  title="Colonies"
+                  records={preview.colonies}
+                  invalid={preview.invalidColonies}
+                  selected={colonyIds}
+                  onSelectedChange={setColonyIds}
+                  describe={(colony: Colony) => colony.name}
+                />
+              </div>
+            </ScrollArea>
+
+            {preview.hasSettings && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={settings} onChange={(e) => setSettings(e.target.checked)} />
+                Replace settings and sync status with the ones in the backup
+              </label>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Older records you tick replace the copy on this device and are saved as the latest version.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {summary ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={handleApply} disabled={isApplying || (selectedCount === 0 && !settings)}>
+                {isApplying ? 'Importing...' : `Import ${selectedCount} Records`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RecordSectionProps<T extends CatEncounter | Cat | Colony> {
+  title: string;
+  records: ImportRecordPreview<T>[];
+  invalid: Array<{ data: unknown; errors: string[] }>;
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  describe: (record: T) => string;
+}
+
+/**
+ * Records of one type grouped by status, with a tick box per record and per group
+ */
+function RecordSection<T extends CatEncounter | Cat | Colony>({
+  title,
+  records,
+  invalid,
+  selected,
+  onSelectedChange,
+  describe
+}: RecordSectionProps<T>) {
+  if (records.length === 0 && invalid.length === 0) return null;
+
+  const toggle = (ids: string[], checked: boolean) => {
+    const next = new Set(selected);
+    ids.forEach(id => checked ? next.add(id) : next.delete(id));
+    onSelectedChange(next);
+  };
+
+  return (
+    <section className="space-y-2">
+      <h4 className="font-medium">{title}</h4>
+      {IMPORT_RECORD_STATUSES.map(({ status, label }) => {
+        const group = records.filter(preview => preview.status === status);
+        if (group.length === 0) return null;
+        const ids = group.map(({ record }) => record.id);
+        // Unchanged records would write nothing
+        const selectable = status !== 'unchanged';
+
+        return (
+          <details key={status} open={status !== 'unchanged'}>
+            <summary className="cursor-pointer select-none">
+              <label className="inline-flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                {selectable && (
+                  <input
+                    type="checkbox"
+                    checked={ids.every(id => selected.has(id))}
+                    onChange={(e) => toggle(ids, e.target.checked)}
+                  />
+                )}
+                {label} ({group.length})
+              </label>
+            </summary>
+            <ul className="pl-6 divide-y">
+              {group.map(({ record, changes }) => (
+                <li key={record.id} className="py-1 space-y-1">
+                  <label className="flex items-center gap-2">
+                    {selectable && (
+                      <input
+                        type="checkbox"
+                        checked={selected.has(record.id)}
+                        onChange={(e) => toggle([record.id], e.target.checked)}
+                      />
+                    )}
+                    <span className="truncate">{describe(record)}</span>
+                  </label>
+                  {changes.map(change => (
+                    <p key={change.field} className="pl-6 text-xs text-muted-foreground truncate">
+                      {change.field}: {formatValue(change.localValue)} → {formatValue(change.cloudValue)}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </details>
+        );
+      })}
+      {invalid.length > 0 && (
+        <details>
+          <summary className="cursor-pointer select-none text-destructive">Invalid ({invalid.length})</summary>
+          <ul className="pl-6 divide-y">
+            {invalid.map(({ errors }, index) => (
+              <li key={index} className="py-1">
+                {errors.map(error => (
+                  <p key={error} className="text-destructive">{error}</p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </section>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,117 @@
+/**
+ * Exports encounters to, and imports them from, GeoJSON, KML and GPX files
+ */
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { Map as MapIcon, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useCats } from '@/hooks/useCats';
+import { useEncounters } from '@/hooks/useEncounters';
+import { storageService } from '@/services/StorageService';
+import { syncService } from '@/services/SyncService';
+import {
+  GEO_FORMATS,
+  createGeoJsonExport,
+  createGpxExport,
+  createKmlExport,
+  parseGeoImport,
+  type GeoFormat
+} from '@/utils/dataTransform';
+import { downloadFile } from '@/utils/download';
+
+const EXPORTERS = {
+  geojson: createGeoJsonExport,
+  kml: createKmlExport,
+  gpx: createGpxExport
+};
+
+export function MapFileTransfer() {
+  const { dispatch, showSnackbar } = useAppContext();
+  const { encounters } = useEncounters();
+  const { cats } = useCats();
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (format: GeoFormat) => {
+    const { extension, mimeType } = GEO_FORMATS[format];
+    downloadFile(
+      [EXPORTERS[format](encounters, cats)],
+      `cat-a-log-encounters-${new Date().toISOString().slice(0, 10)}.${extension}`,
+      mimeType
+    );
+    console.log(`Exported ${encounters.length} encounters to ${GEO_FORMATS[format].label}`);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const result = parseGeoImport(await file.text());
+      const { label } = GEO_FORMATS[result.format];
+      result.warnings.forEach(warning => console.warn(`${label} import:`, warning));
+      result.invalidEncounters.forEach(({ errors }) => console.warn(`${label} import:`, errors.join('; ')));
+
+      if (result.validEncounters.length === 0) {
+        showSnackbar(`No encounters found in the ${label} file`, 'error');
+        return;
+      }
+      const skipped = result.invalidEncounters.length;
+      if (skipped > 0 && !confirm(`${skipped} point(s) in the ${label} file are missing encounter details and will be skipped. Import the other ${result.validEncounters.length}?`)) {
+        return;
+      }
+
+      const imported = await storageService.importEncounters(result.validEncounters);
+      dispatch({ type: 'SET_ENCOUNTERS', payload: await storageService.getEncounters() });
+      syncService.syncEncounter();
+      showSnackbar(`Imported ${imported} encounters from ${label}`, 'success');
+    } catch (error) {
+      console.error('Map file import failed:', error);
+      showSnackbar(error instanceof Error ? error.message : 'Import failed', 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">Map Formats</h4>
+      <p className="text-sm text-muted-foreground">
+        Open your encounters in QGIS, Google Earth or a GPS app, or bring points back in.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(GEO_FORMATS) as GeoFormat[]).map(format => (
+          <Button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={encounters.length === 0}
+            variant="outline"
+            size="sm"
+          >
+            <MapIcon className="h-4 w-4 mr-2" />
+            Export {GEO_FORMATS[format].label}
+          </Button>
+        ))}
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          variant="outline"
+          size="sm"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {isImporting ? 'Importing...' : 'Import Map File'}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,.kml,.gpx"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * Map layer picker: markers, a heatmap or a hexagon grid, with the time range and
+ * attribute the density layers are narrowed to
+ */
+
+import { useMemo, useState } from 'react';
+import { Layers, MapPin, Flame, Hexagon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { CatEncounter } from '@/types';
+import { countByField, type StatsField } from '@/utils/encounterStats';
+import {
+  DENSITY_TIME_RANGES,
+  densityColor,
+  type DensityFilter,
+  type DensityTimeRange,
+  type MapLayerMode
+} from '@/utils/densityLayers';
+
+interface MapLayerControlsProps {
+  mode: MapLayerMode;
+  filter: DensityFilter;
+  encounters: CatEncounter[];    // Offered as attribute values
+  shownCount: number;            // Encounters drawn by the density layer
+  onModeChange: (mode: MapLayerMode) => void;
+  onFilterChange: (filter: DensityFilter) => void;
+}
+
+const MODES = [
+  { mode: 'markers', label: 'Markers', icon: MapPin },
+  { mode: 'heatmap', label: 'Heatmap', icon: Flame },
+  { mode: 'hexbin', label: 'Hex grid', icon: Hexagon }
+] as const;
+
+const FIELDS: Array<{ field: StatsField; label: string }> = [
+  { field: 'catColor', label: 'Color' },
+  { field: 'coatLength', label: 'Coat' },
+  { field: 'catType', label: 'Type' },
+  { field: 'behavior', label: 'Behavior' }
+];
+
+// Select items cannot have an empty value
+const ANY = 'any';
+
+// Same colors the layers are drawn with, from fewest to most sightings
+const LEGEND_GRADIENT = `linear-gradient(to right, ${[0.2, 0.4, 0.6, 0.8, 1]
+  .map(t => `rgb(${densityColor(t).slice(0, 3).join(', ')})`)
+  .join(', ')})`;
+
+export function MapLayerControls({ mode, filter, encounters, shownCount, onModeChange, onFilterChange }: MapLayerControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const values = useMemo(
+    () => filter.field
+      ? countByField(encounters.filter(encounter => encounter[filter.field!]?.trim()), filter.field)
+      : [],
+    [encounters, filter.field]
+  );
+
+  return (
+    <>
+      <Button
+        variant={mode !== 'markers' ? 'default' : 'secondary'}
+        size="sm"
+        className="shadow"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <Layers className="h-4 w-4 mr-2" />
+        Layers
+      </Button>
+
+      {isOpen && (
+        <Card className="w-64 shadow-lg">
+          <CardContent className="space-y-3 p-3">
+            <div className="grid grid-cols-3 gap-1 rounded-md border p-0.5" role="group" aria-label="Map layer">
+              {MODES.map(({ mode: option, label, icon: Icon }) => (
+                <Button
+                  key={option}
+                  variant="ghost"
+                  size="sm"
+                  className={cn("h-auto flex-col gap-1 px-1 py-1.5 text-xs", mode === option && "bg-accent")}
+                  aria-pressed={mode === option}
+                  onClick={() => onModeChange(option)}
+                >
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </Button>
+              ))}
+            </div>
+
+            {mode !== 'markers' && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="densityRange" className="text-xs">Time range</Label>
+                  <Select
+                    value={filter.range}
+                    onValueChange={(value) => onFilterChange({ ...filter, range: value as DensityTimeRange })}
+                  >
+                    <SelectTrigger id="densityRange" className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DENSITY_TIME_RANGES.map(({ range, label }) => (
+                        <SelectItem key={range} value={range}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="densityField" className="text-xs">Attribute</Label>
+                    <Select
+                      value={filter.field ?? ANY}
+                      onValueChange={(value) => onFilterChange({
+                        range: filter.range,
+                        field: value === ANY ? undefined : value as StatsField
+                      })}
+                    >
+                      <SelectTrigger id="densityField" className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any</SelectItem>
+                        {FIELDS.map(({ field, label }) => (
+                          <SelectItem key={field} value={field}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label htmlFor="densityValue" className="text-xs">Value</Label>
+                    <Select
+                      value={filter.value ?? ANY}
+                      disabled={!filter.field}
+                      onValueChange={(value) => onFilterChange({ ...filter, value: value === ANY ? undefined : value })}
+                    >
+                      <SelectTrigger id="densityValue" className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any</SelectItem>
+                        {values.map(({ label, count }) => (
+                          <SelectItem key={label} value={label}>{`${label} (${count})`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <div className="h-2 rounded-full" style={{ background: LEGEND_GRADIENT }} />
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>Fewer</span>
+                    <span>{`${shownCount} encounter${shownCount === 1 ? '' : 's'}`}</span>
+                    <span>More</span>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -2,24 +2,64 @@
  * Modern App component using shadcn/ui
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { Plus, Heart, Camera, Trash2 } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Plus, Heart, Camera, Trash2, Hexagon, Undo2, X, Check, Scissors, Images } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
 
 import { ModernEncounterWizard } from './ModernEncounterWizard';
 import { ModernSettings } from './ModernSettings';
 import { ModernEncounterCard } from './ModernEncounterCard';
 import { ModernBottomNav } from './ModernBottomNav';
+import { ShareDialog } from './ShareDialog';
+import { ColonyForm, type ColonyDetails } from './ColonyForm';
+import { ColonyDetail } from './ColonyDetail';
+import { CatHealthTimeline } from './CatHealthTimeline';
+import { EncounterSearchBar } from './EncounterSearchBar';
+import { SavedFilterChips } from './SavedFilterChips';
+import { SavedFilterForm, type SavedFilterDetails } from './SavedFilterForm';
+import { StatsDashboard } from './StatsDashboard';
+import { MapLayerControls } from './MapLayerControls';
+import { HighlightedText } from './HighlightedText';
 import { Map } from '@/components/Map';
 import WelcomeModal from './WelcomeModal';
 import { useEncounters } from '@/hooks/useEncounters';
+import { useCats } from '@/hooks/useCats';
+import { useColonies } from '@/hooks/useColonies';
 import { useUI } from '@/hooks/useUI';
 import { useUser } from '@/hooks/useUser';
+import { useSyncProvider } from '@/hooks/useSyncProvider';
 import { useOfflineStatus } from '@/hooks/useOfflineStatus';
-import type { CatEncounter } from '@/types';
+import { useGeolocation } from '@/hooks/useGeolocation';
+import type { CatEncounter, Colony, SavedFilter } from '@/types';
 import { storageService } from '@/services/StorageService';
+import { getCatDisplayName } from '@/models/Cat';
+import { createColony, MIN_BOUNDARY_POINTS } from '@/models/Colony';
+import { createSavedFilter, getActiveSavedFilters } from '@/models/SavedFilter';
+import { getCurrentTimestamp } from '@/utils/dataUtils';
+import {
+  getEncountersNeedingTnr,
+  getEncounterPhotos,
+  CAT_COLORS,
+  COAT_LENGTHS,
+  CAT_TYPES,
+  BEHAVIOR_PRESETS
+} from '@/models/CatEncounter';
+import {
+  parseSearchQuery,
+  filterEncounters,
+  getHighlightTerms,
+  getFreeText,
+  usesDistance,
+  type SearchContext,
+  type SearchOptions
+} from '@/utils/encounterSearch';
+import { filterDensityEncounters, type DensityFilter, type MapLayerMode } from '@/utils/densityLayers';
+
+// Pause in typing before free text is looked up in the search index
+const SEARCH_DELAY_MS = 150;
 
 export function ModernApp() {
   const { isOffline } = useOfflineStatus();
@@ -30,6 +70,9 @@ export function ModernApp() {
     deleteEncounter
   } = useEncounters();
 
+  const { cats, getCatById } = useCats();
+  const { colonies, getColonyById, addColony, updateColony, deleteColony } = useColonies();
+
   const {
     mapCenter,
     mapZoom,
@@ -40,23 +83,143 @@ export function ModernApp() {
     selectEncounter
   } = useUI();
 
-  const { preferences, restoreGoogleToken } = useUser();
+  const { preferences, updatePreferences, restoreGoogleToken } = useUser();
+  const { restoreSyncProvider } = useSyncProvider();
+  const { getCurrentPosition, getCoordinates } = useGeolocation();
 
   const [formLocation, setFormLocation] = useState<{ lat: number; lng: number } | undefined>();
   const [editingEncounter, setEditingEncounter] = useState<CatEncounter | undefined>();
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [viewMode, setViewMode] = useState<'map' | 'list' | 'grid'>('map');
+  const [viewMode, setViewMode] = useState<'map' | 'list' | 'grid' | 'stats'>('map');
   const [isSelectLocationPromptOpen, setIsSelectLocationPromptOpen] = useState(false);
   const [isWelcomeModalOpen, setIsWelcomeModalOpen] = useState(false);
-  const [searchTerm] = useState('');
-  const [filteredEncounters, setFilteredEncounters] = useState<CatEncounter[]>([]);
+  const [sharingEncounter, setSharingEncounter] = useState<CatEncounter | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [customOptions, setCustomOptions] = useState<SearchOptions>({});
+  // Full-text scores from the search index for the free text of the search
+  const [textMatches, setTextMatches] = useState<globalThis.Map<string, number> | undefined>();
+  // Thumbnail URLs of cover photos; full-size photos only load in the photo viewer
   const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  // Boundary being drawn on the map, and the colony it belongs to when redrawing an existing one
+  const [boundaryDraft, setBoundaryDraft] = useState<[number, number][] | null>(null);
+  const [boundaryColonyId, setBoundaryColonyId] = useState<string | undefined>();
+  const [colonyFormState, setColonyFormState] = useState<{ colony?: Colony; boundary?: [number, number][] } | null>(null);
+  const [selectedColonyId, setSelectedColonyId] = useState<string | undefined>();
+  const [healthCatId, setHealthCatId] = useState<string | undefined>();
+  const [showNeedsTnr, setShowNeedsTnr] = useState(false);
+  const [layerMode, setLayerMode] = useState<MapLayerMode>('markers');
+  const [densityFilter, setDensityFilter] = useState<DensityFilter>({ range: 'all' });
+  const [savedFilterFormState, setSavedFilterFormState] = useState<{ filter?: SavedFilter } | null>(null);
+
+  const searchQuery = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+  const highlightTerms = useMemo(() => getHighlightTerms(searchQuery), [searchQuery]);
+  const needsPosition = usesDistance(searchQuery);
+  const freeText = getFreeText(searchQuery);
+
+  // Look free text up in the index once typing pauses, and again when encounters change
+  useEffect(() => {
+    if (!freeText) {
+      setTextMatches(undefined);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      storageService.searchEncounters(freeText)
+        .then(results => {
+          if (!cancelled) setTextMatches(new globalThis.Map(results.map(({ id, score }) => [id, score])));
+        })
+        .catch(error => {
+          console.error('Full-text search failed:', error);
+          if (!cancelled) setTextMatches(undefined);
+        });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [freeText, encounters]);
+
+  // near: measures from the device's position, or the map centre until it is known
+  const [originLat, originLng] = getCoordinates() ?? mapCenter;
+  useEffect(() => {
+    if (needsPosition) getCurrentPosition();
+  }, [needsPosition, getCurrentPosition]);
+
+  const searchContext = useMemo<SearchContext>(() => ({
+    getCatName: catId => {
+      const cat = getCatById(catId);
+      return cat ? getCatDisplayName(cat) : undefined;
+    },
+    getColonyName: colonyId => getColonyById(colonyId)?.name,
+    origin: { lat: originLat, lng: originLng }
+  }), [getCatById, getColonyById, originLat, originLng]);
+
+  // The search narrows the list, the grid and the map alike
+  const filteredEncounters = useMemo(
+    () => filterEncounters(encounters, searchQuery, { ...searchContext, textMatches }),
+    [encounters, searchQuery, searchContext, textMatches]
+  );
+
+  // Saved filters double as smart collections, counted again whenever encounters change
+  const savedFilters = useMemo(() => getActiveSavedFilters(preferences.savedFilters), [preferences.savedFilters]);
+  const activeSavedFilter = savedFilters.find(filter => filter.query === searchTerm.trim());
+  const savedFilterCounts = useMemo(() => Object.fromEntries(savedFilters.map(filter => [
+    filter.id,
+    filterEncounters(encounters, parseSearchQuery(filter.query), searchContext).length
+  ])), [encounters, savedFilters, searchContext]);
+  // The applied filter shows what the list shows, ranked by the full-text index
+  const collectionCounts = activeSavedFilter
+    ? { ...savedFilterCounts, [activeSavedFilter.id]: filteredEncounters.length }
+    : savedFilterCounts;
+  const canSaveFilter = !!searchTerm.trim() && !activeSavedFilter;
+  const showFilterChips = savedFilters.length > 0 || canSaveFilter;
+  // Map controls sit below the header, which grows a row for the chips
+  const contentTop = showFilterChips ? 'top-[6.5rem]' : 'top-16';
+
+  // The map can be further narrowed to cats still waiting for trap-neuter-return
+  const mapEncounters = useMemo(() => {
+    if (!showNeedsTnr) return filteredEncounters;
+    const matching = new Set(filteredEncounters.map(encounter => encounter.id));
+    return getEncountersNeedingTnr(encounters).filter(encounter => matching.has(encounter.id));
+  }, [encounters, filteredEncounters, showNeedsTnr]);
+
+  // Heatmap and hex grid can look at a time range or one attribute value of what the map shows
+  const densityEncounters = useMemo(
+    () => filterDensityEncounters(mapEncounters, densityFilter),
+    [mapEncounters, densityFilter]
+  );
 
-  // Restore Google token on app startup with proper timing
+  // Values the search can complete: the standard options, custom ones and those in use
+  useEffect(() => {
+    Promise.all([
+      storageService.getCustomOptions('catColor'),
+      storageService.getCustomOptions('coatLength'),
+      storageService.getCustomOptions('catType'),
+      storageService.getCustomOptions('behavior')
+    ])
+      .then(([color, coat, type, behavior]) => setCustomOptions({ color, coat, type, behavior }))
+      .catch(error => console.error('Failed to load search options:', error));
+  }, []);
+
+  const searchOptions = useMemo<SearchOptions>(() => {
+    const inUse = (field: 'catColor' | 'coatLength' | 'catType' | 'behavior') =>
+      encounters.map(encounter => encounter[field]).filter((value): value is string => !!value);
+    return {
+      color: [...CAT_COLORS, ...customOptions.color ?? [], ...inUse('catColor')],
+      coat: [...COAT_LENGTHS, ...customOptions.coat ?? [], ...inUse('coatLength')],
+      type: [...CAT_TYPES, ...customOptions.type ?? [], ...inUse('catType')],
+      behavior: [...BEHAVIOR_PRESETS, ...customOptions.behavior ?? [], ...inUse('behavior')],
+      cat: cats.filter(cat => !cat.isDeleted).map(getCatDisplayName),
+      colony: colonies.map(colony => colony.name)
+    };
+  }, [encounters, customOptions, cats, colonies]);
+
+  // Restore Google token or the saved sync provider on app startup with proper timing
   useEffect(() => {
     // We only want this to run once on startup.
     // eslint-disable-next-line react-hooks/exhaustive-deps
     restoreGoogleToken();
+    restoreSyncProvider();
   }, []);
 
   useEffect(() => {
@@ -79,7 +242,7 @@ export function ModernApp() {
       if (idsToLoad.length === 0) return;
 
       const loadedBlobs = await Promise.all(
-        idsToLoad.map(id => storageService.getPhoto(id).catch(e => {
+        idsToLoad.map(id => storageService.getThumbnail(id).catch(e => {
           console.error(`Failed to load photo ${id}:`, e);
           return null;
         }))
@@ -118,21 +281,6 @@ export function ModernApp() {
     };
   }, [encounters, photoUrls]);
 
-  // Filter encounters based on search term
-  useEffect(() => {
-    if (!searchTerm.trim()) {
-      setFilteredEncounters(encounters);
-    } else {
-      const filtered = encounters.filter(encounter =>
-        encounter.catColor.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        encounter.catType.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        encounter.behavior.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        encounter.comment?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      setFilteredEncounters(filtered);
-    }
-  }, [encounters, searchTerm]);
-
   // Handle location selection for new encounter
   const handleLocationSelect = useCallback((lat: number, lng: number) => {
     setFormLocation({ lat, lng });
@@ -186,12 +334,91 @@ export function ModernApp() {
     setFormLocation(undefined);
   };
 
+  // Start drawing a new colony, or redraw the boundary of an existing one
+  const handleStartBoundary = (colony?: Colony) => {
+    setViewMode('map');
+    setSelectedColonyId(undefined);
+    setBoundaryColonyId(colony?.id);
+    setBoundaryDraft(colony ? [...colony.boundary] : []);
+  };
+
+  const handleCancelBoundary = () => {
+    setBoundaryDraft(null);
+    setBoundaryColonyId(undefined);
+  };
+
+  const handleSaveBoundary = () => {
+    if (!boundaryDraft || boundaryDraft.length < MIN_BOUNDARY_POINTS) return;
+    if (boundaryColonyId) {
+      updateColony(boundaryColonyId, { boundary: boundaryDraft });
+      setSelectedColonyId(boundaryColonyId);
+    } else {
+      setColonyFormState({ boundary: boundaryDraft });
+    }
+    handleCancelBoundary();
+  };
+
+  const handleColonyFormSave = (details: ColonyDetails) => {
+    if (colonyFormState?.colony) {
+      updateColony(colonyFormState.colony.id, details);
+      setSelectedColonyId(colonyFormState.colony.id);
+    } else if (colonyFormState?.boundary) {
+      const colony = createColony(details.name, colonyFormState.boundary, details);
+      addColony(colony);
+      setSelectedColonyId(colony.id);
+    }
+    setColonyFormState(null);
+  };
+
+  const handleColonyDelete = (colony: Colony) => {
+    if (confirm(`Delete the colony "${colony.name}"? Its encounters are kept.`)) {
+      deleteColony(colony.id);
+      setSelectedColonyId(undefined);
+    }
+  };
+
+  const handleSavedFilterSave = (details: SavedFilterDetails) => {
+    const existing = preferences.savedFilters ?? [];
+    const editing = savedFilterFormState?.filter;
+    updatePreferences({
+      savedFilters: editing
+        ? existing.map(filter => filter.id === editing.id ? { ...filter, ...details, updatedAt: getCurrentTimestamp() } : filter)
+        : [...existing, createSavedFilter(details.name, details.query)]
+    });
+    setSearchTerm(details.query);
+    setSavedFilterFormState(null);
+  };
+
+  // Deleted filters stay in preferences as tombstones so the deletion syncs
+  const handleSavedFilterDelete = (deleted: SavedFilter) => {
+    if (!confirm(`Delete the saved filter "${deleted.name}"?`)) return;
+    updatePreferences({
+      savedFilters: (preferences.savedFilters ?? []).map(filter =>
+        filter.id === deleted.id ? { ...filter, isDeleted: true, updatedAt: getCurrentTimestamp() } : filter)
+    });
+    setSavedFilterFormState(null);
+  };
+
+  const handleCollectionSelect = (id: string) => {
+    const filter = savedFilters.find(savedFilter => savedFilter.id === id);
+    if (!filter) return;
+    setSearchTerm(filter.query);
+    if (viewMode === 'map') setViewMode('list');
+  };
+
   const handleDismissWelcomeModal = () => {
     localStorage.setItem('hasSeenWelcome', 'true');
     setIsWelcomeModalOpen(false);
   };
 
 
+  const getColonyName = useCallback((colonyId: string) => getColonyById(colonyId)?.name, [getColonyById]);
+
+  const getCatName = (encounter: CatEncounter) => {
+    const cat = encounter.catId ? getCatById(encounter.catId) : undefined;
+    return cat ? getCatDisplayName(cat) : undefined;
+  };
+
   const renderListView = () => (
     <div className="h-full overflow-y-auto p-4 space-y-4 pb-24">
       {filteredEncounters.length === 0 ? (
@@ -201,7 +428,7 @@ export function ModernApp() {
               <Heart className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No encounters found</h3>
               <p className="text-muted-foreground mb-4">
-                {searchTerm ? 'Try adjusting your search terms' : 'Start by adding your first cat encounter!'}
+                {searchTerm.trim() ? 'Try adjusting your search terms' : 'Start by adding your first cat encounter!'}
               </p>
               <Button onClick={() => openForm()}>
                 <Plus className="h-4 w-4 mr-2" />
@@ -217,7 +444,11 @@ export function ModernApp() {
             encounter={encounter}
             onEdit={handleEncounterEdit}
             onDelete={handleEncounterDelete}
+            onShare={setSharingEncounter}
             photoUrl={encounter.photoBlobId ? photoUrls[encounter.photoBlobId] : null}
+            catName={getCatName(encounter)}
+            onCatSelect={setHealthCatId}
+            highlightTerms={highlightTerms}
           />
         ))
       )}
@@ -238,7 +469,7 @@ export function ModernApp() {
               <Camera className="h-16 w-16 text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No photos yet</h3>
               <p className="text-muted-foreground text-center mb-4 max-w-sm">
-                {searchTerm ? 'No photos match your search' : 'Start taking photos of your cat encounters to see them here!'}
+                {searchTerm.trim() ? 'No photos match your search' : 'Start taking photos of your cat encounters to see them here!'}
               </p>
               <Button onClick={() => openForm()}>
                 <Plus className="h-4 w-4 mr-2" />
@@ -257,11 +488,14 @@ export function ModernApp() {
                   alt={`${encounter.catType} - ${encounter.catColor}`}
                   className="w-full h-full object-cover transition-transform group-hover:scale-105"
                 />
+                {getEncounterPhotos(encounter).length > 1 && (
+                  <Images className="absolute top-1 left-1 h-4 w-4 text-white drop-shadow" />
+                )}
                 {/* Overlay with basic info on hover */}
                 <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                   <div className="text-white text-center text-sm">
-                    <div className="font-medium capitalize">{encounter.catType}</div>
-                    <div className="text-xs opacity-90 capitalize">{encounter.catColor}</div>
+                    <div className="font-medium capitalize"><HighlightedText text={encounter.catType} terms={highlightTerms} /></div>
+                    <div className="text-xs opacity-90 capitalize"><HighlightedText text={encounter.catColor} terms={highlightTerms} /></div>
                   </div>
                 </div>
                 {/* Delete button in top right */}
@@ -298,14 +532,33 @@ export function ModernApp() {
 
       {/* Header */}
       <header className="absolute top-0 left-0 right-0 bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60 z-40">
-        <div className="flex items-center justify-center p-4 h-16" style={{ paddingTop: `calc(env(safe-area-inset-top) + 0.5rem)` }}>
-          <div className="flex items-center gap-2">
+        <div className="flex items-center gap-3 p-4 h-16" style={{ paddingTop: `calc(env(safe-area-inset-top) + 0.5rem)` }}>
+          <div className="flex items-center gap-2 shrink-0">
             <h1 className="font-bold text-xl">CAT-a-log</h1>
             <span className="text-sm text-muted-foreground bg-muted px-3 py-1 rounded-full hidden sm:inline-block">
               {encounters.length} encounters
             </span>
           </div>
+          <EncounterSearchBar
+            value={searchTerm}
+            onChange={setSearchTerm}
+            options={searchOptions}
+            errors={searchQuery.errors}
+            resultCount={filteredEncounters.length}
+            className="flex-1 max-w-md ml-auto"
+          />
         </div>
+        {showFilterChips && (
+          <SavedFilterChips
+            filters={savedFilters}
+            counts={collectionCounts}
+            activeFilterId={activeSavedFilter?.id}
+            canSave={canSaveFilter}
+            onApply={(filter) => setSearchTerm(filter?.query ?? '')}
+            onSave={() => setSavedFilterFormState({})}
+            onEdit={(filter) => setSavedFilterFormState({ filter })}
+          />
+        )}
       </header>
 
       {/* Main Content */}
@@ -313,21 +566,88 @@ export function ModernApp() {
         {/* Map is always in the background */}
         <div className="absolute inset-0 z-10">
           <Map
-            encounters={encounters}
+            encounters={mapEncounters}
             onLocationSelect={handleLocationSelect}
             onEncounterSelect={handleEncounterSelect}
             onEncounterEdit={handleEncounterEdit}
             onEncounterDelete={handleEncounterDelete}
+            onEncounterShare={setSharingEncounter}
             center={mapCenter}
             zoom={mapZoom}
             photoUrls={photoUrls}
+            colonies={boundaryColonyId ? colonies.filter(colony => colony.id !== boundaryColonyId) : colonies}
+            onColonySelect={(colony) => setSelectedColonyId(colony.id)}
+            editingBoundary={boundaryDraft}
+            onBoundaryChange={setBoundaryDraft}
+            layerMode={layerMode}
+            densityEncounters={densityEncounters}
           />
         </div>
 
-        {/* List and Grid views overlay the map */}
+        {/* Colony drawing controls */}
+        {viewMode === 'map' && (boundaryDraft ? (
+          <div className={cn("absolute left-4 right-4 z-30 flex items-center justify-between gap-2 rounded-lg bg-background/90 backdrop-blur p-2 shadow", contentTop)}>
+            <span className="text-sm px-2">
+              {boundaryDraft.length < MIN_BOUNDARY_POINTS
+                ? `Tap the map to add corners (${boundaryDraft.length}/${MIN_BOUNDARY_POINTS})`
+                : 'Drag corners to move them, tap one to remove it'}
+            </span>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Undo last corner"
+                disabled={boundaryDraft.length === 0}
+                onClick={() => setBoundaryDraft(boundaryDraft.slice(0, -1))}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" title="Cancel" onClick={handleCancelBoundary}>
+                <X className="h-4 w-4" />
+              </Button>
+              <Button size="icon" title="Save boundary" disabled={boundaryDraft.length < MIN_BOUNDARY_POINTS} onClick={handleSaveBoundary}>
+                <Check className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className={cn("absolute right-4 z-30 flex flex-col items-end gap-2", contentTop)}>
+            <Button variant="secondary" size="sm" className="shadow" onClick={() => handleStartBoundary()}>
+              <Hexagon className="h-4 w-4 mr-2" />
+              Draw Colony
+            </Button>
+            <Button
+              variant={showNeedsTnr ? 'default' : 'secondary'}
+              size="sm"
+              className="shadow"
+              onClick={() => setShowNeedsTnr(!showNeedsTnr)}
+            >
+              <Scissors className="h-4 w-4 mr-2" />
+              {showNeedsTnr ? `Needs TNR (${mapEncounters.length})` : 'Needs TNR'}
+            </Button>
+            <MapLayerControls
+              mode={layerMode}
+              filter={densityFilter}
+              encounters={mapEncounters}
+              shownCount={densityEncounters.length}
+              onModeChange={setLayerMode}
+              onFilterChange={setDensityFilter}
+            />
+          </div>
+        ))}
+
+        {/* List, Grid and Stats views overlay the map */}
         {viewMode !== 'map' && (
-          <div className="absolute inset-0 z-20 bg-background pt-16">
-            {viewMode === 'list' ? renderListView() : renderGridView()}
+          <div className={cn("absolute inset-0 z-20 bg-background", showFilterChips ? 'pt-[6.5rem]' : 'pt-16')}>
+            {viewMode === 'list' ? renderListView()
+              : viewMode === 'grid' ? renderGridView()
+              : (
+                <StatsDashboard
+                  encounters={filteredEncounters}
+                  isFiltered={searchQuery.terms.length > 0}
+                  getColonyName={getColonyName}
+                />
+              )}
           </div>
         )}
       </main>
@@ -340,6 +660,9 @@ export function ModernApp() {
           setIsSelectLocationPromptOpen(true);
         }}
         onSettings={() => setIsSettingsOpen(true)}
+        collections={savedFilters.map(filter => ({ id: filter.id, name: filter.name, count: collectionCounts[filter.id] ?? 0 }))}
+        activeCollectionId={activeSavedFilter?.id}
+        onCollectionSelect={handleCollectionSelect}
       />
 
       {/* Dialogs - Outside main container to ensure proper z-index */}
@@ -358,9 +681,7 @@ export function ModernApp() {
           </DialogHeader>
           <ModernSettings
             preferences={preferences}
-            onPreferencesChange={() => {
-              // Handle preferences update
-            }}
+            onPreferencesChange={updatePreferences}
             onClose={() => setIsSettingsOpen(false)}
           />
         </DialogContent>
@@ -375,6 +696,57 @@ export function ModernApp() {
         </DialogContent>
       </Dialog>
 
+      <ColonyDetail
+        colony={(selectedColonyId && getColonyById(selectedColonyId)) || null}
+        onOpenChange={(open) => {
+          if (!open) setSelectedColonyId(undefined);
+        }}
+        onEditDetails={(colony) => {
+          setSelectedColonyId(undefined);
+          setColonyFormState({ colony });
+        }}
+        onEditBoundary={handleStartBoundary}
+        onDelete={handleColonyDelete}
+        onEncounterSelect={(encounter) => {
+          setSelectedColonyId(undefined);
+          handleEncounterEdit(encounter);
+        }}
+        onCatSelect={(cat) => {
+          setSelectedColonyId(undefined);
+          setHealthCatId(cat.id);
+        }}
+      />
+
+      <CatHealthTimeline
+        cat={(healthCatId && getCatById(healthCatId)) || null}
+        onOpenChange={(open) => {
+          if (!open) setHealthCatId(undefined);
+        }}
+      />
+
+      <ColonyForm
+        isOpen={!!colonyFormState}
+        colony={colonyFormState?.colony}
+        onSave={handleColonyFormSave}
+        onCancel={() => setColonyFormState(null)}
+      />
+
+      <SavedFilterForm
+        isOpen={!!savedFilterFormState}
+        filter={savedFilterFormState?.filter}
+        initialQuery={searchTerm}
+        onSave={handleSavedFilterSave}
+        onDelete={handleSavedFilterDelete}
+        onCancel={() => setSavedFilterFormState(null)}
+      />
+
+      <ShareDialog
+        encounter={sharingEncounter}
+        onOpenChange={(open) => {
+          if (!open) setSharingEncounter(null);
+        }}
+      />
+
       <WelcomeModal
         isOpen={isWelcomeModalOpen}
         onDismiss={handleDismissWelcomeModal}
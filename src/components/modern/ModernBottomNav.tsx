@@ -1,18 +1,65 @@
-import { MapIcon, List, Grid, Settings, Plus } from 'lucide-react';
+import { useState } from 'react';
+import { MapIcon, List, Grid, BarChart3, Settings, Plus, Library } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { SyncStatus } from './SyncStatus';
 
+// A saved filter with the number of encounters it currently matches
+export interface SmartCollection {
+  id: string;
+  name: string;
+  count: number;
+}
+
 interface ModernBottomNavProps {
-  viewMode: 'map' | 'list' | 'grid';
-  onViewModeChange: (mode: 'map' | 'list' | 'grid') => void;
+  viewMode: 'map' | 'list' | 'grid' | 'stats';
+  onViewModeChange: (mode: 'map' | 'list' | 'grid' | 'stats') => void;
   onAdd: () => void;
   onSettings: () => void;
+  collections?: SmartCollection[];
+  activeCollectionId?: string;
+  onCollectionSelect?: (id: string) => void;
 }
 
-export function ModernBottomNav({ viewMode, onViewModeChange, onAdd, onSettings }: ModernBottomNavProps) {
+export function ModernBottomNav({
+  viewMode,
+  onViewModeChange,
+  onAdd,
+  onSettings,
+  collections = [],
+  activeCollectionId,
+  onCollectionSelect
+}: ModernBottomNavProps) {
+  const [isCollectionsOpen, setIsCollectionsOpen] = useState(false);
+
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-t z-30" style={{ paddingBottom: 'env(safe-area-inset-bottom)' }}>
+      {/* Smart collections open above the bar */}
+      {isCollectionsOpen && (
+        <div className="absolute bottom-full right-2 mb-2 w-64 max-h-[50vh] overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md" role="menu" aria-label="Collections">
+          {collections.length === 0 ? (
+            <p className="px-2 py-3 text-muted-foreground">Save a search to keep it here as a collection.</p>
+          ) : collections.map(collection => (
+            <button
+              key={collection.id}
+              type="button"
+              role="menuitem"
+              className={cn(
+                "flex w-full items-center justify-between gap-2 rounded-sm px-2 py-2 text-left hover:bg-accent",
+                collection.id === activeCollectionId && "bg-accent text-accent-foreground"
+              )}
+              onClick={() => {
+                onCollectionSelect?.(collection.id);
+                setIsCollectionsOpen(false);
+              }}
+            >
+              <span className="truncate">{collection.name}</span>
+              <span className="text-xs tabular-nums text-muted-foreground">{collection.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Sync Status Bar */}
       <div className="px-4 py-1 border-b">
         <div className="flex justify-center">
@@ -22,26 +69,41 @@ export function ModernBottomNav({ viewMode, onViewModeChange, onAdd, onSettings
       
       {/* Navigation */}
       <div className="flex items-center justify-around h-16">
-        <Button variant="ghost" onClick={() => onViewModeChange('map')} className={cn("flex-col h-auto", viewMode === 'map' ? 'text-primary' : 'text-muted-foreground')}>
+        <Button variant="ghost" onClick={() => onViewModeChange('map')} className={cn("flex-col h-auto px-2", viewMode === 'map' ? 'text-primary' : 'text-muted-foreground')}>
           <MapIcon className="h-6 w-6" />
           <span className="text-xs">Map</span>
         </Button>
-        <Button variant="ghost" onClick={() => onViewModeChange('list')} className={cn("flex-col h-auto", viewMode === 'list' ? 'text-primary' : 'text-muted-foreground')}>
+        <Button variant="ghost" onClick={() => onViewModeChange('list')} className={cn("flex-col h-auto px-2", viewMode === 'list' ? 'text-primary' : 'text-muted-foreground')}>
           <List className="h-6 w-6" />
           <span className="text-xs">List</span>
         </Button>
         
-        <Button variant="ghost" onClick={onAdd} className="flex-col h-auto text-muted-foreground">
+        <Button variant="ghost" onClick={onAdd} className="flex-col h-auto px-2 text-muted-foreground">
           <Plus className="h-6 w-6" />
           <span className="text-xs">Add</span>
         </Button>
 
-        <Button variant="ghost" onClick={() => onViewModeChange('grid')} className={cn("flex-col h-auto", viewMode === 'grid' ? 'text-primary' : 'text-muted-foreground')}>
+        <Button variant="ghost" onClick={() => onViewModeChange('grid')} className={cn("flex-col h-auto px-2", viewMode === 'grid' ? 'text-primary' : 'text-muted-foreground')}>
           <Grid className="h-6 w-6" />
           <span className="text-xs">Grid</span>
         </Button>
+
+        <Button variant="ghost" onClick={() => onViewModeChange('stats')} className={cn("flex-col h-auto px-2", viewMode === 'stats' ? 'text-primary' : 'text-muted-foreground')}>
+          <BarChart3 className="h-6 w-6" />
+          <span className="text-xs">Stats</span>
+        </Button>
         
-        <Button variant="ghost" onClick={onSettings} className="flex-col h-auto text-muted-foreground">
+        <Button
+          variant="ghost"
+          onClick={() => setIsCollectionsOpen(!isCollectionsOpen)}
+          className={cn("flex-col h-auto px-2", activeCollectionId || isCollectionsOpen ? 'text-primary' : 'text-muted-foreground')}
+          aria-expanded={isCollectionsOpen}
+        >
+          <Library className="h-6 w-6" />
+          <span className="text-xs">Collections</span>
+        </Button>
+
+        <Button variant="ghost" onClick={onSettings} className="flex-col h-auto px-2 text-muted-foreground">
           <Settings className="h-6 w-6" />
           <span className="text-xs">Settings</span>
         </Button>
@@ -2,28 +2,38 @@
  * Modern EncounterCard component using shadcn/ui
  */
 
-import { Calendar, MapPin, Palette, Scissors, Cat, MessageSquare, Edit, Trash2, Camera } from 'lucide-react';
+import { Calendar, MapPin, Palette, Scissors, Cat, MessageSquare, Edit, Trash2, Camera, Heart, HeartPulse, Share2, Images } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
+import { getTnrStatusLabel, getEncounterPhotos } from '@/models/CatEncounter';
+import { HighlightedText } from './HighlightedText';
 import type { CatEncounter } from '@/types';
 
 interface ModernEncounterCardProps {
   encounter: CatEncounter;
   onEdit?: (encounter: CatEncounter) => void;
   onDelete?: (encounter: CatEncounter) => void;
+  onShare?: (encounter: CatEncounter) => void;
   className?: string;
   compact?: boolean;
   photoUrl?: string | null;
+  catName?: string;
+  onCatSelect?: (catId: string) => void;
+  highlightTerms?: string[]; // Search matches to mark
 }
 
 export function ModernEncounterCard({
   encounter,
   onEdit,
   onDelete,
+  onShare,
   className,
   compact = false,
-  photoUrl = null
+  photoUrl = null,
+  catName,
+  onCatSelect,
+  highlightTerms
 }: ModernEncounterCardProps) {
 
   const formatDate = (dateString: string) => {
@@ -59,6 +69,22 @@ export function ModernEncounterCard({
     return colorMap[color] || 'bg-gray-500 text-white';
   };
 
+  // One line summarizing the health record, e.g. "Ear-tipped · Injured · 2 vaccinations"
+  const getHealthSummary = () => {
+    const { health } = encounter;
+    if (!health) return null;
+    const parts = [
+      health.tnrStatus && health.tnrStatus !== 'unknown' ? getTnrStatusLabel(health.tnrStatus) : null,
+      health.injuries ? 'Injured' : null,
+      health.pregnant ? 'Pregnant' : null,
+      health.vaccinations?.length ? `${health.vaccinations.length} vaccination${health.vaccinations.length > 1 ? 's' : ''}` : null,
+      health.vetVisits?.length ? `${health.vetVisits.length} vet visit${health.vetVisits.length > 1 ? 's' : ''}` : null
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : null;
+  };
+
+  const healthSummary = getHealthSummary();
+
   return (
     <Card className={cn("w-full max-w-sm overflow-hidden", className)}>
       {/* Photo Section */}
@@ -69,7 +95,23 @@ export function ModernEncounterCard({
             alt={`Cat encounter - ${encounter.catType}`}
             className="w-full h-full object-cover"
           />
+          {getEncounterPhotos(encounter).length > 1 && (
+            <span className="absolute bottom-2 left-2 flex items-center gap-1 rounded bg-background/80 backdrop-blur px-1.5 py-0.5 text-xs">
+              <Images className="h-3 w-3" />
+              {getEncounterPhotos(encounter).length}
+            </span>
+          )}
           <div className="absolute top-2 right-2 flex gap-1">
+            {onShare && (
+              <Button
+                variant="secondary"
+                size="icon"
+                className="h-8 w-8 bg-background/80 backdrop-blur"
+                onClick={() => onShare(encounter)}
+              >
+                <Share2 className="h-3 w-3" />
+              </Button>
+            )}
             {onEdit && (
               <Button
                 variant="secondary"
@@ -99,15 +141,38 @@ export function ModernEncounterCard({
           <div className="space-y-1">
             <CardTitle className={cn("flex items-center gap-2", compact ? "text-base" : "text-lg")}>
               <Cat className="h-4 w-4 text-primary" />
-              <span className="capitalize">{encounter.catType}</span>
+              <span className="capitalize"><HighlightedText text={encounter.catType} terms={highlightTerms} /></span>
+              {encounter.isDraft && (
+                <span className="rounded bg-muted px-1.5 py-0.5 text-xs font-normal text-muted-foreground">Draft</span>
+              )}
             </CardTitle>
             <CardDescription className="flex items-center gap-1 text-xs">
               <Calendar className="h-3 w-3" />
               {formatDate(encounter.dateTime)}
             </CardDescription>
+            {catName && (
+              <CardDescription className="flex items-center gap-1 text-xs font-medium text-primary">
+                <Heart className="h-3 w-3" />
+                {onCatSelect && encounter.catId ? (
+                  <button type="button" className="hover:underline" onClick={() => onCatSelect(encounter.catId!)}>
+                    <HighlightedText text={catName} terms={highlightTerms} />
+                  </button>
+                ) : <HighlightedText text={catName} terms={highlightTerms} />}
+              </CardDescription>
+            )}
           </div>
           {!photoUrl && (
             <div className="flex gap-1">
+              {onShare && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => onShare(encounter)}
+                >
+                  <Share2 className="h-3 w-3" />
+                </Button>
+              )}
               {onEdit && (
                 <Button
                   variant="ghost"
@@ -144,19 +209,28 @@ export function ModernEncounterCard({
                 getCatColorBadge(encounter.catColor)
               )}
             >
-              {encounter.catColor}
+              <HighlightedText text={encounter.catColor} terms={highlightTerms} />
             </span>
           </div>
 
           <div className="flex items-center gap-2">
             <Scissors className="h-3 w-3 text-muted-foreground" />
-            <span className="text-sm capitalize">{encounter.coatLength} coat</span>
+            <span className="text-sm capitalize"><HighlightedText text={encounter.coatLength ?? ''} terms={highlightTerms} /> coat</span>
           </div>
 
           <div className="flex items-center gap-2">
             <Cat className="h-3 w-3 text-muted-foreground" />
-            <span className="text-sm capitalize">{encounter.behavior}</span>
+            <span className="text-sm capitalize"><HighlightedText text={encounter.behavior} terms={highlightTerms} /></span>
           </div>
+
+          {healthSummary && (
+            <div className="flex items-center gap-2">
+              <HeartPulse className="h-3 w-3 text-muted-foreground" />
+              <span className={cn("text-sm", encounter.health?.tnrStatus === 'intact' && "text-destructive")}>
+                {healthSummary}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Location */}
@@ -175,7 +249,7 @@ export function ModernEncounterCard({
               <span className="text-xs font-medium text-muted-foreground">Notes</span>
             </div>
             <p className="text-sm text-muted-foreground bg-muted/50 p-2 rounded-md">
-              {encounter.comment}
+              <HighlightedText text={encounter.comment} terms={highlightTerms} />
             </p>
           </div>
         )}
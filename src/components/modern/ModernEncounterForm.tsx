@@ -10,11 +10,19 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { CatEncounter } from '@/types';
+import type { CatEncounter, EncounterPhoto } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { storageService } from '@/services/StorageService';
-import { CAT_COLORS, COAT_LENGTHS, CAT_TYPES, BEHAVIOR_PRESETS } from '@/models/CatEncounter';
-import { ModernPhotoInput } from './ModernPhotoInput';
+import {
+  CAT_COLORS,
+  COAT_LENGTHS,
+  CAT_TYPES,
+  BEHAVIOR_PRESETS,
+  getEncounterPhotos,
+  getCoverPhotoIndex,
+  buildPhotoFields
+} from '@/models/CatEncounter';
+import { ModernPhotoInput, type PhotoDraft } from './ModernPhotoInput';
 
 interface ModernEncounterFormProps {
   isOpen: boolean;
@@ -37,7 +45,8 @@ export function ModernEncounterForm({
     catType: '',
     behavior: '',
     comment: '',
-    photo: null as File | null
+    photos: [] as PhotoDraft[],
+    coverIndex: 0
   });
 
   const [customFields, setCustomFields] = useState({
@@ -94,7 +103,8 @@ export function ModernEncounterForm({
         catType: initialData.catType || '',
         behavior: initialData.behavior || '',
         comment: initialData.comment || '',
-        photo: null
+        photos: getEncounterPhotos(initialData).map(photo => ({ key: uuidv4(), photo })),
+        coverIndex: Math.max(getCoverPhotoIndex(initialData), 0)
       });
     } else {
       setFormData({
@@ -103,13 +113,14 @@ export function ModernEncounterForm({
         catType: '',
         behavior: '',
         comment: '',
-        photo: null
+        photos: [],
+        coverIndex: 0
       });
     }
   }, [initialData, isOpen]);
 
-  const handlePhotoChange = (photo: File | null) => {
-    setFormData(prev => ({ ...prev, photo }));
+  const handlePhotoChange = (photos: PhotoDraft[], coverIndex: number) => {
+    setFormData(prev => ({ ...prev, photos, coverIndex }));
   };
 
   const handleSelectChange = (field: 'catColor' | 'coatLength' | 'catType' | 'behavior', value: string) => {
@@ -150,13 +161,17 @@ export function ModernEncounterForm({
       }
 
       const now = new Date().toISOString();
-      let photoBlobId = initialData?.photoBlobId;
 
-      if (formData.photo) {
-        if (photoBlobId) {
-          await storageService.deletePhoto(photoBlobId);
+      // Save newly picked photos and delete the ones removed from the encounter
+      const photos: EncounterPhoto[] = [];
+      for (const draft of formData.photos) {
+        photos.push(draft.file ? { blobId: await storageService.savePhoto(draft.file), ...draft.original } : draft.photo!);
+      }
+      const keptBlobIds = new Set(photos.map(photo => photo.blobId));
+      for (const { blobId } of getEncounterPhotos(initialData ?? {})) {
+        if (blobId && !keptBlobIds.has(blobId)) {
+          await storageService.deletePhoto(blobId);
         }
-        photoBlobId = await storageService.savePhoto(formData.photo);
       }
 
       const encounter: CatEncounter = {
@@ -169,7 +184,7 @@ export function ModernEncounterForm({
         catType,
         behavior,
         comment: formData.comment || undefined,
-        photoBlobId,
+        ...buildPhotoFields(photos, formData.coverIndex),
         createdAt: initialData?.createdAt || now,
         updatedAt: now
       };
@@ -213,12 +228,13 @@ export function ModernEncounterForm({
               <CardHeader className="pb-3">
                 <CardTitle className="text-lg flex items-center gap-2">
                   <Camera className="h-4 w-4" />
-                  Photo
+                  Photos
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <ModernPhotoInput
-                  value={formData.photo}
+                  value={formData.photos}
+                  coverIndex={formData.coverIndex}
                   onChange={handlePhotoChange}
                   disabled={isSubmitting}
                 />
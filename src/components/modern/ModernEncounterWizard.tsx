@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Cat, Camera, Save, ArrowLeft, ArrowRight, X } from 'lucide-react';
+import { Cat, Camera, Save, ArrowLeft, ArrowRight, X, Plus, HeartPulse, MapPin, Clock, Sparkles } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -11,12 +11,27 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ModernPhotoInput } from './ModernPhotoInput';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ModernPhotoInput, type PhotoDraft } from './ModernPhotoInput';
 import { ModernSelectableList } from './ModernSelectableList';
-import type { CatEncounter } from '@/types';
+import { HealthRecordEditor } from './HealthRecordEditor';
+import type { Cat as KnownCat, CatEncounter, EncounterHealth, EncounterPhoto } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { storageService } from '@/services/StorageService';
-import { CAT_COLORS, COAT_LENGTHS, CAT_TYPES, BEHAVIOR_PRESETS } from '@/models/CatEncounter';
+import {
+  CAT_COLORS,
+  COAT_LENGTHS,
+  CAT_TYPES,
+  BEHAVIOR_PRESETS,
+  normalizeEncounterHealth,
+  validateEncounterHealth,
+  getEncounterPhotos,
+  getCoverPhotoIndex,
+  buildPhotoFields
+} from '@/models/CatEncounter';
+import { createCat, getCatDisplayName } from '@/models/Cat';
+import { useCats } from '@/hooks/useCats';
+import { usePhotoMatches } from '@/hooks/usePhotoMatches';
 
 interface ModernEncounterWizardProps {
   isOpen: boolean;
@@ -28,6 +43,19 @@ interface ModernEncounterWizardProps {
 
 type OptionType = 'catColor' | 'coatLength' | 'catType' | 'behavior';
 
+// Select value used for "not linked to a known cat" (Radix disallows empty values)
+const NO_CAT = 'none';
+
+const HEALTH_STEP = 5;
+const LAST_STEP = 6;
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m away` : `${(meters / 1000).toFixed(1)} km away`;
+
+// Saved photos of an encounter as drafts for the photo input
+const toPhotoDrafts = (encounter?: Partial<CatEncounter>): PhotoDraft[] =>
+  encounter ? getEncounterPhotos(encounter).map(photo => ({ key: uuidv4(), photo })) : [];
+
 export function ModernEncounterWizard({
   isOpen,
   initialData,
@@ -36,6 +64,7 @@ export function ModernEncounterWizard({
   onCancel
 }: ModernEncounterWizardProps) {
   const [step, setStep] = useState(0);
+  const { cats, addCat } = useCats();
 
   const [formData, setFormData] = useState({
     catColor: '',
@@ -43,8 +72,25 @@ export function ModernEncounterWizard({
     catType: '',
     behavior: '',
     comment: '',
-    photo: null as File | null
+    catId: '',
+    health: {} as EncounterHealth,
+    photos: [] as PhotoDraft[],
+    coverIndex: 0
+  });
+
+  // Which details of the picked photo's metadata replace the map location and current time
+  const [useFromPhoto, setUseFromPhoto] = useState({ location: false, dateTime: false });
+
+  const [isNewCatOpen, setIsNewCatOpen] = useState(false);
+  const [newCat, setNewCat] = useState({
+    name: '',
+    nickname: '',
+    distinguishingMarks: '',
+    notes: '',
+    usePhoto: true
   });
+  // Cat created in this wizard; it is only stored once the encounter is saved
+  const [pendingCat, setPendingCat] = useState<{ cat: KnownCat; usePhoto: boolean } | null>(null);
 
   const [options, setOptions] = useState<{
     catColors: string[];
@@ -106,7 +152,10 @@ export function ModernEncounterWizard({
         catType: initialData.catType || '',
         behavior: initialData.behavior || '',
         comment: initialData.comment || '',
-        photo: null
+        catId: initialData.catId || '',
+        health: initialData.health || {},
+        photos: toPhotoDrafts(initialData),
+        coverIndex: Math.max(getCoverPhotoIndex(initialData), 0)
       });
     } else {
       setFormData({
@@ -115,9 +164,14 @@ export function ModernEncounterWizard({
         catType: '',
         behavior: '',
         comment: '',
-        photo: null
+        catId: '',
+        health: {},
+        photos: [],
+        coverIndex: 0
       });
     }
+    setUseFromPhoto({ location: false, dateTime: false });
+    setPendingCat(null);
     setStep(0);
   }, [initialData, isOpen]);
 
@@ -136,6 +190,26 @@ export function ModernEncounterWizard({
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // The cover's metadata, or else the first picked photo that has some
+  const photoMetadata = [formData.photos[formData.coverIndex], ...formData.photos].find(draft => draft?.metadata)?.metadata;
+  const photoLocation = photoMetadata?.lat !== undefined && photoMetadata.lng !== undefined
+    ? { lat: photoMetadata.lat, lng: photoMetadata.lng }
+    : undefined;
+
+  const chosenLocation = useFromPhoto.location && photoLocation ? photoLocation : location ?? initialData;
+
+  // Known cats whose photos look like this one, to suggest when linking
+  const { matches: photoMatches, isSearching: isMatchingPhotos } = usePhotoMatches(formData.photos, {
+    lat: chosenLocation?.lat,
+    lng: chosenLocation?.lng,
+    catColor: formData.catColor,
+    coatLength: formData.coatLength,
+    catType: formData.catType
+  }, initialData?.id);
+
+  const health = normalizeEncounterHealth(formData.health);
+  const healthErrors = health ? validateEncounterHealth(health) : [];
+
   const isValidStep = () => {
     switch (step) {
       case 0:
@@ -148,6 +222,8 @@ export function ModernEncounterWizard({
         return formData.catType !== '';
       case 4:
         return formData.behavior !== '';
+      case HEALTH_STEP:
+        return healthErrors.length === 0; // health optional, but must be complete
       default:
         return true;
     }
@@ -155,20 +231,20 @@ export function ModernEncounterWizard({
 
   const next = () => {
     if (isValidStep()) {
-      setStep((s) => Math.min(s + 1, 5));
+      setStep((s) => Math.min(s + 1, LAST_STEP));
     }
   };
 
   const back = () => setStep((s) => Math.max(s - 1, 0));
 
-  const handlePhotoChange = (photo: File | null) => {
-    setFormData(prev => ({ ...prev, photo }));
+  const handlePhotoChange = (photos: PhotoDraft[], coverIndex: number) => {
+    setFormData(prev => ({ ...prev, photos, coverIndex }));
   };
 
   const handleSubmit = async () => {
     if (!isValidStep()) return;
 
-    if (step < 5) {
+    if (step < LAST_STEP) {
       next();
       return;
     }
@@ -176,25 +252,38 @@ export function ModernEncounterWizard({
     setIsSubmitting(true);
     try {
       const now = new Date().toISOString();
-      let photoBlobId = initialData?.photoBlobId;
-      if (formData.photo) {
-        if (photoBlobId) {
-          await storageService.deletePhoto(photoBlobId);
+      // Save newly picked photos and delete the ones removed from the encounter
+      const photos: EncounterPhoto[] = [];
+      for (const draft of formData.photos) {
+        photos.push(draft.file ? { blobId: await storageService.savePhoto(draft.file), ...draft.original } : draft.photo!);
+      }
+      const keptBlobIds = new Set(photos.map(photo => photo.blobId));
+      for (const { blobId } of getEncounterPhotos(initialData ?? {})) {
+        if (blobId && !keptBlobIds.has(blobId)) {
+          await storageService.deletePhoto(blobId);
         }
-        photoBlobId = await storageService.savePhoto(formData.photo);
       }
 
+      if (pendingCat && formData.catId === pendingCat.cat.id) {
+        await savePendingCat(pendingCat.cat, pendingCat.usePhoto);
+      }
+
+      const chosenDateTime = useFromPhoto.dateTime ? photoMetadata?.dateTime : undefined;
+
       const encounter: CatEncounter = {
         id: initialData?.id || uuidv4(),
-        lat: location?.lat ?? initialData?.lat ?? 0,
-        lng: location?.lng ?? initialData?.lng ?? 0,
-        dateTime: initialData?.dateTime || now,
+        lat: chosenLocation?.lat ?? 0,
+        lng: chosenLocation?.lng ?? 0,
+        dateTime: chosenDateTime || initialData?.dateTime || now,
         catColor: formData.catColor,
         coatLength: formData.coatLength,
         catType: formData.catType,
         behavior: formData.behavior,
         comment: formData.comment || undefined,
-        photoBlobId,
+        ...buildPhotoFields(photos, formData.coverIndex),
+        catId: formData.catId || undefined,
+        health,
+        isDraft: undefined,
         createdAt: initialData?.createdAt || now,
         updatedAt: now
       };
@@ -263,6 +352,101 @@ export function ModernEncounterWizard({
     }
   };
 
+  const openNewCatDialog = () => {
+    setNewCat({ name: '', nickname: '', distinguishingMarks: '', notes: '', usePhoto: true });
+    setIsNewCatOpen(true);
+  };
+
+  const handleCreateCat = () => {
+    if (!newCat.name.trim()) return;
+
+    const cat = createCat(newCat.name, {
+      nickname: newCat.nickname.trim() || undefined,
+      distinguishingMarks: newCat.distinguishingMarks.trim() || undefined,
+      notes: newCat.notes.trim() || undefined
+    });
+
+    setPendingCat({ cat, usePhoto: newCat.usePhoto });
+    setFormData(prev => ({ ...prev, catId: cat.id }));
+    setIsNewCatOpen(false);
+  };
+
+  // Stores the cat created in this wizard, with its own copy of the cover photo
+  const savePendingCat = async (cat: KnownCat, usePhoto: boolean) => {
+    let profilePhotoBlobId: string | undefined;
+    const cover = formData.photos[formData.coverIndex];
+    if (usePhoto && cover) {
+      const photo = cover.file ?? (cover.photo?.blobId ? await storageService.getPhoto(cover.photo.blobId) : null);
+      if (photo) {
+        profilePhotoBlobId = await storageService.savePhoto(photo);
+      }
+    }
+    addCat({ ...cat, profilePhotoBlobId });
+  };
+
+  const renderNewCatDialog = () => (
+    <Dialog open={isNewCatOpen} onOpenChange={setIsNewCatOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Known Cat</DialogTitle>
+          <DialogDescription>
+            Give this cat an identity so future sightings can be linked to it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="new-cat-name">Name *</Label>
+            <Input
+              id="new-cat-name"
+              value={newCat.name}
+              onChange={(e) => setNewCat(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Bakery Tabby"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="new-cat-nickname">Nickname</Label>
+            <Input
+              id="new-cat-nickname"
+              value={newCat.nickname}
+              onChange={(e) => setNewCat(prev => ({ ...prev, nickname: e.target.value }))}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="new-cat-marks">Distinguishing Marks</Label>
+            <Input
+              id="new-cat-marks"
+              value={newCat.distinguishingMarks}
+              onChange={(e) => setNewCat(prev => ({ ...prev, distinguishingMarks: e.target.value }))}
+              placeholder="Ear tip, white socks, torn left ear..."
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="new-cat-notes">Notes</Label>
+            <Input
+              id="new-cat-notes"
+              value={newCat.notes}
+              onChange={(e) => setNewCat(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+          {formData.photos.length > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={newCat.usePhoto}
+                onChange={(e) => setNewCat(prev => ({ ...prev, usePhoto: e.target.checked }))}
+              />
+              Use this encounter's cover photo as profile photo
+            </label>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="secondary" onClick={() => setIsNewCatOpen(false)}>Cancel</Button>
+          <Button type="button" onClick={handleCreateCat} disabled={!newCat.name.trim()}>Create</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+
   const renderAddOptionDialog = () => (
     <Dialog open={isAddOptionOpen} onOpenChange={setIsAddOptionOpen}>
       <DialogContent>
@@ -357,7 +541,7 @@ export function ModernEncounterWizard({
           <DialogHeader className="p-4">
             <DialogTitle className="flex items-center gap-2">
               <Cat className="h-5 w-5 text-primary" />
-              {initialData ? 'Edit Cat Encounter' : 'Log Cat Encounter'}
+              {initialData?.isDraft ? 'Complete Draft Encounter' : initialData ? 'Edit Cat Encounter' : 'Log Cat Encounter'}
             </DialogTitle>
             <DialogDescription>
               Follow the steps to log a new cat encounter.
@@ -376,10 +560,42 @@ export function ModernEncounterWizard({
               <div className={stepClasses(0)}>
                 <div className="h-full flex flex-col">
                   <div className="p-4 flex-shrink-0">
-                    <h2 className="text-lg flex items-center gap-2"><Camera className="h-5 w-5"/>Photo</h2>
+                    <h2 className="text-lg flex items-center gap-2"><Camera className="h-5 w-5"/>Photos</h2>
                   </div>
-                  <div className="flex-1 min-h-0 p-4 pt-0">
-                    <ModernPhotoInput value={formData.photo} onChange={handlePhotoChange} disabled={isSubmitting} />
+                  <div className="flex-1 min-h-0 overflow-y-auto p-4 pt-0">
+                    <ModernPhotoInput
+                      value={formData.photos}
+                      coverIndex={formData.coverIndex}
+                      onChange={handlePhotoChange}
+                      disabled={isSubmitting}
+                    />
+                    {(photoLocation || photoMetadata?.dateTime) && (
+                      <div className="mt-4 rounded-lg border p-3 space-y-2 text-sm">
+                        <p className="font-medium">Use details from the photo?</p>
+                        {photoLocation && (
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={useFromPhoto.location}
+                              onChange={(e) => setUseFromPhoto(prev => ({ ...prev, location: e.target.checked }))}
+                            />
+                            <MapPin className="h-4 w-4 text-muted-foreground" />
+                            Taken at {photoLocation.lat.toFixed(5)}, {photoLocation.lng.toFixed(5)}
+                          </label>
+                        )}
+                        {photoMetadata?.dateTime && (
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={useFromPhoto.dateTime}
+                              onChange={(e) => setUseFromPhoto(prev => ({ ...prev, dateTime: e.target.checked }))}
+                            />
+                            <Clock className="h-4 w-4 text-muted-foreground" />
+                            Taken {new Date(photoMetadata.dateTime).toLocaleString()}
+                          </label>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="p-4 flex-shrink-0 border-t bg-background flex justify-between">
                     <div></div>
@@ -406,9 +622,80 @@ export function ModernEncounterWizard({
                 {renderStepContent('behavior', 'Behavior')}
               </div>
 
-              <div className={stepClasses(5)}>
+              <div className={stepClasses(HEALTH_STEP)}>
                 <div className="h-full flex flex-col">
                   <div className="p-4 flex-shrink-0">
+                    <h2 className="text-lg flex items-center gap-2"><HeartPulse className="h-5 w-5"/>Health</h2>
+                    <p className="text-sm text-muted-foreground">Optional. Record TNR status and anything you noticed or know about this cat's health.</p>
+                  </div>
+                  <div className="flex-1 min-h-0 overflow-y-auto p-4 pt-0 space-y-2">
+                    <HealthRecordEditor
+                      value={formData.health}
+                      onChange={(value) => setFormData(prev => ({ ...prev, health: value }))}
+                    />
+                    {healthErrors.map(error => (
+                      <p key={error} className="text-sm text-destructive">{error}</p>
+                    ))}
+                  </div>
+                  <div className="p-4 flex-shrink-0 border-t bg-background flex justify-between">
+                    <Button type="button" variant="outline" onClick={back}><ArrowLeft className="h-4 w-4 mr-2"/>Back</Button>
+                    <Button type="button" onClick={next} disabled={!isValidStep()}>Next<ArrowRight className="h-4 w-4 ml-2"/></Button>
+                  </div>
+                </div>
+              </div>
+
+              <div className={stepClasses(LAST_STEP)}>
+                <div className="h-full flex flex-col">
+                  <div className="p-4 flex-shrink-0 space-y-2">
+                    <Label>Link to Known Cat</Label>
+                    <div className="flex gap-2">
+                      <Select
+                        value={formData.catId || NO_CAT}
+                        onValueChange={(v) => setFormData(prev => ({ ...prev, catId: v === NO_CAT ? '' : v }))}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Not linked" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_CAT}>Not linked</SelectItem>
+                          {(pendingCat ? [...cats, pendingCat.cat] : cats).map(cat => (
+                            <SelectItem key={cat.id} value={cat.id}>{getCatDisplayName(cat)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button type="button" variant="outline" onClick={openNewCatDialog}>
+                        <Plus className="h-4 w-4 mr-2" />New Cat
+                      </Button>
+                    </div>
+                    {(isMatchingPhotos || photoMatches.length > 0) && (
+                      <div className="space-y-2">
+                        <p className="text-sm text-muted-foreground flex items-center gap-2">
+                          <Sparkles className="h-4 w-4" />
+                          {isMatchingPhotos ? 'Comparing with photos of known cats...' : 'Looks like'}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {photoMatches.map(match => {
+                            const cat = cats.find(c => c.id === match.catId);
+                            if (!cat) return null;
+                            return (
+                              <Button
+                                key={match.catId}
+                                type="button"
+                                size="sm"
+                                variant={formData.catId === match.catId ? 'default' : 'outline'}
+                                onClick={() => setFormData(prev => ({ ...prev, catId: match.catId }))}
+                                title={`${match.attributesMatched} of 3 details match`}
+                              >
+                                {getCatDisplayName(cat)} · {Math.round(match.photoSimilarity * 100)}% similar
+                                {match.distance !== undefined && ` · ${formatDistance(match.distance)}`}
+                              </Button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="p-4 pt-0 flex-shrink-0">
                     <Label htmlFor="comment">Additional Comments</Label>
                   </div>
                   <div className="flex-1 min-h-0 p-4 pt-0">
@@ -435,6 +722,7 @@ export function ModernEncounterWizard({
       </Dialog>
       {renderAddOptionDialog()}
       {renderEditOptionDialog()}
+      {renderNewCatDialog()}
     </>
   );
 }
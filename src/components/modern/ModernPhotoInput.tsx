@@ -1,116 +1,222 @@
 /**
  * Modern mobile-optimized photo input component using shadcn/ui
+ * Holds an ordered list of photos, one of which is the cover, and opens the photo editor.
  */
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { Camera, Image, X, Upload, Loader2 } from 'lucide-react';
+import { Camera, Image, X, Upload, Loader2, Star, ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
-import { 
-  resizeImage, 
-  shouldResizeImage, 
-  isValidImageFile, 
-  createImageURL, 
-  revokeImageURL 
+import { storageService } from '@/services/StorageService';
+import { useUser } from '@/hooks/useUser';
+import type { EncounterPhoto } from '@/types';
+import { PhotoEditor } from './PhotoEditor';
+import { NO_PHOTO_EDITS, editedSize, hasPhotoEdits, type PhotoEdits } from '@/utils/photoEdits';
+import {
+  applyPhotoEdits,
+  ingestPhoto,
+  readPhotoMetadata,
+  createImageURL,
+  revokeImageURL,
+  type PhotoMetadata
 } from '@/utils/imageUtils';
 
+// A photo in the input: one already saved with the encounter, or a newly picked file
+export interface PhotoDraft {
+  key: string;
+  file?: File;
+  photo?: EncounterPhoto;
+  metadata?: PhotoMetadata; // Read from photos picked from the gallery
+  original?: { width: number; height: number }; // Size of a new photo before it was scaled
+  edit?: PhotoEdit; // Set once the photo has been edited; file then holds the edited photo
+}
+
+// The unedited photo and the edits made to it, so it can be edited again from the start
+interface PhotoEdit {
+  source: File;
+  edits: PhotoEdits;
+  original?: { width: number; height: number };
+}
+
 interface ModernPhotoInputProps {
-  value?: File | null;
-  onChange: (photo: File | null) => void;
+  value: PhotoDraft[];
+  coverIndex: number;
+  onChange: (photos: PhotoDraft[], coverIndex: number) => void;
   disabled?: boolean;
   className?: string;
 }
 
-export function ModernPhotoInput({ 
-  value, 
-  onChange, 
-  disabled = false, 
-  className = '' 
+export function ModernPhotoInput({
+  value,
+  coverIndex,
+  onChange,
+  disabled = false,
+  className = ''
 }: ModernPhotoInputProps) {
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const { preferences } = useUser();
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ key: string; source: File; edits: PhotoEdits } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewUrlsRef = useRef(new Map<string, string>());
+  // Photos taken just now describe the current place and time, so only gallery picks are read
+  const isFromGalleryRef = useRef(false);
 
-  // Update preview URL when value changes
+  // Keep one preview URL per photo, showing saved photos by their thumbnails
   useEffect(() => {
-    if (value) {
-      const url = createImageURL(value);
-      setPreviewUrl(url);
-      return () => revokeImageURL(url);
-    } else {
-      setPreviewUrl(null);
+    let cancelled = false;
+    const urls = previewUrlsRef.current;
+    const keys = new Set(value.map(draft => draft.key));
+    for (const [key, url] of urls) {
+      if (!keys.has(key)) {
+        revokeImageURL(url);
+        urls.delete(key);
+      }
     }
+
+    const loadPreviews = async () => {
+      for (const draft of value) {
+        if (urls.has(draft.key)) continue;
+        const blob = draft.file ?? (draft.photo?.blobId ? await storageService.getThumbnail(draft.photo.blobId) : null);
+        if (cancelled) return;
+        if (blob) urls.set(draft.key, createImageURL(blob));
+      }
+      setPreviewUrls(Object.fromEntries(urls));
+    };
+    loadPreviews().catch(err => console.error('Failed to load photo previews:', err));
+
+    return () => {
+      cancelled = true;
+    };
   }, [value]);
 
-  // Clean up preview URL on unmount
+  // Clean up preview URLs on unmount
   useEffect(() => {
+    const urls = previewUrlsRef.current;
     return () => {
-      if (previewUrl) {
-        revokeImageURL(previewUrl);
-      }
+      urls.forEach(url => revokeImageURL(url));
+      urls.clear();
     };
-  }, [previewUrl]);
+  }, []);
 
-  const handleFileSelect = useCallback(async (file: File) => {
+  const handleFilesSelect = useCallback(async (files: File[]) => {
     setError(null);
     setIsProcessing(true);
 
-    try {
-      // Validate file type
-      if (!isValidImageFile(file)) {
-        throw new Error('Please select a valid image file (JPEG, PNG, or WebP)');
-      }
-
-      // Check file size and resize if needed
-      let processedFile: File = file;
-      
-      if (shouldResizeImage(file)) {
-        try {
-          const resizedBlob = await resizeImage(file, {
-            maxWidth: 1600,
-            maxHeight: 1600,
-            quality: 0.8,
-            format: 'image/jpeg'
-          });
-          // Convert blob back to File
-          processedFile = new File([resizedBlob], file.name, { type: 'image/jpeg' });
-        } catch (resizeError) {
-          console.warn('Failed to resize image, using original:', resizeError);
-          // Continue with original file if resize fails
-        }
+    const added: PhotoDraft[] = [];
+    for (const file of files) {
+      try {
+        // Read metadata first; stored copies drop it
+        const metadata = isFromGalleryRef.current ? await readPhotoMetadata(file).catch(() => null) : null;
+        const { file: stored, width, height } = await ingestPhoto(file, {
+          quality: preferences.photoQuality,
+          keepMetadata: preferences.keepPhotoMetadata
+        });
+        added.push({ key: uuidv4(), file: stored, metadata: metadata ?? undefined, original: { width, height } });
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to process image';
+        setError(errorMessage);
+        console.error('Photo processing error:', err);
       }
+    }
 
-      onChange(processedFile);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to process image';
-      setError(errorMessage);
-      console.error('Photo processing error:', err);
-    } finally {
-      setIsProcessing(false);
+    if (added.length > 0) {
+      onChange([...value, ...added], value.length === 0 ? 0 : coverIndex);
     }
-  }, [onChange]);
+    setIsProcessing(false);
+  }, [value, coverIndex, onChange, preferences.photoQuality, preferences.keepPhotoMetadata]);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      handleFilesSelect(files);
     }
     // Reset input value to allow selecting the same file again
     e.target.value = '';
-  }, [handleFileSelect]);
+  }, [handleFilesSelect]);
 
-  const handleRemovePhoto = useCallback(() => {
-    onChange(null);
+  const handleRemovePhoto = useCallback((index: number) => {
+    const photos = value.filter((_, i) => i !== index);
+    // The cover stays on the same photo; removing the cover makes the first photo the cover
+    const cover = index === coverIndex ? 0 : index < coverIndex ? coverIndex - 1 : coverIndex;
+    onChange(photos, cover);
     setError(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  }, [value, coverIndex, onChange]);
+
+  const handleMovePhoto = useCallback((index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= value.length) return;
+    const photos = [...value];
+    [photos[index], photos[target]] = [photos[target], photos[index]];
+    const cover = coverIndex === index ? target : coverIndex === target ? index : coverIndex;
+    onChange(photos, cover);
+  }, [value, coverIndex, onChange]);
+
+  const handleOpenEditor = useCallback(async (draft: PhotoDraft) => {
+    setError(null);
+    if (draft.edit || draft.file) {
+      setEditing({ key: draft.key, source: draft.edit?.source ?? draft.file!, edits: draft.edit?.edits ?? NO_PHOTO_EDITS });
+      return;
+    }
+
+    // Saved photos are edited from their full-size copy
+    const blob = draft.photo?.blobId ? await storageService.getPhoto(draft.photo.blobId) : null;
+    if (!blob) {
+      setError('This photo is not stored on this device');
+      return;
+    }
+    setEditing({ key: draft.key, source: new File([blob], 'photo.jpg', { type: blob.type || 'image/jpeg' }), edits: NO_PHOTO_EDITS });
+  }, []);
+
+  const handleApplyEdits = useCallback(async (edits: PhotoEdits) => {
+    if (!editing) return;
+    const { key, source } = editing;
+    setEditing(null);
+    const index = value.findIndex(draft => draft.key === key);
+    if (index === -1) return;
+    const draft = value[index];
+    const original = draft.edit ? draft.edit.original : draft.original ?? (draft.photo?.width && draft.photo.height
+      ? { width: draft.photo.width, height: draft.photo.height }
+      : undefined);
+
+    let updated: PhotoDraft;
+    if (!hasPhotoEdits(edits)) {
+      // Back to the photo as it was; a saved photo needs no new copy
+      updated = draft.photo
+        ? { key: uuidv4(), photo: draft.photo, metadata: draft.metadata }
+        : { key: uuidv4(), file: source, metadata: draft.metadata, original };
+    } else {
+      setIsProcessing(true);
+      try {
+        const file = await applyPhotoEdits(source, edits, {
+          quality: preferences.photoQuality,
+          keepMetadata: preferences.keepPhotoMetadata
+        });
+        updated = {
+          key: uuidv4(),
+          file,
+          photo: draft.photo,
+          metadata: draft.metadata,
+          original: original && editedSize(original.width, original.height, edits),
+          edit: { source, edits, original }
+        };
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to edit photo');
+        console.error('Photo editing error:', err);
+        return;
+      } finally {
+        setIsProcessing(false);
+      }
     }
-  }, [onChange]);
+    onChange(value.map((item, i) => i === index ? updated : item), coverIndex);
+  }, [editing, value, coverIndex, onChange, preferences.photoQuality, preferences.keepPhotoMetadata]);
 
   const handleCameraCapture = useCallback(() => {
     if (fileInputRef.current) {
+      isFromGalleryRef.current = false;
       fileInputRef.current.setAttribute('capture', 'environment');
       fileInputRef.current.click();
     }
@@ -118,6 +224,7 @@ export function ModernPhotoInput({
 
   const handleGallerySelect = useCallback(() => {
     if (fileInputRef.current) {
+      isFromGalleryRef.current = true;
       fileInputRef.current.removeAttribute('capture');
       fileInputRef.current.click();
     }
@@ -130,44 +237,108 @@ export function ModernPhotoInput({
         ref={fileInputRef}
         type="file"
         accept="image/*"
+        multiple
         onChange={handleInputChange}
         className="hidden"
         disabled={disabled}
       />
 
-      {/* Photo preview or upload area */}
-      {previewUrl ? (
-        <Card className="relative overflow-hidden">
-          <CardContent className="p-0">
-            <div className="relative">
-              <img
-                src={previewUrl}
-                alt="Photo preview"
-                className="w-full h-48 sm:h-64 object-cover"
-              />
-              {/* Remove button */}
+      {/* Photo grid or upload area */}
+      {value.length > 0 ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {value.map((draft, index) => (
+            <div
+              key={draft.key}
+              className={cn(
+                "relative aspect-square overflow-hidden rounded-lg border bg-muted",
+                index === coverIndex && "ring-2 ring-primary"
+              )}
+            >
+              {previewUrls[draft.key] ? (
+                <img
+                  src={previewUrls[draft.key]}
+                  alt={`Photo ${index + 1}`}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <Loader2 className="h-5 w-5 text-muted-foreground animate-spin" />
+                </div>
+              )}
+              {index === coverIndex && (
+                <span className="absolute top-1 left-1 rounded bg-primary px-1.5 py-0.5 text-[10px] font-medium text-primary-foreground">
+                  Cover
+                </span>
+              )}
+              {/* Edit and remove buttons */}
+              <Button
+                type="button"
+                variant="secondary"
+                size="icon"
+                className="absolute top-1 right-9 h-7 w-7 rounded-full shadow-lg"
+                onClick={() => handleOpenEditor(draft)}
+                disabled={disabled || isProcessing}
+                aria-label={`Edit photo ${index + 1}`}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
               <Button
                 type="button"
                 variant="destructive"
                 size="icon"
-                className="absolute top-2 right-2 h-8 w-8 rounded-full shadow-lg"
-                onClick={handleRemovePhoto}
+                className="absolute top-1 right-1 h-7 w-7 rounded-full shadow-lg"
+                onClick={() => handleRemovePhoto(index)}
                 disabled={disabled || isProcessing}
+                aria-label={`Remove photo ${index + 1}`}
               >
                 <X className="h-4 w-4" />
               </Button>
-              {/* Processing overlay */}
-              {isProcessing && (
-                <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-                  <div className="bg-white rounded-lg p-3 flex items-center gap-2">
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    <span className="text-sm">Processing...</span>
-                  </div>
-                </div>
-              )}
+              {/* Order and cover controls */}
+              <div className="absolute inset-x-0 bottom-0 flex justify-between bg-black/40 p-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-white hover:bg-white/20"
+                  onClick={() => handleMovePhoto(index, -1)}
+                  disabled={disabled || index === 0}
+                  aria-label={`Move photo ${index + 1} earlier`}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-white hover:bg-white/20"
+                  onClick={() => onChange(value, index)}
+                  disabled={disabled}
+                  aria-label={`Use photo ${index + 1} as cover`}
+                >
+                  <Star className={cn("h-4 w-4", index === coverIndex && "fill-current")} />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-white hover:bg-white/20"
+                  onClick={() => handleMovePhoto(index, 1)}
+                  disabled={disabled || index === value.length - 1}
+                  aria-label={`Move photo ${index + 1} later`}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
-          </CardContent>
-        </Card>
+          ))}
+          {/* Processing tile */}
+          {isProcessing && (
+            <div className="aspect-square rounded-lg border border-dashed flex flex-col items-center justify-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              <span className="text-xs text-muted-foreground">Processing...</span>
+            </div>
+          )}
+        </div>
       ) : (
         <Card className="border-dashed border-2 hover:border-primary/50 transition-colors">
           <CardContent className="p-6">
@@ -183,9 +354,9 @@ export function ModernPhotoInput({
                     <Upload className="h-12 w-12 text-muted-foreground" />
                   </div>
                   <div className="space-y-2">
-                    <p className="text-sm font-medium">Add a photo of the cat</p>
+                    <p className="text-sm font-medium">Add photos of the cat</p>
                     <p className="text-xs text-muted-foreground">
-                      Take a photo or choose from your gallery
+                      Take photos or choose several from your gallery
                     </p>
                   </div>
                 </>
@@ -195,8 +366,8 @@ export function ModernPhotoInput({
         </Card>
       )}
 
-      {/* Action buttons - only show when no photo is selected */}
-      {!value && !isProcessing && (
+      {/* Action buttons; more photos can be added at any time */}
+      {!isProcessing && (
         <div className="grid grid-cols-2 gap-3">
           <Button
             type="button"
@@ -206,7 +377,7 @@ export function ModernPhotoInput({
             className="h-12 flex flex-col gap-1 py-2"
           >
             <Camera className="h-5 w-5" />
-            <span className="text-xs">Camera</span>
+            <span className="text-xs">{value.length > 0 ? 'Add from Camera' : 'Camera'}</span>
           </Button>
           <Button
             type="button"
@@ -216,7 +387,7 @@ export function ModernPhotoInput({
             className="h-12 flex flex-col gap-1 py-2"
           >
             <Image className="h-5 w-5" />
-            <span className="text-xs">Gallery</span>
+            <span className="text-xs">{value.length > 0 ? 'Add from Gallery' : 'Gallery'}</span>
           </Button>
         </div>
       )}
@@ -227,6 +398,13 @@ export function ModernPhotoInput({
           {error}
         </div>
       )}
+
+      <PhotoEditor
+        source={editing?.source ?? null}
+        edits={editing?.edits ?? NO_PHOTO_EDITS}
+        onApply={handleApplyEdits}
+        onCancel={() => setEditing(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
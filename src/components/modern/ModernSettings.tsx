@@ -3,7 +3,7 @@
  */
 
 import { useState } from 'react';
-import { Palette, Cloud, Download, Upload, Smartphone, Trash2, FileText } from 'lucide-react';
+import { Palette, Cloud, Download, Upload, Smartphone, Trash2, FileText, GitMerge, Link2, Copy, FileSpreadsheet } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,10 +11,28 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ModernGoogleLogin } from './ModernGoogleLogin';
 import { InstallPWAButton } from './InstallPWAButton';
+import { ConflictReviewDialog } from './ConflictReviewDialog';
+import { SyncProviderForm } from './SyncProviderForm';
+import { CsvExportDialog } from './CsvExportDialog';
+import { CsvImportDialog } from './CsvImportDialog';
+import { MapFileTransfer } from './MapFileTransfer';
+import { PhotoFolderImport } from './PhotoFolderImport';
+import { BackupFileTransfer } from './BackupFileTransfer';
 import { useUser } from '@/hooks/useUser';
+import { useSyncConflicts } from '@/hooks/useSyncConflicts';
+import { useSyncProvider } from '@/hooks/useSyncProvider';
+import { useShareLinks } from '@/hooks/useShareLinks';
 import { syncService } from '@/services/SyncService';
 import { storageService } from '@/services/StorageService';
-import type { UserPreferences } from '@/types';
+import type { SyncProviderType, UserPreferences } from '@/types';
+
+const SYNC_PROVIDER_NAMES: Record<SyncProviderType, string> = {
+  'google-drive': 'Google Drive',
+  'sync-server': 'CAT-a-log Server',
+  webdav: 'WebDAV (Nextcloud, ownCloud)',
+  s3: 'S3-compatible storage',
+  'local-folder': 'Folder on this computer'
+};
 
 interface ModernSettingsProps {
   preferences: UserPreferences;
@@ -24,12 +42,30 @@ interface ModernSettingsProps {
 
 export function ModernSettings({ preferences, onPreferencesChange, onClose }: ModernSettingsProps) {
   const { isAuthenticated, hasGoogleToken } = useUser();
+  const { conflicts } = useSyncConflicts();
+  const { activeProvider, savedSettings, isConnecting, connectProvider, disconnectProvider } = useSyncProvider();
+  const { links: sharedLinks, revokeLink } = useShareLinks();
   const [isLoading, setIsLoading] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showCsvExport, setShowCsvExport] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [chosenProviderType, setChosenProviderType] = useState<SyncProviderType | null>(null);
+
+  const providerType = chosenProviderType ?? activeProvider?.type ?? savedSettings?.type ?? 'google-drive';
+  const isSyncConnected = providerType === 'google-drive'
+    ? isAuthenticated && hasGoogleToken
+    : activeProvider?.type === providerType;
+  const providerName = providerType === 'google-drive' ? 'Google Drive' : activeProvider?.displayName ?? SYNC_PROVIDER_NAMES[providerType];
+  const shortProviderName = providerType === 'google-drive' ? 'Drive' : providerName;
 
   const handlePhotoQualityChange = (quality: 'low' | 'medium' | 'high') => {
     onPreferencesChange({ photoQuality: quality });
   };
 
+  const handleKeepPhotoMetadataChange = (keepPhotoMetadata: boolean) => {
+    onPreferencesChange({ keepPhotoMetadata });
+  };
+
   const handleAutoSyncChange = (autoSync: boolean) => {
     onPreferencesChange({ autoSync });
   };
@@ -46,7 +82,7 @@ export function ModernSettings({ preferences, onPreferencesChange, onClose }: Mo
   };
 
   const handleRestore = async () => {
-    if (!confirm('This will replace your current data with the backup from Google Drive. Are you sure?')) {
+    if (!confirm(`This will replace your current data with the backup from ${providerName}. Are you sure?`)) {
       return;
     }
 
@@ -111,24 +147,65 @@ export function ModernSettings({ preferences, onPreferencesChange, onClose }: Mo
               </SelectContent>
             </Select>
           </div>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>Photo Location Data</Label>
+              <p className="text-sm text-muted-foreground">
+                Keep the GPS position and camera details inside stored photos
+              </p>
+            </div>
+            <Button
+              variant={preferences.keepPhotoMetadata ? "default" : "outline"}
+              size="sm"
+              onClick={() => handleKeepPhotoMetadataChange(!preferences.keepPhotoMetadata)}
+            >
+              {preferences.keepPhotoMetadata ? "Kept" : "Removed"}
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
-      {/* Google Drive Sync */}
+      {/* Cloud Sync */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Cloud className="h-5 w-5" />
-            Google Drive Sync
+            Cloud Sync
           </CardTitle>
           <CardDescription>
             Backup and sync your cat encounters across devices
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <ModernGoogleLogin />
+          <div className="space-y-2">
+            <Label htmlFor="syncProvider">Sync With</Label>
+            <Select value={providerType} onValueChange={(value) => setChosenProviderType(value as SyncProviderType)}>
+              <SelectTrigger id="syncProvider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SYNC_PROVIDER_NAMES) as SyncProviderType[]).map(type => (
+                  <SelectItem key={type} value={type}>{SYNC_PROVIDER_NAMES[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {providerType === 'google-drive' ? (
+            <ModernGoogleLogin />
+          ) : (
+            <SyncProviderForm
+              key={`${providerType}-${savedSettings?.type ?? 'none'}`}
+              type={providerType}
+              savedSettings={savedSettings}
+              isConnected={isSyncConnected}
+              isConnecting={isConnecting}
+              onConnect={connectProvider}
+              onDisconnect={disconnectProvider}
+            />
+          )}
           
-          {isAuthenticated && hasGoogleToken && (
+          {isSyncConnected && (
             <>
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
@@ -153,7 +230,7 @@ export function ModernSettings({ preferences, onPreferencesChange, onClose }: Mo
                   className="flex-1"
                 >
                   <Upload className="h-4 w-4 mr-2" />
-                  {isLoading ? "Syncing..." : "Backup to Drive"}
+                  {isLoading ? "Syncing..." : `Backup to ${shortProviderName}`}
                 </Button>
                 <Button
                   onClick={handleRestore}
@@ -162,15 +239,73 @@ export function ModernSettings({ preferences, onPreferencesChange, onClose }: Mo
                   className="flex-1"
                 >
                   <Download className="h-4 w-4 mr-2" />
-                  {isLoading ? "Restoring..." : "Restore from Drive"}
+                  {isLoading ? "Restoring..." : `Restore from ${shortProviderName}`}
                 </Button>
               </div>
+
+              {conflicts.length > 0 && (
+                <Button
+                  onClick={() => setShowConflicts(true)}
+                  variant="outline"
+                  className="w-full"
+                >
+                  <GitMerge className="h-4 w-4 mr-2" />
+                  Review {conflicts.length} Sync Conflict{conflicts.length === 1 ? '' : 's'}
+                </Button>
+              )}
             </>
           )}
         </CardContent>
       </Card>
 
-
+      {/* Shared Links */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Shared Links
+          </CardTitle>
+          <CardDescription>
+            Public links to encounters and cats created on this device
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sharedLinks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No active links. Use the share button on an encounter to create one.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {sharedLinks.map(link => (
+                <div key={link.token} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <a href={link.url} target="_blank" rel="noreferrer" className="block truncate text-sm font-medium hover:underline">
+                      {link.title}
+                    </a>
+                    <p className="text-xs text-muted-foreground">
+                      {link.kind === 'cat' ? 'Cat profile' : 'Encounter'} · expires {new Date(link.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Copy link"
+                      onClick={() => navigator.clipboard.writeText(link.url).catch(error => console.error('Failed to copy link:', error))}
+                    >
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => revokeLink(link)}>
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
 
       {/* PWA Install */}
       <Card>
@@ -201,6 +336,33 @@ export function ModernSettings({ preferences, onPreferencesChange, onClose }: Mo
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            <div className="p-4 border rounded-lg bg-background">
+              <BackupFileTransfer />
+            </div>
+            <div className="p-4 border rounded-lg bg-background">
+              <div className="space-y-2">
+                <h4 className="font-medium">Spreadsheet (CSV)</h4>
+                <p className="text-sm text-muted-foreground">
+                  Export encounters to a spreadsheet, or import rows from one.
+                </p>
+                <div className="flex gap-2">
+                  <Button onClick={() => setShowCsvExport(true)} variant="outline" size="sm">
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                  <Button onClick={() => setShowCsvImport(true)} variant="outline" size="sm">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import CSV
+                  </Button>
+                </div>
+              </div>
+            </div>
+            <div className="p-4 border rounded-lg bg-background">
+              <MapFileTransfer />
+            </div>
+            <div className="p-4 border rounded-lg bg-background">
+              <PhotoFolderImport />
+            </div>
             <div className="p-4 border rounded-lg bg-background">
               <div className="space-y-2">
                 <h4 className="font-medium">Reset Welcome Screen</h4>
@@ -265,6 +427,10 @@ export function ModernSettings({ preferences, onPreferencesChange, onClose }: Mo
           Close Settings
         </Button>
       </div>
+
+      <ConflictReviewDialog open={showConflicts} onOpenChange={setShowConflicts} />
+      <CsvExportDialog open={showCsvExport} onOpenChange={setShowCsvExport} />
+      <CsvImportDialog open={showCsvImport} onOpenChange={setShowCsvImport} />
     </div>
   );
 }
\ No newline at end of file
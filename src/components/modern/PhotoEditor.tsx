@@ -0,0 +1,336 @@
+/**
+ * Crops, rotates and blurs parts of a photo, such as faces, house numbers and
+ * number plates. Edits are only a description until they are applied, so the
+ * photo can be re-edited from the original until the encounter is saved.
+ */
+
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent, type PointerEvent } from 'react';
+import { BoxSelect, Crop, Loader2, Paintbrush, RotateCcw, RotateCw, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { decodeUpright, drawEditedPhoto } from '@/utils/imageUtils';
+import {
+  MIN_REGION_SIZE,
+  NO_PHOTO_EDITS,
+  moveRegion,
+  regionBetween,
+  resizeRegion,
+  rotatePhotoEdits,
+  type BlurMark,
+  type PhotoEdits,
+  type PhotoPoint,
+  type PhotoRegion
+} from '@/utils/photoEdits';
+
+type EditorTool = 'crop' | 'box' | 'brush';
+
+// The crop, or the index of a blur box, that the arrow keys move
+type Selection = 'crop' | number | null;
+
+// Longest edge of the preview; edits are applied to the full photo when saved
+const PREVIEW_SIZE = 480;
+const BRUSH_RADIUS = 0.04;
+// How far one arrow key press moves or resizes the selected area
+const KEY_STEP = 0.02;
+
+const TOOLS: Array<{ value: EditorTool; label: string; icon: typeof Crop }> = [
+  { value: 'crop', label: 'Crop', icon: Crop },
+  { value: 'box', label: 'Blur box', icon: BoxSelect },
+  { value: 'brush', label: 'Blur brush', icon: Paintbrush }
+];
+
+interface PhotoEditorProps {
+  source: Blob | null;  // The unedited photo; the editor is open while there is one
+  edits: PhotoEdits;    // Edits applied earlier, to continue from
+  onApply: (edits: PhotoEdits) => void;
+  onCancel: () => void;
+}
+
+export function PhotoEditor({ source, edits: initialEdits, onApply, onCancel }: PhotoEditorProps) {
+  const [image, setImage] = useState<ImageBitmap | HTMLImageElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [edits, setEdits] = useState<PhotoEdits>(initialEdits);
+  const [tool, setTool] = useState<EditorTool>('box');
+  const [selection, setSelection] = useState<Selection>(null);
+  // The area being drawn with the pointer
+  const [drag, setDrag] = useState<{ start: PhotoPoint; end: PhotoPoint } | null>(null);
+  const [stroke, setStroke] = useState<PhotoPoint[] | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Start from the earlier edits each time a photo is opened
+  useEffect(() => {
+    setEdits(initialEdits);
+    setSelection(null);
+    setDrag(null);
+    setStroke(null);
+  }, [source, initialEdits]);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    let decoded: ImageBitmap | HTMLImageElement | null = null;
+    setImage(null);
+    setError(null);
+    decodeUpright(source)
+      .then(result => {
+        decoded = result;
+        if (!cancelled) setImage(result);
+      })
+      .catch(err => {
+        console.error('Failed to open photo for editing:', err);
+        if (!cancelled) setError('This photo could not be opened');
+      });
+
+    return () => {
+      cancelled = true;
+      if (decoded && !(decoded instanceof HTMLImageElement)) decoded.close();
+    };
+  }, [source]);
+
+  // What the preview shows, including the area being drawn
+  const previewEdits = useMemo<PhotoEdits>(() => {
+    const blurs: BlurMark[] = [...edits.blurs];
+    if (stroke) blurs.push({ type: 'brush', points: stroke, radius: BRUSH_RADIUS });
+    if (drag && tool === 'box') blurs.push({ type: 'box', region: regionBetween(drag.start, drag.end) });
+    return { ...edits, blurs };
+  }, [edits, stroke, drag, tool]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!image || !canvas) return;
+    const imageWidth = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+    const imageHeight = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(imageWidth, imageHeight));
+
+    let preview: HTMLCanvasElement;
+    try {
+      preview = drawEditedPhoto(image, previewEdits, { scale, crop: false });
+    } catch (err) {
+      console.error('Failed to draw photo preview:', err);
+      setError('This photo could not be shown');
+      return;
+    }
+    canvas.width = preview.width;
+    canvas.height = preview.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(preview, 0, 0);
+
+    const { width, height } = canvas;
+    const outline = (region: PhotoRegion, dashed: boolean) => {
+      ctx.setLineDash(dashed ? [6, 4] : []);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = '#ffffff';
+      ctx.strokeRect(region.x * width, region.y * height, region.width * width, region.height * height);
+    };
+
+    // Dim everything the crop leaves out
+    const crop = drag && tool === 'crop' ? regionBetween(drag.start, drag.end) : edits.crop;
+    if (crop) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+      ctx.fillRect(0, 0, width, crop.y * height);
+      ctx.fillRect(0, (crop.y + crop.height) * height, width, (1 - crop.y - crop.height) * height);
+      ctx.fillRect(0, crop.y * height, crop.x * width, crop.height * height);
+      ctx.fillRect((crop.x + crop.width) * width, crop.y * height, (1 - crop.x - crop.width) * width, crop.height * height);
+      outline(crop, selection !== 'crop');
+    }
+    if (typeof selection === 'number') {
+      const mark = edits.blurs[selection];
+      if (mark?.type === 'box') outline(mark.region, true);
+    }
+    if (drag && tool === 'box') {
+      outline(regionBetween(drag.start, drag.end), true);
+    }
+  }, [image, previewEdits, edits, drag, tool, selection]);
+
+  const toPoint = (event: PointerEvent<HTMLCanvasElement>): PhotoPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!image) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toPoint(event);
+    if (tool === 'brush') {
+      setStroke([point]);
+    } else {
+      setDrag({ start: point, end: point });
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (stroke) {
+      const point = toPoint(event);
+      setStroke(prev => prev && [...prev, point]);
+    } else if (drag) {
+      const point = toPoint(event);
+      setDrag(prev => prev && { ...prev, end: point });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (stroke) {
+      setEdits(prev => ({ ...prev, blurs: [...prev.blurs, { type: 'brush', points: stroke, radius: BRUSH_RADIUS }] }));
+      setSelection(null);
+      setStroke(null);
+      return;
+    }
+    if (!drag) return;
+    const region = regionBetween(drag.start, drag.end);
+    setDrag(null);
+    // A tap selects rather than drawing a tiny area
+    if (region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE) return;
+    if (tool === 'crop') {
+      setEdits(prev => ({ ...prev, crop: region }));
+      setSelection('crop');
+    } else {
+      setEdits(prev => ({ ...prev, blurs: [...prev.blurs, { type: 'box', region }] }));
+      setSelection(edits.blurs.length);
+    }
+  };
+
+  // Keyboard editing: Enter adds an area for the current tool, arrows move it,
+  // Shift+arrows resize it and Delete removes it
+  const handleKeyDown = (event: KeyboardEvent<HTMLCanvasElement>) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      if (tool === 'crop') {
+        setEdits(prev => ({ ...prev, crop: prev.crop ?? { x: 0.1, y: 0.1, width: 0.8, height: 0.8 } }));
+        setSelection('crop');
+      } else {
+        setEdits(prev => ({ ...prev, blurs: [...prev.blurs, { type: 'box', region: { x: 0.35, y: 0.35, width: 0.3, height: 0.3 } }] }));
+        setSelection(edits.blurs.length);
+      }
+      return;
+    }
+
+    const selected = selection === 'crop' ? edits.crop : selection !== null ? edits.blurs[selection] : undefined;
+    const region = selected && 'type' in selected ? (selected.type === 'box' ? selected.region : undefined) : selected;
+    if (!region) return;
+
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      setEdits(prev => selection === 'crop'
+        ? { ...prev, crop: undefined }
+        : { ...prev, blurs: prev.blurs.filter((_, index) => index !== selection) });
+      setSelection(null);
+      return;
+    }
+
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-KEY_STEP, 0],
+      ArrowRight: [KEY_STEP, 0],
+      ArrowUp: [0, -KEY_STEP],
+      ArrowDown: [0, KEY_STEP]
+    };
+    const offset = offsets[event.key];
+    if (!offset) return;
+    event.preventDefault();
+    const updated = event.shiftKey ? resizeRegion(region, ...offset) : moveRegion(region, ...offset);
+    setEdits(prev => selection === 'crop'
+      ? { ...prev, crop: updated }
+      : { ...prev, blurs: prev.blurs.map((mark, index) => index === selection ? { type: 'box', region: updated } : mark) });
+  };
+
+  const handleRotate = (turn: 1 | -1) => {
+    setEdits(prev => rotatePhotoEdits(prev, turn));
+  };
+
+  const handleUndo = () => {
+    setEdits(prev => ({ ...prev, blurs: prev.blurs.slice(0, -1) }));
+    setSelection(null);
+  };
+
+  return (
+    <Dialog open={source !== null} onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Photo</DialogTitle>
+          <DialogDescription>
+            Crop the photo, turn it, or blur faces, house numbers and number plates before it is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2" role="toolbar" aria-label="Photo editing tools">
+          {TOOLS.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              type="button"
+              variant={tool === value ? 'default' : 'outline'}
+              size="sm"
+              aria-pressed={tool === value}
+              onClick={() => setTool(value)}
+            >
+              <Icon className="h-4 w-4 mr-1" />
+              {label}
+            </Button>
+          ))}
+          <Button type="button" variant="outline" size="icon" className="h-9 w-9" onClick={() => handleRotate(-1)} aria-label="Rotate left">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="outline" size="icon" className="h-9 w-9" onClick={() => handleRotate(1)} aria-label="Rotate right">
+            <RotateCw className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="h-9 w-9"
+            onClick={handleUndo}
+            disabled={edits.blurs.length === 0}
+            aria-label="Undo last blur"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex min-h-[12rem] items-center justify-center rounded-md bg-muted">
+          {error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : !image ? (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          ) : null}
+          <canvas
+            ref={canvasRef}
+            tabIndex={0}
+            aria-label={`Photo being edited. ${tool === 'brush' ? 'Drag to blur' : 'Drag to draw an area'}, or press Enter to add one. Arrow keys move the selected area, Shift and arrow keys resize it and Delete removes it.`}
+            className={cn(
+              "max-h-[60vh] max-w-full touch-none rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+              (!image || error) && "hidden",
+              tool === 'brush' ? "cursor-cell" : "cursor-crosshair"
+            )}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onKeyDown={handleKeyDown}
+          />
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="ghost" onClick={() => { setEdits(NO_PHOTO_EDITS); setSelection(null); }}>
+            Reset
+          </Button>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={() => onApply(edits)} disabled={!image}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
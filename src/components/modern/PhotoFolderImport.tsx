@@ -0,0 +1,111 @@
+/**
+ * Creates one draft encounter for each geotagged photo in a folder
+ */
+
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { FolderOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useUser } from '@/hooks/useUser';
+import { storageService } from '@/services/StorageService';
+import { syncService } from '@/services/SyncService';
+import { buildPhotoFields, createDraftEncounter } from '@/models/CatEncounter';
+import { ingestPhoto, isValidImageFile, readPhotoMetadata } from '@/utils/imageUtils';
+import type { CatEncounter } from '@/types';
+
+export function PhotoFolderImport() {
+  const { dispatch, showSnackbar } = useAppContext();
+  const { preferences } = useUser();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Not in React's input attributes; browsers without folder picking fall back to choosing files
+  useEffect(() => {
+    fileInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []).filter(isValidImageFile);
+    event.target.value = '';
+    if (files.length === 0) {
+      showSnackbar('No photos found in the folder', 'error');
+      return;
+    }
+
+    setProgress({ done: 0, total: files.length });
+    const drafts: CatEncounter[] = [];
+    let withoutLocation = 0;
+    try {
+      for (const [index, file] of files.entries()) {
+        try {
+          const metadata = await readPhotoMetadata(file);
+          if (metadata?.lat === undefined || metadata.lng === undefined) {
+            withoutLocation++;
+            continue;
+          }
+          const { file: stored, width, height } = await ingestPhoto(file, {
+            quality: preferences.photoQuality,
+            keepMetadata: preferences.keepPhotoMetadata
+          });
+          const photoBlobId = await storageService.savePhoto(stored);
+          drafts.push({
+            ...createDraftEncounter(metadata.lat, metadata.lng, {
+              dateTime: metadata.dateTime ?? new Date(file.lastModified).toISOString()
+            }),
+            ...buildPhotoFields([{ blobId: photoBlobId, width, height }])
+          });
+        } catch (error) {
+          console.error(`Failed to import photo ${file.name}:`, error);
+          withoutLocation++;
+        } finally {
+          setProgress({ done: index + 1, total: files.length });
+        }
+      }
+
+      if (drafts.length > 0) {
+        await storageService.saveEncounters(drafts);
+        dispatch({ type: 'SET_ENCOUNTERS', payload: await storageService.getEncounters() });
+        syncService.syncEncounter();
+      }
+      console.log(`Photo folder import: ${drafts.length} drafts, ${withoutLocation} photos skipped`);
+
+      if (drafts.length === 0) {
+        showSnackbar('None of the photos has a location', 'error');
+      } else {
+        const skipped = withoutLocation > 0 ? `; ${withoutLocation} without a location were skipped` : '';
+        showSnackbar(`Created ${drafts.length} draft encounters${skipped}`, 'success');
+      }
+    } catch (error) {
+      console.error('Photo folder import failed:', error);
+      showSnackbar(error instanceof Error ? error.message : 'Import failed', 'error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">Photo Folder</h4>
+      <p className="text-sm text-muted-foreground">
+        Create a draft encounter at the location of each geotagged photo, then describe the cats later.
+      </p>
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={progress !== null}
+        variant="outline"
+        size="sm"
+      >
+        <FolderOpen className="h-4 w-4 mr-2" />
+        {progress ? `Importing ${progress.done}/${progress.total}...` : 'Import Photo Folder'}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleImport}
+        className="hidden"
+      />
+    </div>
+  );
+}
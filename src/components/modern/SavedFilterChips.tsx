@@ -0,0 +1,67 @@
+/**
+ * Saved filters as chips with live counts; tapping one applies it, tapping it again clears it
+ */
+
+import { BookmarkPlus, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { SavedFilter } from '@/types';
+
+interface SavedFilterChipsProps {
+  filters: SavedFilter[];
+  counts: Record<string, number>;
+  activeFilterId?: string;
+  canSave: boolean;              // The search is not empty and not already saved
+  onApply: (filter: SavedFilter | null) => void;
+  onSave: () => void;
+  onEdit: (filter: SavedFilter) => void;
+  className?: string;
+}
+
+export function SavedFilterChips({ filters, counts, activeFilterId, canSave, onApply, onSave, onEdit, className }: SavedFilterChipsProps) {
+  return (
+    <div className={cn("flex items-center gap-2 overflow-x-auto px-4 pb-2", className)} role="toolbar" aria-label="Saved filters">
+      {filters.map(filter => {
+        const isActive = filter.id === activeFilterId;
+        return (
+          <div
+            key={filter.id}
+            className={cn(
+              "flex shrink-0 items-center rounded-full border text-sm shadow-sm",
+              isActive ? "border-primary bg-primary text-primary-foreground" : "bg-background/90 hover:bg-accent"
+            )}
+          >
+            <button
+              type="button"
+              className="flex items-center gap-1.5 rounded-full py-1 pl-3 pr-3 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              aria-pressed={isActive}
+              title={filter.query}
+              onClick={() => onApply(isActive ? null : filter)}
+            >
+              <span className="max-w-[10rem] truncate">{filter.name}</span>
+              <span className={cn("text-xs tabular-nums", isActive ? "opacity-80" : "text-muted-foreground")}>
+                {counts[filter.id] ?? 0}
+              </span>
+            </button>
+            {isActive && (
+              <button
+                type="button"
+                className="-ml-1 mr-1 rounded-full p-1 hover:bg-primary-foreground/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                aria-label={`Edit ${filter.name}`}
+                onClick={() => onEdit(filter)}
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {canSave && (
+        <Button variant="outline" size="sm" className="h-8 shrink-0 rounded-full bg-background/90 shadow-sm" onClick={onSave}>
+          <BookmarkPlus className="h-4 w-4 mr-1" />
+          Save filter
+        </Button>
+      )}
+    </div>
+  );
+}
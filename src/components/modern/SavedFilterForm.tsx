@@ -0,0 +1,101 @@
+/**
+ * Name and query of a saved filter, with deletion when editing one
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { parseSearchQuery } from '@/utils/encounterSearch';
+import type { SavedFilter } from '@/types';
+
+export type SavedFilterDetails = Pick<SavedFilter, 'name' | 'query'>;
+
+interface SavedFilterFormProps {
+  isOpen: boolean;
+  filter?: SavedFilter;
+  initialQuery?: string;         // Search to save when creating a filter
+  onSave: (details: SavedFilterDetails) => void;
+  onDelete?: (filter: SavedFilter) => void;
+  onCancel: () => void;
+}
+
+export function SavedFilterForm({ isOpen, filter, initialQuery = '', onSave, onDelete, onCancel }: SavedFilterFormProps) {
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+
+  // Start from the filter being edited, or the current search for a new one
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(filter?.name ?? '');
+    setQuery(filter?.query ?? initialQuery);
+  }, [isOpen, filter, initialQuery]);
+
+  const { errors } = parseSearchQuery(query);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !query.trim()) return;
+    onSave({ name: name.trim(), query: query.trim() });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{filter ? 'Edit Saved Filter' : 'Save Filter'}</DialogTitle>
+            <DialogDescription>
+              Saved filters appear above the list and as collections in the bottom bar, counting matching encounters as they change.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="savedFilterName">Name</Label>
+            <Input
+              id="savedFilterName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Friendly cats this month"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="savedFilterQuery">Search</Label>
+            <Input
+              id="savedFilterQuery"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="e.g. behavior:friendly after:month -has:photo"
+              className="font-mono text-sm"
+              spellCheck={false}
+              required
+            />
+            {errors.length > 0 && (
+              <p className="text-xs text-destructive">{errors.join('; ')}</p>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            {filter && onDelete && (
+              <Button type="button" variant="destructive" className="sm:mr-auto" onClick={() => onDelete(filter)}>
+                Delete
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button type="submit" disabled={!name.trim() || !query.trim()}>Save Filter</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * Publishes a public link to an encounter, or to the cat it belongs to
+ */
+
+import { useEffect, useState } from 'react';
+import { Copy, Link2, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { useCats } from '@/hooks/useCats';
+import { useEncounters } from '@/hooks/useEncounters';
+import { useShareLinks } from '@/hooks/useShareLinks';
+import { useAppContext } from '@/hooks/useAppContext';
+import { SHARE_EXPIRY_DAYS } from '@/services/ShareService';
+import { storageService } from '@/services/StorageService';
+import { getCatDisplayName } from '@/models/Cat';
+import { removePhotoMetadata } from '@/utils/imageUtils';
+import { createCatSnapshot, createEncounterSnapshot, SHARE_LOCATION_RADIUS_METERS } from '@/utils/shareSnapshot';
+import type { CatEncounter, ShareKind, SharedLink } from '@/types';
+
+interface ShareDialogProps {
+  encounter: CatEncounter | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShareDialog({ encounter, onOpenChange }: ShareDialogProps) {
+  const { getCatById } = useCats();
+  const { encounters } = useEncounters();
+  const { publishLink } = useShareLinks();
+  const { showSnackbar } = useAppContext();
+  const [kind, setKind] = useState<ShareKind>('encounter');
+  const [expiresInDays, setExpiresInDays] = useState<number>(7);
+  const [includePhoto, setIncludePhoto] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [link, setLink] = useState<SharedLink | null>(null);
+
+  const cat = encounter?.catId ? getCatById(encounter.catId) : undefined;
+  const photoBlobId = kind === 'cat' ? cat?.profilePhotoBlobId ?? encounter?.photoBlobId : encounter?.photoBlobId;
+
+  // Start fresh for each encounter
+  useEffect(() => {
+    setKind('encounter');
+    setIncludePhoto(true);
+    setLink(null);
+  }, [encounter?.id]);
+
+  const handlePublish = async () => {
+    if (!encounter) return;
+    setIsPublishing(true);
+    try {
+      const snapshot = kind === 'cat' && cat ? createCatSnapshot(cat, encounters) : createEncounterSnapshot(encounter, cat);
+      // Stored photos can still carry the exact GPS position, which the public page must not reveal
+      const stored = includePhoto && photoBlobId ? await storageService.getPhoto(photoBlobId) : null;
+      const photo = stored ? await removePhotoMetadata(stored) : null;
+      setLink(await publishLink({
+        recordId: kind === 'cat' && cat ? cat.id : encounter.id,
+        snapshot,
+        photo,
+        expiresInDays
+      }));
+    } catch {
+      // Reported by useShareLinks
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      showSnackbar('Link copied', 'success');
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  const handleNativeShare = async () => {
+    if (!link) return;
+    try {
+      await navigator.share({ title: link.title, url: link.url });
+    } catch (error) {
+      // Closing the share sheet is not an error
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Failed to share link:', error);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={!!encounter} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share Link</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can see the photo, description and a map circle within about {SHARE_LOCATION_RADIUS_METERS} m of where the cat was seen.
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input readOnly value={link.url} onFocus={(e) => e.target.select()} aria-label="Share link" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Expires {new Date(link.expiresAt).toLocaleDateString()}. You can revoke it any time in Settings.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {cat && (
+              <div className="space-y-2">
+                <Label htmlFor="shareKind">Share</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as ShareKind)}>
+                  <SelectTrigger id="shareKind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="encounter">This encounter</SelectItem>
+                    <SelectItem value="cat">{getCatDisplayName(cat)}'s profile</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="shareExpiry">Link Expires After</Label>
+              <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+                <SelectTrigger id="shareExpiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_EXPIRY_DAYS.map(days => (
+                    <SelectItem key={days} value={String(days)}>{days === 1 ? '1 day' : `${days} days`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {photoBlobId && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={includePhoto} onChange={(e) => setIncludePhoto(e.target.checked)} />
+                Include photo
+              </label>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {link ? (
+            <>
+              {typeof navigator.share === 'function' && (
+                <Button variant="outline" onClick={handleNativeShare}>
+                  <Share2 className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </>
+          ) : (
+            <Button onClick={handlePublish} disabled={isPublishing}>
+              <Link2 className="h-4 w-4 mr-2" />
+              {isPublishing ? 'Creating Link...' : 'Create Link'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,297 @@
+/**
+ * SVG charts of the stats dashboard. Text and grid lines use currentColor so they follow
+ * the theme on screen; chartExport gives them a fixed color in exported files.
+ */
+
+import { useRef, useState, type ReactNode } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAppContext } from '@/hooks/useAppContext';
+import { exportChart, type ChartFormat } from '@/utils/chartExport';
+import { getDayKey, type EncounterStreaks, type StatsCount, type StatsInterval, type TimeBucket } from '@/utils/encounterStats';
+
+const CHART_COLOR = '#4f46e5';
+const HEAT_COLOR = '#ea580c';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const FONT_SIZE = 12;
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+interface ChartCardProps {
+  title: string;
+  description?: string;
+  fileName: string;              // Exported as fileName.svg or fileName.png
+  isEmpty?: boolean;
+  actions?: ReactNode;           // Controls shown next to the export buttons
+  children: ReactNode;
+}
+
+/**
+ * A chart with its title and buttons to save it as SVG or PNG
+ */
+export function ChartCard({ title, description, fileName, isEmpty, actions, children }: ChartCardProps) {
+  const { showSnackbar } = useAppContext();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [exporting, setExporting] = useState<ChartFormat | null>(null);
+
+  const handleExport = async (format: ChartFormat) => {
+    const svg = chartRef.current?.querySelector('svg');
+    if (!svg) return;
+    setExporting(format);
+    try {
+      await exportChart(svg, fileName, format);
+    } catch (error) {
+      console.error(`Failed to export ${fileName} chart:`, error);
+      showSnackbar('Failed to export chart', 'error');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0 p-4 pb-2">
+        <div className="space-y-1">
+          <CardTitle className="text-base">{title}</CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </div>
+        <div className="flex items-center gap-1">
+          {actions}
+          {(['svg', 'png'] as const).map(format => (
+            <Button
+              key={format}
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2 text-xs uppercase"
+              disabled={isEmpty || exporting !== null}
+              onClick={() => handleExport(format)}
+              title={`Save as ${format.toUpperCase()}`}
+            >
+              <Download className="h-3 w-3 mr-1" />
+              {format}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0" ref={chartRef}>
+        {isEmpty ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No encounters to show yet</p>
+        ) : children}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Horizontal bars, one per value, longest first
+ */
+export function BarChart({ data, label, color = CHART_COLOR }: { data: StatsCount[]; label: string; color?: string }) {
+  const width = 360;
+  const row = 24;
+  const labelWidth = 124;
+  const countWidth = 40;
+  const height = data.length * row + 8;
+  const max = Math.max(1, ...data.map(({ count }) => count));
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={label} fontSize={FONT_SIZE}>
+      {data.map(({ label: name, count }, index) => {
+        const y = 4 + index * row;
+        const barWidth = Math.max(2, (count / max) * (width - labelWidth - countWidth));
+        return (
+          <g key={name}>
+            <title>{`${name}: ${count}`}</title>
+            <text x={labelWidth - 8} y={y + row / 2} textAnchor="end" dominantBaseline="middle" fill="currentColor">
+              {truncate(name, 18)}
+            </text>
+            <rect x={labelWidth} y={y + 4} width={barWidth} height={row - 8} rx={3} fill={color} />
+            <text x={labelWidth + barWidth + 6} y={y + row / 2} dominantBaseline="middle" fill="currentColor" opacity={0.7}>
+              {count}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function formatBucket(start: string, interval: StatsInterval): string {
+  const date = new Date(`${start}T00:00:00`);
+  return interval === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' });
+}
+
+/**
+ * Vertical bars of encounters per day, week or month
+ */
+export function TimeSeriesChart({ data, interval }: { data: TimeBucket[]; interval: StatsInterval }) {
+  const width = 600;
+  const height = 200;
+  const left = 36;
+  const bottom = 24;
+  const top = 10;
+  const plotWidth = width - left - 8;
+  const plotHeight = height - top - bottom;
+  const max = Math.max(1, ...data.map(({ count }) => count));
+  const slot = plotWidth / Math.max(1, data.length);
+  const gap = slot > 4 ? 1 : 0;
+  // First, middle and last dates along the bottom
+  const labelled = [...new Set([0, Math.floor((data.length - 1) / 2), data.length - 1])];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={`Encounters per ${interval}`} fontSize={FONT_SIZE}>
+      <line x1={left} x2={width - 8} y1={top} y2={top} stroke="currentColor" strokeOpacity={0.15} />
+      <line x1={left} x2={width - 8} y1={top + plotHeight} y2={top + plotHeight} stroke="currentColor" strokeOpacity={0.3} />
+      <text x={left - 6} y={top} textAnchor="end" dominantBaseline="middle" fill="currentColor" opacity={0.7}>{max}</text>
+      <text x={left - 6} y={top + plotHeight} textAnchor="end" dominantBaseline="middle" fill="currentColor" opacity={0.7}>0</text>
+
+      {data.map(({ start, count }, index) => {
+        const barHeight = (count / max) * plotHeight;
+        return (
+          <rect
+            key={start}
+            x={left + index * slot + gap}
+            y={top + plotHeight - barHeight}
+            width={Math.max(0.5, slot - gap * 2)}
+            height={barHeight}
+            fill={CHART_COLOR}
+          >
+            <title>{`${formatBucket(start, interval)}: ${count}`}</title>
+          </rect>
+        );
+      })}
+
+      {data.length > 0 && labelled.map(index => (
+        <text
+          key={index}
+          x={left + index * slot + slot / 2}
+          y={height - 6}
+          textAnchor={index === 0 ? 'start' : index === data.length - 1 ? 'end' : 'middle'}
+          fill="currentColor"
+          opacity={0.7}
+        >
+          {formatBucket(data[index].start, interval)}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Shaded table of encounters by day of the week and hour of the day
+ */
+export function HeatTable({ table }: { table: number[][] }) {
+  const cellWidth = 16;
+  const cellHeight = 18;
+  const labelWidth = 36;
+  const header = 18;
+  const width = labelWidth + 24 * cellWidth;
+  const height = header + 7 * cellHeight;
+  const max = Math.max(1, ...table.flat());
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Encounters by weekday and hour" fontSize={FONT_SIZE - 2}>
+      {Array.from({ length: 8 }, (_, index) => index * 3).map(hour => (
+        <text key={hour} x={labelWidth + hour * cellWidth} y={header - 6} fill="currentColor" opacity={0.7}>{hour}</text>
+      ))}
+      {table.map((hours, day) => (
+        <g key={day}>
+          <text x={labelWidth - 6} y={header + day * cellHeight + cellHeight / 2} textAnchor="end" dominantBaseline="middle" fill="currentColor">
+            {WEEKDAYS[day]}
+          </text>
+          {hours.map((count, hour) => (
+            <rect
+              key={hour}
+              x={labelWidth + hour * cellWidth + 1}
+              y={header + day * cellHeight + 1}
+              width={cellWidth - 2}
+              height={cellHeight - 2}
+              rx={2}
+              fill={count ? HEAT_COLOR : 'currentColor'}
+              fillOpacity={count ? 0.2 + 0.8 * (count / max) : 0.06}
+            >
+              <title>{`${WEEKDAYS[day]} ${hour}:00–${hour + 1}:00: ${count}`}</title>
+            </rect>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Share of encounters with at least one photo
+ */
+export function CoverageChart({ total, withPhotos, photoCount }: { total: number; withPhotos: number; photoCount: number }) {
+  const width = 360;
+  const height = 64;
+  const share = total ? withPhotos / total : 0;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Photo coverage" fontSize={FONT_SIZE}>
+      <text x={0} y={14} fill="currentColor">
+        {`${withPhotos} of ${total} encounters have photos · ${photoCount} photo${photoCount === 1 ? '' : 's'}`}
+      </text>
+      <rect x={0} y={26} width={width} height={16} rx={8} fill="currentColor" fillOpacity={0.08} />
+      {share > 0 && <rect x={0} y={26} width={Math.max(16, share * width)} height={16} rx={8} fill={CHART_COLOR} />}
+      <text x={width} y={60} textAnchor="end" fill="currentColor" opacity={0.7}>{`${Math.round(share * 100)}%`}</text>
+    </svg>
+  );
+}
+
+/**
+ * Streak totals above a calendar of the last weeks, one square per day
+ */
+export function StreakCalendar({ streaks, days, weeks = 20, today = new Date() }: {
+  streaks: EncounterStreaks;
+  days: Map<string, number>;
+  weeks?: number;
+  today?: Date;
+}) {
+  const cell = 17;
+  const labelWidth = 32;
+  const header = 40;
+  const width = labelWidth + weeks * cell;
+  const height = header + 7 * cell;
+  // Columns are Monday-based weeks ending with the current one
+  const firstDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (today.getDay() + 6) % 7 - (weeks - 1) * 7);
+  const todayKey = getDayKey(today);
+  const plural = (count: number) => `${count} day${count === 1 ? '' : 's'}`;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Encounter streaks" fontSize={FONT_SIZE}>
+      <text x={0} y={14} fill="currentColor">
+        <tspan fontWeight="bold">{`Current streak ${plural(streaks.current)}`}</tspan>
+        <tspan dx={12} opacity={0.7}>{`Longest ${plural(streaks.longest)} · ${plural(streaks.activeDays)} with encounters`}</tspan>
+      </text>
+      {[0, 2, 4, 6].map(day => (
+        <text key={day} x={0} y={header + day * cell + cell / 2} dominantBaseline="middle" fill="currentColor" opacity={0.7} fontSize={FONT_SIZE - 2}>
+          {WEEKDAYS[day]}
+        </text>
+      ))}
+      {Array.from({ length: weeks * 7 }, (_, index) => {
+        const date = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() + index);
+        const key = getDayKey(date);
+        if (key > todayKey) return null;
+        const count = days.get(key) ?? 0;
+        return (
+          <rect
+            key={key}
+            x={labelWidth + Math.floor(index / 7) * cell + 1}
+            y={header + (index % 7) * cell + 1}
+            width={cell - 3}
+            height={cell - 3}
+            rx={2}
+            fill={count ? CHART_COLOR : 'currentColor'}
+            fillOpacity={count ? 0.35 + 0.65 * Math.min(count, 4) / 4 : 0.06}
+          >
+            <title>{`${date.toLocaleDateString()}: ${count}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Stats view: charts of when, where and which cats were seen, computed on the device
+ */
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { CatEncounter } from '@/types';
+import {
+  countOverTime,
+  countByField,
+  limitCounts,
+  countByWeekdayAndHour,
+  getPhotoCoverage,
+  getMostVisitedAreas,
+  countByDay,
+  getStreaks,
+  type StatsField,
+  type StatsInterval
+} from '@/utils/encounterStats';
+import { ChartCard, BarChart, TimeSeriesChart, HeatTable, CoverageChart, StreakCalendar } from './StatsCharts';
+
+interface StatsDashboardProps {
+  encounters: CatEncounter[];
+  isFiltered?: boolean;          // The encounters are the results of a search
+  getColonyName?: (colonyId: string) => string | undefined;
+}
+
+const INTERVALS: StatsInterval[] = ['day', 'week', 'month'];
+
+const DISTRIBUTIONS: Array<{ field: StatsField; title: string; fileName: string }> = [
+  { field: 'catColor', title: 'Coat Colors', fileName: 'coat-colors' },
+  { field: 'coatLength', title: 'Coat Lengths', fileName: 'coat-lengths' },
+  { field: 'catType', title: 'Cat Types', fileName: 'cat-types' },
+  { field: 'behavior', title: 'Behavior', fileName: 'behavior' }
+];
+
+// Values shown per distribution before the rest are grouped as Other
+const MAX_CATEGORIES = 8;
+
+export function StatsDashboard({ encounters, isFiltered, getColonyName }: StatsDashboardProps) {
+  const [interval, setTimeInterval] = useState<StatsInterval>('week');
+
+  const overTime = useMemo(() => countOverTime(encounters, interval), [encounters, interval]);
+  const distributions = useMemo(
+    () => DISTRIBUTIONS.map(distribution => ({
+      ...distribution,
+      data: limitCounts(countByField(encounters, distribution.field), MAX_CATEGORIES)
+    })),
+    [encounters]
+  );
+  const weekTable = useMemo(() => countByWeekdayAndHour(encounters), [encounters]);
+  const coverage = useMemo(() => getPhotoCoverage(encounters), [encounters]);
+  const days = useMemo(() => countByDay(encounters), [encounters]);
+  const streaks = useMemo(() => getStreaks(encounters), [encounters]);
+  const areas = useMemo(
+    () => getMostVisitedAreas(encounters).map(area => ({
+      label: (area.colonyId && getColonyName?.(area.colonyId)) || `${area.lat.toFixed(4)}, ${area.lng.toFixed(4)}`,
+      count: area.count
+    })),
+    [encounters, getColonyName]
+  );
+
+  const isEmpty = encounters.length === 0;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 pb-32 space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {isFiltered
+          ? `Stats for the ${encounters.length} encounter${encounters.length === 1 ? '' : 's'} matching your search`
+          : `Stats for all ${encounters.length} encounter${encounters.length === 1 ? '' : 's'}`}
+      </p>
+
+      <ChartCard
+        title="Encounters Over Time"
+        fileName={`encounters-per-${interval}`}
+        isEmpty={isEmpty}
+        actions={
+          <div className="flex rounded-md border p-0.5 mr-1" role="group" aria-label="Interval">
+            {INTERVALS.map(option => (
+              <Button
+                key={option}
+                variant="ghost"
+                size="sm"
+                className={cn("h-7 px-2 text-xs capitalize", interval === option && "bg-accent")}
+                aria-pressed={interval === option}
+                onClick={() => setTimeInterval(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        }
+      >
+        <TimeSeriesChart data={overTime} interval={interval} />
+      </ChartCard>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {distributions.map(({ field, title, fileName, data }) => (
+          <ChartCard key={field} title={title} fileName={fileName} isEmpty={isEmpty}>
+            <BarChart data={data} label={title} />
+          </ChartCard>
+        ))}
+      </div>
+
+      <ChartCard
+        title="Time of Day"
+        description="Encounters by day of the week and hour"
+        fileName="time-of-day"
+        isEmpty={isEmpty}
+      >
+        <HeatTable table={weekTable} />
+      </ChartCard>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <ChartCard title="Photo Coverage" fileName="photo-coverage" isEmpty={isEmpty}>
+          <CoverageChart {...coverage} />
+        </ChartCard>
+
+        <ChartCard
+          title="Most Visited Areas"
+          description="Colonies, or spots of about 100m"
+          fileName="most-visited-areas"
+          isEmpty={isEmpty}
+        >
+          <BarChart data={areas} label="Most visited areas" />
+        </ChartCard>
+      </div>
+
+      <ChartCard title="Streaks" description="Days in a row with at least one encounter" fileName="streaks" isEmpty={isEmpty}>
+        <StreakCalendar streaks={streaks} days={days} />
+      </ChartCard>
+    </div>
+  );
+}
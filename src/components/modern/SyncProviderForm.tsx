@@ -0,0 +1,293 @@
+/**
+ * Connection settings for the sync server, WebDAV, S3 and local folder sync providers
+ */
+
+import { useState } from 'react';
+import { FolderOpen, Link2, LogIn, Unlink, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LocalFolderProvider } from '@/services/LocalFolderProvider';
+import { SyncServerProvider } from '@/services/SyncServerProvider';
+import type { ConfigurableProviderSettings } from '@/services/createSyncProvider';
+import type { S3Settings, SyncProviderSettings, WebDavSettings } from '@/types';
+
+interface SyncProviderFormProps {
+  type: ConfigurableProviderSettings['type'];
+  savedSettings: SyncProviderSettings | null;
+  isConnected: boolean;
+  isConnecting: boolean;
+  onConnect: (settings: ConfigurableProviderSettings) => Promise<void>;
+  onDisconnect: () => Promise<void>;
+}
+
+const EMPTY_WEBDAV: WebDavSettings = { url: '', username: '', password: '' };
+const EMPTY_S3: S3Settings = { endpoint: '', region: 'us-east-1', bucket: '', prefix: 'cat-a-log', accessKeyId: '', secretAccessKey: '' };
+
+export function SyncProviderForm({ type, savedSettings, isConnected, isConnecting, onConnect, onDisconnect }: SyncProviderFormProps) {
+  const [webdav, setWebdav] = useState<WebDavSettings>(savedSettings?.type === 'webdav' ? savedSettings.webdav : EMPTY_WEBDAV);
+  const [s3, setS3] = useState<S3Settings>(savedSettings?.type === 's3' ? savedSettings.s3 : EMPTY_S3);
+  const [server, setServer] = useState({
+    url: savedSettings?.type === 'sync-server' ? savedSettings.server.url : window.location.origin,
+    username: savedSettings?.type === 'sync-server' ? savedSettings.server.username : '',
+    password: ''
+  });
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const savedFolder = savedSettings?.type === 'local-folder' ? savedSettings.directoryHandle : null;
+
+  const connect = (settings: ConfigurableProviderSettings) => {
+    onConnect(settings).catch(() => {
+      // Reported by useSyncProvider
+    });
+  };
+
+  const handleServerSignIn = async (createAccount: boolean) => {
+    setSignInError(null);
+    setIsSigningIn(true);
+    try {
+      const settings = await SyncServerProvider.signIn(server.url, server.username, server.password, createAccount);
+      setServer({ ...server, password: '' });
+      connect({ type: 'sync-server', server: settings });
+    } catch (error) {
+      console.error('Sync server sign-in failed:', error);
+      setSignInError(error instanceof Error ? error.message : 'Sign-in failed');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    try {
+      const directoryHandle = await LocalFolderProvider.pickDirectory();
+      connect({ type: 'local-folder', directoryHandle });
+    } catch (error) {
+      // Closing the picker is not an error
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Failed to choose folder:', error);
+      }
+    }
+  };
+
+  if (isConnected) {
+    return (
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {type === 'sync-server' && `Signed in as ${server.username}`}
+          {type === 'webdav' && `Connected to ${webdav.url}`}
+          {type === 's3' && `Connected to bucket ${s3.bucket}`}
+          {type === 'local-folder' && `Syncing with folder "${savedFolder?.name}"`}
+        </p>
+        <Button variant="outline" size="sm" onClick={() => onDisconnect()}>
+          <Unlink className="h-4 w-4 mr-2" />
+          Disconnect
+        </Button>
+      </div>
+    );
+  }
+
+  if (type === 'local-folder') {
+    if (!LocalFolderProvider.isSupported()) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          This browser cannot sync with a local folder. Try Chrome or Edge on a desktop computer.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Keep your data in a folder on this computer, for example one synced by Syncthing or Dropbox.
+        </p>
+        {savedFolder && (
+          <Button
+            onClick={() => connect({ type: 'local-folder', directoryHandle: savedFolder })}
+            disabled={isConnecting}
+            className="w-full"
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            Reconnect "{savedFolder.name}"
+          </Button>
+        )}
+        <Button onClick={handleChooseFolder} disabled={isConnecting} variant={savedFolder ? 'outline' : 'default'} className="w-full">
+          <FolderOpen className="h-4 w-4 mr-2" />
+          {isConnecting ? 'Connecting...' : 'Choose Folder'}
+        </Button>
+      </div>
+    );
+  }
+
+  if (type === 'sync-server') {
+    const isBusy = isSigningIn || isConnecting;
+    return (
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleServerSignIn(false);
+        }}
+      >
+        <div className="space-y-1">
+          <Label htmlFor="serverUrl">Server URL</Label>
+          <Input
+            id="serverUrl"
+            type="url"
+            required
+            value={server.url}
+            onChange={(e) => setServer({ ...server, url: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="serverUsername">Username</Label>
+            <Input
+              id="serverUsername"
+              required
+              autoComplete="username"
+              value={server.username}
+              onChange={(e) => setServer({ ...server, username: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="serverPassword">Password</Label>
+            <Input
+              id="serverPassword"
+              type="password"
+              required
+              autoComplete="current-password"
+              value={server.password}
+              onChange={(e) => setServer({ ...server, password: e.target.value })}
+            />
+          </div>
+        </div>
+        {signInError && <p className="text-sm text-destructive">{signInError}</p>}
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isBusy} className="flex-1">
+            <LogIn className="h-4 w-4 mr-2" />
+            {isBusy ? 'Connecting...' : 'Sign In'}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isBusy || !server.username || !server.password}
+            onClick={() => handleServerSignIn(true)}
+            className="flex-1"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Create Account
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  if (type === 'webdav') {
+    return (
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          connect({ type: 'webdav', webdav });
+        }}
+      >
+        <div className="space-y-1">
+          <Label htmlFor="webdavUrl">Folder URL</Label>
+          <Input
+            id="webdavUrl"
+            type="url"
+            required
+            placeholder="https://cloud.example.com/remote.php/dav/files/me/CAT-a-log/"
+            value={webdav.url}
+            onChange={(e) => setWebdav({ ...webdav, url: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="webdavUsername">Username</Label>
+            <Input
+              id="webdavUsername"
+              autoComplete="username"
+              value={webdav.username}
+              onChange={(e) => setWebdav({ ...webdav, username: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="webdavPassword">App Password</Label>
+            <Input
+              id="webdavPassword"
+              type="password"
+              autoComplete="current-password"
+              value={webdav.password}
+              onChange={(e) => setWebdav({ ...webdav, password: e.target.value })}
+            />
+          </div>
+        </div>
+        <Button type="submit" disabled={isConnecting} className="w-full">
+          <Link2 className="h-4 w-4 mr-2" />
+          {isConnecting ? 'Connecting...' : 'Connect'}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        connect({ type: 's3', s3 });
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor="s3Endpoint">Endpoint</Label>
+        <Input
+          id="s3Endpoint"
+          type="url"
+          required
+          placeholder="https://s3.eu-central-1.amazonaws.com"
+          value={s3.endpoint}
+          onChange={(e) => setS3({ ...s3, endpoint: e.target.value })}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="s3Bucket">Bucket</Label>
+          <Input id="s3Bucket" required value={s3.bucket} onChange={(e) => setS3({ ...s3, bucket: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="s3Region">Region</Label>
+          <Input id="s3Region" value={s3.region} onChange={(e) => setS3({ ...s3, region: e.target.value })} />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="s3Prefix">Folder</Label>
+        <Input id="s3Prefix" value={s3.prefix ?? ''} onChange={(e) => setS3({ ...s3, prefix: e.target.value })} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="s3AccessKey">Access Key ID</Label>
+          <Input id="s3AccessKey" required value={s3.accessKeyId} onChange={(e) => setS3({ ...s3, accessKeyId: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="s3SecretKey">Secret Access Key</Label>
+          <Input
+            id="s3SecretKey"
+            type="password"
+            required
+            value={s3.secretAccessKey}
+            onChange={(e) => setS3({ ...s3, secretAccessKey: e.target.value })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The bucket must allow requests from this site (CORS) for GET, PUT and HEAD.
+      </p>
+      <Button type="submit" disabled={isConnecting} className="w-full">
+        <Link2 className="h-4 w-4 mr-2" />
+        {isConnecting ? 'Connecting...' : 'Connect'}
+      </Button>
+    </form>
+  );
+}
@@ -2,7 +2,7 @@
  * Action types for the app reducer
  */
 
-import type { CatEncounter, UserPreferences } from '../types';
+import type { CatEncounter, Cat, Colony, UserPreferences } from '../types';
 import { GoogleDriveService } from '@/services/GoogleDriveService';
 
 // Action types for the reducer
@@ -12,6 +12,16 @@ export type AppAction =
   | { type: 'ADD_ENCOUNTER'; payload: CatEncounter }
   | { type: 'UPDATE_ENCOUNTER'; payload: { id: string; updates: Partial<CatEncounter> } }
   | { type: 'DELETE_ENCOUNTER'; payload: string }
+  // Cat actions
+  | { type: 'SET_CATS'; payload: Cat[] }
+  | { type: 'ADD_CAT'; payload: Cat }
+  | { type: 'UPDATE_CAT'; payload: { id: string; updates: Partial<Cat> } }
+  | { type: 'DELETE_CAT'; payload: string }
+  // Colony actions
+  | { type: 'SET_COLONIES'; payload: Colony[] }
+  | { type: 'ADD_COLONY'; payload: Colony }
+  | { type: 'UPDATE_COLONY'; payload: { id: string; updates: Partial<Colony> } }
+  | { type: 'DELETE_COLONY'; payload: string }
   // UI state actions
   | { type: 'SET_SELECTED_ENCOUNTER'; payload: string | undefined }
   | { type: 'SET_MAP_CENTER'; payload: [number, number] }
@@ -4,8 +4,9 @@
 
 import { createContext, useReducer, useEffect } from 'react';
 import type { ReactNode } from 'react';
-import type { AppState, UserPreferences } from '../types';
+import type { AppState, CatEncounter, Colony, UserPreferences } from '../types';
 import { storageService } from '../services/StorageService';
+import { findColonyAt, reassignColonies } from '../models/Colony';
 import type { AppAction } from './AppActions';
 
 // Default user preferences
@@ -24,6 +25,8 @@ const defaultPreferences: UserPreferences = {
 // Initial state
 const initialState: AppState = {
   encounters: [],
+  cats: [],
+  colonies: [],
   user: {
     isAuthenticated: false,
     googleToken: undefined,
@@ -55,7 +58,7 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case 'ADD_ENCOUNTER':
       return {
         ...state,
-        encounters: [...state.encounters, action.payload]
+        encounters: [...state.encounters, withColony(action.payload, state.colonies)]
       };
 
     case 'UPDATE_ENCOUNTER': {
@@ -64,7 +67,7 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...state,
         encounters: state.encounters.map(encounter =>
           encounter.id === id
-            ? { ...encounter, ...updates, updatedAt: new Date().toISOString() }
+            ? withColony({ ...encounter, ...updates, updatedAt: new Date().toISOString() }, state.colonies)
             : encounter
         )
       };
@@ -82,6 +85,82 @@ function appReducer(state: AppState, action: AppAction): AppState {
         }
       };
 
+    // Cat actions
+    case 'SET_CATS':
+      return {
+        ...state,
+        cats: action.payload
+      };
+
+    case 'ADD_CAT':
+      return {
+        ...state,
+        cats: [...state.cats, action.payload]
+      };
+
+    case 'UPDATE_CAT': {
+      const { id, updates } = action.payload;
+      return {
+        ...state,
+        cats: state.cats.map(cat =>
+          cat.id === id
+            ? { ...cat, ...updates, updatedAt: new Date().toISOString() }
+            : cat
+        )
+      };
+    }
+
+    case 'DELETE_CAT':
+      return {
+        ...state,
+        cats: state.cats.filter(cat => cat.id !== action.payload),
+        // Unlink encounters from the removed cat, mirroring StorageService.deleteCat
+        encounters: state.encounters.map(encounter =>
+          encounter.catId === action.payload
+            ? { ...encounter, catId: undefined }
+            : encounter
+        )
+      };
+
+    // Colony actions
+    case 'SET_COLONIES':
+      return {
+        ...state,
+        colonies: action.payload
+      };
+
+    case 'ADD_COLONY': {
+      const colonies = [...state.colonies, action.payload];
+      return {
+        ...state,
+        colonies,
+        encounters: withColonies(state.encounters, colonies)
+      };
+    }
+
+    case 'UPDATE_COLONY': {
+      const { id, updates } = action.payload;
+      const colonies = state.colonies.map(colony =>
+        colony.id === id
+          ? { ...colony, ...updates, updatedAt: new Date().toISOString() }
+          : colony
+      );
+      return {
+        ...state,
+        colonies,
+        encounters: updates.boundary ? withColonies(state.encounters, colonies) : state.encounters
+      };
+    }
+
+    case 'DELETE_COLONY': {
+      const colonies = state.colonies.filter(colony => colony.id !== action.payload);
+      return {
+        ...state,
+        colonies,
+        encounters: withColonies(state.encounters, colonies)
+      };
+    }
+
     // UI state actions
     case 'SET_SELECTED_ENCOUNTER':
       return {
@@ -195,6 +274,23 @@ function appReducer(state: AppState, action: AppAction): AppState {
   }
 }
 
+// Associates an encounter with the colony containing it, mirroring StorageService
+function withColony(encounter: CatEncounter, colonies: Colony[]): CatEncounter {
+  return { ...encounter, colonyId: findColonyAt(colonies, encounter.lat, encounter.lng)?.id };
+}
+
+// Re-associates encounters with the colonies containing them
+function withColonies(encounters: CatEncounter[], colonies: Colony[]): CatEncounter[] {
+  const changed = new Map(reassignColonies(encounters, colonies).map(e => [e.id, e]));
+  if (changed.size === 0) return encounters;
+
+  const now = new Date().toISOString();
+  return encounters.map(encounter => {
+    const reassigned = changed.get(encounter.id);
+    return reassigned ? { ...reassigned, updatedAt: now } : encounter;
+  });
+}
+
 // Context type
 interface AppContextType {
   state: AppState;
@@ -222,6 +318,16 @@ export function AppProvider({ children, showSnackbar }: AppProviderProps) {
         const encounters = await storageService.getEncounters();
         console.log('AppContext: Loaded encounters:', encounters.length, encounters);
         dispatch({ type: 'SET_ENCOUNTERS', payload: encounters });
+        const cats = await storageService.getCats();
+        dispatch({ type: 'SET_CATS', payload: cats });
+        const colonies = await storageService.getColonies();
+        dispatch({ type: 'SET_COLONIES', payload: colonies });
+        const preferences = await storageService.getPreferences();
+        dispatch({ type: 'SET_USER_PREFERENCES', payload: preferences });
+        // Photos saved before thumbnails existed get theirs in the background
+        storageService.backfillThumbnails().catch(error => {
+          console.error('Failed to make photo thumbnails:', error);
+        });
       } catch (error) {
         console.error('Failed to load encounters from storage:', error);
         showSnackbar('Failed to load encounters.', 'error');
@@ -248,6 +354,27 @@ export function AppProvider({ children, showSnackbar }: AppProviderProps) {
           case 'DELETE_ENCOUNTER':
             await storageService.deleteEncounter(action.payload);
             break;
+          case 'ADD_CAT':
+            await storageService.saveCat(action.payload);
+            break;
+          case 'UPDATE_CAT':
+            await storageService.updateCat(action.payload.id, action.payload.updates);
+            break;
+          case 'DELETE_CAT':
+            await storageService.deleteCat(action.payload);
+            break;
+          case 'ADD_COLONY':
+            await storageService.saveColony(action.payload);
+            break;
+          case 'UPDATE_COLONY':
+            await storageService.updateColony(action.payload.id, action.payload.updates);
+            break;
+          case 'DELETE_COLONY':
+            await storageService.deleteColony(action.payload);
+            break;
+          case 'UPDATE_USER_PREFERENCES':
+            await storageService.savePreferences({ ...(await storageService.getPreferences()), ...action.payload });
+            break;
           // No storage action needed for other types
         }
       } catch (error) {
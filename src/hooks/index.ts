@@ -4,4 +4,4 @@
 
 export { AppProvider } from '../context/AppContext';
 export { useAppContext } from './useAppContext';
-export { useApp, useEncounters, useUI, useUser } from './useApp';
\ No newline at end of file
+export { useApp, useEncounters, useCats, useColonies, useUI, useUser, useSyncConflicts, useSyncProvider, useShareLinks } from './useApp';
\ No newline at end of file
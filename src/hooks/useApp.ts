@@ -3,6 +3,8 @@
  */
 
 import { useEncounters } from './useEncounters';
+import { useCats } from './useCats';
+import { useColonies } from './useColonies';
 import { useUI } from './useUI';
 import { useUser } from './useUser';
 import { useAppContext } from './useAppContext';
@@ -10,6 +12,8 @@ import { useAppContext } from './useAppContext';
 export function useApp() {
   const { state } = useAppContext();
   const encounters = useEncounters();
+  const cats = useCats();
+  const colonies = useColonies();
   const ui = useUI();
   const user = useUser();
 
@@ -19,6 +23,8 @@ export function useApp() {
     
     // Organized hooks
     encounters,
+    cats,
+    colonies,
     ui,
     user
   };
@@ -26,6 +32,11 @@ export function useApp() {
 
 // Re-export individual hooks for convenience
 export { useEncounters } from './useEncounters';
+export { useCats } from './useCats';
+export { useColonies } from './useColonies';
 export { useUI } from './useUI';
 export { useUser } from './useUser';
+export { useSyncConflicts } from './useSyncConflicts';
+export { useSyncProvider } from './useSyncProvider';
+export { useShareLinks } from './useShareLinks';
 export { useAppContext } from './useAppContext';
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * Custom hook for managing known cats
+ */
+
+import { useCallback } from 'react';
+import { useAppContext } from './useAppContext';
+import type { Cat, CatEncounter, TnrStatus } from '../types';
+import { syncService } from '@/services/SyncService';
+import { getHealthTimeline, getLatestTnrStatus, type HealthTimelineEntry } from '@/models/CatEncounter';
+
+export function useCats() {
+  const { state, dispatch } = useAppContext();
+
+  // Get all known cats
+  const cats = state.cats;
+
+  // Get cat by ID
+  const getCatById = useCallback((id: string): Cat | undefined => {
+    return cats.find(cat => cat.id === id);
+  }, [cats]);
+
+  // Add new cat
+  const addCat = useCallback((cat: Cat) => {
+    dispatch({ type: 'ADD_CAT', payload: cat });
+    // Sync to cloud if authenticated
+    syncService.syncEncounter();
+  }, [dispatch]);
+
+  // Update existing cat
+  const updateCat = useCallback((id: string, updates: Partial<Cat>) => {
+    dispatch({ type: 'UPDATE_CAT', payload: { id, updates } });
+    // Sync to cloud if authenticated
+    syncService.syncEncounter();
+  }, [dispatch]);
+
+  // Delete cat (linked encounters are kept but unlinked)
+  const deleteCat = useCallback((id: string) => {
+    dispatch({ type: 'DELETE_CAT', payload: id });
+  }, [dispatch]);
+
+  // Set all cats (for initial load or sync)
+  const setCats = useCallback((cats: Cat[]) => {
+    dispatch({ type: 'SET_CATS', payload: cats });
+  }, [dispatch]);
+
+  // Get encounters linked to a cat, newest first
+  const getEncountersForCat = useCallback((catId: string): CatEncounter[] => {
+    return state.encounters
+      .filter(encounter => encounter.catId === catId)
+      .sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
+  }, [state.encounters]);
+
+  // Health history gathered from a cat's encounters, newest first
+  const getHealthTimelineForCat = useCallback((catId: string): HealthTimelineEntry[] => {
+    return getHealthTimeline(getEncountersForCat(catId));
+  }, [getEncountersForCat]);
+
+  // Most recently recorded TNR status of a cat
+  const getTnrStatusForCat = useCallback((catId: string): TnrStatus => {
+    return getLatestTnrStatus(getEncountersForCat(catId));
+  }, [getEncountersForCat]);
+
+  return {
+    cats,
+    getCatById,
+    addCat,
+    updateCat,
+    deleteCat,
+    setCats,
+    getEncountersForCat,
+    getHealthTimelineForCat,
+    getTnrStatusForCat
+  };
+}
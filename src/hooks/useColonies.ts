@@ -0,0 +1,64 @@
+/**
+ * Custom hook for managing cat colonies
+ */
+
+import { useCallback } from 'react';
+import { useAppContext } from './useAppContext';
+import type { Cat, CatEncounter, Colony } from '../types';
+import { syncService } from '@/services/SyncService';
+
+export function useColonies() {
+  const { state, dispatch } = useAppContext();
+
+  // Get all colonies
+  const colonies = state.colonies;
+
+  // Get colony by ID
+  const getColonyById = useCallback((id: string): Colony | undefined => {
+    return colonies.find(colony => colony.id === id);
+  }, [colonies]);
+
+  // Add new colony; encounters inside its boundary are associated with it
+  const addColony = useCallback((colony: Colony) => {
+    dispatch({ type: 'ADD_COLONY', payload: colony });
+    // Sync to cloud if authenticated
+    syncService.syncEncounter();
+  }, [dispatch]);
+
+  // Update existing colony
+  const updateColony = useCallback((id: string, updates: Partial<Colony>) => {
+    dispatch({ type: 'UPDATE_COLONY', payload: { id, updates } });
+    // Sync to cloud if authenticated
+    syncService.syncEncounter();
+  }, [dispatch]);
+
+  // Delete colony (its encounters are kept but no longer associated)
+  const deleteColony = useCallback((id: string) => {
+    dispatch({ type: 'DELETE_COLONY', payload: id });
+  }, [dispatch]);
+
+  // Get encounters inside a colony, newest first
+  const getEncountersForColony = useCallback((colonyId: string): CatEncounter[] => {
+    return state.encounters
+      .filter(encounter => encounter.colonyId === colonyId)
+      .sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
+  }, [state.encounters]);
+
+  // Get known cats seen in a colony, most recently seen first
+  const getCatsForColony = useCallback((colonyId: string): Cat[] => {
+    const catIds = new Set(getEncountersForColony(colonyId).map(encounter => encounter.catId));
+    return [...catIds]
+      .map(catId => state.cats.find(cat => cat.id === catId))
+      .filter((cat): cat is Cat => !!cat);
+  }, [getEncountersForColony, state.cats]);
+
+  return {
+    colonies,
+    getColonyById,
+    addColony,
+    updateColony,
+    deleteColony,
+    getEncountersForColony,
+    getCatsForColony
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Custom hook suggesting known cats whose photos resemble the photos being logged
+ * Hashing runs in a Web Worker, so suggestions work offline.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAppContext } from './useAppContext';
+import type { CatEncounter, EncounterPhoto } from '../types';
+import { getEncounterPhotos } from '@/models/CatEncounter';
+import { photoHashService } from '@/services/PhotoHashService';
+import { rankPhotoMatches, type PhotoMatchCandidate } from '@/utils/photoMatching';
+
+// A photo being logged: a newly picked file or one already stored
+interface PhotoSource {
+  file?: Blob;
+  photo?: EncounterPhoto;
+}
+
+type MatchDetails = Partial<Pick<CatEncounter, 'lat' | 'lng' | 'catColor' | 'coatLength' | 'catType'>>;
+
+export function usePhotoMatches(photos: PhotoSource[], details: MatchDetails, excludeEncounterId?: string) {
+  const { state } = useAppContext();
+  const [hashes, setHashes] = useState<string[]>([]);
+  const [candidates, setCandidates] = useState<PhotoMatchCandidate[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const hasPhotos = photos.length > 0;
+
+  // Hash the photos being logged
+  useEffect(() => {
+    let cancelled = false;
+    const hashPhotos = async () => {
+      const result: string[] = [];
+      for (const draft of photos) {
+        const hash = draft.file
+          ? await photoHashService.hashPhoto(draft.file).catch(() => null)
+          : draft.photo?.blobId ? await photoHashService.getPhotoHash(draft.photo.blobId) : null;
+        if (hash) result.push(hash);
+      }
+      if (!cancelled) setHashes(result);
+    };
+    hashPhotos().catch(error => console.error('Failed to hash photos:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [photos]);
+
+  // Hash the photos of known cats, once there is a photo to compare them with
+  useEffect(() => {
+    if (!hasPhotos) return;
+    let cancelled = false;
+
+    const sources: Array<{ blobId: string; candidate: Omit<PhotoMatchCandidate, 'hash'> }> = [];
+    for (const encounter of state.encounters) {
+      if (!encounter.catId || encounter.isDeleted || encounter.id === excludeEncounterId) continue;
+      const { catId, lat, lng, catColor, coatLength, catType } = encounter;
+      for (const { blobId } of getEncounterPhotos(encounter)) {
+        if (blobId) sources.push({ blobId, candidate: { catId, lat, lng, catColor, coatLength, catType } });
+      }
+    }
+    for (const cat of state.cats) {
+      if (cat.profilePhotoBlobId && !cat.isDeleted) {
+        sources.push({ blobId: cat.profilePhotoBlobId, candidate: { catId: cat.id } });
+      }
+    }
+
+    const loadCandidates = async () => {
+      setIsSearching(true);
+      const result: PhotoMatchCandidate[] = [];
+      // One at a time; stored hashes make repeat searches quick
+      for (const { blobId, candidate } of sources) {
+        const hash = await photoHashService.getPhotoHash(blobId);
+        if (cancelled) return;
+        if (hash) result.push({ ...candidate, hash });
+      }
+      setCandidates(result);
+      setIsSearching(false);
+    };
+    loadCandidates().catch(error => {
+      console.error('Failed to hash photos of known cats:', error);
+      setIsSearching(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasPhotos, state.encounters, state.cats, excludeEncounterId]);
+
+  const { lat, lng, catColor, coatLength, catType } = details;
+  const matches = useMemo(
+    () => rankPhotoMatches({ hashes, lat, lng, catColor, coatLength, catType }, candidates),
+    [hashes, candidates, lat, lng, catColor, coatLength, catType]
+  );
+
+  return {
+    matches: hasPhotos ? matches : [],
+    isSearching: hasPhotos && isSearching
+  };
+}
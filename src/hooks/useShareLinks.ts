@@ -0,0 +1,55 @@
+/**
+ * Custom hook for publishing and revoking public share links
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from './useAppContext';
+import type { SharedLink } from '../types';
+import { shareService, type PublishShareOptions } from '@/services/ShareService';
+
+export function useShareLinks() {
+  const { showSnackbar } = useAppContext();
+  const [links, setLinks] = useState<SharedLink[]>([]);
+
+  const refreshLinks = useCallback(async () => {
+    try {
+      setLinks(await shareService.getActiveLinks());
+    } catch (error) {
+      console.error('Failed to load share links:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshLinks();
+  }, [refreshLinks]);
+
+  const publishLink = useCallback(async (options: PublishShareOptions) => {
+    try {
+      const link = await shareService.publish(options);
+      setLinks(prev => [link, ...prev]);
+      return link;
+    } catch (error) {
+      console.error('Failed to publish share link:', error);
+      showSnackbar(error instanceof Error ? error.message : 'Failed to create share link', 'error');
+      throw error;
+    }
+  }, [showSnackbar]);
+
+  const revokeLink = useCallback(async (link: SharedLink) => {
+    try {
+      await shareService.revoke(link);
+      setLinks(prev => prev.filter(l => l.token !== link.token));
+      showSnackbar('Share link revoked', 'success');
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+      showSnackbar(error instanceof Error ? error.message : 'Failed to revoke share link', 'error');
+    }
+  }, [showSnackbar]);
+
+  return {
+    links,
+    refreshLinks,
+    publishLink,
+    revokeLink
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Custom hook for reviewing sync conflicts
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from './useAppContext';
+import type { Resolution, SyncConflict } from '../types';
+import { syncService } from '@/services/SyncService';
+
+export function useSyncConflicts() {
+  const { dispatch } = useAppContext();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  // Load the queue and follow changes made by sync
+  useEffect(() => {
+    let active = true;
+    syncService.getConflicts()
+      .then(queued => {
+        if (active) setConflicts(queued);
+      })
+      .catch(error => console.error('Failed to load sync conflicts:', error));
+
+    const unsubscribe = syncService.onConflictsChange(setConflicts);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // Apply per-field choices and save the result like any other edit
+  const resolveConflict = useCallback(async (conflictId: string, resolutions: { [field: string]: Resolution }) => {
+    const { recordType, recordId, updates } = await syncService.resolveConflict(conflictId, resolutions);
+
+    if (recordType === 'encounter') {
+      dispatch({ type: 'UPDATE_ENCOUNTER', payload: { id: recordId, updates } });
+    } else if (recordType === 'colony') {
+      dispatch({ type: 'UPDATE_COLONY', payload: { id: recordId, updates } });
+    } else {
+      dispatch({ type: 'UPDATE_CAT', payload: { id: recordId, updates } });
+    }
+
+    // Sync to cloud if authenticated
+    syncService.syncEncounter();
+  }, [dispatch]);
+
+  return {
+    conflicts,
+    resolveConflict
+  };
+}
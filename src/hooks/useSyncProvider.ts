@@ -0,0 +1,92 @@
+/**
+ * Custom hook for choosing and connecting the sync provider
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAppContext } from './useAppContext';
+import type { SyncProviderSettings } from '../types';
+import type { SyncProvider } from '@/services/SyncProvider';
+import { createSyncProvider, type ConfigurableProviderSettings } from '@/services/createSyncProvider';
+import { SyncServerProvider } from '@/services/SyncServerProvider';
+import { syncService } from '@/services/SyncService';
+import { storageService } from '@/services/StorageService';
+
+export function useSyncProvider() {
+  const { state, showSnackbar } = useAppContext();
+  const autoSync = state.user.preferences.autoSync;
+  const [activeProvider, setActiveProvider] = useState<SyncProvider | null>(syncService.getProvider());
+  const [savedSettings, setSavedSettings] = useState<SyncProviderSettings | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  // Load the saved choice and follow provider changes
+  useEffect(() => {
+    let active = true;
+    storageService.getSyncProviderSettings()
+      .then(settings => {
+        if (active) setSavedSettings(settings);
+      })
+      .catch(error => console.error('Failed to load sync provider settings:', error));
+
+    const unsubscribe = syncService.onProviderChange(setActiveProvider);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const connectProvider = useCallback(async (settings: ConfigurableProviderSettings) => {
+    setIsConnecting(true);
+    try {
+      const provider = await createSyncProvider(settings);
+      syncService.setProvider(provider);
+      syncService.setAutoSync(autoSync);
+      await storageService.saveSyncProviderSettings(settings);
+      setSavedSettings(settings);
+
+      await syncService.sync();
+      showSnackbar(`${provider.displayName} connected successfully!`, 'success');
+    } catch (error) {
+      console.error('Sync provider connection failed:', error);
+      showSnackbar(error instanceof Error ? error.message : 'Failed to connect sync provider', 'error');
+      throw error;
+    } finally {
+      setIsConnecting(false);
+    }
+  }, [autoSync, showSnackbar]);
+
+  const disconnectProvider = useCallback(async () => {
+    const provider = syncService.getProvider();
+    if (provider instanceof SyncServerProvider) {
+      provider.signOut().catch(error => console.error('Failed to sign out of sync server:', error));
+    }
+    syncService.disconnect();
+    await storageService.saveSyncProviderSettings(null);
+    setSavedSettings(null);
+  }, []);
+
+  // Reconnect the saved provider on app startup. Local folders need a click to
+  // regain permission, so a failure here only leaves the provider disconnected.
+  const restoreSyncProvider = useCallback(async () => {
+    const settings = await storageService.getSyncProviderSettings();
+    if (!settings || settings.type === 'google-drive' || syncService.getProvider()) return;
+
+    try {
+      console.log(`Reconnecting ${settings.type} sync provider...`);
+      const provider = await createSyncProvider(settings);
+      syncService.setProvider(provider);
+      syncService.setAutoSync(autoSync);
+      await syncService.sync();
+    } catch (error) {
+      console.error('Failed to reconnect sync provider:', error);
+    }
+  }, [autoSync]);
+
+  return {
+    activeProvider,
+    savedSettings,
+    isConnecting,
+    connectProvider,
+    disconnectProvider,
+    restoreSyncProvider
+  };
+}
@@ -7,6 +7,7 @@ import { useAppContext } from './useAppContext';
 import type { UserPreferences } from '../types';
 import { GoogleDriveService } from '@/services/GoogleDriveService';
 import { syncService } from '@/services/SyncService';
+import { storageService } from '@/services/StorageService';
 
 export function useUser() {
   const { state, dispatch, showSnackbar } = useAppContext();
@@ -28,8 +29,10 @@ export function useUser() {
   }, [dispatch]);
 
   const logout = useCallback(async () => {
-    // Disconnect sync service
-    syncService.disconnect();
+    // Disconnect sync service if Drive is the active provider
+    if (syncService.getProvider()?.type === 'google-drive') {
+      syncService.disconnect();
+    }
     
     // Clear stored token
     localStorage.removeItem('googleToken');
@@ -60,9 +63,10 @@ export function useUser() {
       await driveService.init();
       dispatch({ type: 'SET_GOOGLE_DRIVE_SERVICE', payload: driveService });
       
-      // Initialize sync service
-      syncService.setDriveService(driveService);
+      // Initialize sync service with Drive as the provider
+      syncService.setProvider(driveService);
       syncService.setAutoSync(preferences.autoSync);
+      await storageService.saveSyncProviderSettings({ type: 'google-drive' });
       
       // Trigger initial sync
       await syncService.sync();
@@ -129,6 +133,12 @@ export function useUser() {
   const restoreGoogleToken = useCallback(async () => {
     const storedToken = localStorage.getItem('googleToken');
     
+    // Another provider was chosen on this device; useSyncProvider reconnects it
+    const providerSettings = await storageService.getSyncProviderSettings();
+    if (providerSettings && providerSettings.type !== 'google-drive') {
+      return;
+    }
+
     // Only restore if we have a stored token and no current token
     if (storedToken && !state.user.googleToken) {
       try {
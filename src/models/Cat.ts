@@ -0,0 +1,109 @@
+/**
+ * Cat data model with validation functions
+ */
+
+import type { Cat } from '../types';
+import { generateUUID, getCurrentTimestamp } from '../utils/dataUtils';
+import type { ValidationResult } from './CatEncounter';
+
+/**
+ * Validates a Cat object
+ */
+export function validateCat(cat: Partial<Cat>): ValidationResult {
+  const errors: string[] = [];
+
+  // Required fields validation
+  if (!cat.id || typeof cat.id !== 'string') {
+    errors.push('ID is required and must be a string');
+  }
+
+  if (typeof cat.name !== 'string' || cat.name.trim().length === 0) {
+    errors.push('Name is required');
+  }
+
+  if (!cat.createdAt || typeof cat.createdAt !== 'string') {
+    errors.push('CreatedAt is required and must be a string');
+  } else if (!isValidISOString(cat.createdAt)) {
+    errors.push('CreatedAt must be a valid ISO-8601 timestamp');
+  }
+
+  if (!cat.updatedAt || typeof cat.updatedAt !== 'string') {
+    errors.push('UpdatedAt is required and must be a string');
+  } else if (!isValidISOString(cat.updatedAt)) {
+    errors.push('UpdatedAt must be a valid ISO-8601 timestamp');
+  }
+
+  // Optional fields validation
+  const optionalStrings: Array<[keyof Cat, string]> = [
+    ['nickname', 'Nickname'],
+    ['distinguishingMarks', 'Distinguishing marks'],
+    ['profilePhotoBlobId', 'ProfilePhotoBlobId'],
+    ['notes', 'Notes']
+  ];
+
+  for (const [field, label] of optionalStrings) {
+    if (cat[field] !== undefined && typeof cat[field] !== 'string') {
+      errors.push(`${label} must be a string if provided`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Creates a new Cat with default values
+ */
+export function createCat(
+  name: string,
+  options: {
+    nickname?: string;
+    distinguishingMarks?: string;
+    profilePhotoBlobId?: string;
+    notes?: string;
+  } = {}
+): Cat {
+  const createdAt = getCurrentTimestamp();
+
+  return {
+    id: generateUUID(),
+    name: name.trim(),
+    nickname: options.nickname,
+    distinguishingMarks: options.distinguishingMarks,
+    profilePhotoBlobId: options.profilePhotoBlobId,
+    notes: options.notes,
+    createdAt,
+    updatedAt: createdAt
+  };
+}
+
+/**
+ * Updates an existing Cat with new values
+ */
+export function updateCat(
+  existing: Cat,
+  updates: Partial<Omit<Cat, 'id' | 'createdAt'>>
+): Cat {
+  return {
+    ...existing,
+    ...updates,
+    updatedAt: getCurrentTimestamp()
+  };
+}
+
+/**
+ * Returns the label shown for a cat in pickers and cards
+ */
+export function getCatDisplayName(cat: Pick<Cat, 'name' | 'nickname'>): string {
+  return cat.nickname ? `${cat.name} (${cat.nickname})` : cat.name;
+}
+
+/**
+ * Validates an ISO-8601 timestamp string
+ */
+function isValidISOString(dateString: string): boolean {
+  const date = new Date(dateString);
+  return date instanceof Date && !isNaN(date.getTime()) && date.toISOString() === dateString;
+}
@@ -2,7 +2,7 @@
  * CatEncounter data model with validation functions
  */
 
-import type { CatEncounter } from '../types';
+import type { CatEncounter, EncounterHealth, EncounterPhoto, TnrStatus } from '../types';
 import { generateUUID, getCurrentTimestamp } from '../utils/dataUtils';
 
 // Standardized cat colors
@@ -68,11 +68,34 @@ export const BEHAVIOR_PRESETS = [
   'Indifferent'
 ] as const;
 
+// Trap-neuter-return statuses, with the labels shown in forms and filters
+export const TNR_STATUSES: Array<{ status: TnrStatus; label: string }> = [
+  { status: 'unknown', label: 'Unknown' },
+  { status: 'intact', label: 'Intact (needs TNR)' },
+  { status: 'ear-tipped', label: 'Ear-tipped' },
+  { status: 'neutered', label: 'Neutered' }
+];
+
 export type CatColor = typeof CAT_COLORS[number];
 export type CoatLength = typeof COAT_LENGTHS[number];
 export type CatType = typeof CAT_TYPES[number];
 export type BehaviorPreset = typeof BEHAVIOR_PRESETS[number];
 
+// Coat length assigned to legacy encounters whose cat type gives no hint
+export const LEGACY_COAT_LENGTH = 'Unknown';
+
+const LONGHAIR_TYPES = ['Domestic Longhair', 'Maine Coon', 'Persian', 'Ragdoll'];
+const SHORTHAIR_TYPES = ['Domestic Shorthair', 'British Shorthair', 'American Shorthair', 'Russian Blue', 'Siamese', 'Bengal', 'Abyssinian', 'Scottish Fold'];
+
+/**
+ * Infers a coat length for encounters recorded before the field existed
+ */
+export function inferCoatLength(catType: string | undefined): string {
+  if (catType && LONGHAIR_TYPES.includes(catType)) return 'Longhair';
+  if (catType && SHORTHAIR_TYPES.includes(catType)) return 'Shorthair';
+  return LEGACY_COAT_LENGTH;
+}
+
 /**
  * Validation result interface
  */
@@ -110,22 +133,29 @@ export function validateCatEncounter(encounter: Partial<CatEncounter>): Validati
     errors.push('DateTime must be a valid ISO-8601 timestamp');
   }
 
-  if (!encounter.catColor || typeof encounter.catColor !== 'string') {
+  // Drafts are described later, so they may leave these empty
+  const isDraft = encounter.isDraft === true;
+
+  if (typeof encounter.catColor !== 'string' || (!isDraft && !encounter.catColor)) {
     errors.push('Cat color is required');
   }
 
-  if (!encounter.coatLength || typeof encounter.coatLength !== 'string') {
+  if (typeof encounter.coatLength !== 'string' || (!isDraft && !encounter.coatLength)) {
     errors.push('Coat length is required');
   }
 
-  if (!encounter.catType || typeof encounter.catType !== 'string') {
+  if (typeof encounter.catType !== 'string' || (!isDraft && !encounter.catType)) {
     errors.push('Cat type is required');
   }
 
-  if (typeof encounter.behavior !== 'string' || encounter.behavior.trim().length === 0) {
+  if (typeof encounter.behavior !== 'string' || (!isDraft && encounter.behavior.trim().length === 0)) {
     errors.push('Behavior is required');
   }
 
+  if (encounter.isDraft !== undefined && typeof encounter.isDraft !== 'boolean') {
+    errors.push('IsDraft must be a boolean if provided');
+  }
+
   if (!encounter.createdAt || typeof encounter.createdAt !== 'string') {
     errors.push('CreatedAt is required and must be a string');
   } else if (!isValidISOString(encounter.createdAt)) {
@@ -147,6 +177,22 @@ export function validateCatEncounter(encounter: Partial<CatEncounter>): Validati
     errors.push('PhotoBlobId must be a string if provided');
   }
 
+  if (encounter.photos !== undefined && !(Array.isArray(encounter.photos) && encounter.photos.every(isValidPhoto))) {
+    errors.push('Photos must be a list of photo references if provided');
+  }
+
+  if (encounter.catId !== undefined && typeof encounter.catId !== 'string') {
+    errors.push('CatId must be a string if provided');
+  }
+
+  if (encounter.colonyId !== undefined && typeof encounter.colonyId !== 'string') {
+    errors.push('ColonyId must be a string if provided');
+  }
+
+  if (encounter.health !== undefined) {
+    errors.push(...validateEncounterHealth(encounter.health));
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -166,7 +212,9 @@ export function createCatEncounter(
   options: {
     comment?: string;
     photoBlobId?: string;
+    catId?: string;
     dateTime?: string;
+    health?: EncounterHealth;
   } = {}
 ): CatEncounter {
   const now = getCurrentTimestamp();
@@ -183,11 +231,27 @@ export function createCatEncounter(
     behavior,
     comment: options.comment,
     photoBlobId: options.photoBlobId,
+    catId: options.catId,
+    health: options.health,
     createdAt,
     updatedAt: createdAt
   };
 }
 
+/**
+ * Creates a draft encounter for a geotagged photo, to be described later
+ */
+export function createDraftEncounter(
+  lat: number,
+  lng: number,
+  options: { dateTime?: string; photoBlobId?: string } = {}
+): CatEncounter {
+  return {
+    ...createCatEncounter(lat, lng, '', '', '', '', options),
+    isDraft: true
+  };
+}
+
 /**
  * Updates an existing CatEncounter with new values
  */
@@ -202,6 +266,244 @@ export function updateCatEncounter(
   };
 }
 
+/**
+ * Validates the health sub-record of an encounter, returning its errors
+ */
+export function validateEncounterHealth(health: unknown): string[] {
+  if (!health || typeof health !== 'object' || Array.isArray(health)) {
+    return ['Health must be an object if provided'];
+  }
+
+  const errors: string[] = [];
+  const record = health as Partial<Record<keyof EncounterHealth, unknown>>;
+
+  if (record.tnrStatus !== undefined && !TNR_STATUSES.some(({ status }) => status === record.tnrStatus)) {
+    errors.push(`TNR status must be one of ${TNR_STATUSES.map(({ status }) => status).join(', ')}`);
+  }
+
+  if (record.injuries !== undefined && typeof record.injuries !== 'string') {
+    errors.push('Injuries must be a string if provided');
+  }
+
+  if (record.pregnant !== undefined && typeof record.pregnant !== 'boolean') {
+    errors.push('Pregnant must be true or false if provided');
+  }
+
+  if (record.vaccinations !== undefined) {
+    if (!Array.isArray(record.vaccinations)) {
+      errors.push('Vaccinations must be an array if provided');
+    } else {
+      record.vaccinations.forEach((vaccination, index) => {
+        if (typeof vaccination?.name !== 'string' || vaccination.name.trim().length === 0) {
+          errors.push(`Vaccination ${index + 1}: name is required`);
+        }
+        if (!isValidDate(vaccination?.date)) {
+          errors.push(`Vaccination ${index + 1}: date must be YYYY-MM-DD`);
+        }
+      });
+    }
+  }
+
+  if (record.vetVisits !== undefined) {
+    if (!Array.isArray(record.vetVisits)) {
+      errors.push('Vet visits must be an array if provided');
+    } else {
+      record.vetVisits.forEach((visit, index) => {
+        if (!isValidDate(visit?.date)) {
+          errors.push(`Vet visit ${index + 1}: date must be YYYY-MM-DD`);
+        }
+        if (typeof visit?.reason !== 'string' || visit.reason.trim().length === 0) {
+          errors.push(`Vet visit ${index + 1}: reason is required`);
+        }
+        if (visit?.notes !== undefined && typeof visit.notes !== 'string') {
+          errors.push(`Vet visit ${index + 1}: notes must be a string if provided`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Trims a health record from a form and drops empty parts.
+ * Returns undefined when nothing was recorded.
+ */
+export function normalizeEncounterHealth(health: EncounterHealth): EncounterHealth | undefined {
+  const normalized: EncounterHealth = {};
+
+  if (health.tnrStatus && health.tnrStatus !== 'unknown') normalized.tnrStatus = health.tnrStatus;
+  if (health.injuries?.trim()) normalized.injuries = health.injuries.trim();
+  if (health.pregnant) normalized.pregnant = true;
+
+  const vaccinations = (health.vaccinations ?? [])
+    .map(v => ({ name: v.name.trim(), date: v.date }))
+    .filter(v => v.name || v.date);
+  if (vaccinations.length > 0) normalized.vaccinations = vaccinations;
+
+  const vetVisits = (health.vetVisits ?? [])
+    .map(v => ({ date: v.date, reason: v.reason.trim(), notes: v.notes?.trim() || undefined }))
+    .filter(v => v.date || v.reason || v.notes);
+  if (vetVisits.length > 0) normalized.vetVisits = vetVisits;
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * One dated event in a cat's health history
+ */
+export interface HealthTimelineEntry {
+  date: string;            // ISO-8601 timestamp or YYYY-MM-DD
+  kind: 'tnr' | 'vaccination' | 'injury' | 'pregnancy' | 'vet-visit';
+  label: string;
+  details?: string;
+  encounterId: string;
+}
+
+/**
+ * Builds a health history from a cat's encounters, newest first.
+ * TNR entries mark status changes; vaccinations and vet visits carry their own
+ * dates and are listed once even when recorded again at later encounters.
+ */
+export function getHealthTimeline(encounters: CatEncounter[]): HealthTimelineEntry[] {
+  const entries: HealthTimelineEntry[] = [];
+  const seen = new Set<string>();
+  let tnrStatus: TnrStatus = 'unknown';
+
+  const chronological = encounters
+    .filter(encounter => encounter.health && !encounter.isDeleted)
+    .sort((a, b) => a.dateTime.localeCompare(b.dateTime));
+
+  for (const { id, dateTime, health } of chronological) {
+    if (health!.tnrStatus && health!.tnrStatus !== 'unknown' && health!.tnrStatus !== tnrStatus) {
+      tnrStatus = health!.tnrStatus;
+      entries.push({ date: dateTime, kind: 'tnr', label: getTnrStatusLabel(tnrStatus), encounterId: id });
+    }
+    for (const vaccination of health!.vaccinations ?? []) {
+      const key = `vaccination:${vaccination.name.toLowerCase()}:${vaccination.date}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      entries.push({ date: vaccination.date, kind: 'vaccination', label: `${vaccination.name} vaccination`, encounterId: id });
+    }
+    for (const visit of health!.vetVisits ?? []) {
+      const key = `vet-visit:${visit.date}:${visit.reason.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      entries.push({ date: visit.date, kind: 'vet-visit', label: `Vet visit: ${visit.reason}`, details: visit.notes, encounterId: id });
+    }
+    if (health!.injuries) {
+      entries.push({ date: dateTime, kind: 'injury', label: 'Injury', details: health!.injuries, encounterId: id });
+    }
+    if (health!.pregnant) {
+      entries.push({ date: dateTime, kind: 'pregnancy', label: 'Pregnant', encounterId: id });
+    }
+  }
+
+  // Date-only entries sort as the start of their day
+  return entries.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * The most recently recorded TNR status across encounters, or 'unknown'
+ */
+export function getLatestTnrStatus(encounters: CatEncounter[]): TnrStatus {
+  const latest = encounters
+    .filter(encounter => !encounter.isDeleted && encounter.health?.tnrStatus && encounter.health.tnrStatus !== 'unknown')
+    .sort((a, b) => b.dateTime.localeCompare(a.dateTime))[0];
+  return latest?.health?.tnrStatus ?? 'unknown';
+}
+
+/**
+ * Encounters of cats still needing TNR: the latest status recorded for the known
+ * cat is intact, or, for an encounter not linked to a cat, its own status is
+ */
+export function getEncountersNeedingTnr(encounters: CatEncounter[]): CatEncounter[] {
+  const byCat = new Map<string, CatEncounter[]>();
+  for (const encounter of encounters) {
+    if (encounter.catId) {
+      byCat.set(encounter.catId, [...(byCat.get(encounter.catId) ?? []), encounter]);
+    }
+  }
+
+  const catsNeedingTnr = new Set(
+    [...byCat].filter(([, catEncounters]) => getLatestTnrStatus(catEncounters) === 'intact').map(([catId]) => catId)
+  );
+
+  return encounters.filter(encounter => encounter.catId
+    ? catsNeedingTnr.has(encounter.catId)
+    : encounter.health?.tnrStatus === 'intact');
+}
+
+export function getTnrStatusLabel(status: TnrStatus): string {
+  return TNR_STATUSES.find(s => s.status === status)?.label ?? status;
+}
+
+// The fields of an encounter that describe its photos
+type PhotoFields = Pick<CatEncounter, 'photos' | 'photoBlobId' | 'photoDriveId'>;
+
+/**
+ * Photos of an encounter in order. Records with a single photo keep only the
+ * cover fields unless the photo has details such as its original size, so older
+ * records and older app versions read the same way.
+ */
+export function getEncounterPhotos(encounter: PhotoFields): EncounterPhoto[] {
+  const photos = encounter.photos ?? [];
+  if (!encounter.photoBlobId && !encounter.photoDriveId) return photos;
+  if (photos.some(photo => isCoverPhoto(encounter, photo))) return photos;
+  // A cover missing from the list was set by an app version without galleries
+  return [{ blobId: encounter.photoBlobId, driveId: encounter.photoDriveId }, ...photos];
+}
+
+/**
+ * Position of the cover photo in getEncounterPhotos, or -1 without photos
+ */
+export function getCoverPhotoIndex(encounter: PhotoFields): number {
+  return getEncounterPhotos(encounter).findIndex(photo => isCoverPhoto(encounter, photo));
+}
+
+/**
+ * Photo fields of an encounter holding the given photos, with the cover at coverIndex
+ */
+export function buildPhotoFields(
+  photos: EncounterPhoto[],
+  coverIndex = 0
+): PhotoFields {
+  const cover = photos[Math.min(Math.max(coverIndex, 0), photos.length - 1)];
+  return {
+    photos: photos.length > 1 || photos.some(hasPhotoDetails) ? photos : undefined,
+    photoBlobId: cover?.blobId,
+    photoDriveId: cover?.driveId
+  };
+}
+
+// The provider ID is the same on every device, so it decides when both sides have one
+function isCoverPhoto(encounter: PhotoFields, photo: EncounterPhoto): boolean {
+  if (encounter.photoDriveId && photo.driveId) return photo.driveId === encounter.photoDriveId;
+  return !!photo.blobId && photo.blobId === encounter.photoBlobId;
+}
+
+// A single photo is kept in the list only for details the cover fields cannot hold
+function hasPhotoDetails(photo: EncounterPhoto): boolean {
+  return photo.width !== undefined || photo.height !== undefined;
+}
+
+function isValidPhoto(photo: unknown): boolean {
+  if (!photo || typeof photo !== 'object') return false;
+  const { blobId, driveId, width, height } = photo as Record<string, unknown>;
+  const isDimension = (value: unknown) => value === undefined || (typeof value === 'number' && value > 0);
+  return (blobId === undefined || typeof blobId === 'string') && (driveId === undefined || typeof driveId === 'string') &&
+    isDimension(width) && isDimension(height);
+}
+
+/**
+ * Validates a YYYY-MM-DD calendar date
+ */
+function isValidDate(value: unknown): boolean {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
 /**
  * Validates an ISO-8601 timestamp string
  */
@@ -0,0 +1,169 @@
+/**
+ * Colony data model with validation and map geometry functions
+ */
+
+import type { CatEncounter, Colony } from '../types';
+import { generateUUID, getCurrentTimestamp } from '../utils/dataUtils';
+import type { ValidationResult } from './CatEncounter';
+
+// A boundary needs at least a triangle to enclose anything
+export const MIN_BOUNDARY_POINTS = 3;
+
+/**
+ * Validates a Colony object
+ */
+export function validateColony(colony: Partial<Colony>): ValidationResult {
+  const errors: string[] = [];
+
+  // Required fields validation
+  if (!colony.id || typeof colony.id !== 'string') {
+    errors.push('ID is required and must be a string');
+  }
+
+  if (typeof colony.name !== 'string' || colony.name.trim().length === 0) {
+    errors.push('Name is required');
+  }
+
+  if (!Array.isArray(colony.boundary) || colony.boundary.length < MIN_BOUNDARY_POINTS) {
+    errors.push(`Boundary must have at least ${MIN_BOUNDARY_POINTS} points`);
+  } else if (!colony.boundary.every(isValidPoint)) {
+    errors.push('Boundary points must be [latitude, longitude] pairs');
+  }
+
+  if (!colony.createdAt || typeof colony.createdAt !== 'string') {
+    errors.push('CreatedAt is required and must be a string');
+  } else if (!isValidISOString(colony.createdAt)) {
+    errors.push('CreatedAt must be a valid ISO-8601 timestamp');
+  }
+
+  if (!colony.updatedAt || typeof colony.updatedAt !== 'string') {
+    errors.push('UpdatedAt is required and must be a string');
+  } else if (!isValidISOString(colony.updatedAt)) {
+    errors.push('UpdatedAt must be a valid ISO-8601 timestamp');
+  }
+
+  // Optional fields validation
+  const optionalStrings: Array<[keyof Colony, string]> = [
+    ['caretakerNotes', 'Caretaker notes'],
+    ['feedingSchedule', 'Feeding schedule']
+  ];
+
+  for (const [field, label] of optionalStrings) {
+    if (colony[field] !== undefined && typeof colony[field] !== 'string') {
+      errors.push(`${label} must be a string if provided`);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Creates a new Colony with default values
+ */
+export function createColony(
+  name: string,
+  boundary: [number, number][],
+  options: {
+    caretakerNotes?: string;
+    feedingSchedule?: string;
+  } = {}
+): Colony {
+  const createdAt = getCurrentTimestamp();
+
+  return {
+    id: generateUUID(),
+    name: name.trim(),
+    caretakerNotes: options.caretakerNotes,
+    feedingSchedule: options.feedingSchedule,
+    boundary,
+    createdAt,
+    updatedAt: createdAt
+  };
+}
+
+/**
+ * Returns true when the point lies inside the colony boundary (ray casting).
+ * Colonies span a few streets at most, so lat/lng are treated as planar.
+ */
+export function isPointInColony(colony: Pick<Colony, 'boundary'>, lat: number, lng: number): boolean {
+  const { boundary } = colony;
+  let inside = false;
+
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    const [latI, lngI] = boundary[i];
+    const [latJ, lngJ] = boundary[j];
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Finds the colony containing a point. Where boundaries overlap, the smallest
+ * colony wins, so a colony drawn inside a larger one keeps its own encounters.
+ */
+export function findColonyAt(colonies: Colony[], lat: number, lng: number): Colony | undefined {
+  let match: Colony | undefined;
+  let matchArea = Infinity;
+
+  for (const colony of colonies) {
+    if (colony.isDeleted || colony.boundary.length < MIN_BOUNDARY_POINTS || !isPointInColony(colony, lat, lng)) {
+      continue;
+    }
+    const area = getBoundaryArea(colony.boundary);
+    if (area < matchArea) {
+      match = colony;
+      matchArea = area;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Returns the encounters whose colony changes under the given colonies,
+ * with colonyId set to the colony now containing them
+ */
+export function reassignColonies(encounters: CatEncounter[], colonies: Colony[]): CatEncounter[] {
+  const changed: CatEncounter[] = [];
+
+  for (const encounter of encounters) {
+    const colonyId = findColonyAt(colonies, encounter.lat, encounter.lng)?.id;
+    if (colonyId !== encounter.colonyId) {
+      changed.push({ ...encounter, colonyId });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Polygon area in squared degrees (shoelace formula); only used to compare colonies
+ */
+function getBoundaryArea(boundary: [number, number][]): number {
+  let twiceArea = 0;
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    twiceArea += boundary[j][1] * boundary[i][0] - boundary[i][1] * boundary[j][0];
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+function isValidPoint(point: unknown): boolean {
+  return Array.isArray(point) &&
+    point.length === 2 &&
+    typeof point[0] === 'number' && point[0] >= -90 && point[0] <= 90 &&
+    typeof point[1] === 'number' && point[1] >= -180 && point[1] <= 180;
+}
+
+/**
+ * Validates an ISO-8601 timestamp string
+ */
+function isValidISOString(dateString: string): boolean {
+  const date = new Date(dateString);
+  return date instanceof Date && !isNaN(date.getTime()) && date.toISOString() === dateString;
+}
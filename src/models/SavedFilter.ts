@@ -0,0 +1,45 @@
+/**
+ * Saved filter data model: named searches kept in preferences and synced between devices
+ */
+
+import type { SavedFilter } from '../types';
+import { generateUUID, getCurrentTimestamp } from '../utils/dataUtils';
+
+/**
+ * Creates a new SavedFilter
+ */
+export function createSavedFilter(name: string, query: string): SavedFilter {
+  const createdAt = getCurrentTimestamp();
+
+  return {
+    id: generateUUID(),
+    name: name.trim(),
+    query: query.trim(),
+    createdAt,
+    updatedAt: createdAt
+  };
+}
+
+/**
+ * Saved filters that have not been deleted, in the order they were created
+ */
+export function getActiveSavedFilters(filters: SavedFilter[] = []): SavedFilter[] {
+  return filters
+    .filter(filter => !filter.isDeleted)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Merges the saved filters of two devices. The latest edit of each filter wins,
+ * local on a tie; deleted filters stay as tombstones so the deletion reaches other devices.
+ */
+export function mergeSavedFilters(local: SavedFilter[] = [], remote: SavedFilter[] = []): SavedFilter[] {
+  const merged = new Map(local.map(filter => [filter.id, filter]));
+  for (const filter of remote) {
+    const existing = merged.get(filter.id);
+    if (!existing || filter.updatedAt > existing.updatedAt) {
+      merged.set(filter.id, filter);
+    }
+  }
+  return [...merged.values()];
+}
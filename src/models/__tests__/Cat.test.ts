@@ -0,0 +1,79 @@
+/**
+ * Unit tests for Cat model and validation functions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { validateCat, createCat, updateCat, getCatDisplayName } from '../Cat';
+import type { Cat } from '../../types';
+
+// Mock the dataUtils functions
+vi.mock('../../utils/dataUtils', () => ({
+  generateUUID: vi.fn(() => 'cat-uuid-123'),
+  getCurrentTimestamp: vi.fn(() => '2024-01-15T10:30:00.000Z')
+}));
+
+describe('Cat Model', () => {
+  const validCat: Cat = {
+    id: 'cat-uuid-123',
+    name: 'Bakery Tabby',
+    nickname: 'Crumbs',
+    distinguishingMarks: 'Tipped left ear',
+    createdAt: '2024-01-15T10:30:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z'
+  };
+
+  describe('validateCat', () => {
+    it('should validate a correct cat', () => {
+      const result = validateCat(validCat);
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should require a non-empty name', () => {
+      const result = validateCat({ ...validCat, name: '   ' });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Name is required');
+    });
+
+    it('should reject invalid timestamps', () => {
+      const result = validateCat({ ...validCat, updatedAt: 'yesterday' });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('UpdatedAt must be a valid ISO-8601 timestamp');
+    });
+
+    it('should reject non-string optional fields', () => {
+      const result = validateCat({ ...validCat, notes: 42 as unknown as string });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Notes must be a string if provided');
+    });
+  });
+
+  describe('createCat', () => {
+    it('should create a cat with generated id and timestamps', () => {
+      const cat = createCat('  Bakery Tabby ', { nickname: 'Crumbs' });
+
+      expect(cat.id).toBe('cat-uuid-123');
+      expect(cat.name).toBe('Bakery Tabby');
+      expect(cat.nickname).toBe('Crumbs');
+      expect(cat.createdAt).toBe('2024-01-15T10:30:00.000Z');
+      expect(cat.updatedAt).toBe(cat.createdAt);
+    });
+  });
+
+  describe('updateCat', () => {
+    it('should apply updates and refresh updatedAt', () => {
+      const updated = updateCat({ ...validCat, updatedAt: '2024-01-01T00:00:00.000Z' }, { notes: 'Seen daily' });
+
+      expect(updated.notes).toBe('Seen daily');
+      expect(updated.updatedAt).toBe('2024-01-15T10:30:00.000Z');
+      expect(updated.id).toBe(validCat.id);
+    });
+  });
+
+  describe('getCatDisplayName', () => {
+    it('should include the nickname when present', () => {
+      expect(getCatDisplayName(validCat)).toBe('Bakery Tabby (Crumbs)');
+      expect(getCatDisplayName({ name: 'Shadow' })).toBe('Shadow');
+    });
+  });
+});
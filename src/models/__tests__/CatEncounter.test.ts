@@ -14,7 +14,18 @@ import {
   isValidBehavior,
   CAT_COLORS,
   CAT_TYPES,
-  BEHAVIOR_PRESETS
+  BEHAVIOR_PRESETS,
+  LEGACY_COAT_LENGTH,
+  inferCoatLength,
+  validateEncounterHealth,
+  normalizeEncounterHealth,
+  getHealthTimeline,
+  getLatestTnrStatus,
+  getEncountersNeedingTnr,
+  getEncounterPhotos,
+  getCoverPhotoIndex,
+  buildPhotoFields,
+  createDraftEncounter
 } from '../CatEncounter';
 import { CatEncounter } from '../../types';
 import * as dataUtils from '../../utils/dataUtils';
@@ -221,6 +232,18 @@ describe('CatEncounter Model', () => {
     });
   });
 
+  describe('createDraftEncounter', () => {
+    it('should create a valid draft with an empty description', () => {
+      const draft = createDraftEncounter(40.7128, -74.0060, { dateTime: '2024-05-01T12:30:00.000Z', photoBlobId: 'photo-1' });
+
+      expect(draft.isDraft).toBe(true);
+      expect(draft.catColor).toBe('');
+      expect(draft.photoBlobId).toBe('photo-1');
+      expect(validateCatEncounter(draft).isValid).toBe(true);
+      expect(validateCatEncounter({ ...draft, isDraft: undefined }).errors).toContain('Cat color is required');
+    });
+  });
+
   describe('updateCatEncounter', () => {
     const existingEncounter: CatEncounter = {
       id: 'existing-id',
@@ -329,6 +352,162 @@ describe('CatEncounter Model', () => {
     });
   });
 
+  describe('health records', () => {
+    const encounterWith = (id: string, dateTime: string, extra: Partial<CatEncounter>): CatEncounter => ({
+      id,
+      lat: 40.7128,
+      lng: -74.0060,
+      dateTime,
+      catColor: 'Black',
+      coatLength: 'Shorthair',
+      catType: 'Feral',
+      behavior: 'Eating',
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      ...extra
+    });
+
+    it('should validate a complete health record', () => {
+      expect(validateEncounterHealth({
+        tnrStatus: 'ear-tipped',
+        injuries: 'Scratch on nose',
+        pregnant: false,
+        vaccinations: [{ name: 'Rabies', date: '2024-01-10' }],
+        vetVisits: [{ date: '2024-01-10', reason: 'Neuter', notes: 'Healthy' }]
+      })).toEqual([]);
+    });
+
+    it('should reject unknown statuses and undated entries', () => {
+      const errors = validateEncounterHealth({
+        tnrStatus: 'spayed',
+        vaccinations: [{ name: '', date: '2024-02-30' }],
+        vetVisits: [{ date: '10/01/2024', reason: 'Checkup' }]
+      });
+
+      expect(errors).toContain('TNR status must be one of unknown, intact, ear-tipped, neutered');
+      expect(errors).toContain('Vaccination 1: name is required');
+      expect(errors).toContain('Vaccination 1: date must be YYYY-MM-DD');
+      expect(errors).toContain('Vet visit 1: date must be YYYY-MM-DD');
+    });
+
+    it('should report health errors through validateCatEncounter', () => {
+      const result = validateCatEncounter(encounterWith('a', '2024-01-15T10:30:00.000Z', { health: { pregnant: 'yes' as unknown as boolean } }));
+      expect(result.errors).toContain('Pregnant must be true or false if provided');
+    });
+
+    it('should drop empty parts of a health record from a form', () => {
+      expect(normalizeEncounterHealth({ tnrStatus: 'unknown', injuries: '  ', pregnant: false, vaccinations: [{ name: '', date: '' }] })).toBeUndefined();
+      expect(normalizeEncounterHealth({ tnrStatus: 'intact', injuries: ' Limping ' })).toEqual({ tnrStatus: 'intact', injuries: 'Limping' });
+    });
+
+    it('should build a timeline of status changes and dated events, newest first', () => {
+      const vaccination = { name: 'Rabies', date: '2024-02-01' };
+      const timeline = getHealthTimeline([
+        encounterWith('first', '2024-01-05T10:00:00.000Z', { health: { tnrStatus: 'intact', pregnant: true } }),
+        encounterWith('second', '2024-02-10T10:00:00.000Z', {
+          health: { tnrStatus: 'neutered', vaccinations: [vaccination], vetVisits: [{ date: '2024-02-01', reason: 'Spay' }] }
+        }),
+        // Repeating the vaccination later does not add a second entry
+        encounterWith('third', '2024-03-01T10:00:00.000Z', { health: { tnrStatus: 'neutered', vaccinations: [vaccination] } })
+      ]);
+
+      expect(timeline.map(entry => [entry.kind, entry.encounterId])).toEqual([
+        ['tnr', 'second'],
+        ['vaccination', 'second'],
+        ['vet-visit', 'second'],
+        ['tnr', 'first'],
+        ['pregnancy', 'first']
+      ]);
+    });
+
+    it('should find encounters of cats whose latest status is intact', () => {
+      const encounters = [
+        encounterWith('old', '2024-01-01T10:00:00.000Z', { catId: 'tom', health: { tnrStatus: 'intact' } }),
+        encounterWith('sighting', '2024-02-01T10:00:00.000Z', { catId: 'tom' }),
+        encounterWith('fixed-before', '2024-01-01T10:00:00.000Z', { catId: 'molly', health: { tnrStatus: 'intact' } }),
+        encounterWith('fixed', '2024-02-01T10:00:00.000Z', { catId: 'molly', health: { tnrStatus: 'ear-tipped' } }),
+        encounterWith('stray', '2024-02-01T10:00:00.000Z', { health: { tnrStatus: 'intact' } })
+      ];
+
+      expect(getLatestTnrStatus(encounters.filter(e => e.catId === 'molly'))).toBe('ear-tipped');
+      expect(getEncountersNeedingTnr(encounters).map(e => e.id)).toEqual(['old', 'sighting', 'stray']);
+    });
+  });
+
+  describe('photos', () => {
+    it('should read a legacy single photo as a one-photo list', () => {
+      const encounter = { photoBlobId: 'blob-1', photoDriveId: 'drive-1' };
+
+      expect(getEncounterPhotos(encounter)).toEqual([{ blobId: 'blob-1', driveId: 'drive-1' }]);
+      expect(getCoverPhotoIndex(encounter)).toBe(0);
+      expect(getEncounterPhotos({})).toEqual([]);
+      expect(getCoverPhotoIndex({})).toBe(-1);
+    });
+
+    it('should find the cover by provider ID, then by blob ID', () => {
+      const photos = [{ blobId: 'blob-1', driveId: 'drive-1' }, { blobId: 'blob-2', driveId: 'drive-2' }, { blobId: 'blob-3' }];
+
+      expect(getCoverPhotoIndex({ photos, photoBlobId: 'other-device-blob', photoDriveId: 'drive-2' })).toBe(1);
+      expect(getCoverPhotoIndex({ photos, photoBlobId: 'blob-3' })).toBe(2);
+    });
+
+    it('should put a cover missing from the list first', () => {
+      const encounter = { photos: [{ driveId: 'drive-1' }, { driveId: 'drive-2' }], photoDriveId: 'drive-new' };
+
+      expect(getEncounterPhotos(encounter).map(p => p.driveId)).toEqual(['drive-new', 'drive-1', 'drive-2']);
+      expect(getCoverPhotoIndex(encounter)).toBe(0);
+    });
+
+    it('should keep the list only when there are several photos', () => {
+      expect(buildPhotoFields([{ blobId: 'blob-1' }])).toEqual({ photos: undefined, photoBlobId: 'blob-1', photoDriveId: undefined });
+      expect(buildPhotoFields([])).toEqual({ photos: undefined, photoBlobId: undefined, photoDriveId: undefined });
+
+      const photos = [{ blobId: 'blob-1' }, { blobId: 'blob-2', driveId: 'drive-2' }];
+      expect(buildPhotoFields(photos, 1)).toEqual({ photos, photoBlobId: 'blob-2', photoDriveId: 'drive-2' });
+    });
+
+    it('should keep a single photo in the list for its original size', () => {
+      const photos = [{ blobId: 'blob-1', width: 4032, height: 3024 }];
+      const fields = buildPhotoFields(photos);
+
+      expect(fields).toEqual({ photos, photoBlobId: 'blob-1', photoDriveId: undefined });
+      expect(getEncounterPhotos(fields)).toEqual(photos);
+      expect(validateCatEncounter(encounterWithPhotos(photos)).isValid).toBe(true);
+      expect(validateCatEncounter(encounterWithPhotos([{ blobId: 'blob-1', width: -1 }])).isValid).toBe(false);
+    });
+
+    it('should reject malformed photo lists', () => {
+      const result = validateCatEncounter(encounterWithPhotos([{ blobId: 42 }] as never));
+      expect(result.errors).toContain('Photos must be a list of photo references if provided');
+      expect(validateCatEncounter(encounterWithPhotos([{ blobId: 'a' }, { driveId: 'b' }])).isValid).toBe(true);
+    });
+
+    function encounterWithPhotos(photos: CatEncounter['photos']): CatEncounter {
+      return {
+        id: 'test-uuid-123',
+        lat: 40.7128,
+        lng: -74.0060,
+        dateTime: '2024-01-15T10:30:00.000Z',
+        catColor: 'Black',
+        coatLength: 'Shorthair',
+        catType: 'Domestic Shorthair',
+        behavior: 'Friendly',
+        photos,
+        createdAt: '2024-01-15T10:30:00.000Z',
+        updatedAt: '2024-01-15T10:30:00.000Z'
+      };
+    }
+  });
+
+  describe('inferCoatLength', () => {
+    it('should infer coat length from well-known cat types', () => {
+      expect(inferCoatLength('Maine Coon')).toBe('Longhair');
+      expect(inferCoatLength('Domestic Shorthair')).toBe('Shorthair');
+      expect(inferCoatLength('Stray')).toBe(LEGACY_COAT_LENGTH);
+      expect(inferCoatLength(undefined)).toBe(LEGACY_COAT_LENGTH);
+    });
+  });
+
   describe('constants', () => {
     it('should have correct cat colors', () => {
       expect(CAT_COLORS).toContain('Black');
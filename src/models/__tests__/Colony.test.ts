@@ -0,0 +1,110 @@
+/**
+ * Unit tests for Colony model, validation and geometry functions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { validateColony, createColony, isPointInColony, findColonyAt, reassignColonies } from '../Colony';
+import type { CatEncounter, Colony } from '../../types';
+
+// Mock the dataUtils functions
+vi.mock('../../utils/dataUtils', () => ({
+  generateUUID: vi.fn(() => 'colony-uuid-123'),
+  getCurrentTimestamp: vi.fn(() => '2024-01-15T10:30:00.000Z')
+}));
+
+describe('Colony Model', () => {
+  // A square around the origin, and a smaller one inside it
+  const park: Colony = {
+    id: 'park',
+    name: 'Park',
+    boundary: [[0, 0], [0, 2], [2, 2], [2, 0]],
+    createdAt: '2024-01-15T10:30:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z'
+  };
+
+  const shed: Colony = {
+    ...park,
+    id: 'shed',
+    name: 'Shed',
+    boundary: [[0.5, 0.5], [0.5, 1], [1, 1], [1, 0.5]]
+  };
+
+  const encounterAt = (id: string, lat: number, lng: number, colonyId?: string): CatEncounter => ({
+    id,
+    lat,
+    lng,
+    dateTime: '2024-01-15T10:30:00.000Z',
+    catColor: 'Black',
+    coatLength: 'Shorthair',
+    catType: 'Feral',
+    behavior: 'Eating',
+    colonyId,
+    createdAt: '2024-01-15T10:30:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z'
+  });
+
+  describe('validateColony', () => {
+    it('should validate a correct colony', () => {
+      const result = validateColony(park);
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should require a name and at least three boundary points', () => {
+      const result = validateColony({ ...park, name: ' ', boundary: [[0, 0], [1, 1]] });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Name is required');
+      expect(result.errors).toContain('Boundary must have at least 3 points');
+    });
+
+    it('should reject points outside the valid coordinate range', () => {
+      const result = validateColony({ ...park, boundary: [[0, 0], [0, 200], [2, 2]] });
+      expect(result.errors).toContain('Boundary points must be [latitude, longitude] pairs');
+    });
+  });
+
+  describe('createColony', () => {
+    it('should create a colony with trimmed name and timestamps', () => {
+      const colony = createColony('  Harbor  ', park.boundary, { feedingSchedule: 'Daily at 7am' });
+
+      expect(colony.id).toBe('colony-uuid-123');
+      expect(colony.name).toBe('Harbor');
+      expect(colony.feedingSchedule).toBe('Daily at 7am');
+      expect(colony.createdAt).toBe(colony.updatedAt);
+      expect(validateColony(colony).isValid).toBe(true);
+    });
+  });
+
+  describe('geometry', () => {
+    it('should tell whether a point is inside the boundary', () => {
+      expect(isPointInColony(park, 1, 1)).toBe(true);
+      expect(isPointInColony(park, 3, 1)).toBe(false);
+      expect(isPointInColony(park, 1, -0.5)).toBe(false);
+    });
+
+    it('should prefer the smallest colony where boundaries overlap', () => {
+      expect(findColonyAt([park, shed], 0.75, 0.75)?.id).toBe('shed');
+      expect(findColonyAt([park, shed], 1.5, 1.5)?.id).toBe('park');
+      expect(findColonyAt([park, shed], 5, 5)).toBeUndefined();
+    });
+
+    it('should ignore deleted colonies', () => {
+      expect(findColonyAt([park, { ...shed, isDeleted: true }], 0.75, 0.75)?.id).toBe('park');
+    });
+
+    it('should return only encounters whose colony changes', () => {
+      const encounters = [
+        encounterAt('in-shed', 0.75, 0.75, 'park'),
+        encounterAt('in-park', 1.5, 1.5, 'park'),
+        encounterAt('outside', 5, 5, 'park')
+      ];
+
+      const changed = reassignColonies(encounters, [park, shed]);
+
+      expect(changed.map(e => [e.id, e.colonyId])).toEqual([
+        ['in-shed', 'shed'],
+        ['outside', undefined]
+      ]);
+    });
+  });
+});
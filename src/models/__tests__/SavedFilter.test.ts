@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the SavedFilter model
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createSavedFilter, getActiveSavedFilters, mergeSavedFilters } from '../SavedFilter';
+import type { SavedFilter } from '../../types';
+
+// Mock the dataUtils functions
+vi.mock('../../utils/dataUtils', () => ({
+  generateUUID: vi.fn(() => 'filter-uuid-123'),
+  getCurrentTimestamp: vi.fn(() => '2024-01-15T10:30:00.000Z')
+}));
+
+describe('SavedFilter Model', () => {
+  const noPhotos: SavedFilter = {
+    id: 'no-photos',
+    name: 'Cats without photos',
+    query: '-has:photo',
+    createdAt: '2024-01-10T10:00:00.000Z',
+    updatedAt: '2024-01-10T10:00:00.000Z'
+  };
+
+  const friendly: SavedFilter = {
+    id: 'friendly',
+    name: 'Friendly this month',
+    query: 'behavior:friendly after:month',
+    createdAt: '2024-01-05T10:00:00.000Z',
+    updatedAt: '2024-01-05T10:00:00.000Z'
+  };
+
+  it('should create a saved filter with trimmed fields', () => {
+    expect(createSavedFilter('  Park cats ', ' colony:park ')).toEqual({
+      id: 'filter-uuid-123',
+      name: 'Park cats',
+      query: 'colony:park',
+      createdAt: '2024-01-15T10:30:00.000Z',
+      updatedAt: '2024-01-15T10:30:00.000Z'
+    });
+  });
+
+  it('should list filters that are not deleted, oldest first', () => {
+    const deleted = { ...friendly, id: 'deleted', isDeleted: true };
+    expect(getActiveSavedFilters([noPhotos, deleted, friendly])).toEqual([friendly, noPhotos]);
+    expect(getActiveSavedFilters(undefined)).toEqual([]);
+  });
+
+  it('should keep the latest edit of each filter and sync deletions', () => {
+    const renamed = { ...noPhotos, name: 'No photos yet', updatedAt: '2024-01-12T10:00:00.000Z' };
+    const deleted = { ...friendly, isDeleted: true, updatedAt: '2024-01-11T10:00:00.000Z' };
+    const remoteOnly = { ...friendly, id: 'remote-only' };
+
+    const merged = mergeSavedFilters([noPhotos, deleted], [renamed, friendly, remoteOnly]);
+    expect(merged).toEqual([renamed, deleted, remoteOnly]);
+    expect(mergeSavedFilters([renamed], [noPhotos])).toEqual([renamed]);
+  });
+});
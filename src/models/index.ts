@@ -2,4 +2,7 @@
  * Export all data models and validation functions
  */
 
-export * from './CatEncounter';
\ No newline at end of file
+export * from './CatEncounter';
+export * from './Cat';
+export * from './Colony';
+export * from './SavedFilter';
@@ -12,6 +12,10 @@ export function PrivacyPolicy() {
       <p className="mb-2">
         If you choose to sync your data with Google Drive, your data will be subject to Google's privacy policy.
       </p>
+      <p className="mb-2">
+        When you create a share link, the shared photo, details and a blurred location are stored on our server and
+        shown to anyone with the link until it expires or you revoke it.
+      </p>
     </div>
   );
 }
\ No newline at end of file
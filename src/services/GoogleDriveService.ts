@@ -1,11 +1,21 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import type { CatEncounter } from "@/types";
+import type { CatEncounter, Cat } from "@/types";
+import { CURRENT_BACKUP_VERSION, upgradeBackup } from "../utils/backupFormat";
+import type { SyncProvider, RemoteFileInfo } from "./SyncProvider";
 
 // Use window.gapi instead of global declaration
 
 const METADATA_FILE_NAME = 'app-data.json';
 
-export class GoogleDriveService {
+/**
+ * Metadata returned for files in appDataFolder
+ */
+export type DriveFileInfo = RemoteFileInfo;
+
+export class GoogleDriveService implements SyncProvider {
+  public readonly type = 'google-drive';
+  public readonly id = 'google-drive';
+  public readonly displayName = 'Google Drive';
   private driveReady = false;
   private accessToken: string;
 
@@ -127,64 +137,134 @@ export class GoogleDriveService {
     return fileResult.result.files && fileResult.result.files.length > 0 ? fileResult.result.files[0].id : null;
   }
 
-  public async saveData(data: { encounters: CatEncounter[], preferences: any }): Promise<void> {
+  public async saveData(data: { encounters: CatEncounter[], cats?: Cat[], preferences: any }): Promise<void> {
     if (!this.driveReady) {
       throw new Error('Google Drive not initialized');
     }
 
     try {
       const fileId = await this.getEncountersFileId();
-      const content = JSON.stringify(data, null, 2);
-      const gapi = (window as any).gapi;
-
-      if (fileId) {
-        // Update existing file
-        await gapi.client.request({
-          path: `/upload/drive/v3/files/${fileId}`,
-          method: 'PATCH',
-          params: { uploadType: 'media' },
-          body: content,
-        });
-        console.log('Data updated in Google Drive:', fileId);
-      } else {
-        // Create new file
-        const metadata = {
-          name: METADATA_FILE_NAME,
-          mimeType: 'application/json',
-          parents: ['appDataFolder'],
-        };
-        const boundary = '-------314159265358979323846';
-        const delimiter = `\r\n--${boundary}\r\n`;
-        const close_delim = `\r\n--${boundary}--`;
-
-        const multipartRequestBody =
-          `${delimiter}Content-Type: application/json\r\n\r\n${JSON.stringify(metadata)}` +
-          `${delimiter}Content-Type: application/json\r\n\r\n${content}` +
-          `${close_delim}`;
-
-        const response = await gapi.client.request({
-          path: '/upload/drive/v3/files',
-          method: 'POST',
-          params: { uploadType: 'multipart' },
-          headers: { 'Content-Type': `multipart/related; boundary="${boundary}"` },
-          body: multipartRequestBody,
-        });
-        console.log('Data saved to Google Drive:', response.result);
-      }
+      // Stamp the backup format version so older app data can be upgraded on load
+      const content = JSON.stringify({ version: CURRENT_BACKUP_VERSION, ...data }, null, 2);
+      const file = await this.uploadJsonFile(METADATA_FILE_NAME, content, fileId);
+      console.log('Data saved to Google Drive:', file.id);
     } catch (error) {
       console.error('Error saving data to Google Drive:', error);
       throw new Error(`Failed to save data: ${(error as any).result?.error?.message || (error as any).message}`);
     }
   }
 
-  public async loadData(): Promise<{ encounters: CatEncounter[], preferences: any }> {
+  /**
+   * Returns true when the single-file app data written by older versions exists
+   */
+  public async hasLegacyDataFile(): Promise<boolean> {
+    return (await this.getEncountersFileId()) !== null;
+  }
+
+  /**
+   * Lists appDataFolder files whose names start with one of the prefixes,
+   * optionally only those modified after the given ISO timestamp
+   */
+  public async listFiles(namePrefixes: string[], modifiedAfter?: string): Promise<DriveFileInfo[]> {
+    if (!this.driveReady) throw new Error('Google Drive not initialized');
+
+    const gapi = (window as any).gapi;
+    const nameQuery = namePrefixes.map(prefix => `name contains '${prefix}'`).join(' or ');
+    let q = `(${nameQuery}) and trashed=false`;
+    if (modifiedAfter) {
+      q += ` and modifiedTime > '${modifiedAfter}'`;
+    }
+
+    const files: DriveFileInfo[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await gapi.client.drive.files.list({
+        spaces: 'appDataFolder',
+        q,
+        fields: 'nextPageToken, files(id, name, modifiedTime)',
+        pageSize: 1000,
+        pageToken,
+      });
+      files.push(...(response.result.files || []));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+
+    // "contains" matches word prefixes anywhere in the name; keep only true prefixes
+    return files.filter(file => namePrefixes.some(prefix => file.name.startsWith(prefix)));
+  }
+
+  /**
+   * Downloads and parses a JSON file from appDataFolder
+   */
+  public async readJsonFile(fileId: string): Promise<unknown> {
+    if (!this.driveReady) throw new Error('Google Drive not initialized');
+
+    const gapi = (window as any).gapi;
+    const response = await gapi.client.drive.files.get({ fileId, alt: 'media' });
+    return typeof response.body === 'string' ? JSON.parse(response.body) : response.result;
+  }
+
+  /**
+   * Creates or replaces a JSON file in appDataFolder
+   */
+  public async writeJsonFile(name: string, data: unknown, fileId?: string): Promise<DriveFileInfo> {
+    if (!this.driveReady) throw new Error('Google Drive not initialized');
+
+    try {
+      return await this.uploadJsonFile(name, JSON.stringify(data), fileId ?? null);
+    } catch (error) {
+      console.error(`Error writing ${name} to Google Drive:`, error);
+      throw new Error(`Failed to save ${name}: ${(error as any).result?.error?.message || (error as any).message}`);
+    }
+  }
+
+  private async uploadJsonFile(name: string, content: string, fileId: string | null): Promise<DriveFileInfo> {
+    const gapi = (window as any).gapi;
+
+    if (fileId) {
+      // Update existing file
+      const response = await gapi.client.request({
+        path: `/upload/drive/v3/files/${fileId}`,
+        method: 'PATCH',
+        params: { uploadType: 'media', fields: 'id, name, modifiedTime' },
+        body: content,
+      });
+      return response.result;
+    }
+
+    // Create new file
+    const metadata = {
+      name,
+      mimeType: 'application/json',
+      parents: ['appDataFolder'],
+    };
+    const boundary = '-------314159265358979323846';
+    const delimiter = `\r\n--${boundary}\r\n`;
+    const close_delim = `\r\n--${boundary}--`;
+
+    const multipartRequestBody =
+      `${delimiter}Content-Type: application/json\r\n\r\n${JSON.stringify(metadata)}` +
+      `${delimiter}Content-Type: application/json\r\n\r\n${content}` +
+      `${close_delim}`;
+
+    const response = await gapi.client.request({
+      path: '/upload/drive/v3/files',
+      method: 'POST',
+      params: { uploadType: 'multipart', fields: 'id, name, modifiedTime' },
+      headers: { 'Content-Type': `multipart/related; boundary="${boundary}"` },
+      body: multipartRequestBody,
+    });
+    return response.result;
+  }
+
+  public async loadData(): Promise<{ encounters: CatEncounter[], cats: Cat[], preferences: any }> {
     if (!this.driveReady) throw new Error('Google Drive not initialized');
     
     try {
       const fileId = await this.getEncountersFileId();
       if (!fileId) {
         console.log('No app data file found in Google Drive');
-        return { encounters: [], preferences: {} };
+        return { encounters: [], cats: [], preferences: {} };
       }
 
       const gapi = (window as any).gapi;
@@ -197,18 +277,19 @@ export class GoogleDriveService {
       const responseBody = typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
       const data = JSON.parse(responseBody);
       
-      if (data && data.encounters && data.preferences) {
-        return data;
-      } else {
-        // Handle legacy format
-        const encounters = Array.isArray(data) ? data : (data.encounters || []);
-        return { encounters, preferences: data.preferences || {} };
-      }
+      // Upgrade older and unversioned files to the current backup format
+      const upgraded = upgradeBackup(data).data;
+      return {
+        ...upgraded,
+        encounters: Array.isArray(upgraded.encounters) ? upgraded.encounters : [],
+        cats: Array.isArray(upgraded.cats) ? upgraded.cats : [],
+        preferences: upgraded.preferences || {}
+      };
     } catch (error: any) {
       // If parsing fails because the file is empty, return empty data
       if (error instanceof SyntaxError) {
         console.warn('App data file is empty or corrupted, starting fresh.');
-        return { encounters: [], preferences: {} };
+        return { encounters: [], cats: [], preferences: {} };
       }
       console.error('Error loading data from Google Drive:', error);
       throw new Error(`Failed to load data: ${error.message}`);
@@ -0,0 +1,98 @@
+/**
+ * Sync provider for a folder on this computer, using the File System Access API
+ * Useful with folders that another tool syncs (Syncthing, Dropbox, a USB drive).
+ */
+
+import {
+  type SyncProvider,
+  type RemoteFileInfo,
+  matchesListing,
+  createPhotoFileName,
+  toIsoTimestamp
+} from './SyncProvider';
+
+// Parts of the File System Access API missing from TypeScript's DOM typings
+type PermissionMode = { mode: 'read' | 'readwrite' };
+interface DirectoryHandleWithPermissions extends FileSystemDirectoryHandle {
+  values(): AsyncIterable<FileSystemHandle>;
+  queryPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  requestPermission(descriptor: PermissionMode): Promise<PermissionState>;
+}
+type DirectoryPicker = (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+export class LocalFolderProvider implements SyncProvider {
+  public readonly type = 'local-folder';
+  public readonly id: string;
+  public readonly displayName = 'Local Folder';
+  private directory: DirectoryHandleWithPermissions;
+
+  constructor(directoryHandle: FileSystemDirectoryHandle) {
+    this.directory = directoryHandle as DirectoryHandleWithPermissions;
+    this.id = `local-folder:${directoryHandle.name}`;
+  }
+
+  public static isSupported(): boolean {
+    return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+  }
+
+  /**
+   * Asks the user to choose the sync folder
+   */
+  public static async pickDirectory(): Promise<FileSystemDirectoryHandle> {
+    if (!LocalFolderProvider.isSupported()) {
+      throw new Error('This browser cannot access local folders. Try Chrome or Edge on a desktop computer.');
+    }
+    const showDirectoryPicker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+    return showDirectoryPicker({ id: 'cat-a-log-sync', mode: 'readwrite' });
+  }
+
+  /**
+   * Makes sure the folder can be written. Browsers forget the grant between sessions,
+   * so this must run from a user gesture after a reload.
+   */
+  public async init(): Promise<void> {
+    const descriptor: PermissionMode = { mode: 'readwrite' };
+    if (await this.directory.queryPermission(descriptor) === 'granted') return;
+    if (await this.directory.requestPermission(descriptor) !== 'granted') {
+      throw new Error(`Permission to use the folder "${this.directory.name}" was not granted.`);
+    }
+  }
+
+  public async listFiles(namePrefixes: string[], modifiedAfter?: string): Promise<RemoteFileInfo[]> {
+    const files: RemoteFileInfo[] = [];
+    for await (const entry of this.directory.values()) {
+      if (entry.kind !== 'file') continue;
+      const file = await (entry as FileSystemFileHandle).getFile();
+      files.push({ id: entry.name, name: entry.name, modifiedTime: toIsoTimestamp(file.lastModified) });
+    }
+    return files.filter(file => matchesListing(file, namePrefixes, modifiedAfter));
+  }
+
+  public async readJsonFile(fileId: string): Promise<unknown> {
+    const file = await (await this.directory.getFileHandle(fileId)).getFile();
+    return JSON.parse(await file.text());
+  }
+
+  public async writeJsonFile(name: string, data: unknown): Promise<RemoteFileInfo> {
+    const file = await this.writeFile(name, JSON.stringify(data));
+    return { id: name, name, modifiedTime: toIsoTimestamp(file.lastModified) };
+  }
+
+  public async savePhoto(photo: File): Promise<string> {
+    const name = createPhotoFileName(photo);
+    await this.writeFile(name, photo);
+    return name;
+  }
+
+  public async getPhoto(fileId: string): Promise<Blob> {
+    return (await this.directory.getFileHandle(fileId)).getFile();
+  }
+
+  private async writeFile(name: string, content: string | Blob): Promise<File> {
+    const handle = await this.directory.getFileHandle(name, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+    return handle.getFile();
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Computes perceptual hashes of photos in a Web Worker and keeps the hashes of
+ * stored photos, so "same cat" suggestions work offline without re-reading every photo
+ */
+
+import { storageService } from './StorageService';
+import type { PhotoHashRequest, PhotoHashResponse } from '../workers/photoHash.worker';
+
+type WorkerFactory = () => Worker;
+
+const createPhotoHashWorker: WorkerFactory = () =>
+  new Worker(new URL('../workers/photoHash.worker.ts', import.meta.url), { type: 'module' });
+
+export class PhotoHashService {
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pending = new Map<number, { resolve: (hash: string) => void; reject: (error: Error) => void }>();
+  private storedHashes = new Map<string, string>();
+
+  constructor(private createWorker: WorkerFactory = createPhotoHashWorker) {}
+
+  /**
+   * Perceptual hash of a photo blob
+   */
+  hashPhoto(blob: Blob): Promise<string> {
+    const worker = this.getWorker();
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, blob } satisfies PhotoHashRequest);
+    });
+  }
+
+  /**
+   * Hash of a stored photo, computed from its thumbnail the first time it is needed.
+   * Resolves to null when the photo is not on this device or cannot be decoded.
+   */
+  async getPhotoHash(photoBlobId: string): Promise<string | null> {
+    const known = this.storedHashes.get(photoBlobId) ?? await storageService.getPhotoHash(photoBlobId);
+    if (known) {
+      this.storedHashes.set(photoBlobId, known);
+      return known;
+    }
+
+    const thumbnail = await storageService.getThumbnail(photoBlobId);
+    if (!thumbnail) return null;
+    try {
+      const hash = await this.hashPhoto(thumbnail);
+      await storageService.savePhotoHash(photoBlobId, hash);
+      this.storedHashes.set(photoBlobId, hash);
+      return hash;
+    } catch (error) {
+      console.warn(`PhotoHashService: Failed to hash photo ${photoBlobId}:`, error);
+      return null;
+    }
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = this.createWorker();
+      this.worker.onmessage = (event: MessageEvent<PhotoHashResponse>) => {
+        const request = this.pending.get(event.data.id);
+        if (!request) return;
+        this.pending.delete(event.data.id);
+        if ('hash' in event.data) {
+          request.resolve(event.data.hash);
+        } else {
+          request.reject(new Error(event.data.error));
+        }
+      };
+      this.worker.onerror = (event) => {
+        console.error('PhotoHashService: Worker failed:', event.message);
+        // Fail everything in flight and start a fresh worker for the next request
+        this.pending.forEach(request => request.reject(new Error(event.message || 'Photo hashing failed')));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+}
+
+export const photoHashService = new PhotoHashService();
@@ -0,0 +1,225 @@
+/**
+ * Sync provider for S3-compatible object storage (AWS S3, MinIO, Backblaze B2, Wasabi)
+ * Requests are signed with AWS Signature Version 4 using Web Crypto.
+ * Objects are addressed path-style so custom endpoints work without DNS setup.
+ */
+
+import type { S3Settings } from '@/types';
+import {
+  type SyncProvider,
+  type RemoteFileInfo,
+  matchesListing,
+  createPhotoFileName,
+  toIsoTimestamp
+} from './SyncProvider';
+
+const SERVICE = 's3';
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+// Photos are sent without hashing them first; S3 still verifies the signed headers
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+export class S3Provider implements SyncProvider {
+  public readonly type = 's3';
+  public readonly id: string;
+  public readonly displayName = 'S3 Storage';
+  private settings: S3Settings;
+  private endpoint: string;
+  private prefix: string;
+
+  constructor(settings: S3Settings) {
+    if (!settings.endpoint || !settings.bucket || !settings.accessKeyId || !settings.secretAccessKey) {
+      throw new Error('S3 endpoint, bucket and access keys are required.');
+    }
+    this.settings = settings;
+    this.endpoint = settings.endpoint.replace(/\/+$/, '');
+    this.prefix = settings.prefix ? `${settings.prefix.replace(/^\/+|\/+$/g, '')}/` : '';
+    this.id = `s3:${this.endpoint}/${settings.bucket}/${this.prefix}`;
+  }
+
+  /**
+   * Checks that the bucket is reachable with the given keys
+   */
+  public async init(): Promise<void> {
+    const response = await this.request('GET', this.bucketUrl({ 'list-type': '2', 'max-keys': '1', prefix: this.prefix }));
+    this.expectOk(response, 'open the bucket');
+  }
+
+  public async listFiles(namePrefixes: string[], modifiedAfter?: string): Promise<RemoteFileInfo[]> {
+    const files: RemoteFileInfo[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', delimiter: '/', prefix: this.prefix };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+
+      const response = await this.request('GET', this.bucketUrl(query));
+      this.expectOk(response, 'list files');
+      const document = new DOMParser().parseFromString(await response.text(), 'application/xml');
+
+      for (const item of Array.from(document.getElementsByTagName('Contents'))) {
+        const key = item.getElementsByTagName('Key')[0]?.textContent ?? '';
+        const name = key.slice(this.prefix.length);
+        const lastModified = item.getElementsByTagName('LastModified')[0]?.textContent;
+        files.push({ id: name, name, modifiedTime: toIsoTimestamp(lastModified) });
+      }
+
+      const isTruncated = document.getElementsByTagName('IsTruncated')[0]?.textContent === 'true';
+      continuationToken = isTruncated ? document.getElementsByTagName('NextContinuationToken')[0]?.textContent ?? null : null;
+    } while (continuationToken);
+
+    return files.filter(file => matchesListing(file, namePrefixes, modifiedAfter));
+  }
+
+  public async readJsonFile(fileId: string): Promise<unknown> {
+    const response = await this.request('GET', this.objectUrl(fileId));
+    this.expectOk(response, `read ${fileId}`);
+    return response.json();
+  }
+
+  public async writeJsonFile(name: string, data: unknown): Promise<RemoteFileInfo> {
+    await this.putObject(name, JSON.stringify(data), 'application/json');
+
+    // PUT does not return the modification time; read it back so listings match the cache
+    const response = await this.request('HEAD', this.objectUrl(name));
+    this.expectOk(response, `read details of ${name}`);
+    return { id: name, name, modifiedTime: toIsoTimestamp(response.headers.get('Last-Modified')) };
+  }
+
+  public async savePhoto(photo: File): Promise<string> {
+    const name = createPhotoFileName(photo);
+    await this.putObject(name, photo, photo.type);
+    return name;
+  }
+
+  public async getPhoto(fileId: string): Promise<Blob> {
+    const response = await this.request('GET', this.objectUrl(fileId));
+    this.expectOk(response, `download photo ${fileId}`);
+    return response.blob();
+  }
+
+  private async putObject(name: string, body: string | Blob, contentType: string): Promise<void> {
+    const response = await this.request('PUT', this.objectUrl(name), body, {
+      'content-type': contentType || 'application/octet-stream'
+    });
+    this.expectOk(response, `upload ${name}`);
+  }
+
+  private bucketUrl(query: Record<string, string>): URL {
+    const url = new URL(`${this.endpoint}/${encodeRfc3986(this.settings.bucket)}`);
+    // Build the query by hand so it is encoded exactly as it is signed
+    url.search = Object.entries(query).map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`).join('&');
+    return url;
+  }
+
+  private objectUrl(name: string): URL {
+    const key = `${this.prefix}${name}`.split('/').map(encodeRfc3986).join('/');
+    return new URL(`${this.endpoint}/${encodeRfc3986(this.settings.bucket)}/${key}`);
+  }
+
+  private async request(method: string, url: URL, body?: string | Blob, headers: Record<string, string> = {}): Promise<Response> {
+    const payloadHash = typeof body === 'object' ? UNSIGNED_PAYLOAD : await sha256Hex(body ?? '');
+    const signedHeaders = await signRequest({
+      method,
+      url,
+      headers,
+      payloadHash,
+      region: this.settings.region || 'us-east-1',
+      accessKeyId: this.settings.accessKeyId,
+      secretAccessKey: this.settings.secretAccessKey
+    });
+
+    // Browsers set Host themselves and refuse to send it from script
+    delete signedHeaders.host;
+    return fetch(url, { method, headers: signedHeaders, body });
+  }
+
+  private expectOk(response: Response, action: string): void {
+    if (response.ok) return;
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('S3 storage rejected the access keys.');
+    }
+    throw new Error(`Failed to ${action} in S3 storage: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Input for signing a single S3 request
+ */
+export interface SignRequestOptions {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date?: Date;
+}
+
+/**
+ * Returns the request headers with the AWS Signature Version 4 headers added
+ */
+export async function signRequest(options: SignRequestOptions): Promise<Record<string, string>> {
+  const amzDate = (options.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${options.region}/${SERVICE}/aws4_request`;
+
+  const headers: Record<string, string> = {};
+  Object.entries(options.headers).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value.trim();
+  });
+  headers.host = options.url.host;
+  headers['x-amz-content-sha256'] = options.payloadHash;
+  headers['x-amz-date'] = amzDate;
+
+  const headerNames = Object.keys(headers).sort();
+  const canonicalQuery = [...options.url.searchParams.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    options.method,
+    options.url.pathname,
+    canonicalQuery,
+    headerNames.map(name => `${name}:${headers[name]}\n`).join(''),
+    headerNames.join(';'),
+    options.payloadHash
+  ].join('\n');
+
+  const stringToSign = [
+    ALGORITHM,
+    amzDate,
+    scope,
+    await sha256Hex(canonicalRequest)
+  ].join('\n');
+
+  let key: ArrayBuffer = new TextEncoder().encode(`AWS4${options.secretAccessKey}`).buffer as ArrayBuffer;
+  for (const part of [dateStamp, options.region, SERVICE, 'aws4_request']) {
+    key = await hmac(key, part);
+  }
+  const signature = toHex(await hmac(key, stringToSign));
+
+  headers.authorization = `${ALGORITHM} Credential=${options.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`;
+  return headers;
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data)));
+}
+
+async function hmac(key: ArrayBuffer, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// encodeURIComponent leaves !'()* alone, but SigV4 expects them encoded
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
@@ -0,0 +1,80 @@
+/**
+ * Publishes and revokes public share links through the worker's share API
+ * Links published from this device, with their revoke keys, are kept in local storage.
+ */
+
+import type { ShareSnapshot, SharedLink } from '../types';
+import { storageService } from './StorageService';
+
+const SHARE_API_PATH = '/api/shares';
+
+export const SHARE_EXPIRY_DAYS = [1, 7, 30, 90] as const;
+
+export interface PublishShareOptions {
+  recordId: string;
+  snapshot: ShareSnapshot;
+  photo?: Blob | null;
+  expiresInDays: number;
+}
+
+export class ShareService {
+  constructor(private baseUrl: string = window.location.origin) {}
+
+  /**
+   * Uploads the snapshot and remembers the new link on this device
+   */
+  async publish({ recordId, snapshot, photo, expiresInDays }: PublishShareOptions): Promise<SharedLink> {
+    const form = new FormData();
+    form.append('snapshot', JSON.stringify(snapshot));
+    form.append('expiresInDays', String(expiresInDays));
+    if (photo) {
+      form.append('photo', photo, 'photo');
+    }
+
+    const response = await fetch(`${this.baseUrl}${SHARE_API_PATH}`, { method: 'POST', body: form });
+    if (!response.ok) {
+      throw new Error(await this.errorMessage(response, 'create share link'));
+    }
+
+    const created = await response.json() as Pick<SharedLink, 'token' | 'url' | 'revokeKey' | 'createdAt' | 'expiresAt'>;
+    const link: SharedLink = { ...created, kind: snapshot.kind, recordId, title: snapshot.title };
+    await storageService.saveSharedLink(link);
+    console.log('Published share link:', link.url);
+    return link;
+  }
+
+  /**
+   * Takes a link down on the server and forgets it
+   */
+  async revoke(link: SharedLink): Promise<void> {
+    const response = await fetch(`${this.baseUrl}${SHARE_API_PATH}/${encodeURIComponent(link.token)}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${link.revokeKey}` }
+    });
+    if (!response.ok) {
+      throw new Error(await this.errorMessage(response, 'revoke share link'));
+    }
+
+    await storageService.deleteSharedLinks([link.token]);
+    console.log('Revoked share link:', link.url);
+  }
+
+  /**
+   * Links that have not expired yet; expired ones are forgotten
+   */
+  async getActiveLinks(now: Date = new Date()): Promise<SharedLink[]> {
+    const links = await storageService.getSharedLinks();
+    const expired = links.filter(link => link.expiresAt <= now.toISOString());
+    if (expired.length > 0) {
+      await storageService.deleteSharedLinks(expired.map(link => link.token));
+    }
+    return links.filter(link => !expired.includes(link));
+  }
+
+  private async errorMessage(response: Response, action: string): Promise<string> {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    return `Failed to ${action}: ${body?.error ?? `${response.status} ${response.statusText}`}`;
+  }
+}
+
+export const shareService = new ShareService();
@@ -3,64 +3,160 @@
  * Handles all local data persistence including encounters, photos, and metadata
  */
 
-import { openDB, type IDBPDatabase } from 'idb';
+import { openDB, type IDBPDatabase, type IDBPTransaction } from 'idb';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  LATEST_DB_VERSION,
+  createMigrationSnapshot,
+  getMigrationSnapshots,
+  getStoredVersion,
+  restoreMigrationSnapshot,
+  runMigrations,
+  type MigrationSnapshot
+} from './migrations';
+import {
+  BACKUP_ARCHIVE_FILES,
+  BACKUP_ARCHIVE_FORMAT,
+  CURRENT_BACKUP_VERSION,
+  upgradeBackup,
+  type BackupArchiveManifest
+} from '../utils/backupFormat';
+import {
+  base64ToBlob,
+  createImportPreview,
+  getDefaultImportSelection,
+  validateImportData,
+  type ImportPreview,
+  type ImportRecordPreview,
+  type ImportSelection,
+  type ImportSummary
+} from '../utils/dataTransform';
+import { generateThumbnail, getImageExtension, getImageType } from '../utils/imageUtils';
+import { findColonyAt, reassignColonies } from '../models/Colony';
+import { getEncounterPhotos } from '../models/CatEncounter';
+import { getCatDisplayName } from '../models/Cat';
+import { getEncounterPostings, splitWords, stemWord, type SearchPosting } from '../utils/searchIndex';
+import { createZipStream, readZipEntries, type ZipEntryInput } from '../utils/zipArchive';
+import { valuesEqual } from '../utils/threeWayMerge';
 import type { 
   CatEncounter, 
+  Cat,
+  Colony,
   StorageService as IStorageService, 
   UserPreferences, 
   SyncMetadata,
+  SyncConflict,
+  SyncRecordType,
+  SyncProviderSettings,
+  SharedLink,
   CloudBackup 
 } from '../types';
 
 const DB_NAME = 'cat-a-log-db';
-const DB_VERSION = 1;
+const DB_VERSION = LATEST_DB_VERSION;
 
 // Store names
 const ENCOUNTERS_STORE = 'encounters';
+const CATS_STORE = 'cats';
+const COLONIES_STORE = 'colonies';
 const PHOTOS_STORE = 'photos';
+const THUMBNAILS_STORE = 'thumbnails';
+const PHOTO_HASHES_STORE = 'photoHashes';
+const SEARCH_INDEX_STORE = 'searchIndex';
 const METADATA_STORE = 'metadata';
+const SYNC_BASE_STORE = 'syncBase';
+const SYNC_CONFLICTS_STORE = 'syncConflicts';
 
 // Metadata keys
 const PREFERENCES_KEY = 'preferences';
 const SYNC_METADATA_KEY = 'syncMetadata';
+const SYNC_PROVIDER_KEY = 'syncProvider';
+const SHARED_LINKS_KEY = 'sharedLinks';
+
+// Preferences that follow every pan and zoom of this device's map rather than a deliberate choice
+const MAP_VIEW_PREFERENCES = ['defaultMapCenter', 'defaultMapZoom'];
+
+// Square edge of photo thumbnails, enough for list cards on high-density screens
+const THUMBNAIL_SIZE = 400;
+
+type JournalTransaction = IDBPTransaction<unknown, string[], 'readwrite'>;
+
+// Minimal shape of a record that was pushed during sync
+type SyncedRecord = { id: string; updatedAt: string };
+
+/**
+ * A backup read from a file and compared with this device, not yet written
+ */
+export interface PendingImport {
+  backup: CloudBackup;
+  photos: Array<[string, Blob]>;
+  preview: ImportPreview;
+}
+
+/**
+ * Preferences without this device's map view, as compared to decide whether they need syncing
+ */
+export function getSyncedPreferences(preferences: Partial<UserPreferences>): Partial<UserPreferences> {
+  return Object.fromEntries(Object.entries(preferences).filter(([key]) => !MAP_VIEW_PREFERENCES.includes(key)));
+}
+
+function defaultSyncMetadata(): SyncMetadata {
+  return {
+    lastSyncTime: new Date(0).toISOString(),
+    cloudDataHash: '',
+    pendingChanges: []
+  };
+}
 
 export class StorageService implements IStorageService {
   private db: IDBPDatabase | null = null;
+  private dbPromise: Promise<IDBPDatabase> | null = null;
 
   /**
-   * Initialize the IndexedDB database with proper schema
+   * Initialize the IndexedDB database, running any pending schema migrations
    */
   private async initDB(): Promise<IDBPDatabase> {
     if (this.db) {
       return this.db;
     }
 
-    this.db = await openDB(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        // Encounters store with indexes
-        if (!db.objectStoreNames.contains(ENCOUNTERS_STORE)) {
-          const encountersStore = db.createObjectStore(ENCOUNTERS_STORE, {
-            keyPath: 'id'
-          });
-          encountersStore.createIndex('dateTime', 'dateTime');
-          encountersStore.createIndex('catColor', 'catColor');
-          encountersStore.createIndex('catType', 'catType');
-        }
+    // Share one open/upgrade between concurrent callers
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase().finally(() => {
+        this.dbPromise = null;
+      });
+    }
 
-        // Photos store
-        if (!db.objectStoreNames.contains(PHOTOS_STORE)) {
-          db.createObjectStore(PHOTOS_STORE);
-        }
+    this.db = await this.dbPromise;
+    return this.db;
+  }
 
-        // Metadata store for preferences and sync data
-        if (!db.objectStoreNames.contains(METADATA_STORE)) {
-          db.createObjectStore(METADATA_STORE);
-        }
-      }
-    });
+  private async openDatabase(): Promise<IDBPDatabase> {
+    // Snapshot existing data before any migration touches it
+    const storedVersion = await getStoredVersion(DB_NAME);
+    if (storedVersion > 0 && storedVersion < DB_VERSION) {
+      await createMigrationSnapshot(DB_NAME, DB_VERSION);
+    }
 
-    return this.db;
+    let migrationError: unknown = null;
+
+    try {
+      return await openDB(DB_NAME, DB_VERSION, {
+        upgrade(db, oldVersion, newVersion, transaction) {
+          runMigrations(db, oldVersion, newVersion ?? DB_VERSION, transaction).catch(error => {
+            migrationError = error;
+          });
+        },
+        // Another tab needs to upgrade; release our connection so it is not blocked
+        blocking: () => {
+          this.db?.close();
+          this.db = null;
+        }
+      });
+    } catch (error) {
+      // A failed step aborts the upgrade; surface the step's error rather than the AbortError
+      throw migrationError ?? error;
+    }
   }
 
   // Encounter Management Methods
@@ -72,16 +168,58 @@ export class StorageService implements IStorageService {
     const db = await this.initDB();
     const now = new Date().toISOString();
     
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, COLONIES_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+    const colonies: Colony[] = await tx.objectStore(COLONIES_STORE).getAll();
     const encounterToSave = {
       ...encounter,
+      colonyId: findColonyAt(colonies, encounter.lat, encounter.lng)?.id,
       updatedAt: now,
       createdAt: encounter.createdAt || now
     };
 
-    await db.put(ENCOUNTERS_STORE, encounterToSave);
+    await tx.objectStore(ENCOUNTERS_STORE).put(encounterToSave);
+    await this.indexEncounters(tx, [encounterToSave]);
+    await this.recordChanges(tx, 'pendingChanges', [encounterToSave.id]);
+    await tx.done;
     console.log('StorageService: Saved encounter:', encounterToSave);
   }
 
+  /**
+   * Save many encounters in one transaction, as when importing a spreadsheet.
+   * An encounter whose ID already exists updates it, keeping its photo, and its
+   * comment and cat link when the new values leave them empty.
+   */
+  async saveEncounters(encounters: CatEncounter[]): Promise<void> {
+    const db = await this.initDB();
+    const now = new Date().toISOString();
+
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, COLONIES_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+    const store = tx.objectStore(ENCOUNTERS_STORE);
+    const colonies: Colony[] = await tx.objectStore(COLONIES_STORE).getAll();
+    const saved: CatEncounter[] = [];
+    for (const encounter of encounters) {
+      const existing = await store.get(encounter.id);
+      const merged: CatEncounter = {
+        ...existing,
+        ...encounter,
+        comment: encounter.comment ?? existing?.comment,
+        catId: encounter.catId ?? existing?.catId,
+        colonyId: findColonyAt(colonies, encounter.lat, encounter.lng)?.id,
+        photoBlobId: encounter.photoBlobId ?? existing?.photoBlobId,
+        photos: encounter.photos ?? existing?.photos,
+        isDeleted: false,
+        createdAt: existing?.createdAt ?? encounter.createdAt ?? now,
+        updatedAt: now
+      };
+      await store.put(merged);
+      saved.push(merged);
+    }
+    await this.indexEncounters(tx, saved);
+    await this.recordChanges(tx, 'pendingChanges', encounters.map(e => e.id));
+    await tx.done;
+    console.log(`StorageService: Saved ${encounters.length} encounters`);
+  }
+
   /**
    * Retrieve all encounters, sorted by date (newest first)
    */
@@ -99,11 +237,13 @@ export class StorageService implements IStorageService {
 
   async setEncounters(encounters: CatEncounter[]): Promise<void> {
     const db = await this.initDB();
-    const tx = db.transaction(ENCOUNTERS_STORE, 'readwrite');
-    await tx.store.clear();
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, SEARCH_INDEX_STORE], 'readwrite');
+    await tx.objectStore(ENCOUNTERS_STORE).clear();
+    await tx.objectStore(SEARCH_INDEX_STORE).clear();
     for (const encounter of encounters) {
-      await tx.store.add(encounter);
+      await tx.objectStore(ENCOUNTERS_STORE).add(encounter);
     }
+    await this.indexEncounters(tx, encounters);
     await tx.done;
   }
 
@@ -118,14 +258,20 @@ export class StorageService implements IStorageService {
       throw new Error(`Encounter with id ${id} not found`);
     }
 
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, COLONIES_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+    const colonies: Colony[] = await tx.objectStore(COLONIES_STORE).getAll();
     const updated = {
       ...existing,
       ...updates,
       id, // Ensure ID cannot be changed
       updatedAt: new Date().toISOString()
     };
+    updated.colonyId = findColonyAt(colonies, updated.lat, updated.lng)?.id;
 
-    await db.put(ENCOUNTERS_STORE, updated);
+    await tx.objectStore(ENCOUNTERS_STORE).put(updated);
+    await this.indexEncounters(tx, [updated]);
+    await this.recordChanges(tx, 'pendingChanges', [id]);
+    await tx.done;
   }
 
   /**
@@ -133,25 +279,334 @@ export class StorageService implements IStorageService {
    */
   async deleteEncounter(id: string): Promise<void> {
     const db = await this.initDB();
-    const encounter = await db.get(ENCOUNTERS_STORE, id);
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+    const encounter = await tx.objectStore(ENCOUNTERS_STORE).get(id);
     
     if (encounter) {
       encounter.isDeleted = true;
       encounter.updatedAt = new Date().toISOString();
-      await db.put(ENCOUNTERS_STORE, encounter);
+      await tx.objectStore(ENCOUNTERS_STORE).put(encounter);
+      await this.indexEncounters(tx, [encounter]);
+      await this.recordChanges(tx, 'pendingChanges', [id]);
+    }
+
+    await tx.done;
+  }
+
+  // Cat Management Methods
+
+  /**
+   * Save a new cat or update existing one
+   */
+  async saveCat(cat: Cat): Promise<void> {
+    const db = await this.initDB();
+    const now = new Date().toISOString();
+
+    const tx = db.transaction([CATS_STORE, ENCOUNTERS_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+    await tx.objectStore(CATS_STORE).put({
+      ...cat,
+      updatedAt: now,
+      createdAt: cat.createdAt || now
+    });
+    await this.indexCatEncounters(tx, [cat.id]);
+    await this.recordChanges(tx, 'pendingCatChanges', [cat.id]);
+    await tx.done;
+  }
+
+  /**
+   * Retrieve all known cats, sorted by name
+   */
+  async getCats(): Promise<Cat[]> {
+    const db = await this.initDB();
+    const cats: Cat[] = await db.getAll(CATS_STORE);
+
+    return cats
+      .filter(c => !c.isDeleted)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Retrieve a single cat by its ID
+   */
+  async getCat(id: string): Promise<Cat | null> {
+    const db = await this.initDB();
+    const cat = await db.get(CATS_STORE, id);
+    return cat && !cat.isDeleted ? cat : null;
+  }
+
+  async setCats(cats: Cat[]): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction([CATS_STORE, ENCOUNTERS_STORE, SEARCH_INDEX_STORE], 'readwrite');
+    await tx.objectStore(CATS_STORE).clear();
+    for (const cat of cats) {
+      await tx.objectStore(CATS_STORE).add(cat);
+    }
+    // Any cat name may have changed
+    await this.indexEncounters(tx, await tx.objectStore(ENCOUNTERS_STORE).getAll());
+    await tx.done;
+  }
+
+  /**
+   * Update specific fields of a cat
+   */
+  async updateCat(id: string, updates: Partial<Cat>): Promise<void> {
+    const db = await this.initDB();
+    const existing = await db.get(CATS_STORE, id);
+
+    if (!existing) {
+      throw new Error(`Cat with id ${id} not found`);
+    }
+
+    const tx = db.transaction([CATS_STORE, ENCOUNTERS_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+    await tx.objectStore(CATS_STORE).put({
+      ...existing,
+      ...updates,
+      id, // Ensure ID cannot be changed
+      updatedAt: new Date().toISOString()
+    });
+    await this.indexCatEncounters(tx, [id]);
+    await this.recordChanges(tx, 'pendingCatChanges', [id]);
+    await tx.done;
+  }
+
+  /**
+   * Soft-delete a cat and unlink it from its encounters
+   */
+  async deleteCat(id: string): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction([CATS_STORE, ENCOUNTERS_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+    const now = new Date().toISOString();
+    const cat = await tx.objectStore(CATS_STORE).get(id);
+
+    if (cat) {
+      cat.isDeleted = true;
+      cat.updatedAt = now;
+      await tx.objectStore(CATS_STORE).put(cat);
+      await this.recordChanges(tx, 'pendingCatChanges', [id]);
+
+      const encounters: CatEncounter[] = await tx.objectStore(ENCOUNTERS_STORE).getAll();
+      const unlinked: CatEncounter[] = [];
+      for (const encounter of encounters) {
+        if (encounter.catId === id) {
+          const updated = { ...encounter, catId: undefined, updatedAt: now };
+          await tx.objectStore(ENCOUNTERS_STORE).put(updated);
+          unlinked.push(updated);
+        }
+      }
+      await this.indexEncounters(tx, unlinked);
+      await this.recordChanges(tx, 'pendingChanges', unlinked.map(encounter => encounter.id));
+    }
+
+    await tx.done;
+  }
+
+  // Colony Management Methods
+
+  /**
+   * Save a new colony or update existing one, then re-associate encounters with the new boundary
+   */
+  async saveColony(colony: Colony): Promise<void> {
+    const db = await this.initDB();
+    const now = new Date().toISOString();
+
+    const tx = db.transaction([COLONIES_STORE, ENCOUNTERS_STORE, METADATA_STORE], 'readwrite');
+    await tx.objectStore(COLONIES_STORE).put({
+      ...colony,
+      updatedAt: now,
+      createdAt: colony.createdAt || now
+    });
+    await this.recordChanges(tx, 'pendingColonyChanges', [colony.id]);
+    await this.reassignEncounterColonies(tx, now);
+    await tx.done;
+  }
+
+  /**
+   * Retrieve all colonies, sorted by name
+   */
+  async getColonies(): Promise<Colony[]> {
+    const db = await this.initDB();
+    const colonies: Colony[] = await db.getAll(COLONIES_STORE);
+
+    return colonies
+      .filter(c => !c.isDeleted)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Retrieve a single colony by its ID
+   */
+  async getColony(id: string): Promise<Colony | null> {
+    const db = await this.initDB();
+    const colony = await db.get(COLONIES_STORE, id);
+    return colony && !colony.isDeleted ? colony : null;
+  }
+
+  async setColonies(colonies: Colony[]): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction(COLONIES_STORE, 'readwrite');
+    await tx.store.clear();
+    for (const colony of colonies) {
+      await tx.store.add(colony);
+    }
+    await tx.done;
+  }
+
+  /**
+   * Update specific fields of a colony, re-associating encounters when the boundary moves
+   */
+  async updateColony(id: string, updates: Partial<Colony>): Promise<void> {
+    const db = await this.initDB();
+    const existing = await db.get(COLONIES_STORE, id);
+
+    if (!existing) {
+      throw new Error(`Colony with id ${id} not found`);
+    }
+
+    const now = new Date().toISOString();
+    const tx = db.transaction([COLONIES_STORE, ENCOUNTERS_STORE, METADATA_STORE], 'readwrite');
+    await tx.objectStore(COLONIES_STORE).put({
+      ...existing,
+      ...updates,
+      id, // Ensure ID cannot be changed
+      updatedAt: now
+    });
+    await this.recordChanges(tx, 'pendingColonyChanges', [id]);
+    if (updates.boundary) {
+      await this.reassignEncounterColonies(tx, now);
+    }
+    await tx.done;
+  }
+
+  /**
+   * Soft-delete a colony; its encounters move to an overlapping colony or to none
+   */
+  async deleteColony(id: string): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction([COLONIES_STORE, ENCOUNTERS_STORE, METADATA_STORE], 'readwrite');
+    const now = new Date().toISOString();
+    const colony = await tx.objectStore(COLONIES_STORE).get(id);
+
+    if (colony) {
+      colony.isDeleted = true;
+      colony.updatedAt = now;
+      await tx.objectStore(COLONIES_STORE).put(colony);
+      await this.recordChanges(tx, 'pendingColonyChanges', [id]);
+      await this.reassignEncounterColonies(tx, now);
+    }
+
+    await tx.done;
+  }
+
+  /**
+   * Point every live encounter at the colony now containing it, inside an open transaction
+   */
+  private async reassignEncounterColonies(tx: JournalTransaction, now: string): Promise<void> {
+    const colonies: Colony[] = await tx.objectStore(COLONIES_STORE).getAll();
+    const encounters: CatEncounter[] = await tx.objectStore(ENCOUNTERS_STORE).getAll();
+    const changed = reassignColonies(encounters.filter(e => !e.isDeleted), colonies);
+
+    for (const encounter of changed) {
+      await tx.objectStore(ENCOUNTERS_STORE).put({ ...encounter, updatedAt: now });
+    }
+    await this.recordChanges(tx, 'pendingChanges', changed.map(e => e.id));
+  }
+
+  // Search Index Methods
+
+  /**
+   * Ranked full-text search over encounter comments, behavior, cat type and color and
+   * known cat names. Every word must match; the last may be the start of a word still
+   * being typed. Only the index entries of the searched words are read.
+   */
+  async searchEncounters(query: string, limit?: number): Promise<Array<{ id: string; score: number }>> {
+    const words = splitWords(query);
+    if (words.length === 0) return [];
+
+    const db = await this.initDB();
+    const tx = db.transaction([SEARCH_INDEX_STORE, ENCOUNTERS_STORE], 'readonly');
+    const indexStore = tx.objectStore(SEARCH_INDEX_STORE);
+    const total = Math.max(1, await tx.objectStore(ENCOUNTERS_STORE).count());
+
+    let scores: Map<string, number> | null = null;
+    for (const [position, word] of words.entries()) {
+      const stem = stemWord(word);
+      const postings: SearchPosting[] = await indexStore.getAll(IDBKeyRange.bound([stem], [stem, []]));
+      if (position === words.length - 1) {
+        const prefixed: SearchPosting[] = await indexStore.getAll(IDBKeyRange.bound([word], [`${word}\uffff`]));
+        postings.push(...prefixed.filter(({ term }) => term !== stem));
+      }
+
+      // Rarer terms count for more; an encounter scores by the best term a word matched
+      const counts = new Map<string, number>();
+      for (const { term } of postings) counts.set(term, (counts.get(term) ?? 0) + 1);
+      const wordScores = new Map<string, number>();
+      for (const { term, encounterId, weight } of postings) {
+        const score = weight * Math.log(1 + total / counts.get(term)!);
+        wordScores.set(encounterId, Math.max(wordScores.get(encounterId) ?? 0, score));
+      }
+
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      for (const [encounterId, score] of wordScores) {
+        if (!previous) scores.set(encounterId, score);
+        else if (previous.has(encounterId)) scores.set(encounterId, previous.get(encounterId)! + score);
+      }
+      if (scores.size === 0) break;
+    }
+    await tx.done;
+
+    return [...(scores ?? [])]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Replace the search index entries of encounters, inside an open transaction
+   */
+  private async indexEncounters(tx: JournalTransaction, encounters: CatEncounter[]): Promise<void> {
+    const indexStore = tx.objectStore(SEARCH_INDEX_STORE);
+    const catNames = new Map<string, string | undefined>();
+
+    for (const encounter of encounters) {
+      for (const key of await indexStore.index('encounterId').getAllKeys(encounter.id)) {
+        await indexStore.delete(key);
+      }
+
+      const { catId } = encounter;
+      if (catId && !catNames.has(catId)) {
+        const cat: Cat | undefined = await tx.objectStore(CATS_STORE).get(catId);
+        catNames.set(catId, cat && !cat.isDeleted ? getCatDisplayName(cat) : undefined);
+      }
+      for (const posting of getEncounterPostings(encounter, catId ? catNames.get(catId) : undefined)) {
+        await indexStore.put(posting);
+      }
+    }
+  }
+
+  /**
+   * Re-index the encounters of cats whose names may have changed
+   */
+  private async indexCatEncounters(tx: JournalTransaction, catIds: string[]): Promise<void> {
+    for (const catId of catIds) {
+      await this.indexEncounters(tx, await tx.objectStore(ENCOUNTERS_STORE).index('catId').getAll(catId));
     }
   }
 
   // Photo Management Methods
 
   /**
-   * Save a photo blob and return its unique ID
+   * Save a photo blob and its thumbnail, and return its unique ID
    */
   async savePhoto(blob: Blob): Promise<string> {
     const db = await this.initDB();
     const photoBlobId = uuidv4();
     
     await db.put(PHOTOS_STORE, blob, photoBlobId);
+    // A missing thumbnail is made by the next backfillThumbnails
+    await this.saveThumbnail(photoBlobId, blob).catch(error => {
+      console.warn(`StorageService: Failed to make a thumbnail for photo ${photoBlobId}:`, error);
+    });
     
     return photoBlobId;
   }
@@ -166,11 +621,72 @@ export class StorageService implements IStorageService {
   }
 
   /**
-   * Delete a photo by its ID
+   * Retrieve the thumbnail of a photo, or the full photo until backfillThumbnails has made one
+   */
+  async getThumbnail(photoBlobId: string): Promise<Blob | null> {
+    const db = await this.initDB();
+    const thumbnail = await db.get(THUMBNAILS_STORE, photoBlobId);
+    return thumbnail || await this.getPhoto(photoBlobId);
+  }
+
+  /**
+   * Make thumbnails for stored photos that have none, such as photos saved
+   * before thumbnails existed or restored from a backup. Returns how many were made.
+   */
+  async backfillThumbnails(): Promise<number> {
+    const db = await this.initDB();
+    const existing = new Set(await db.getAllKeys(THUMBNAILS_STORE));
+    const missing = (await db.getAllKeys(PHOTOS_STORE)).filter(key => !existing.has(key));
+    if (missing.length === 0) return 0;
+
+    let created = 0;
+    // One at a time, so large libraries never hold many full-size photos in memory
+    for (const key of missing) {
+      const photo: Blob | undefined = await db.get(PHOTOS_STORE, key);
+      if (!photo) continue;
+      try {
+        await this.saveThumbnail(String(key), photo);
+        created++;
+      } catch (error) {
+        console.warn(`StorageService: Failed to make a thumbnail for photo ${key}:`, error);
+      }
+    }
+    console.log(`StorageService: Made ${created} of ${missing.length} missing photo thumbnails`);
+    return created;
+  }
+
+  /**
+   * Perceptual hash of a photo, if one was computed on this device
+   */
+  async getPhotoHash(photoBlobId: string): Promise<string | null> {
+    const db = await this.initDB();
+    return (await db.get(PHOTO_HASHES_STORE, photoBlobId)) ?? null;
+  }
+
+  /**
+   * Remember the perceptual hash of a photo
+   */
+  async savePhotoHash(photoBlobId: string, hash: string): Promise<void> {
+    const db = await this.initDB();
+    await db.put(PHOTO_HASHES_STORE, hash, photoBlobId);
+  }
+
+  /**
+   * Delete a photo with its thumbnail and hash by its ID
    */
   async deletePhoto(photoBlobId: string): Promise<void> {
     const db = await this.initDB();
-    await db.delete(PHOTOS_STORE, photoBlobId);
+    const stores = [PHOTOS_STORE, THUMBNAILS_STORE, PHOTO_HASHES_STORE];
+    const tx = db.transaction(stores, 'readwrite');
+    await Promise.all(stores.map(store => tx.objectStore(store).delete(photoBlobId)));
+    await tx.done;
+  }
+
+  private async saveThumbnail(photoBlobId: string, photo: Blob): Promise<Blob> {
+    const thumbnail = await generateThumbnail(photo, THUMBNAIL_SIZE);
+    const db = await this.initDB();
+    await db.put(THUMBNAILS_STORE, thumbnail, photoBlobId);
+    return thumbnail;
   }
 
   // Data Export/Import Methods
@@ -181,11 +697,14 @@ export class StorageService implements IStorageService {
   async exportData(): Promise<string> {
     const db = await this.initDB();
     
-    // Get all encounters
+    // Get all encounters, known cats and colonies
     const encounters = await this.getEncounters();
+    const cats = await this.getCats();
+    const colonies = await this.getColonies();
     
-    // Get all photos and convert to base64
+    // Get all photos and convert to base64, remembering their types for import
     const photos: { [photoBlobId: string]: string } = {};
+    const photoTypes: { [photoBlobId: string]: string } = {};
     const photoKeys = await db.getAllKeys(PHOTOS_STORE);
     
     for (const key of photoKeys) {
@@ -193,78 +712,329 @@ export class StorageService implements IStorageService {
       if (blob) {
         const base64 = await this.blobToBase64(blob);
         photos[key as string] = base64;
+        if (blob.type) {
+          photoTypes[key as string] = blob.type;
+        }
       }
     }
     
-    // Get preferences and metadata
+    // Sync metadata stays on this device: it is the journal of unsynced changes
     const preferences = await this.getPreferences();
-    const metadata = await this.getSyncMetadata();
     
     const backup: CloudBackup = {
-      version: '1.0.0',
+      version: CURRENT_BACKUP_VERSION,
       exportedAt: new Date().toISOString(),
       encounters,
+      cats,
+      colonies,
       photos,
-      preferences,
-      metadata
+      photoTypes,
+      preferences
     };
     
     return JSON.stringify(backup, null, 2);
   }
 
+  /**
+   * Stream all data as a .catalog.zip backup, with the records as JSON files
+   * and the photos as their original binaries
+   */
+  exportArchive(): ReadableStream<Uint8Array> {
+    return createZipStream(this.archiveEntries());
+  }
+
+  private async *archiveEntries(): AsyncGenerator<ZipEntryInput> {
+    const db = await this.initDB();
+    const exportedAt = new Date();
+    const encounters = await this.getEncounters();
+    const cats = await this.getCats();
+    const colonies = await this.getColonies();
+
+    // Stored blobs are backed by disk, so listing them does not load the images
+    const photos: Array<BackupArchiveManifest['photos'][number] & { blob: Blob }> = [];
+    for (const key of await db.getAllKeys(PHOTOS_STORE)) {
+      const blob = await db.get(PHOTOS_STORE, key);
+      if (blob) {
+        const type = await getImageType(blob);
+        photos.push({ id: key as string, path: `photos/${key}.${getImageExtension(type)}`, type, size: blob.size, blob });
+      }
+    }
+
+    const manifest: BackupArchiveManifest = {
+      format: BACKUP_ARCHIVE_FORMAT,
+      version: CURRENT_BACKUP_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      encounterCount: encounters.length,
+      catCount: cats.length,
+      colonyCount: colonies.length,
+      photos: photos.map(({ id, path, type, size }) => ({ id, path, type, size }))
+    };
+
+    const json = (name: string, data: unknown): ZipEntryInput => ({
+      name,
+      data: JSON.stringify(data, null, 2),
+      lastModified: exportedAt
+    });
+    yield json(BACKUP_ARCHIVE_FILES.manifest, manifest);
+    yield json(BACKUP_ARCHIVE_FILES.encounters, encounters);
+    yield json(BACKUP_ARCHIVE_FILES.cats, cats);
+    yield json(BACKUP_ARCHIVE_FILES.colonies, colonies);
+    yield json(BACKUP_ARCHIVE_FILES.preferences, await this.getPreferences());
+
+    for (const photo of photos) {
+      yield { name: photo.path, data: photo.blob, lastModified: exportedAt };
+    }
+    console.log(`StorageService: Exported backup archive with ${photos.length} photos`);
+  }
+
+  /**
+   * Import encounters read from a map file, keeping their IDs and timestamps.
+   * As with backups, an encounter updates the local copy only when it is at least
+   * as new. It is merged into the local copy, since map files carry no photos,
+   * health records or colony links.
+   * Returns the number of encounters written.
+   */
+  async importEncounters(encounters: CatEncounter[]): Promise<number> {
+    const db = await this.initDB();
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, COLONIES_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+    const store = tx.objectStore(ENCOUNTERS_STORE);
+    const colonies: Colony[] = await tx.objectStore(COLONIES_STORE).getAll();
+    const imported: CatEncounter[] = [];
+
+    for (const encounter of encounters) {
+      const existing = await store.get(encounter.id);
+      if (!existing || new Date(encounter.updatedAt) >= new Date(existing.updatedAt)) {
+        const merged: CatEncounter = {
+          ...existing,
+          ...encounter,
+          photoBlobId: encounter.photoBlobId ?? existing?.photoBlobId,
+          photoDriveId: encounter.photoDriveId ?? existing?.photoDriveId,
+          photos: encounter.photos ?? existing?.photos,
+          colonyId: findColonyAt(colonies, encounter.lat, encounter.lng)?.id,
+          isDeleted: false
+        };
+        await store.put(merged);
+        imported.push(merged);
+      }
+    }
+
+    const importedIds = imported.map(encounter => encounter.id);
+    await this.indexEncounters(tx, imported);
+    await this.recordChanges(tx, 'pendingChanges', importedIds);
+    await tx.done;
+    console.log(`StorageService: Imported ${importedIds.length} of ${encounters.length} encounters`);
+    return importedIds.length;
+  }
+
   /**
    * Import data from JSON string
    */
   async importData(jsonData: string): Promise<void> {
-    let backup: CloudBackup;
+    const pending = await this.prepareImportData(jsonData);
+    await this.applyImport(pending, getDefaultImportSelection(pending.preview));
+  }
+
+  /**
+   * Import a .catalog.zip backup. Photos are read straight from the archive file.
+   */
+  async importArchive(file: Blob): Promise<void> {
+    const pending = await this.prepareImportArchive(file);
+    await this.applyImport(pending, getDefaultImportSelection(pending.preview));
+  }
+
+  /**
+   * Read a JSON backup and compare it with the data on this device without writing anything
+   */
+  async prepareImportData(jsonData: string): Promise<PendingImport> {
+    let parsed: unknown;
     
     try {
-      backup = JSON.parse(jsonData);
+      parsed = JSON.parse(jsonData);
     } catch {
       throw new Error('Invalid JSON format');
     }
+
+    const backup = this.upgradeImportedBackup(parsed);
+    const photos = Object.entries(backup.photos || {}).map(([photoBlobId, base64Data]): [string, Blob] =>
+      [photoBlobId, base64ToBlob(base64Data, backup.photoTypes?.[photoBlobId])]
+    );
+    return this.previewBackup(backup, photos);
+  }
+
+  /**
+   * Read a .catalog.zip backup and compare it with the data on this device without writing anything
+   */
+  async prepareImportArchive(file: Blob): Promise<PendingImport> {
+    const entries = new Map((await readZipEntries(file)).map(entry => [entry.name, entry]));
+    const readJson = async (name: string): Promise<unknown> => {
+      const entry = entries.get(name);
+      if (!entry) return undefined;
+      try {
+        return JSON.parse(await entry.text());
+      } catch {
+        throw new Error(`Invalid backup archive: ${name} is not valid JSON`);
+      }
+    };
+
+    const manifest = await readJson(BACKUP_ARCHIVE_FILES.manifest) as BackupArchiveManifest | undefined;
+    if (manifest?.format !== BACKUP_ARCHIVE_FORMAT) {
+      throw new Error('Invalid backup archive: missing CAT-a-log manifest');
+    }
+
+    const backup = this.upgradeImportedBackup({
+      version: manifest.version,
+      exportedAt: manifest.exportedAt,
+      encounters: await readJson(BACKUP_ARCHIVE_FILES.encounters),
+      cats: await readJson(BACKUP_ARCHIVE_FILES.cats),
+      colonies: await readJson(BACKUP_ARCHIVE_FILES.colonies),
+      photos: {},
+      preferences: await readJson(BACKUP_ARCHIVE_FILES.preferences)
+    });
+
+    // Photo blobs are resolved before any transaction opens, as it would commit while waiting on the file
+    const photos: Array<[string, Blob]> = [];
+    for (const photo of manifest.photos ?? []) {
+      const entry = entries.get(photo.path);
+      if (!entry) {
+        console.warn(`StorageService: Backup archive is missing ${photo.path}`);
+        continue;
+      }
+      const blob = await entry.blob(photo.type);
+      photos.push([photo.id, blob.type ? blob : new Blob([blob], { type: await getImageType(blob) })]);
+    }
+
+    return this.previewBackup(backup, photos);
+  }
+
+  /**
+   * Bring a parsed backup of any known version to the current format
+   */
+  private upgradeImportedBackup(parsed: unknown): CloudBackup {
+    // Older backup versions are upgraded to the current format before import
+    const upgrade = upgradeBackup(parsed);
+    if (upgrade.isNewerVersion) {
+      console.warn(`Backup version ${upgrade.originalVersion} is newer than this app supports`);
+    }
+    const backup = upgrade.data as unknown as CloudBackup;
     
     // Validate backup structure
     if (!backup.encounters || !Array.isArray(backup.encounters)) {
       throw new Error('Invalid backup format: missing encounters array');
     }
-    
+    return backup;
+  }
+
+  private async previewBackup(backup: CloudBackup, photos: Array<[string, Blob]>): Promise<PendingImport> {
     const db = await this.initDB();
-    const tx = db.transaction([ENCOUNTERS_STORE, PHOTOS_STORE, METADATA_STORE], 'readwrite');
+    const preview = createImportPreview(
+      validateImportData(backup),
+      {
+        encounters: await this.getEncounterRecords(),
+        cats: await this.getCatRecords(),
+        colonies: await this.getColonyRecords(),
+        photoIds: (await db.getAllKeys(PHOTOS_STORE)).map(String)
+      },
+      {
+        photoIds: photos.map(([photoBlobId]) => photoBlobId),
+        hasSettings: Boolean(backup.preferences)
+      }
+    );
+    return { backup, photos, preview };
+  }
+
+  /**
+   * Write the selected records of a prepared import in one transaction.
+   * Photos are written unless only records left out of the selection use them.
+   * A chosen record that is older than the local copy gets a new timestamp,
+   * so the restored version also wins on the next sync.
+   */
+  async applyImport(pending: PendingImport, selection: ImportSelection): Promise<ImportSummary> {
+    const { backup, photos, preview } = pending;
+    const encounterIds = new Set(selection.encounterIds);
+    const catIds = new Set(selection.catIds);
+    const colonyIds = new Set(selection.colonyIds);
+    const now = new Date().toISOString();
+    const toWrite = <T extends CatEncounter | Cat | Colony>(records: ImportRecordPreview<T>[], ids: Set<string>): T[] =>
+      records
+        .filter(({ record }) => ids.has(record.id))
+        .map(({ record, status }) => status === 'older' ? { ...record, updatedAt: now } : record);
+
+    const encounters = toWrite(preview.encounters, encounterIds);
+    const cats = toWrite(preview.cats, catIds);
+    const colonies = toWrite(preview.colonies, colonyIds);
+
+    const usedPhotoIds = new Set<string>();
+    const selectedPhotoIds = new Set<string>();
+    for (const { record } of preview.encounters) {
+      for (const { blobId } of getEncounterPhotos(record)) {
+        if (!blobId) continue;
+        usedPhotoIds.add(blobId);
+        if (encounterIds.has(record.id)) selectedPhotoIds.add(blobId);
+      }
+    }
+    for (const { record } of preview.cats) {
+      if (!record.profilePhotoBlobId) continue;
+      usedPhotoIds.add(record.profilePhotoBlobId);
+      if (catIds.has(record.id)) selectedPhotoIds.add(record.profilePhotoBlobId);
+    }
+    const photosToWrite = photos.filter(([photoBlobId]) => selectedPhotoIds.has(photoBlobId) || !usedPhotoIds.has(photoBlobId));
+
+    const db = await this.initDB();
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, COLONIES_STORE, PHOTOS_STORE, THUMBNAILS_STORE, PHOTO_HASHES_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
     
     try {
-      // Import encounters with conflict resolution (timestamp-based)
-      for (const encounter of backup.encounters) {
-        const existing = await tx.objectStore(ENCOUNTERS_STORE).get(encounter.id);
-        
-        if (!existing || new Date(encounter.updatedAt) >= new Date(existing.updatedAt)) {
-          await tx.objectStore(ENCOUNTERS_STORE).put(encounter);
-        }
+      for (const encounter of encounters) {
+        await tx.objectStore(ENCOUNTERS_STORE).put(encounter);
       }
-      
-      // Import photos
-      if (backup.photos) {
-        for (const [photoBlobId, base64Data] of Object.entries(backup.photos)) {
-          const blob = await this.base64ToBlob(base64Data);
-          await tx.objectStore(PHOTOS_STORE).put(blob, photoBlobId);
-        }
+      for (const cat of cats) {
+        await tx.objectStore(CATS_STORE).put(cat);
       }
-      
-      // Import preferences if provided
-      if (backup.preferences) {
-        await tx.objectStore(METADATA_STORE).put(backup.preferences, PREFERENCES_KEY);
+      for (const colony of colonies) {
+        await tx.objectStore(COLONIES_STORE).put(colony);
+      }
+      await this.indexEncounters(tx, encounters);
+      await this.indexCatEncounters(tx, cats.map(cat => cat.id));
+      for (const [photoBlobId, blob] of photosToWrite) {
+        await tx.objectStore(PHOTOS_STORE).put(blob, photoBlobId);
+        // Restored photos get fresh thumbnails and hashes
+        await tx.objectStore(THUMBNAILS_STORE).delete(photoBlobId);
+        await tx.objectStore(PHOTO_HASHES_STORE).delete(photoBlobId);
       }
       
-      // Import sync metadata if provided
-      if (backup.metadata) {
-        await tx.objectStore(METADATA_STORE).put(backup.metadata, SYNC_METADATA_KEY);
+      // Sync metadata in older backups is ignored, so unsynced local edits and the sync position survive
+      if (selection.settings && backup.preferences) {
+        await tx.objectStore(METADATA_STORE).put(backup.preferences, PREFERENCES_KEY);
+        const metadata = { ...defaultSyncMetadata(), ...(await tx.objectStore(METADATA_STORE).get(SYNC_METADATA_KEY)) };
+        await tx.objectStore(METADATA_STORE).put({ ...metadata, pendingPreferences: true }, SYNC_METADATA_KEY);
       }
+
+      // Imported records reach the cloud on the next sync
+      await this.recordChanges(tx, 'pendingChanges', encounters.map(encounter => encounter.id));
+      await this.recordChanges(tx, 'pendingCatChanges', cats.map(cat => cat.id));
+      await this.recordChanges(tx, 'pendingColonyChanges', colonies.map(colony => colony.id));
+
+      // Imported boundaries and encounters may change which colony an encounter belongs to
+      await this.reassignEncounterColonies(tx, now);
       
       await tx.done;
     } catch (error) {
       tx.abort();
       throw new Error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    const recordCount = preview.encounters.length + preview.invalidEncounters.length +
+      preview.cats.length + preview.invalidCats.length +
+      preview.colonies.length + preview.invalidColonies.length;
+    const summary: ImportSummary = {
+      encounters: encounters.length,
+      cats: cats.length,
+      colonies: colonies.length,
+      photos: photosToWrite.length,
+      skipped: recordCount - encounters.length - cats.length - colonies.length,
+      settings: selection.settings && preview.hasSettings
+    };
+    console.log('StorageService: Applied import', summary);
+    return summary;
   }
 
   // Storage Management Methods
@@ -290,13 +1060,10 @@ export class StorageService implements IStorageService {
    */
   async clearStorage(): Promise<void> {
     const db = await this.initDB();
-    const tx = db.transaction([ENCOUNTERS_STORE, PHOTOS_STORE, METADATA_STORE], 'readwrite');
+    const stores = [ENCOUNTERS_STORE, CATS_STORE, COLONIES_STORE, PHOTOS_STORE, THUMBNAILS_STORE, PHOTO_HASHES_STORE, SEARCH_INDEX_STORE, METADATA_STORE, SYNC_BASE_STORE, SYNC_CONFLICTS_STORE];
+    const tx = db.transaction(stores, 'readwrite');
     
-    await Promise.all([
-      tx.objectStore(ENCOUNTERS_STORE).clear(),
-      tx.objectStore(PHOTOS_STORE).clear(),
-      tx.objectStore(METADATA_STORE).clear()
-    ]);
+    await Promise.all(stores.map(store => tx.objectStore(store).clear()));
     
     await tx.done;
   }
@@ -326,11 +1093,18 @@ export class StorageService implements IStorageService {
   }
 
   /**
-   * Save user preferences
+   * Save user preferences. They are journaled for sync unless only the map view moved.
    */
   async savePreferences(preferences: UserPreferences): Promise<void> {
     const db = await this.initDB();
-    await db.put(METADATA_STORE, preferences, PREFERENCES_KEY);
+    const tx = db.transaction(METADATA_STORE, 'readwrite');
+    const previous = await tx.store.get(PREFERENCES_KEY);
+    await tx.store.put(preferences, PREFERENCES_KEY);
+    if (!previous || !valuesEqual(getSyncedPreferences(previous), getSyncedPreferences(preferences))) {
+      const metadata = { ...defaultSyncMetadata(), ...(await tx.store.get(SYNC_METADATA_KEY)) };
+      await tx.store.put({ ...metadata, pendingPreferences: true }, SYNC_METADATA_KEY);
+    }
+    await tx.done;
   }
 
   /**
@@ -340,13 +1114,7 @@ export class StorageService implements IStorageService {
     const db = await this.initDB();
     const stored = await db.get(METADATA_STORE, SYNC_METADATA_KEY);
     
-    const defaults: SyncMetadata = {
-      lastSyncTime: new Date(0).toISOString(),
-      cloudDataHash: '',
-      pendingChanges: []
-    };
-    
-    return { ...defaults, ...stored };
+    return { ...defaultSyncMetadata(), ...stored };
   }
 
   /**
@@ -357,6 +1125,228 @@ export class StorageService implements IStorageService {
     await db.put(METADATA_STORE, metadata, SYNC_METADATA_KEY);
   }
 
+  /**
+   * Get the sync provider chosen on this device
+   */
+  async getSyncProviderSettings(): Promise<SyncProviderSettings | null> {
+    const db = await this.initDB();
+    return (await db.get(METADATA_STORE, SYNC_PROVIDER_KEY)) ?? null;
+  }
+
+  /**
+   * Save the sync provider chosen on this device, or forget it when null.
+   * Kept out of preferences because it holds credentials and must not sync.
+   */
+  async saveSyncProviderSettings(settings: SyncProviderSettings | null): Promise<void> {
+    const db = await this.initDB();
+    if (settings) {
+      await db.put(METADATA_STORE, settings, SYNC_PROVIDER_KEY);
+    } else {
+      await db.delete(METADATA_STORE, SYNC_PROVIDER_KEY);
+    }
+  }
+
+  // Share Link Methods
+
+  /**
+   * Get the share links published from this device, newest first.
+   * Kept out of preferences because the revoke keys must not leave the device.
+   */
+  async getSharedLinks(): Promise<SharedLink[]> {
+    const db = await this.initDB();
+    const links: SharedLink[] = (await db.get(METADATA_STORE, SHARED_LINKS_KEY)) ?? [];
+    return links.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async saveSharedLink(link: SharedLink): Promise<void> {
+    const db = await this.initDB();
+    const links: SharedLink[] = (await db.get(METADATA_STORE, SHARED_LINKS_KEY)) ?? [];
+    await db.put(METADATA_STORE, [...links.filter(l => l.token !== link.token), link], SHARED_LINKS_KEY);
+  }
+
+  async deleteSharedLinks(tokens: string[]): Promise<void> {
+    const db = await this.initDB();
+    const links: SharedLink[] = (await db.get(METADATA_STORE, SHARED_LINKS_KEY)) ?? [];
+    await db.put(METADATA_STORE, links.filter(l => !tokens.includes(l.token)), SHARED_LINKS_KEY);
+  }
+
+  // Sync Journal Methods
+
+  /**
+   * Get encounters by ID including soft-deleted ones, or all of them when no IDs are given
+   */
+  async getEncounterRecords(ids?: string[]): Promise<CatEncounter[]> {
+    return this.getRecords<CatEncounter>(ENCOUNTERS_STORE, ids);
+  }
+
+  /**
+   * Get known cats by ID including soft-deleted ones, or all of them when no IDs are given
+   */
+  async getCatRecords(ids?: string[]): Promise<Cat[]> {
+    return this.getRecords<Cat>(CATS_STORE, ids);
+  }
+
+  /**
+   * Get colonies by ID including soft-deleted ones, or all of them when no IDs are given
+   */
+  async getColonyRecords(ids?: string[]): Promise<Colony[]> {
+    return this.getRecords<Colony>(COLONIES_STORE, ids);
+  }
+
+  /**
+   * Store records received from the cloud without touching timestamps or the change journal
+   */
+  async applySyncedChanges(changes: { encounters?: CatEncounter[]; cats?: Cat[]; colonies?: Colony[]; preferences?: UserPreferences }): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, COLONIES_STORE, SEARCH_INDEX_STORE, METADATA_STORE], 'readwrite');
+
+    for (const encounter of changes.encounters || []) {
+      await tx.objectStore(ENCOUNTERS_STORE).put(encounter);
+    }
+    for (const cat of changes.cats || []) {
+      await tx.objectStore(CATS_STORE).put(cat);
+    }
+    await this.indexEncounters(tx, changes.encounters || []);
+    await this.indexCatEncounters(tx, (changes.cats || []).map(cat => cat.id));
+    for (const colony of changes.colonies || []) {
+      await tx.objectStore(COLONIES_STORE).put(colony);
+    }
+    if (changes.preferences) {
+      await tx.objectStore(METADATA_STORE).put(changes.preferences, PREFERENCES_KEY);
+    }
+
+    await tx.done;
+  }
+
+  /**
+   * Remove pushed records from the change journal and save the new sync position.
+   * A record edited again while the sync was running stays in the journal.
+   */
+  async acknowledgeSyncedChanges(
+    pushed: { encounters: SyncedRecord[]; cats: SyncedRecord[]; colonies?: SyncedRecord[]; preferences?: UserPreferences },
+    updates: Partial<SyncMetadata>
+  ): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction([ENCOUNTERS_STORE, CATS_STORE, COLONIES_STORE, METADATA_STORE], 'readwrite');
+    const metadata: SyncMetadata = { ...defaultSyncMetadata(), ...(await tx.objectStore(METADATA_STORE).get(SYNC_METADATA_KEY)) };
+
+    const settled = async (storeName: string, records: SyncedRecord[]) => {
+      const ids = new Set<string>();
+      for (const record of records) {
+        const current = await tx.objectStore(storeName).get(record.id);
+        if (!current || current.updatedAt === record.updatedAt) {
+          ids.add(record.id);
+        }
+      }
+      return ids;
+    };
+
+    const settledEncounters = await settled(ENCOUNTERS_STORE, pushed.encounters);
+    const settledCats = await settled(CATS_STORE, pushed.cats);
+    const settledColonies = await settled(COLONIES_STORE, pushed.colonies || []);
+
+    let pendingPreferences = metadata.pendingPreferences;
+    if (pushed.preferences) {
+      const current = await tx.objectStore(METADATA_STORE).get(PREFERENCES_KEY);
+      pendingPreferences = pendingPreferences && JSON.stringify(current) !== JSON.stringify(pushed.preferences);
+    }
+
+    await tx.objectStore(METADATA_STORE).put({
+      ...metadata,
+      ...updates,
+      pendingChanges: metadata.pendingChanges.filter(id => !settledEncounters.has(id)),
+      pendingCatChanges: (metadata.pendingCatChanges || []).filter(id => !settledCats.has(id)),
+      pendingColonyChanges: (metadata.pendingColonyChanges || []).filter(id => !settledColonies.has(id)),
+      pendingPreferences
+    }, SYNC_METADATA_KEY);
+
+    await tx.done;
+  }
+
+  /**
+   * Get the last versions known to match the cloud, keyed by record ID
+   */
+  async getSyncBases<T extends CatEncounter | Cat | Colony>(recordType: SyncRecordType, ids: string[]): Promise<Map<string, T>> {
+    const db = await this.initDB();
+    const tx = db.transaction(SYNC_BASE_STORE, 'readonly');
+    const bases = new Map<string, T>();
+    for (const id of ids) {
+      const base = await tx.store.get(`${recordType}:${id}`);
+      if (base) bases.set(id, base);
+    }
+    await tx.done;
+    return bases;
+  }
+
+  /**
+   * Record versions that now match the cloud as the base for future merges
+   */
+  async saveSyncBases(recordType: SyncRecordType, records: Array<CatEncounter | Cat | Colony>): Promise<void> {
+    if (records.length === 0) return;
+
+    const db = await this.initDB();
+    const tx = db.transaction(SYNC_BASE_STORE, 'readwrite');
+    for (const record of records) {
+      await tx.store.put(record, `${recordType}:${record.id}`);
+    }
+    await tx.done;
+  }
+
+  /**
+   * Get conflicts waiting for review, oldest first
+   */
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    const db = await this.initDB();
+    const conflicts: SyncConflict[] = await db.getAll(SYNC_CONFLICTS_STORE);
+    return conflicts.sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+  }
+
+  /**
+   * Queue conflicts for review, replacing any earlier conflict for the same record
+   */
+  async saveSyncConflicts(conflicts: SyncConflict[]): Promise<void> {
+    if (conflicts.length === 0) return;
+
+    const db = await this.initDB();
+    const tx = db.transaction(SYNC_CONFLICTS_STORE, 'readwrite');
+    for (const conflict of conflicts) {
+      await tx.store.put(conflict);
+    }
+    await tx.done;
+  }
+
+  /**
+   * Remove a reviewed conflict from the queue
+   */
+  async deleteSyncConflict(id: string): Promise<void> {
+    const db = await this.initDB();
+    await db.delete(SYNC_CONFLICTS_STORE, id);
+  }
+
+  private async getRecords<T>(storeName: string, ids?: string[]): Promise<T[]> {
+    const db = await this.initDB();
+    if (!ids) {
+      return db.getAll(storeName);
+    }
+
+    const tx = db.transaction(storeName, 'readonly');
+    const records = await Promise.all(ids.map(id => tx.store.get(id)));
+    await tx.done;
+    return records.filter(Boolean);
+  }
+
+  /**
+   * Add record IDs to the sync change journal inside an open transaction
+   */
+  private async recordChanges(tx: JournalTransaction, field: 'pendingChanges' | 'pendingCatChanges' | 'pendingColonyChanges', ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const store = tx.objectStore(METADATA_STORE);
+    const metadata: SyncMetadata = { ...defaultSyncMetadata(), ...(await store.get(SYNC_METADATA_KEY)) };
+    metadata[field] = [...new Set([...(metadata[field] || []), ...ids])];
+    await store.put(metadata, SYNC_METADATA_KEY);
+  }
+
   /**
    * Get custom options for a specific field
    */
@@ -507,11 +1497,24 @@ export class StorageService implements IStorageService {
   }
 
   /**
-   * Convert base64 string to Blob
+   * List the data snapshots taken before schema migrations, newest first
    */
-  private async base64ToBlob(base64: string): Promise<Blob> {
-    const response = await fetch(`data:image/jpeg;base64,${base64}`);
-    return response.blob();
+  async getMigrationSnapshots(): Promise<MigrationSnapshot[]> {
+    return getMigrationSnapshots(DB_NAME);
+  }
+
+  /**
+   * Roll the database back to a pre-migration snapshot.
+   * The schema is migrated forward again the next time the database is opened.
+   */
+  async restoreMigrationSnapshot(snapshotId: string): Promise<void> {
+    const snapshot = (await getMigrationSnapshots(DB_NAME)).find(s => s.id === snapshotId);
+    if (!snapshot) {
+      throw new Error(`Migration snapshot ${snapshotId} not found`);
+    }
+
+    await this.close();
+    await restoreMigrationSnapshot(snapshot);
   }
 
   /**
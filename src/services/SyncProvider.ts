@@ -0,0 +1,69 @@
+/**
+ * Storage backends that SyncService can sync through
+ * Every provider stores one JSON file per record plus photo files in a flat folder.
+ */
+
+import { generateUUID } from '../utils/dataUtils';
+import type { CatEncounter, Cat, UserPreferences, SyncProviderType } from '@/types';
+
+/**
+ * Metadata for a file in the provider's sync folder
+ */
+export interface RemoteFileInfo {
+  id: string;            // Provider-specific handle passed back to readJsonFile/writeJsonFile
+  name: string;
+  modifiedTime: string;  // ISO timestamp
+}
+
+/**
+ * A remote store that SyncService can pull from and push to
+ */
+export interface SyncProvider {
+  readonly type: SyncProviderType;
+  // Identifies the remote location; the sync position is reset when it changes
+  readonly id: string;
+  readonly displayName: string;
+
+  // Lists files whose names start with one of the prefixes, optionally only those modified after a time
+  listFiles(namePrefixes: string[], modifiedAfter?: string): Promise<RemoteFileInfo[]>;
+  readJsonFile(fileId: string): Promise<unknown>;
+  writeJsonFile(name: string, data: unknown, fileId?: string): Promise<RemoteFileInfo>;
+
+  // Photo files; savePhoto returns the id stored in photoDriveId/profilePhotoDriveId
+  savePhoto(photo: File): Promise<string>;
+  getPhoto(fileId: string): Promise<Blob>;
+
+  // Single-file format written before per-record files; only Google Drive has it
+  hasLegacyDataFile?(): Promise<boolean>;
+  loadData?(): Promise<{ encounters: CatEncounter[]; cats: Cat[]; preferences: UserPreferences }>;
+}
+
+// Name prefix for photos stored next to the record files
+export const PHOTO_FILE_PREFIX = 'photo-';
+
+/**
+ * Returns true when a file should be included in a listing.
+ * Servers that report whole-second times can write twice within the second of the
+ * last pull, so files modified at exactly modifiedAfter are included as well;
+ * SyncService skips the ones it already has.
+ */
+export function matchesListing(file: RemoteFileInfo, namePrefixes: string[], modifiedAfter?: string): boolean {
+  return namePrefixes.some(prefix => file.name.startsWith(prefix)) &&
+    (!modifiedAfter || file.modifiedTime >= modifiedAfter);
+}
+
+/**
+ * Builds a unique photo file name keeping the original extension
+ */
+export function createPhotoFileName(photo: File): string {
+  const extension = photo.name.includes('.') ? photo.name.split('.').pop()!.toLowerCase() : 'jpg';
+  return `${PHOTO_FILE_PREFIX}${generateUUID()}.${extension}`;
+}
+
+/**
+ * Normalizes HTTP dates and other timestamps to ISO strings
+ */
+export function toIsoTimestamp(value: string | number | null | undefined): string {
+  const date = value === null || value === undefined ? new Date(NaN) : new Date(value);
+  return isNaN(date.getTime()) ? new Date(0).toISOString() : date.toISOString();
+}
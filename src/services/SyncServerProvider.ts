@@ -0,0 +1,198 @@
+/**
+ * Sync provider for the CAT-a-log sync API served by our own Cloudflare worker
+ * Record files map to server records; a file's id is `<kind>/<record id>#<etag>`
+ * so writes can be made conditional on the version that was last seen.
+ */
+
+import type { SyncServerSettings } from '@/types';
+import type { SyncProvider, RemoteFileInfo } from './SyncProvider';
+
+const API_PATH = '/api/sync';
+const FEED_PAGE_SIZE = 500;
+const PREFERENCES_FILE_NAME = 'preferences.json';
+const PREFERENCES_RECORD_ID = 'default';
+
+interface FeedChange {
+  kind: string;
+  id: string;
+  etag: string;
+  modifiedAt: string;
+  deleted: boolean;
+  data?: unknown;
+}
+
+interface SessionResponse {
+  userId: string;
+  username: string;
+  token: string;
+}
+
+export class SyncServerProvider implements SyncProvider {
+  public readonly type = 'sync-server';
+  public readonly id: string;
+  public readonly displayName = 'CAT-a-log Server';
+  private apiUrl: string;
+  private token: string;
+  // Record bodies that arrived with the change feed, so reading them needs no request
+  private feedData = new Map<string, unknown>();
+
+  constructor(settings: SyncServerSettings) {
+    if (!settings.token) {
+      throw new Error('Sign in to the sync server first.');
+    }
+    this.apiUrl = SyncServerProvider.apiUrl(settings.url);
+    this.token = settings.token;
+    this.id = `sync-server:${this.apiUrl}#${settings.username}`;
+  }
+
+  /**
+   * Signs in (or creates an account) and returns settings holding the session token
+   */
+  static async signIn(url: string, username: string, password: string, createAccount = false): Promise<SyncServerSettings> {
+    const response = await fetch(`${SyncServerProvider.apiUrl(url)}/${createAccount ? 'accounts' : 'sessions'}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password })
+    });
+    if (!response.ok) {
+      throw new Error(await SyncServerProvider.errorMessage(response, createAccount ? 'create account' : 'sign in'));
+    }
+
+    const session = await response.json() as SessionResponse;
+    return { url, username: session.username, token: session.token };
+  }
+
+  /**
+   * Checks that the session token is still valid
+   */
+  public async init(): Promise<void> {
+    await this.request('/account', { method: 'GET' }, 'check the account');
+  }
+
+  public async listFiles(namePrefixes: string[], modifiedAfter?: string): Promise<RemoteFileInfo[]> {
+    const files: RemoteFileInfo[] = [];
+    this.feedData.clear();
+    let cursor = modifiedAfter ? String(Date.parse(modifiedAfter)) : '0';
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await this.request(`/changes?cursor=${cursor}&limit=${FEED_PAGE_SIZE}`, { method: 'GET' }, 'list changes');
+      const page = await response.json() as { changes: FeedChange[]; cursor: string; hasMore: boolean };
+
+      for (const change of page.changes) {
+        const file = {
+          id: `${change.kind}/${change.id}#${change.etag}`,
+          name: change.kind === 'preferences' ? PREFERENCES_FILE_NAME : `${change.kind}-${change.id}.json`,
+          modifiedTime: change.modifiedAt
+        };
+        if (!namePrefixes.some(prefix => file.name.startsWith(prefix))) continue;
+
+        files.push(file);
+        this.feedData.set(file.id, change.data);
+      }
+      cursor = page.cursor;
+      hasMore = page.hasMore;
+    }
+
+    return files;
+  }
+
+  public async readJsonFile(fileId: string): Promise<unknown> {
+    if (this.feedData.has(fileId)) {
+      const data = this.feedData.get(fileId);
+      this.feedData.delete(fileId);
+      return data;
+    }
+
+    const { kind, recordId } = this.parseFileId(fileId);
+    const response = await this.request(`/records/${kind}/${encodeURIComponent(recordId)}`, { method: 'GET' }, `read ${kind} ${recordId}`);
+    return response.json();
+  }
+
+  public async writeJsonFile(name: string, data: unknown, fileId?: string): Promise<RemoteFileInfo> {
+    const { kind, recordId } = this.parseFileName(name);
+    const etag = fileId ? this.parseFileId(fileId).etag : undefined;
+
+    const response = await this.request(`/records/${kind}/${encodeURIComponent(recordId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' })
+      },
+      body: JSON.stringify(data)
+    }, `upload ${name}`);
+
+    const version = await response.json() as { etag: string; modifiedAt: string };
+    return { id: `${kind}/${recordId}#${version.etag}`, name, modifiedTime: version.modifiedAt };
+  }
+
+  public async savePhoto(photo: File): Promise<string> {
+    const response = await this.request('/photos', {
+      method: 'POST',
+      headers: { 'Content-Type': photo.type || 'image/jpeg' },
+      body: photo
+    }, `upload photo ${photo.name}`);
+    const { id } = await response.json() as { id: string };
+    return id;
+  }
+
+  public async getPhoto(fileId: string): Promise<Blob> {
+    const response = await this.request(`/photos/${encodeURIComponent(fileId)}`, { method: 'GET' }, `download photo ${fileId}`);
+    return response.blob();
+  }
+
+  /**
+   * Revokes the session token on the server
+   */
+  public async signOut(): Promise<void> {
+    await this.request('/sessions/current', { method: 'DELETE' }, 'sign out');
+  }
+
+  private parseFileName(name: string): { kind: string; recordId: string } {
+    if (name === PREFERENCES_FILE_NAME) {
+      return { kind: 'preferences', recordId: PREFERENCES_RECORD_ID };
+    }
+    const match = /^(encounter|cat|colony)-(.+)\.json$/.exec(name);
+    if (!match) {
+      throw new Error(`Sync server cannot store ${name}`);
+    }
+    return { kind: match[1], recordId: match[2] };
+  }
+
+  private parseFileId(fileId: string): { kind: string; recordId: string; etag: string } {
+    const match = /^([a-z]+)\/(.+)#(".*")$/.exec(fileId);
+    if (!match) {
+      throw new Error(`Invalid sync server file id: ${fileId}`);
+    }
+    return { kind: match[1], recordId: match[2], etag: match[3] };
+  }
+
+  private async request(path: string, init: RequestInit, action: string): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      ...init,
+      headers: { ...init.headers as Record<string, string>, Authorization: `Bearer ${this.token}` }
+    });
+    if (response.ok) return response;
+
+    if (response.status === 401) {
+      throw new Error('Sync server session expired. Sign in again.');
+    }
+    if (response.status === 412) {
+      // The next sync pulls the newer version and merges it before pushing again
+      throw new Error(`Could not ${action}: it was changed on another device. Sync again to merge the changes.`);
+    }
+    throw new Error(await SyncServerProvider.errorMessage(response, action));
+  }
+
+  private static async errorMessage(response: Response, action: string): Promise<string> {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    return `Failed to ${action} on sync server: ${body?.error ?? `${response.status} ${response.statusText}`}`;
+  }
+
+  private static apiUrl(url: string): string {
+    if (!url) {
+      throw new Error('Sync server URL is required.');
+    }
+    return `${url.replace(/\/+$/, '')}${API_PATH}`;
+  }
+}
@@ -2,9 +2,35 @@
  * Service for synchronizing data with cloud storage
  */
 
-import { storageService } from './StorageService';
-import { GoogleDriveService } from './GoogleDriveService';
-import type { CatEncounter, UserPreferences } from '@/types';
+import { storageService, getSyncedPreferences } from './StorageService';
+import type { SyncProvider } from './SyncProvider';
+import { threeWayMerge, recordsDiffer, applyResolutions, valuesEqual } from '../utils/threeWayMerge';
+import { buildPhotoFields, getCoverPhotoIndex, getEncounterPhotos } from '../models/CatEncounter';
+import { mergeSavedFilters } from '../models/SavedFilter';
+import type { CatEncounter, Cat, Colony, UserPreferences, SyncMetadata, SyncConflict, SyncRecordType, Resolution } from '@/types';
+
+// Remote layout in the provider's folder: one JSON file per record plus preferences
+const ENCOUNTER_FILE_PREFIX = 'encounter-';
+const CAT_FILE_PREFIX = 'cat-';
+const COLONY_FILE_PREFIX = 'colony-';
+const PREFERENCES_FILE_NAME = 'preferences.json';
+const SYNCED_FILE_PREFIXES = [ENCOUNTER_FILE_PREFIX, CAT_FILE_PREFIX, COLONY_FILE_PREFIX, PREFERENCES_FILE_NAME];
+
+// Remote records modified since the last sync
+interface RemoteChanges {
+  encounters: CatEncounter[];
+  cats: Cat[];
+  colonies: Colony[];
+  preferences: UserPreferences | null;
+  latestModifiedTime: string | null;
+  fromLegacyFile: boolean;
+}
+
+type ConflictListener = (conflicts: SyncConflict[]) => void;
+type ProviderListener = (provider: SyncProvider | null) => void;
+
+// Sync positions stored before providers were pluggable belong to Google Drive
+const LEGACY_PROVIDER_ID = 'google-drive';
 
 // Simple event emitter for sync status
 type SyncEventListener = (status: 'idle' | 'syncing' | 'error', error?: string) => void;
@@ -26,7 +52,9 @@ class EventEmitter {
 }
 
 class SyncService extends EventEmitter {
-  private driveService: GoogleDriveService | null = null;
+  private provider: SyncProvider | null = null;
+  private conflictListeners: ConflictListener[] = [];
+  private providerListeners: ProviderListener[] = [];
   private syncInProgress = false;
   private autoSyncEnabled = true;
   private syncInterval: NodeJS.Timeout | null = null;
@@ -35,13 +63,29 @@ class SyncService extends EventEmitter {
     super();
   }
 
-  public setDriveService(driveService: GoogleDriveService) {
-    this.driveService = driveService;
+  public setProvider(provider: SyncProvider) {
+    this.provider = provider;
     this.startAutoSync();
+    this.providerListeners.forEach(listener => listener(provider));
+  }
+
+  public getProvider(): SyncProvider | null {
+    return this.provider;
+  }
+
+  /**
+   * Subscribe to the provider being connected or disconnected
+   */
+  public onProviderChange(listener: ProviderListener) {
+    this.providerListeners.push(listener);
+    return () => {
+      const index = this.providerListeners.indexOf(listener);
+      if (index > -1) this.providerListeners.splice(index, 1);
+    };
   }
 
   public isAuthenticated(): boolean {
-    return !!this.driveService;
+    return !!this.provider;
   }
 
   public setAutoSync(enabled: boolean) {
@@ -54,7 +98,8 @@ class SyncService extends EventEmitter {
   }
 
   private startAutoSync() {
-    if (!this.autoSyncEnabled || !this.driveService) return;
+    this.stopAutoSync();
+    if (!this.autoSyncEnabled || !this.provider) return;
 
     // Sync every 5 minutes
     this.syncInterval = setInterval(() => {
@@ -73,12 +118,25 @@ class SyncService extends EventEmitter {
 
 
   public async checkCloudData(): Promise<{ lastModified: Date; hasData: boolean }> {
-    if (!this.driveService) {
-      throw new Error('Google Drive service not initialized');
+    if (!this.provider) {
+      throw new Error('Sync provider not connected');
     }
 
     try {
-      const { encounters, preferences } = await this.driveService.loadData();
+      const files = await this.provider.listFiles(SYNCED_FILE_PREFIXES);
+      if (files.length > 0) {
+        const lastModified = files.reduce((latest, f) => {
+          const d = new Date(f.modifiedTime);
+          return d > latest ? d : latest;
+        }, new Date(0));
+        return { lastModified, hasData: true };
+      }
+
+      // Data written before per-record files existed
+      if (!this.provider.loadData || !await this.provider.hasLegacyDataFile?.()) {
+        return { lastModified: new Date(0), hasData: false };
+      }
+      const { encounters, preferences } = await this.provider.loadData();
       if (encounters.length > 0 || Object.keys(preferences).length > 0) {
         const lastModified = encounters.reduce((latest, e) => {
           const d = new Date(e.updatedAt);
@@ -102,55 +160,80 @@ class SyncService extends EventEmitter {
     return cloudTime > localTime ? cloudData : localData;
   }
 
-  private mergeEncounters(local: CatEncounter[], remote: CatEncounter[]): { merged: CatEncounter[], needsUpload: CatEncounter[], needsDownload: CatEncounter[] } {
-    const merged: CatEncounter[] = [];
-    const needsUpload: CatEncounter[] = [];
-    const needsDownload: CatEncounter[] = [];
+  /**
+   * Merges local and remote copies. Records edited on both sides are merged field by
+   * field against their stored base; fields that collide, or that differ when there is
+   * no base yet, are returned as conflicts.
+   */
+  private mergeRecords<T extends CatEncounter | Cat | Colony>(
+    local: T[],
+    remote: T[],
+    bases: Map<string, T>,
+    recordType: SyncRecordType
+  ): { merged: T[], needsUpload: T[], needsDownload: T[], conflicts: SyncConflict[] } {
+    const merged: T[] = [];
+    const needsUpload: T[] = [];
+    const needsDownload: T[] = [];
+    const conflicts: SyncConflict[] = [];
     
     const remoteMap = new Map(remote.map(e => [e.id, e]));
 
-    // Process local encounters
-    for (const localEncounter of local) {
-      const remoteEncounter = remoteMap.get(localEncounter.id);
-      if (remoteEncounter) {
-        // Encounter exists in both
-        if (localEncounter.isDeleted) {
+    // Process local records
+    for (const localRecord of local) {
+      const remoteRecord = remoteMap.get(localRecord.id);
+      if (remoteRecord) {
+        // Record exists in both
+        if (localRecord.isDeleted) {
           // If local is deleted, it's the latest state
-          merged.push(localEncounter);
-          needsUpload.push(localEncounter);
-        } else if (remoteEncounter.isDeleted) {
+          merged.push(localRecord);
+          needsUpload.push(localRecord);
+        } else if (remoteRecord.isDeleted) {
           // If remote is deleted, it's the latest state
-          merged.push(remoteEncounter);
-          needsDownload.push(remoteEncounter);
+          merged.push(remoteRecord);
+          needsDownload.push(remoteRecord);
+        } else if (!recordsDiffer(localRecord, remoteRecord)) {
+          // Same content on both sides
+          merged.push(localRecord);
         } else {
-          // Neither is deleted, compare timestamps
-          const localDate = new Date(localEncounter.updatedAt);
-          const remoteDate = new Date(remoteEncounter.updatedAt);
-          if (localDate > remoteDate) {
-            merged.push(localEncounter);
-            needsUpload.push(localEncounter);
-          } else if (remoteDate > localDate) {
-            merged.push(remoteEncounter);
-            needsDownload.push(remoteEncounter);
+          // Without a base (first sync of this record, or after a provider switch) every differing field conflicts
+          const base = bases.get(localRecord.id);
+          const result = threeWayMerge(base, localRecord, remoteRecord);
+          merged.push(result.merged);
+
+          if (result.conflicts.length > 0) {
+            // Keep the fields that merged cleanly; the record is not pushed until reviewed
+            conflicts.push({
+              id: `${recordType}:${localRecord.id}`,
+              recordType,
+              recordId: localRecord.id,
+              local: localRecord,
+              cloud: remoteRecord,
+              base,
+              conflicts: result.conflicts,
+              detectedAt: new Date().toISOString()
+            });
+            needsDownload.push(result.merged);
+          } else if (recordsDiffer(result.merged, remoteRecord)) {
+            needsUpload.push(result.merged);
           } else {
-            merged.push(localEncounter);
+            needsDownload.push(result.merged);
           }
         }
-        remoteMap.delete(localEncounter.id);
+        remoteMap.delete(localRecord.id);
       } else {
-        // Local encounter not in remote, needs upload
-        merged.push(localEncounter);
-        needsUpload.push(localEncounter);
+        // Local record not in remote, needs upload
+        merged.push(localRecord);
+        needsUpload.push(localRecord);
       }
     }
 
-    // Process remaining remote encounters
-    for (const remoteEncounter of remoteMap.values()) {
-      merged.push(remoteEncounter);
-      needsDownload.push(remoteEncounter);
+    // Process remaining remote records
+    for (const remoteRecord of remoteMap.values()) {
+      merged.push(remoteRecord);
+      needsDownload.push(remoteRecord);
     }
 
-    return { merged, needsUpload, needsDownload };
+    return { merged, needsUpload, needsDownload, conflicts };
   }
 
   private mergePreferences(local: UserPreferences, remote: UserPreferences): UserPreferences {
@@ -162,6 +245,9 @@ class SyncService extends EventEmitter {
       merged.customCoatLengths = [...new Set([...(local.customCoatLengths || []), ...(remote.customCoatLengths || [])])];
       merged.customCatTypes = [...new Set([...(local.customCatTypes || []), ...(remote.customCatTypes || [])])];
       merged.customBehaviors = [...new Set([...(local.customBehaviors || []), ...(remote.customBehaviors || [])])];
+      if (local.savedFilters || remote.savedFilters) {
+        merged.savedFilters = mergeSavedFilters(local.savedFilters, remote.savedFilters);
+      }
 
       // For other settings, we can decide on a strategy. For now, local wins (already default)
     }
@@ -169,8 +255,13 @@ class SyncService extends EventEmitter {
     return merged;
   }
 
+  /**
+   * Delta sync: pulls only remote files modified since the last sync and pushes
+   * only records in the local change journal. Each record lives in its own file.
+   */
   public async sync(): Promise<CatEncounter[]> {
-    if (!this.driveService) throw new Error('Google Drive service not initialized');
+    const provider = this.provider;
+    if (!provider) throw new Error('Sync provider not connected');
     if (this.syncInProgress) {
       console.log('Sync already in progress.');
       return [];
@@ -178,40 +269,121 @@ class SyncService extends EventEmitter {
 
     this.syncInProgress = true;
     this.emit('syncing');
-    console.log('Starting full two-way sync...');
+    console.log('Starting delta sync...');
 
     try {
-      // 1. Fetch remote and local data
-      const remoteData = await this.driveService.loadData();
-      const localEncounters = await storageService.getEncounters();
-      
-      // 2. Merge data
-      const { merged, needsUpload, needsDownload } = this.mergeEncounters(localEncounters, remoteData.encounters);
-      
-      console.log(`Sync details: Merged: ${merged.length}, To Upload: ${needsUpload.length}, To Download: ${needsDownload.length}`);
+      const metadata = await storageService.getSyncMetadata();
+      // A different provider starts from scratch: its files, timestamps and photo IDs are its own
+      const providerChanged = metadata.remoteFiles !== undefined && (metadata.providerId ?? LEGACY_PROVIDER_ID) !== provider.id;
+      const isFirstSync = metadata.remoteFiles === undefined || providerChanged;
+      const remoteFiles = isFirstSync ? {} : { ...metadata.remoteFiles };
+      if (providerChanged) {
+        console.log(`Sync provider changed to ${provider.displayName}, comparing all records`);
+      }
 
-     // 3. Sync photos
-     await this.syncPhotos(merged, needsDownload);
+      // 1. Pull remote changes; the first sync on a device lists everything
+      const remote = await this.pullRemoteChanges(isFirstSync ? undefined : metadata.lastSyncTime, remoteFiles);
+
+      // 2. Merge against local records that changed here or remotely.
+      // The first sync compares everything, since older builds kept no journal.
+      const localEncounters = await storageService.getEncounterRecords(
+        isFirstSync ? undefined : [...new Set([...metadata.pendingChanges, ...remote.encounters.map(e => e.id)])]
+      );
+      const localCats = await storageService.getCatRecords(
+        isFirstSync ? undefined : [...new Set([...(metadata.pendingCatChanges || []), ...remote.cats.map(c => c.id)])]
+      );
+      const localColonies = await storageService.getColonyRecords(
+        isFirstSync ? undefined : [...new Set([...(metadata.pendingColonyChanges || []), ...remote.colonies.map(c => c.id)])]
+      );
+      if (providerChanged) {
+        // Photo IDs point into the previous provider; re-upload the photos kept on this device
+        localEncounters.filter(e => e.photoBlobId).forEach(e => {
+          const photos = getEncounterPhotos(e).map(({ driveId, ...photo }) => photo.blobId ? photo : { ...photo, driveId });
+          Object.assign(e, buildPhotoFields(photos, getCoverPhotoIndex(e)));
+        });
+        localCats.forEach(c => { if (c.profilePhotoBlobId) c.profilePhotoDriveId = undefined; });
+      }
+      // Bases describe what the previous provider held, so they do not apply after a switch
+      const encounterBases = providerChanged ? new Map<string, CatEncounter>() : await storageService.getSyncBases<CatEncounter>('encounter', localEncounters.map(e => e.id));
+      const catBases = providerChanged ? new Map<string, Cat>() : await storageService.getSyncBases<Cat>('cat', localCats.map(c => c.id));
+      const colonyBases = providerChanged ? new Map<string, Colony>() : await storageService.getSyncBases<Colony>('colony', localColonies.map(c => c.id));
+      const encounters = this.mergeRecords(localEncounters, remote.encounters, encounterBases, 'encounter');
+      const cats = this.mergeRecords(localCats, remote.cats, catBases, 'cat');
+      const colonies = this.mergeRecords(localColonies, remote.colonies, colonyBases, 'colony');
+
+      // Queue colliding edits for review; those records wait until they are resolved
+      await storageService.saveSyncConflicts([...encounters.conflicts, ...cats.conflicts, ...colonies.conflicts]);
+      const openConflicts = new Set((await storageService.getSyncConflicts()).map(c => c.id));
+      const isSettled = (recordType: SyncRecordType) => (record: { id: string }) => !openConflicts.has(`${recordType}:${record.id}`);
+
+      // Records seeded from the legacy single file have no per-record files yet
+      const encountersToUpload = (remote.fromLegacyFile ? encounters.merged : encounters.needsUpload).filter(isSettled('encounter'));
+      const catsToUpload = (remote.fromLegacyFile ? cats.merged : cats.needsUpload).filter(isSettled('cat'));
+      const coloniesToUpload = colonies.needsUpload.filter(isSettled('colony'));
+
+      console.log(`Sync details: Pulled: ${remote.encounters.length}, To Upload: ${encountersToUpload.length}, To Download: ${encounters.needsDownload.length}, Cats: ${catsToUpload.length}/${cats.needsDownload.length}, Colonies: ${coloniesToUpload.length}/${colonies.needsDownload.length}`);
+
+      // 3. Sync photos, keeping local copies of photos that did not change remotely
+      const localById = new Map(localEncounters.map(e => [e.id, e]));
+      for (const encounter of [...encounters.needsDownload, ...encountersToUpload]) {
+        const local = localById.get(encounter.id);
+        if (local) this.restoreLocalPhotos(encounter, local);
+      }
+      const localCatsById = new Map(localCats.map(c => [c.id, c]));
+      for (const cat of [...cats.needsDownload, ...catsToUpload]) {
+        this.restoreLocalProfilePhoto(cat, localCatsById.get(cat.id));
+      }
+      await this.syncPhotos(encountersToUpload, encounters.needsDownload);
+      await this.syncCatPhotos(catsToUpload, cats.needsDownload);
+
+      // 4. Merge preferences
+      const localPreferences = await storageService.getPreferences();
+      const preferences = remote.preferences ? this.mergePreferences(localPreferences, remote.preferences) : localPreferences;
+
+      // 5. Store what changed locally without re-journaling it
+      await storageService.applySyncedChanges({
+        encounters: [...encounters.needsDownload, ...encountersToUpload],
+        cats: [...cats.needsDownload, ...catsToUpload],
+        colonies: [...colonies.needsDownload, ...coloniesToUpload],
+        preferences: remote.preferences ? preferences : undefined
+      });
+
+      // 6. Push changed records, one file each
+      for (const encounter of encountersToUpload) {
+        await this.pushFile(`${ENCOUNTER_FILE_PREFIX}${encounter.id}.json`, encounter, remoteFiles);
+      }
+      for (const cat of catsToUpload) {
+        await this.pushFile(`${CAT_FILE_PREFIX}${cat.id}.json`, cat, remoteFiles);
+      }
+      for (const colony of coloniesToUpload) {
+        await this.pushFile(`${COLONY_FILE_PREFIX}${colony.id}.json`, colony, remoteFiles);
+      }
 
-      // 4. Update local storage with merged data
-      await storageService.setEncounters(merged);
-      
-     // 5. Merge and save preferences
-     const localPreferences = await storageService.getPreferences();
-     const mergedPreferences = this.mergePreferences(localPreferences, remoteData.preferences);
-     await storageService.savePreferences(mergedPreferences);
+      // Another device's map view is no reason to push; each device keeps its own
+      const pushPreferences = metadata.pendingPreferences || remote.fromLegacyFile ||
+        (remote.preferences !== null && !valuesEqual(getSyncedPreferences(preferences), getSyncedPreferences(remote.preferences)));
+      if (pushPreferences) {
+        await this.pushFile(PREFERENCES_FILE_NAME, preferences, remoteFiles);
+      }
 
-     // 6. Upload merged data to cloud
-     // 6. Upload merged data to cloud, excluding soft-deleted items from the final remote state
-     const finalToUpload = merged.filter(e => !e.isDeleted);
-     await this.driveService.saveData({ encounters: finalToUpload, preferences: mergedPreferences });
+      // 7. What was pulled or pushed now matches the cloud and becomes the next merge base
+      await storageService.saveSyncBases('encounter', [...encounters.needsDownload.filter(isSettled('encounter')), ...encountersToUpload]);
+      await storageService.saveSyncBases('cat', [...cats.needsDownload.filter(isSettled('cat')), ...catsToUpload]);
+      await storageService.saveSyncBases('colony', [...colonies.needsDownload.filter(isSettled('colony')), ...coloniesToUpload]);
 
-      console.log('Full sync complete');
+      // 8. Clear the journal for what was pushed and advance the sync position
+      await storageService.acknowledgeSyncedChanges(
+        { encounters: encountersToUpload, cats: catsToUpload, colonies: coloniesToUpload, preferences: pushPreferences ? preferences : undefined },
+        { lastSyncTime: remote.latestModifiedTime ?? (isFirstSync ? new Date(0).toISOString() : metadata.lastSyncTime), remoteFiles, providerId: provider.id }
+      );
+
+      console.log(`Delta sync complete${openConflicts.size > 0 ? `, ${openConflicts.size} conflict(s) to review` : ''}`);
       this.emit('idle');
-      return merged;
+      await this.notifyConflicts();
+      return storageService.getEncounters();
 
     } catch (error) {
-      console.error('Full sync failed:', error);
+      console.error('Sync failed:', error);
       this.emit('error', (error as Error).message);
       throw error;
     } finally {
@@ -219,20 +391,49 @@ class SyncService extends EventEmitter {
     }
   }
 
+  /**
+   * Replaces local data with the full remote state
+   */
   public async restore(): Promise<CatEncounter[]> {
-    if (!this.driveService) throw new Error('Google Drive service not initialized');
+    if (!this.provider) throw new Error('Sync provider not connected');
 
     this.emit('syncing');
-    console.log('Restoring data from Google Drive...');
+    console.log(`Restoring data from ${this.provider.displayName}...`);
 
     try {
-      const remoteData = await this.driveService.loadData();
-      await storageService.setEncounters(remoteData.encounters);
-      await storageService.savePreferences(remoteData.preferences);
+      const remoteFiles: SyncMetadata['remoteFiles'] = {};
+      const remote = await this.pullRemoteChanges(undefined, remoteFiles);
+      await storageService.setEncounters(remote.encounters);
+      await storageService.setCats(remote.cats);
+      await storageService.setColonies(remote.colonies);
+      await storageService.saveSyncBases('encounter', remote.encounters);
+      await storageService.saveSyncBases('cat', remote.cats);
+      await storageService.saveSyncBases('colony', remote.colonies);
+      for (const conflict of await storageService.getSyncConflicts()) {
+        await storageService.deleteSyncConflict(conflict.id);
+      }
+      if (remote.preferences) {
+        await storageService.applySyncedChanges({ preferences: remote.preferences });
+      }
+
+      // Local state now matches the cloud, so nothing is pending
+      const metadata = await storageService.getSyncMetadata();
+      await storageService.saveSyncMetadata({
+        ...metadata,
+        lastSyncTime: remote.latestModifiedTime ?? new Date(0).toISOString(),
+        pendingChanges: [],
+        pendingCatChanges: [],
+        pendingColonyChanges: [],
+        pendingPreferences: false,
+        // Legacy data has no per-record files yet; leave the next sync to create them
+        remoteFiles: remote.fromLegacyFile ? undefined : remoteFiles,
+        providerId: this.provider.id
+      });
       
       console.log('Restore complete');
       this.emit('idle');
-      return remoteData.encounters;
+      await this.notifyConflicts();
+      return remote.encounters.filter(e => !e.isDeleted);
     } catch (error) {
       console.error('Restore failed:', error);
       this.emit('error', (error as Error).message);
@@ -240,6 +441,102 @@ class SyncService extends EventEmitter {
     }
   }
 
+  /**
+   * Downloads record files modified after `since` (everything when undefined).
+   * Files whose modifiedTime matches the cache were written by this device and are skipped.
+   * When no record files exist yet, the legacy app-data.json is used instead.
+   */
+  private async pullRemoteChanges(since: string | undefined, remoteFiles: NonNullable<SyncMetadata['remoteFiles']>): Promise<RemoteChanges> {
+    const provider = this.provider!;
+    const changes: RemoteChanges = { encounters: [], cats: [], colonies: [], preferences: null, latestModifiedTime: null, fromLegacyFile: false };
+
+    const files = await provider.listFiles(SYNCED_FILE_PREFIXES, since);
+
+    if (!since && files.length === 0 && provider.loadData && await provider.hasLegacyDataFile?.()) {
+      console.log('No per-record files found, seeding from legacy app data file');
+      const legacy = await provider.loadData();
+      return {
+        ...changes,
+        encounters: legacy.encounters,
+        cats: legacy.cats,
+        preferences: Object.keys(legacy.preferences || {}).length > 0 ? legacy.preferences : null,
+        fromLegacyFile: true
+      };
+    }
+
+    for (const file of files) {
+      if (!changes.latestModifiedTime || file.modifiedTime > changes.latestModifiedTime) {
+        changes.latestModifiedTime = file.modifiedTime;
+      }
+      if (remoteFiles[file.name]?.modifiedTime === file.modifiedTime) {
+        continue;
+      }
+      remoteFiles[file.name] = { id: file.id, modifiedTime: file.modifiedTime };
+
+      const data = await provider.readJsonFile(file.id);
+      if (file.name === PREFERENCES_FILE_NAME) {
+        changes.preferences = data as UserPreferences;
+      } else if (file.name.startsWith(ENCOUNTER_FILE_PREFIX)) {
+        changes.encounters.push(data as CatEncounter);
+      } else if (file.name.startsWith(CAT_FILE_PREFIX)) {
+        changes.cats.push(data as Cat);
+      } else if (file.name.startsWith(COLONY_FILE_PREFIX)) {
+        changes.colonies.push(data as Colony);
+      }
+    }
+
+    return changes;
+  }
+
+  private async pushFile(name: string, data: unknown, remoteFiles: NonNullable<SyncMetadata['remoteFiles']>): Promise<void> {
+    const file = await this.provider!.writeJsonFile(name, data, remoteFiles[name]?.id);
+    remoteFiles[name] = { id: file.id, modifiedTime: file.modifiedTime };
+  }
+
+  /**
+   * Subscribe to changes in the queue of conflicts waiting for review
+   */
+  public onConflictsChange(listener: ConflictListener) {
+    this.conflictListeners.push(listener);
+    return () => {
+      const index = this.conflictListeners.indexOf(listener);
+      if (index > -1) this.conflictListeners.splice(index, 1);
+    };
+  }
+
+  public async getConflicts(): Promise<SyncConflict[]> {
+    return storageService.getSyncConflicts();
+  }
+
+  /**
+   * Applies the user's per-field choices to a queued conflict and returns the field
+   * updates to save. The cloud copy becomes the merge base, so the next sync only
+   * compares edits made after this review.
+   */
+  public async resolveConflict(
+    conflictId: string,
+    resolutions: { [field: string]: Resolution }
+  ): Promise<{ recordType: SyncRecordType; recordId: string; updates: Partial<CatEncounter> & Partial<Cat> & Partial<Colony> }> {
+    const conflict = (await storageService.getSyncConflicts()).find(c => c.id === conflictId);
+    if (!conflict) {
+      throw new Error(`Sync conflict ${conflictId} not found`);
+    }
+
+    const resolved = applyResolutions(conflict.local, conflict.conflicts, resolutions) as unknown as Record<string, unknown>;
+    const updates = Object.fromEntries(conflict.conflicts.map(c => [c.field, resolved[c.field]]));
+
+    await storageService.saveSyncBases(conflict.recordType, [conflict.cloud]);
+    await storageService.deleteSyncConflict(conflictId);
+    await this.notifyConflicts();
+
+    return { recordType: conflict.recordType, recordId: conflict.recordId, updates };
+  }
+
+  private async notifyConflicts(): Promise<void> {
+    const conflicts = await storageService.getSyncConflicts();
+    this.conflictListeners.forEach(listener => listener(conflicts));
+  }
+
   public async syncEncounter(): Promise<void> {
     if (this.isAuthenticated()) {
       await this.sync();
@@ -248,8 +545,9 @@ class SyncService extends EventEmitter {
 
   public disconnect(): void {
     this.stopAutoSync();
-    this.driveService = null;
+    this.provider = null;
     this.syncInProgress = false;
+    this.providerListeners.forEach(listener => listener(null));
   }
 
   public async checkForUpdates(): Promise<void> {
@@ -268,41 +566,103 @@ class SyncService extends EventEmitter {
     }
   }
 
+  /**
+   * Points the photos of a merged or remote encounter at the copies this device
+   * already holds, matched by their provider ID
+   */
+  private restoreLocalPhotos(encounter: CatEncounter, local: CatEncounter): void {
+    const localBlobIds = new Map(
+      getEncounterPhotos(local)
+        .filter(photo => photo.blobId && photo.driveId)
+        .map(photo => [photo.driveId, photo.blobId])
+    );
+    if (!encounter.photoDriveId && !encounter.photos) return;
+    const photos = getEncounterPhotos(encounter).map(photo =>
+      photo.driveId && localBlobIds.has(photo.driveId) ? { ...photo, blobId: localBlobIds.get(photo.driveId) } : photo
+    );
+    Object.assign(encounter, buildPhotoFields(photos, getCoverPhotoIndex(encounter)));
+  }
+
+  /**
+   * Points the profile photo of a merged or remote cat at the copy this device already
+   * holds; a blob ID that came with a different photo names nothing on this device
+   */
+  private restoreLocalProfilePhoto(cat: Cat, local: Cat | undefined): void {
+    if (!cat.profilePhotoDriveId) return;
+    cat.profilePhotoBlobId = local?.profilePhotoDriveId === cat.profilePhotoDriveId ? local.profilePhotoBlobId : undefined;
+  }
+
   private async syncPhotos(encounters: CatEncounter[], needsDownload: CatEncounter[]): Promise<void> {
-    if (!this.driveService) return;
+    if (!this.provider) return;
 
-    // Upload photos for encounters that have a local photo but no Drive ID
+    // Upload photos that only exist locally, one file per photo
     for (const encounter of encounters) {
-      if (encounter.photoBlobId && !encounter.photoDriveId) {
+      const photos = getEncounterPhotos(encounter);
+      if (photos.length === 0) continue;
+      const coverIndex = getCoverPhotoIndex(encounter);
+      for (const [index, photo] of photos.entries()) {
+        if (!photo.blobId || photo.driveId) continue;
         try {
-          const photoBlob = await storageService.getPhoto(encounter.photoBlobId);
+          const photoBlob = await storageService.getPhoto(photo.blobId);
           if (photoBlob) {
-            console.log(`Uploading photo for encounter ${encounter.id}...`);
-            const photoFile = new File([photoBlob], `${encounter.photoBlobId}.jpg`, { type: photoBlob.type });
-            const driveId = await this.driveService.savePhoto(photoFile);
-            encounter.photoDriveId = driveId;
-            await storageService.saveEncounter(encounter);
+            console.log(`Uploading photo ${index + 1} of ${photos.length} for encounter ${encounter.id}...`);
+            const photoFile = new File([photoBlob], `${photo.blobId}.jpg`, { type: photoBlob.type });
+            photos[index] = { ...photo, driveId: await this.provider.savePhoto(photoFile) };
           }
         } catch (error) {
-          console.error(`Failed to upload photo for encounter ${encounter.id}:`, error);
+          console.error(`Failed to upload photo ${photo.blobId} for encounter ${encounter.id}:`, error);
+        }
+      }
+      Object.assign(encounter, buildPhotoFields(photos, coverIndex));
+    }
+
+    // Download photos this device does not have yet; merged records may reference new ones too
+    for (const encounter of [...needsDownload, ...encounters]) {
+      const photos = getEncounterPhotos(encounter);
+      if (photos.length === 0) continue;
+      const coverIndex = getCoverPhotoIndex(encounter);
+      for (const [index, photo] of photos.entries()) {
+        if (!photo.driveId || (photo.blobId && await storageService.getPhoto(photo.blobId))) continue;
+        try {
+          console.log(`Downloading photo ${index + 1} of ${photos.length} for encounter ${encounter.id}...`);
+          const blob = await this.provider.getPhoto(photo.driveId);
+          photos[index] = { ...photo, blobId: await storageService.savePhoto(blob) };
+        } catch (error) {
+          console.error(`Failed to download photo ${photo.driveId} for encounter ${encounter.id}:`, error);
         }
       }
+      Object.assign(encounter, buildPhotoFields(photos, coverIndex));
     }
+  }
 
-    // Download photos for encounters that are new to this device
-    for (const encounter of needsDownload) {
-      if (encounter.photoDriveId) {
+  private async syncCatPhotos(cats: Cat[], needsDownload: Cat[]): Promise<void> {
+    if (!this.provider) return;
+
+    // Upload profile photos that only exist locally
+    for (const cat of cats) {
+      if (cat.profilePhotoBlobId && !cat.profilePhotoDriveId) {
         try {
-          console.log(`Downloading photo for encounter ${encounter.id}...`);
-          const photo = await this.driveService.getPhoto(encounter.photoDriveId);
-          const blobId = await storageService.savePhoto(photo);
-          encounter.photoBlobId = blobId;
-          await storageService.saveEncounter(encounter);
+          const photoBlob = await storageService.getPhoto(cat.profilePhotoBlobId);
+          if (photoBlob) {
+            const photoFile = new File([photoBlob], `${cat.profilePhotoBlobId}.jpg`, { type: photoBlob.type });
+            cat.profilePhotoDriveId = await this.provider.savePhoto(photoFile);
+          }
         } catch (error) {
-          console.error(`Failed to download photo for encounter ${encounter.id}:`, error);
+          console.error(`Failed to upload profile photo for cat ${cat.id}:`, error);
         }
       }
     }
+
+    // Download profile photos this device does not have yet
+    for (const cat of needsDownload) {
+      if (!cat.profilePhotoDriveId || (cat.profilePhotoBlobId && await storageService.getPhoto(cat.profilePhotoBlobId))) continue;
+      try {
+        const photo = await this.provider.getPhoto(cat.profilePhotoDriveId);
+        cat.profilePhotoBlobId = await storageService.savePhoto(photo);
+      } catch (error) {
+        console.error(`Failed to download profile photo for cat ${cat.id}:`, error);
+      }
+    }
   }
 }
 
@@ -0,0 +1,139 @@
+/**
+ * Sync provider for WebDAV servers such as Nextcloud or ownCloud
+ * Files live directly in the configured folder; a file's id is its name.
+ */
+
+import type { WebDavSettings } from '@/types';
+import {
+  type SyncProvider,
+  type RemoteFileInfo,
+  matchesListing,
+  createPhotoFileName,
+  toIsoTimestamp
+} from './SyncProvider';
+
+const DAV_NAMESPACE = 'DAV:';
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:getlastmodified/>
+    <d:resourcetype/>
+  </d:prop>
+</d:propfind>`;
+
+export class WebDavProvider implements SyncProvider {
+  public readonly type = 'webdav';
+  public readonly id: string;
+  public readonly displayName = 'WebDAV';
+  private folderUrl: string;
+  private authorization: string;
+
+  constructor(settings: WebDavSettings) {
+    if (!settings.url) {
+      throw new Error('WebDAV folder URL is required.');
+    }
+    this.folderUrl = settings.url.endsWith('/') ? settings.url : `${settings.url}/`;
+    this.authorization = `Basic ${btoa(`${settings.username}:${settings.password}`)}`;
+    this.id = `webdav:${this.folderUrl}`;
+  }
+
+  /**
+   * Checks the credentials and creates the folder if it does not exist yet
+   */
+  public async init(): Promise<void> {
+    const response = await this.request(this.folderUrl, { method: 'PROPFIND', headers: { Depth: '0' }, body: PROPFIND_BODY });
+    if (response.status === 404) {
+      this.expectOk(await this.request(this.folderUrl, { method: 'MKCOL' }), 'create the sync folder');
+      return;
+    }
+    this.expectOk(response, 'open the sync folder');
+  }
+
+  public async listFiles(namePrefixes: string[], modifiedAfter?: string): Promise<RemoteFileInfo[]> {
+    const response = await this.request(this.folderUrl, { method: 'PROPFIND', headers: { Depth: '1' }, body: PROPFIND_BODY });
+    this.expectOk(response, 'list files');
+
+    return this.parseMultistatus(await response.text())
+      .filter(file => matchesListing(file, namePrefixes, modifiedAfter));
+  }
+
+  public async readJsonFile(fileId: string): Promise<unknown> {
+    const response = await this.request(this.fileUrl(fileId), { method: 'GET' });
+    this.expectOk(response, `read ${fileId}`);
+    return response.json();
+  }
+
+  public async writeJsonFile(name: string, data: unknown): Promise<RemoteFileInfo> {
+    await this.putFile(name, JSON.stringify(data), 'application/json');
+    return this.stat(name);
+  }
+
+  public async savePhoto(photo: File): Promise<string> {
+    const name = createPhotoFileName(photo);
+    await this.putFile(name, photo, photo.type);
+    return name;
+  }
+
+  public async getPhoto(fileId: string): Promise<Blob> {
+    const response = await this.request(this.fileUrl(fileId), { method: 'GET' });
+    this.expectOk(response, `download photo ${fileId}`);
+    return response.blob();
+  }
+
+  private async putFile(name: string, body: string | Blob, contentType: string): Promise<void> {
+    const response = await this.request(this.fileUrl(name), {
+      method: 'PUT',
+      headers: { 'Content-Type': contentType || 'application/octet-stream' },
+      body
+    });
+    this.expectOk(response, `upload ${name}`);
+  }
+
+  // Reads back the server's modification time so later listings match the cache
+  private async stat(name: string): Promise<RemoteFileInfo> {
+    const response = await this.request(this.fileUrl(name), { method: 'PROPFIND', headers: { Depth: '0' }, body: PROPFIND_BODY });
+    this.expectOk(response, `read details of ${name}`);
+    const [file] = this.parseMultistatus(await response.text());
+    if (!file) {
+      throw new Error(`WebDAV server returned no details for ${name}`);
+    }
+    return file;
+  }
+
+  private parseMultistatus(xml: string): RemoteFileInfo[] {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    const files: RemoteFileInfo[] = [];
+
+    for (const response of Array.from(document.getElementsByTagNameNS(DAV_NAMESPACE, 'response'))) {
+      const href = response.getElementsByTagNameNS(DAV_NAMESPACE, 'href')[0]?.textContent ?? '';
+      const isCollection = response.getElementsByTagNameNS(DAV_NAMESPACE, 'collection').length > 0;
+      const name = decodeURIComponent(href.replace(/\/$/, '').split('/').pop() ?? '');
+      if (!name || isCollection) continue;
+
+      const lastModified = response.getElementsByTagNameNS(DAV_NAMESPACE, 'getlastmodified')[0]?.textContent;
+      files.push({ id: name, name, modifiedTime: toIsoTimestamp(lastModified) });
+    }
+
+    return files;
+  }
+
+  private fileUrl(name: string): string {
+    return `${this.folderUrl}${encodeURIComponent(name)}`;
+  }
+
+  private request(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, {
+      ...init,
+      headers: { ...init.headers as Record<string, string>, Authorization: this.authorization }
+    });
+  }
+
+  private expectOk(response: Response, action: string): void {
+    if (response.ok) return;
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('WebDAV server rejected the username or password.');
+    }
+    throw new Error(`Failed to ${action} on WebDAV server: ${response.status} ${response.statusText}`);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for LocalFolderProvider
+ * Uses an in-memory stand-in for a File System Access API directory handle
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { LocalFolderProvider } from '../LocalFolderProvider';
+
+/**
+ * Directory handle backed by a Map, with a clock for lastModified
+ */
+class StandInDirectory {
+  kind = 'directory' as const;
+  name = 'CAT-a-log';
+  permission: PermissionState = 'prompt';
+  grantOnRequest = true;
+  entries = new Map<string, NodeFile>();
+  private clock = Date.parse('2024-03-01T00:00:00.000Z');
+
+  async queryPermission() {
+    return this.permission;
+  }
+
+  async requestPermission() {
+    this.permission = this.grantOnRequest ? 'granted' : 'denied';
+    return this.permission;
+  }
+
+  async *values() {
+    for (const name of this.entries.keys()) {
+      yield this.fileHandle(name);
+    }
+    yield { kind: 'directory', name: 'subfolder' };
+  }
+
+  async getFileHandle(name: string, options: { create?: boolean } = {}) {
+    if (!this.entries.has(name)) {
+      if (!options.create) throw new DOMException(`${name} not found`, 'NotFoundError');
+      this.entries.set(name, new NodeFile([], name, { lastModified: this.clock }));
+    }
+    return this.fileHandle(name);
+  }
+
+  private fileHandle(name: string) {
+    return {
+      kind: 'file',
+      name,
+      getFile: async () => this.entries.get(name)!,
+      createWritable: async () => {
+        const parts: Array<string | Blob> = [];
+        return {
+          write: async (content: string | Blob) => { parts.push(content); },
+          close: async () => {
+            this.clock += 1;
+            this.entries.set(name, new NodeFile(parts as never[], name, { lastModified: this.clock }));
+          }
+        };
+      }
+    };
+  }
+}
+
+describe('LocalFolderProvider', () => {
+  let directory: StandInDirectory;
+  let provider: LocalFolderProvider;
+
+  beforeEach(() => {
+    directory = new StandInDirectory();
+    provider = new LocalFolderProvider(directory as unknown as FileSystemDirectoryHandle);
+  });
+
+  it('should request write permission when it is not granted yet', async () => {
+    await provider.init();
+
+    expect(directory.permission).toBe('granted');
+    expect(provider.id).toBe('local-folder:CAT-a-log');
+  });
+
+  it('should fail when permission is denied', async () => {
+    directory.grantOnRequest = false;
+
+    await expect(provider.init()).rejects.toThrow('Permission to use the folder "CAT-a-log" was not granted.');
+  });
+
+  it('should write, list and read JSON files', async () => {
+    const written = await provider.writeJsonFile('cat-1.json', { id: '1', name: 'Tom' });
+    await provider.writeJsonFile('preferences.json', {});
+
+    expect(written).toEqual({ id: 'cat-1.json', name: 'cat-1.json', modifiedTime: '2024-03-01T00:00:00.001Z' });
+    expect((await provider.listFiles(['cat-', 'encounter-'])).map(f => f.name)).toEqual(['cat-1.json']);
+    expect(await provider.readJsonFile('cat-1.json')).toEqual({ id: '1', name: 'Tom' });
+  });
+
+  it('should only list files modified since the given time', async () => {
+    const first = await provider.writeJsonFile('encounter-a.json', { id: 'a' });
+    await provider.writeJsonFile('encounter-b.json', { id: 'b' });
+
+    const files = await provider.listFiles(['encounter-'], new Date(Date.parse(first.modifiedTime) + 1).toISOString());
+
+    expect(files.map(f => f.name)).toEqual(['encounter-b.json']);
+  });
+
+  it('should store photos as files', async () => {
+    const photo = new NodeFile(['jpeg-bytes'], 'cat.png', { type: 'image/png' }) as unknown as File;
+
+    const photoId = await provider.savePhoto(photo);
+
+    expect(photoId).toMatch(/^photo-.+\.png$/);
+    expect(await (await provider.getPhoto(photoId)).text()).toBe('jpeg-bytes');
+  });
+});
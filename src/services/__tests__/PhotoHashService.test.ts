@@ -0,0 +1,72 @@
+/**
+ * Unit tests for PhotoHashService
+ * Runs against a stand-in for the hashing worker
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PhotoHashService } from '../PhotoHashService';
+import { storageService } from '../StorageService';
+import type { PhotoHashRequest, PhotoHashResponse } from '../../workers/photoHash.worker';
+
+// jsdom cannot decode images, so stored photos get no thumbnails and are hashed whole
+vi.mock('../../utils/imageUtils', async importOriginal => ({
+  ...await importOriginal<typeof import('../../utils/imageUtils')>(),
+  generateThumbnail: vi.fn(async () => { throw new Error('Canvas context not available'); })
+}));
+
+/**
+ * Answers each request with a numbered hash, or an error for empty blobs
+ */
+class StandInWorker {
+  onmessage: ((event: MessageEvent<PhotoHashResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests = 0;
+
+  postMessage({ id, blob }: PhotoHashRequest) {
+    this.requests++;
+    const data: PhotoHashResponse = blob.size === 0
+      ? { id, error: 'Failed to load image' }
+      : { id, hash: this.requests.toString(16).padStart(16, '0') };
+    setTimeout(() => this.onmessage?.({ data } as MessageEvent<PhotoHashResponse>), 0);
+  }
+
+  terminate() {}
+}
+
+describe('PhotoHashService', () => {
+  let worker: StandInWorker;
+  let service: PhotoHashService;
+
+  beforeEach(() => {
+    worker = new StandInWorker();
+    service = new PhotoHashService(() => worker as unknown as Worker);
+  });
+
+  afterEach(async () => {
+    await storageService.clearStorage();
+  });
+
+  it('should hash photos in the worker', async () => {
+    await expect(service.hashPhoto(new Blob(['photo']))).resolves.toBe('0000000000000001');
+    await expect(service.hashPhoto(new Blob([]))).rejects.toThrow('Failed to load image');
+  });
+
+  it('should keep the hashes of stored photos', async () => {
+    await storageService.savePhotoHash('photo-1', 'abcdefabcdefabcd');
+
+    expect(await service.getPhotoHash('photo-1')).toBe('abcdefabcdefabcd');
+    expect(await service.getPhotoHash('missing-photo')).toBeNull();
+    expect(worker.requests).toBe(0);
+  });
+
+  it('should hash a stored photo the first time it is needed', async () => {
+    const photoBlobId = await storageService.savePhoto(new Blob(['photo']));
+
+    const hash = await service.getPhotoHash(photoBlobId);
+
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(await storageService.getPhotoHash(photoBlobId)).toBe(hash);
+    expect(await new PhotoHashService(() => { throw new Error('not needed'); }).getPhotoHash(photoBlobId)).toBe(hash);
+    expect(worker.requests).toBe(1);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for ShareService
+ * Runs against a stand-in for the worker's share API, reached through fetch
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ShareService } from '../ShareService';
+import { storageService } from '../StorageService';
+import type { ShareSnapshot } from '../../types';
+
+const BASE_URL = 'https://cats.example.test';
+
+const snapshot: ShareSnapshot = {
+  kind: 'encounter',
+  title: 'Orange Tabby',
+  details: [{ label: 'Behavior', value: 'Friendly' }],
+  lat: 40.713,
+  lng: -74.006,
+  radiusMeters: 250
+};
+
+/**
+ * Minimal share API: publishes into memory and checks revoke keys
+ */
+class StandInShareApi {
+  shares = new Map<string, { snapshot: ShareSnapshot; hasPhoto: boolean; expiresInDays: number; revokeKey: string }>();
+
+  fetch = async (input: string | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    if (init.method === 'POST' && url.pathname === '/api/shares') {
+      const form = init.body as FormData;
+      const token = `t${this.shares.size + 1}`;
+      const expiresInDays = Number(form.get('expiresInDays'));
+      this.shares.set(token, {
+        snapshot: JSON.parse(form.get('snapshot') as string),
+        hasPhoto: form.has('photo'),
+        expiresInDays,
+        revokeKey: `key-${token}`
+      });
+      return Response.json({
+        token,
+        url: `${BASE_URL}/s/${token}`,
+        revokeKey: `key-${token}`,
+        createdAt: '2024-03-01T00:00:00.000Z',
+        expiresAt: new Date(Date.parse('2024-03-01T00:00:00.000Z') + expiresInDays * 86_400_000).toISOString()
+      }, { status: 201 });
+    }
+
+    const token = url.pathname.replace('/api/shares/', '');
+    if (init.method === 'DELETE' && this.shares.has(token)) {
+      if ((init.headers as Record<string, string>).Authorization !== `Bearer ${this.shares.get(token)!.revokeKey}`) {
+        return Response.json({ error: 'Wrong revoke key for this share' }, { status: 403 });
+      }
+      this.shares.delete(token);
+      return new Response(null, { status: 204 });
+    }
+    return Response.json({ error: 'Not found' }, { status: 404 });
+  };
+}
+
+describe('ShareService', () => {
+  let api: StandInShareApi;
+  let service: ShareService;
+
+  beforeEach(() => {
+    api = new StandInShareApi();
+    vi.stubGlobal('fetch', api.fetch);
+    service = new ShareService(BASE_URL);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await storageService.clearStorage();
+  });
+
+  it('should publish a snapshot and remember the link', async () => {
+    const link = await service.publish({ recordId: 'e1', snapshot, photo: new Blob(['jpeg'], { type: 'image/jpeg' }), expiresInDays: 7 });
+
+    expect(link).toMatchObject({ token: 't1', url: `${BASE_URL}/s/t1`, kind: 'encounter', recordId: 'e1', title: 'Orange Tabby' });
+    expect(api.shares.get('t1')).toMatchObject({ snapshot, hasPhoto: true, expiresInDays: 7 });
+    expect(await storageService.getSharedLinks()).toEqual([link]);
+  });
+
+  it('should revoke a link on the server and forget it', async () => {
+    const link = await service.publish({ recordId: 'e1', snapshot, expiresInDays: 1 });
+
+    await service.revoke(link);
+
+    expect(api.shares.size).toBe(0);
+    expect(await storageService.getSharedLinks()).toEqual([]);
+  });
+
+  it('should keep a link it could not revoke', async () => {
+    const link = await service.publish({ recordId: 'e1', snapshot, expiresInDays: 1 });
+
+    await expect(service.revoke({ ...link, revokeKey: 'wrong' })).rejects.toThrow('Failed to revoke share link: Wrong revoke key for this share');
+    expect(await storageService.getSharedLinks()).toHaveLength(1);
+  });
+
+  it('should drop expired links from the active list', async () => {
+    await service.publish({ recordId: 'e1', snapshot, expiresInDays: 1 });
+    const longLived = await service.publish({ recordId: 'e2', snapshot, expiresInDays: 30 });
+
+    const active = await service.getActiveLinks(new Date('2024-03-10T00:00:00.000Z'));
+
+    expect(active).toEqual([longLived]);
+    expect(await storageService.getSharedLinks()).toEqual([longLived]);
+  });
+});
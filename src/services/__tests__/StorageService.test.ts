@@ -3,9 +3,19 @@
  * Tests all CRUD operations, photo management, and data export/import functionality
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+// jsdom's Blob cannot be streamed, so archive tests use Node's
+import { Blob as NodeBlob } from 'node:buffer';
 import { StorageService } from '../StorageService';
-import type { CatEncounter, UserPreferences, SyncMetadata } from '../../types';
+import { generateThumbnail } from '../../utils/imageUtils';
+import { createGeoJsonExport, parseGeoImport } from '../../utils/dataTransform';
+import type { CatEncounter, Cat, Colony, UserPreferences, SyncMetadata } from '../../types';
+
+// jsdom cannot decode images, so every thumbnail is the same small blob
+vi.mock('../../utils/imageUtils', async importOriginal => ({
+  ...await importOriginal<typeof import('../../utils/imageUtils')>(),
+  generateThumbnail: vi.fn(async () => new Blob(['thumbnail'], { type: 'image/jpeg' }))
+}));
 
 describe('StorageService', () => {
   let storageService: StorageService;
@@ -31,6 +41,24 @@ describe('StorageService', () => {
     comment: 'Cat with photo'
   };
 
+  const mockCat: Cat = {
+    id: 'test-cat-1',
+    name: 'Bakery Tabby',
+    distinguishingMarks: 'Tipped left ear',
+    createdAt: '2024-01-15T10:30:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z'
+  };
+
+  // Square around mockEncounter's location
+  const mockColony: Colony = {
+    id: 'test-colony-1',
+    name: 'Park Colony',
+    feedingSchedule: 'Daily at 7am',
+    boundary: [[40.71, -74.01], [40.71, -74.0], [40.72, -74.0], [40.72, -74.01]],
+    createdAt: '2024-01-15T10:30:00.000Z',
+    updatedAt: '2024-01-15T10:30:00.000Z'
+  };
+
   const mockBlob = new Blob(['test image data'], { type: 'image/jpeg' });
 
   beforeEach(() => {
@@ -151,6 +179,136 @@ describe('StorageService', () => {
       const deletedPhoto = await storageService.getPhoto(photoBlobId);
       expect(deletedPhoto).toBeNull();
     });
+
+    it('should save many encounters at once, keeping the photo and comment of ones being updated', async () => {
+      await storageService.saveEncounter(mockEncounterWithPhoto);
+
+      await storageService.saveEncounters([
+        { ...mockEncounterWithPhoto, photoBlobId: undefined, comment: undefined, behavior: 'curious' },
+        mockEncounter
+      ]);
+
+      const encounters = await storageService.getEncounters();
+      expect(encounters).toHaveLength(2);
+      const updated = encounters.find(e => e.id === mockEncounterWithPhoto.id);
+      expect(updated).toMatchObject({ behavior: 'curious', photoBlobId: 'test-photo-1', comment: 'Cat with photo' });
+      expect((await storageService.getSyncMetadata()).pendingChanges.sort())
+        .toEqual([mockEncounter.id, mockEncounterWithPhoto.id].sort());
+    });
+
+    it('should import encounters only over older copies and keep local photos', async () => {
+      await storageService.saveEncounter(mockEncounterWithPhoto);
+      const [saved] = await storageService.getEncounters();
+      const fromMapFile = { ...saved, photoBlobId: undefined };
+
+      expect(await storageService.importEncounters([{ ...fromMapFile, behavior: 'stale', updatedAt: '2024-01-01T00:00:00.000Z' }])).toBe(0);
+      expect(await storageService.importEncounters([
+        { ...fromMapFile, behavior: 'curious', updatedAt: '2099-01-01T00:00:00.000Z' },
+        mockEncounter
+      ])).toBe(2);
+
+      const encounters = await storageService.getEncounters();
+      expect(encounters.find(e => e.id === saved.id)).toMatchObject({
+        behavior: 'curious',
+        photoBlobId: 'test-photo-1',
+        updatedAt: '2099-01-01T00:00:00.000Z'
+      });
+      expect(encounters.find(e => e.id === mockEncounter.id)?.updatedAt).toBe(mockEncounter.updatedAt);
+    });
+
+    it('should keep health records and colony links when re-importing a map file export', async () => {
+      await storageService.saveColony(mockColony);
+      await storageService.saveEncounter({ ...mockEncounter, coatLength: 'Shorthair', health: { pregnant: true, injuries: 'Torn ear' } });
+      const exported = await storageService.getEncounters();
+
+      const { validEncounters } = parseGeoImport(createGeoJsonExport(exported));
+      expect(await storageService.importEncounters(validEncounters)).toBe(1);
+
+      const [reimported] = await storageService.getEncounters();
+      expect(reimported).toMatchObject({
+        health: { pregnant: true, injuries: 'Torn ear' },
+        colonyId: mockColony.id,
+        comment: mockEncounter.comment
+      });
+    });
+  });
+
+  describe('Cat Management', () => {
+    it('should save and retrieve cats', async () => {
+      await storageService.saveCat(mockCat);
+
+      const cats = await storageService.getCats();
+      expect(cats).toHaveLength(1);
+      expect(cats[0].name).toBe('Bakery Tabby');
+
+      const cat = await storageService.getCat(mockCat.id);
+      expect(cat?.distinguishingMarks).toBe('Tipped left ear');
+    });
+
+    it('should update existing cats', async () => {
+      await storageService.saveCat(mockCat);
+      await storageService.updateCat(mockCat.id, { nickname: 'Crumbs' });
+
+      const cat = await storageService.getCat(mockCat.id);
+      expect(cat?.nickname).toBe('Crumbs');
+      expect(cat?.updatedAt).not.toBe(mockCat.updatedAt);
+    });
+
+    it('should throw error when updating non-existent cat', async () => {
+      await expect(
+        storageService.updateCat('non-existent-id', { name: 'Ghost' })
+      ).rejects.toThrow('Cat with id non-existent-id not found');
+    });
+
+    it('should soft-delete cats and unlink their encounters', async () => {
+      await storageService.saveCat(mockCat);
+      await storageService.saveEncounter({ ...mockEncounter, catId: mockCat.id });
+
+      await storageService.deleteCat(mockCat.id);
+
+      expect(await storageService.getCats()).toHaveLength(0);
+      expect(await storageService.getCat(mockCat.id)).toBeNull();
+      const encounters = await storageService.getEncounters();
+      expect(encounters[0].catId).toBeUndefined();
+    });
+  });
+
+  describe('Colony Management', () => {
+    it('should associate encounters inside a colony boundary', async () => {
+      await storageService.saveEncounter(mockEncounter);
+      await storageService.saveColony(mockColony);
+      await storageService.saveEncounter({ ...mockEncounter, id: 'outside', lat: 40.8 });
+
+      const encounters = await storageService.getEncounters();
+      expect(encounters.find(e => e.id === mockEncounter.id)?.colonyId).toBe(mockColony.id);
+      expect(encounters.find(e => e.id === 'outside')?.colonyId).toBeUndefined();
+
+      const metadata = await storageService.getSyncMetadata();
+      expect(metadata.pendingColonyChanges).toEqual([mockColony.id]);
+      expect(metadata.pendingChanges).toContain(mockEncounter.id);
+    });
+
+    it('should reassign encounters when a boundary moves', async () => {
+      await storageService.saveColony(mockColony);
+      await storageService.saveEncounter(mockEncounter);
+
+      await storageService.updateColony(mockColony.id, { boundary: [[40.8, -74.01], [40.8, -74.0], [40.81, -74.0]] });
+      expect((await storageService.getEncounters())[0].colonyId).toBeUndefined();
+
+      await storageService.updateEncounter(mockEncounter.id, { lat: 40.805, lng: -74.002 });
+      expect((await storageService.getEncounters())[0].colonyId).toBe(mockColony.id);
+    });
+
+    it('should soft-delete colonies and release their encounters', async () => {
+      await storageService.saveColony(mockColony);
+      await storageService.saveEncounter(mockEncounter);
+
+      await storageService.deleteColony(mockColony.id);
+
+      expect(await storageService.getColonies()).toHaveLength(0);
+      expect((await storageService.getColonyRecords([mockColony.id]))[0].isDeleted).toBe(true);
+      expect((await storageService.getEncounters())[0].colonyId).toBeUndefined();
+    });
   });
 
   describe('Photo Management', () => {
@@ -178,6 +336,70 @@ describe('StorageService', () => {
       const photo = await storageService.getPhoto(photoBlobId);
       expect(photo).toBeNull();
     });
+
+    it('should keep a thumbnail of each saved photo until the photo is deleted', async () => {
+      const photoBlobId = await storageService.savePhoto(mockBlob);
+
+      expect(generateThumbnail).toHaveBeenCalledWith(expect.anything(), 400);
+      expect(await storageService.getThumbnail(photoBlobId)).toBeTruthy();
+      expect(await storageService.backfillThumbnails()).toBe(0);
+      await storageService.deletePhoto(photoBlobId);
+      expect(await storageService.getThumbnail(photoBlobId)).toBeNull();
+    });
+
+    it('should backfill thumbnails for restored photos', async () => {
+      await storageService.savePhoto(mockBlob);
+      await storageService.importData(JSON.stringify({
+        version: '1.1.0',
+        exportedAt: '2024-01-20T12:00:00.000Z',
+        encounters: [mockEncounterWithPhoto],
+        photos: { 'test-photo-1': btoa('full size photo') }
+      }));
+
+      // Shown full size until then
+      expect(await storageService.getThumbnail('test-photo-1')).toBeTruthy();
+      expect(await storageService.backfillThumbnails()).toBe(1);
+      expect(await storageService.backfillThumbnails()).toBe(0);
+    });
+  });
+
+  describe('Full-Text Search', () => {
+    const ids = async (query: string) => (await storageService.searchEncounters(query)).map(({ id }) => id);
+
+    beforeEach(async () => {
+      await storageService.saveEncounters([
+        { ...mockEncounter, id: 'park', comment: 'Sleeping in the park café' },
+        { ...mockEncounter, id: 'friendly', behavior: 'friendly', comment: 'Friendly, friendly cat' },
+        { ...mockEncounter, id: 'shy', behavior: 'shy', comment: 'Hides under cars', catId: mockCat.id }
+      ]);
+    });
+
+    it('should rank matches and require every word', async () => {
+      expect(await ids('friendly')).toEqual(['friendly', 'park']);
+      expect(await ids('sleeps cafe')).toEqual(['park']);
+      expect(await ids('CARS hide')).toEqual(['shy']);
+      expect(await ids('sleeping cars')).toEqual([]);
+    });
+
+    it('should match the start of the last word', async () => {
+      expect(await ids('park sle')).toEqual(['park']);
+      expect(await ids('hid')).toEqual(['shy']);
+    });
+
+    it('should follow edits, deletions and cat renames', async () => {
+      await storageService.updateEncounter('park', { comment: 'Sunbathing on a wall' });
+      expect(await ids('park')).toEqual([]);
+      expect(await ids('sunbathing')).toEqual(['park']);
+
+      await storageService.deleteEncounter('park');
+      expect(await ids('wall')).toEqual([]);
+
+      await storageService.saveCat(mockCat);
+      expect(await ids('bakery')).toEqual(['shy']);
+      await storageService.updateCat(mockCat.id, { name: 'Ginger Tom' });
+      expect(await ids('bakery')).toEqual([]);
+      expect(await ids('ginger')).toEqual(['shy']);
+    });
   });
 
   describe('Data Export/Import', () => {
@@ -207,12 +429,13 @@ describe('StorageService', () => {
       const exportedData = await storageService.exportData();
       const parsed = JSON.parse(exportedData);
       
-      expect(parsed.version).toBe('1.0.0');
+      expect(parsed.version).toBe('1.1.0');
       expect(parsed.exportedAt).toBeDefined();
       expect(parsed.encounters).toHaveLength(2);
       expect(parsed.photos).toBeDefined();
       expect(parsed.preferences).toBeDefined();
-      expect(parsed.metadata).toBeDefined();
+      // The sync journal belongs to this device
+      expect(parsed.metadata).toBeUndefined();
       
       // Check encounters
       const encounterIds = parsed.encounters.map((e: any) => e.id);
@@ -225,6 +448,31 @@ describe('StorageService', () => {
       expect(parsed.photos[photoKeys[0]]).toMatch(/^[A-Za-z0-9+/]+=*$/); // Base64 pattern
     });
 
+    it('should round-trip a zip archive backup with binary photos', async () => {
+      const photo = new NodeBlob([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2])], { type: 'image/png' });
+      const photoBlobId = await storageService.savePhoto(photo as unknown as Blob);
+      await storageService.saveEncounter({ ...mockEncounter, id: 'archived-encounter', coatLength: 'Shorthair', photoBlobId });
+      await storageService.saveCat(mockCat);
+      // Only the new photo can be streamed in this environment
+      await storageService.deletePhoto((await storageService.getEncounters()).find(e => e.id === mockEncounterWithPhoto.id)!.photoBlobId!);
+
+      const archive = await new Response(storageService.exportArchive()).blob();
+      await storageService.clearStorage();
+      await storageService.importArchive(archive);
+
+      // The encounters saved before each test have no coat length, so they are skipped as invalid
+      expect((await storageService.getEncounters()).map(e => e.id)).toEqual(['archived-encounter']);
+      expect((await storageService.getCats()).map(c => c.id)).toEqual([mockCat.id]);
+      expect((await storageService.getPreferences()).theme).toBe('dark');
+      const restored = await storageService.getPhoto(photoBlobId);
+      expect(restored?.type).toBe('image/png');
+      expect(restored?.size).toBe(10);
+    });
+
+    it('should reject archives without a manifest', async () => {
+      await expect(storageService.importArchive(new NodeBlob(['not a zip']) as unknown as Blob)).rejects.toThrow('Not a ZIP archive');
+    });
+
     it('should import data from JSON', async () => {
       // Clear existing data
       await storageService.clearStorage();
@@ -300,6 +548,32 @@ describe('StorageService', () => {
       expect(encounters[0].comment).toBe('Newer version');
     });
 
+    it('should export and import known cats', async () => {
+      await storageService.saveCat(mockCat);
+      const exportedData = await storageService.exportData();
+      expect(JSON.parse(exportedData).cats).toHaveLength(1);
+
+      await storageService.clearStorage();
+      await storageService.importData(exportedData);
+
+      const cats = await storageService.getCats();
+      expect(cats).toHaveLength(1);
+      expect(cats[0].id).toBe(mockCat.id);
+    });
+
+    it('should upgrade an unversioned legacy backup on import', async () => {
+      await storageService.clearStorage();
+
+      const legacyEncounter: Record<string, unknown> = { ...mockEncounter, catType: 'Maine Coon' };
+      delete legacyEncounter.coatLength;
+
+      await storageService.importData(JSON.stringify([legacyEncounter]));
+
+      const encounters = await storageService.getEncounters();
+      expect(encounters).toHaveLength(1);
+      expect(encounters[0].coatLength).toBe('Longhair');
+    });
+
     it('should throw error for invalid JSON', async () => {
       await expect(
         storageService.importData('invalid json')
@@ -316,6 +590,49 @@ describe('StorageService', () => {
         storageService.importData(JSON.stringify(invalidBackup))
       ).rejects.toThrow('Invalid backup format: missing encounters array');
     });
+
+    it('should preview an import without writing and apply only the chosen records', async () => {
+      await storageService.clearStorage();
+      const encounter: CatEncounter = { ...mockEncounter, coatLength: 'Shorthair' };
+      await storageService.applySyncedChanges({
+        encounters: [
+          { ...encounter, id: 'same' },
+          { ...encounter, id: 'stale', comment: 'Local' },
+          { ...encounter, id: 'edited', comment: 'Local edit', updatedAt: '2024-02-01T00:00:00.000Z' }
+        ]
+      });
+
+      const pending = await storageService.prepareImportData(JSON.stringify({
+        version: '1.1.0',
+        exportedAt: '2024-01-20T12:00:00.000Z',
+        encounters: [
+          { ...encounter, id: 'same' },
+          { ...encounter, id: 'stale', comment: 'Backup', updatedAt: '2024-01-20T10:00:00.000Z' },
+          { ...encounter, id: 'edited', comment: 'Backup' },
+          { ...encounter, id: 'added', photoBlobId: 'added-photo' },
+          { ...encounter, id: 'broken', lat: 'north' }
+        ],
+        photos: { 'added-photo': btoa('photo') }
+      }));
+
+      const statuses = Object.fromEntries(pending.preview.encounters.map(({ record, status }) => [record.id, status]));
+      expect(statuses).toEqual({ same: 'unchanged', stale: 'updated', edited: 'older', added: 'new' });
+      expect(pending.preview.encounters.find(({ record }) => record.id === 'edited')!.changes)
+        .toEqual([expect.objectContaining({ field: 'comment', localValue: 'Local edit', cloudValue: 'Backup' })]);
+      expect(pending.preview.invalidEncounters).toHaveLength(1);
+      expect(pending.preview.newPhotoCount).toBe(1);
+      expect(await storageService.getEncounters()).toHaveLength(3);
+
+      const summary = await storageService.applyImport(pending, { encounterIds: ['edited', 'added'], catIds: [], colonyIds: [], settings: false });
+
+      expect(summary).toEqual({ encounters: 2, cats: 0, colonies: 0, photos: 1, skipped: 3, settings: false });
+      const encounters = await storageService.getEncounters();
+      expect(encounters.find(e => e.id === 'stale')!.comment).toBe('Local');
+      const edited = encounters.find(e => e.id === 'edited')!;
+      expect(edited.comment).toBe('Backup');
+      expect(edited.updatedAt > '2024-02-01T00:00:00.000Z').toBe(true);
+      expect(await storageService.getPhoto('added-photo')).toBeTruthy();
+    });
   });
 
   describe('Storage Management', () => {
@@ -400,6 +717,83 @@ describe('StorageService', () => {
     });
   });
 
+  describe('Sync Change Journal', () => {
+    it('should journal encounter and cat writes', async () => {
+      await storageService.saveEncounter(mockEncounter);
+      await storageService.saveCat(mockCat);
+      await storageService.deleteCat(mockCat.id);
+
+      const metadata = await storageService.getSyncMetadata();
+      expect(metadata.pendingChanges).toEqual([mockEncounter.id]);
+      expect(metadata.pendingCatChanges).toEqual([mockCat.id]);
+    });
+
+    it('should journal every encounter unlinked by deleting a cat', async () => {
+      await storageService.saveCat(mockCat);
+      await storageService.applySyncedChanges({ encounters: [{ ...mockEncounter, catId: mockCat.id }] });
+
+      await storageService.deleteCat(mockCat.id);
+
+      expect((await storageService.getSyncMetadata()).pendingChanges).toEqual([mockEncounter.id]);
+    });
+
+    it('should not journal records applied from sync', async () => {
+      await storageService.applySyncedChanges({ encounters: [mockEncounter], cats: [mockCat] });
+
+      const metadata = await storageService.getSyncMetadata();
+      expect(metadata.pendingChanges).toEqual([]);
+      expect(metadata.pendingCatChanges).toBeUndefined();
+      expect(await storageService.getEncounterRecords([mockEncounter.id])).toEqual([mockEncounter]);
+    });
+
+    it('should flag preference changes', async () => {
+      await storageService.savePreferences(await storageService.getPreferences());
+      expect((await storageService.getSyncMetadata()).pendingPreferences).toBe(true);
+    });
+
+    it('should not flag moving the map as a preference change', async () => {
+      await storageService.savePreferences(await storageService.getPreferences());
+      await storageService.saveSyncMetadata({ ...(await storageService.getSyncMetadata()), pendingPreferences: false });
+
+      const preferences = await storageService.getPreferences();
+      await storageService.savePreferences({ ...preferences, defaultMapCenter: [51.5, -0.12], defaultMapZoom: 16 });
+      expect((await storageService.getSyncMetadata()).pendingPreferences).toBe(false);
+      expect((await storageService.getPreferences()).defaultMapZoom).toBe(16);
+
+      await storageService.savePreferences({ ...preferences, theme: 'dark' });
+      expect((await storageService.getSyncMetadata()).pendingPreferences).toBe(true);
+    });
+
+    it('should include soft-deleted records when reading for sync', async () => {
+      await storageService.saveEncounter(mockEncounter);
+      await storageService.deleteEncounter(mockEncounter.id);
+
+      const records = await storageService.getEncounterRecords();
+      expect(records).toHaveLength(1);
+      expect(records[0].isDeleted).toBe(true);
+    });
+
+    it('should keep records edited during a sync pending after acknowledgement', async () => {
+      await storageService.saveEncounter(mockEncounter);
+      await storageService.saveEncounter(mockEncounterWithPhoto);
+      const [pushed, pushedWithPhoto] = await storageService.getEncounterRecords([mockEncounter.id, mockEncounterWithPhoto.id]);
+
+      // Edited again after being read for the push
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storageService.updateEncounter(mockEncounterWithPhoto.id, { comment: 'Edited mid-sync' });
+
+      await storageService.acknowledgeSyncedChanges(
+        { encounters: [pushed, pushedWithPhoto], cats: [] },
+        { lastSyncTime: '2024-02-01T00:00:00.000Z', remoteFiles: {} }
+      );
+
+      const metadata = await storageService.getSyncMetadata();
+      expect(metadata.pendingChanges).toEqual([mockEncounterWithPhoto.id]);
+      expect(metadata.lastSyncTime).toBe('2024-02-01T00:00:00.000Z');
+      expect(metadata.remoteFiles).toEqual({});
+    });
+  });
+
   describe('Database Connection Management', () => {
     it('should handle database initialization', async () => {
       // This is tested implicitly by other tests, but we can verify
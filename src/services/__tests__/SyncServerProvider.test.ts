@@ -0,0 +1,214 @@
+/**
+ * Unit tests for SyncServerProvider
+ * Runs against an in-memory stand-in for the worker's sync API, reached through fetch
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { SyncServerProvider } from '../SyncServerProvider';
+import { syncService } from '../SyncService';
+import { storageService } from '../StorageService';
+import type { CatEncounter, SyncServerSettings } from '../../types';
+
+const SERVER_URL = 'https://cats.example.test';
+const API_URL = `${SERVER_URL}/api/sync`;
+const TOKEN = 'session-token';
+
+interface StoredRecord {
+  data: unknown;
+  version: number;
+}
+
+/**
+ * Minimal sync API: one account, versioned records with ETags and a paged change feed
+ */
+class StandInSyncServer {
+  records = new Map<string, StoredRecord>();
+  photos = new Map<string, { body: Blob; contentType: string }>();
+  requests: string[] = [];
+  pageSize = 2;
+  private version = Date.parse('2024-03-01T00:00:00.000Z');
+
+  fetch = async (input: string | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(String(input));
+    const method = init.method ?? 'GET';
+    const headers = init.headers as Record<string, string>;
+    const path = url.pathname.slice('/api/sync/'.length).split('/').map(decodeURIComponent);
+    this.requests.push(`${method} ${url.pathname}${url.search}`);
+
+    if (path[0] === 'sessions' && method === 'POST') {
+      const { username, password } = JSON.parse(init.body as string);
+      return password === 'correct-horse'
+        ? this.json({ userId: 'u1', username, token: TOKEN }, 201)
+        : this.json({ error: 'Invalid username or password' }, 401);
+    }
+    if (headers.Authorization !== `Bearer ${TOKEN}`) {
+      return this.json({ error: 'Session expired or invalid' }, 401);
+    }
+
+    switch (path[0]) {
+      case 'account':
+        return this.json({ userId: 'u1', username: 'alice' });
+      case 'changes':
+        return this.changes(Number(url.searchParams.get('cursor')));
+      case 'records':
+        return method === 'PUT' ? this.putRecord(`${path[1]}/${path[2]}`, init) : this.getRecord(`${path[1]}/${path[2]}`);
+      case 'photos':
+        if (method === 'POST') {
+          const id = `${this.photos.size + 1}.jpg`;
+          this.photos.set(id, { body: init.body as Blob, contentType: headers['Content-Type'] });
+          return this.json({ id }, 201);
+        }
+        return this.photos.has(path[1])
+          ? new Response(this.photos.get(path[1])!.body)
+          : this.json({ error: 'Photo not found' }, 404);
+      default:
+        return this.json({ error: 'Not found' }, 404);
+    }
+  };
+
+  private changes(cursor: number): Response {
+    const changed = [...this.records.entries()]
+      .filter(([, record]) => record.version > cursor)
+      .sort(([, a], [, b]) => a.version - b.version);
+    const page = changed.slice(0, this.pageSize);
+
+    return this.json({
+      changes: page.map(([key, record]) => {
+        const [kind, id] = key.split('/');
+        return { kind, id, etag: `"${record.version}"`, modifiedAt: new Date(record.version).toISOString(), deleted: false, data: record.data };
+      }),
+      cursor: String(page.length > 0 ? page[page.length - 1][1].version : cursor),
+      hasMore: changed.length > this.pageSize
+    });
+  }
+
+  private getRecord(key: string): Response {
+    const record = this.records.get(key);
+    return record ? this.json(record.data) : this.json({ error: 'Record not found' }, 404);
+  }
+
+  private putRecord(key: string, init: RequestInit): Response {
+    const headers = init.headers as Record<string, string>;
+    const existing = this.records.get(key);
+    const matches = headers['If-None-Match'] === '*'
+      ? !existing
+      : existing !== undefined && headers['If-Match'] === `"${existing.version}"`;
+    if (!matches) {
+      return this.json({ error: 'Record was changed by another device' }, 412);
+    }
+
+    this.version += 1;
+    this.records.set(key, { data: JSON.parse(init.body as string), version: this.version });
+    return this.json({ etag: `"${this.version}"`, modifiedAt: new Date(this.version).toISOString() }, existing ? 200 : 201);
+  }
+
+  private json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }
+}
+
+const encounter = (id: string, updatedAt: string): CatEncounter => ({
+  id,
+  lat: 40.7128,
+  lng: -74.0060,
+  dateTime: '2024-01-15T10:30:00.000Z',
+  catColor: 'Black',
+  coatLength: 'Shorthair',
+  catType: 'Domestic Shorthair',
+  behavior: 'Friendly',
+  createdAt: '2024-01-15T10:30:00.000Z',
+  updatedAt
+});
+
+describe('SyncServerProvider', () => {
+  let server: StandInSyncServer;
+  let settings: SyncServerSettings;
+  let provider: SyncServerProvider;
+
+  beforeEach(() => {
+    server = new StandInSyncServer();
+    vi.stubGlobal('fetch', server.fetch);
+    settings = { url: `${SERVER_URL}/`, username: 'alice', token: TOKEN };
+    provider = new SyncServerProvider(settings);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should sign in and return settings holding the session token', async () => {
+    expect(await SyncServerProvider.signIn(SERVER_URL, 'alice', 'correct-horse')).toEqual({ url: SERVER_URL, username: 'alice', token: TOKEN });
+    await expect(SyncServerProvider.signIn(SERVER_URL, 'alice', 'wrong')).rejects.toThrow('Invalid username or password');
+  });
+
+  it('should report an expired session', async () => {
+    const expired = new SyncServerProvider({ ...settings, token: 'old-token' });
+
+    await expect(expired.init()).rejects.toThrow('Sync server session expired. Sign in again.');
+  });
+
+  it('should create records and replace them only from the version last seen', async () => {
+    const created = await provider.writeJsonFile('encounter-a.json', { id: 'a', note: 'one' });
+    const updated = await provider.writeJsonFile('encounter-a.json', { id: 'a', note: 'two' }, created.id);
+
+    expect(created).toEqual({ id: 'encounter/a#"1709251200001"', name: 'encounter-a.json', modifiedTime: '2024-03-01T00:00:00.001Z' });
+    expect(updated.id).toBe('encounter/a#"1709251200002"');
+    await expect(provider.writeJsonFile('encounter-a.json', { id: 'a', note: 'stale' }, created.id))
+      .rejects.toThrow('changed on another device');
+    await expect(provider.writeJsonFile('encounter-a.json', { id: 'a', note: 'blind' }))
+      .rejects.toThrow('changed on another device');
+    expect(await provider.readJsonFile(updated.id)).toEqual({ id: 'a', note: 'two' });
+  });
+
+  it('should page through the change feed from the cursor and serve record bodies from it', async () => {
+    const first = await provider.writeJsonFile('encounter-a.json', { id: 'a' });
+    await provider.writeJsonFile('cat-c.json', { id: 'c' });
+    await provider.writeJsonFile('preferences.json', { theme: 'dark' });
+    await provider.writeJsonFile('encounter-b.json', { id: 'b' });
+    server.requests = [];
+
+    const files = await provider.listFiles(['encounter-', 'preferences.json'], first.modifiedTime);
+
+    expect(files.map(f => f.name)).toEqual(['preferences.json', 'encounter-b.json']);
+    expect(server.requests).toEqual([
+      'GET /api/sync/changes?cursor=1709251200001&limit=500',
+      'GET /api/sync/changes?cursor=1709251200003&limit=500'
+    ]);
+    expect(await provider.readJsonFile(files[0].id)).toEqual({ theme: 'dark' });
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should upload and download photos', async () => {
+    const photo = new NodeFile(['jpeg-bytes'], 'cat.jpg', { type: 'image/jpeg' }) as unknown as File;
+
+    const photoId = await provider.savePhoto(photo);
+    const downloaded = await provider.getPhoto(photoId);
+
+    expect(photoId).toBe('1.jpg');
+    expect(await downloaded.text()).toBe('jpeg-bytes');
+  });
+
+  describe('with SyncService', () => {
+    afterEach(async () => {
+      syncService.disconnect();
+      await storageService.clearStorage();
+    });
+
+    it('should push local changes and pull remote ones', async () => {
+      syncService.setAutoSync(false);
+      syncService.setProvider(provider);
+      await storageService.saveEncounter(encounter('local', '2024-01-01T00:00:00.000Z'));
+
+      await syncService.sync();
+      expect((server.records.get('encounter/local')?.data as CatEncounter).id).toBe('local');
+
+      const otherDevice = new SyncServerProvider(settings);
+      await otherDevice.writeJsonFile('encounter-remote.json', encounter('remote', '2024-02-01T00:00:00.000Z'));
+      await syncService.sync();
+
+      expect((await storageService.getEncounters()).map(e => e.id).sort()).toEqual(['local', 'remote']);
+      expect((await storageService.getSyncMetadata()).providerId).toBe(`sync-server:${API_URL}#alice`);
+    });
+  });
+});
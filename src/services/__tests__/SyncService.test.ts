@@ -0,0 +1,413 @@
+/**
+ * Unit tests for SyncService delta sync
+ * Uses an in-memory stand-in for GoogleDriveService's appDataFolder operations
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { syncService } from '../SyncService';
+import { storageService } from '../StorageService';
+import type { GoogleDriveService, DriveFileInfo } from '../GoogleDriveService';
+import type { Cat, CatEncounter, Colony } from '../../types';
+
+interface StoredFile extends DriveFileInfo {
+  data: unknown;
+}
+
+/**
+ * Minimal appDataFolder with a monotonic clock for modifiedTime
+ */
+class FakeDrive {
+  readonly type = 'google-drive';
+  readonly displayName = 'Google Drive';
+  files = new Map<string, StoredFile>();
+  legacyData: { encounters: CatEncounter[]; cats: []; preferences: object } | null = null;
+  reads = 0;
+  writes = 0;
+  private clock = Date.parse('2024-03-01T00:00:00.000Z');
+  private nextId = 1;
+
+  constructor(readonly id = 'google-drive') {}
+
+  listFiles = vi.fn(async (prefixes: string[], modifiedAfter?: string) => {
+    return [...this.files.values()]
+      .filter(f => prefixes.some(p => f.name.startsWith(p)))
+      .filter(f => !modifiedAfter || f.modifiedTime > modifiedAfter)
+      .map(({ id, name, modifiedTime }) => ({ id, name, modifiedTime }));
+  });
+
+  async readJsonFile(fileId: string) {
+    this.reads++;
+    const file = [...this.files.values()].find(f => f.id === fileId);
+    return structuredClone(file?.data);
+  }
+
+  async writeJsonFile(name: string, data: unknown, fileId?: string) {
+    this.writes++;
+    const existing = this.files.get(name);
+    if (fileId && existing?.id !== fileId) throw new Error(`Unknown file ${fileId}`);
+    const file: StoredFile = {
+      id: existing?.id ?? `file-${this.nextId++}`,
+      name,
+      modifiedTime: this.tick(),
+      data: structuredClone(data)
+    };
+    this.files.set(name, file);
+    return { id: file.id, name, modifiedTime: file.modifiedTime };
+  }
+
+  async hasLegacyDataFile() {
+    return this.legacyData !== null;
+  }
+
+  async loadData() {
+    return this.legacyData ?? { encounters: [], cats: [], preferences: {} };
+  }
+
+  savePhoto = vi.fn(async () => `${this.id}-photo-${this.nextId++}`);
+
+  async getPhoto() {
+    return new Blob(['photo'], { type: 'image/jpeg' });
+  }
+
+  // Simulates another device writing a record
+  putRecord(name: string, data: unknown) {
+    const existing = this.files.get(name);
+    this.files.set(name, { id: existing?.id ?? `file-${this.nextId++}`, name, modifiedTime: this.tick(), data });
+  }
+
+  private tick() {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+}
+
+const encounter = (id: string, updatedAt: string, extra: Partial<CatEncounter> = {}): CatEncounter => ({
+  id,
+  lat: 40.7128,
+  lng: -74.0060,
+  dateTime: '2024-01-15T10:30:00.000Z',
+  catColor: 'Black',
+  coatLength: 'Shorthair',
+  catType: 'Domestic Shorthair',
+  behavior: 'Friendly',
+  createdAt: '2024-01-15T10:30:00.000Z',
+  updatedAt,
+  ...extra
+});
+
+describe('SyncService delta sync', () => {
+  let drive: FakeDrive;
+
+  beforeEach(() => {
+    drive = new FakeDrive();
+    syncService.setAutoSync(false);
+    syncService.setProvider(drive as unknown as GoogleDriveService);
+  });
+
+  afterEach(async () => {
+    syncService.disconnect();
+    await storageService.clearStorage();
+  });
+
+  it('should push every local record on the first sync', async () => {
+    await storageService.applySyncedChanges({ encounters: [encounter('a', '2024-01-01T00:00:00.000Z'), encounter('b', '2024-01-01T00:00:00.000Z')] });
+
+    await syncService.sync();
+
+    expect(drive.files.has('encounter-a.json')).toBe(true);
+    expect(drive.files.has('encounter-b.json')).toBe(true);
+    const metadata = await storageService.getSyncMetadata();
+    expect(metadata.pendingChanges).toEqual([]);
+    expect(Object.keys(metadata.remoteFiles ?? {})).toContain('encounter-a.json');
+  });
+
+  it('should only push journaled changes after the first sync', async () => {
+    await storageService.saveEncounter(encounter('a', '2024-01-01T00:00:00.000Z'));
+    await storageService.saveEncounter(encounter('b', '2024-01-01T00:00:00.000Z'));
+    await syncService.sync();
+
+    drive.writes = 0;
+    drive.reads = 0;
+    await storageService.updateEncounter('b', { comment: 'Seen again' });
+    await syncService.sync();
+
+    expect(drive.writes).toBe(1);
+    expect(drive.reads).toBe(0);
+    expect((drive.files.get('encounter-b.json')?.data as CatEncounter).comment).toBe('Seen again');
+  });
+
+  it('should keep unsynced local edits when a backup is restored', async () => {
+    await storageService.saveEncounter(encounter('a', '2024-01-01T00:00:00.000Z'));
+    await syncService.sync();
+    const backup = JSON.parse(await storageService.exportData());
+
+    await storageService.updateEncounter('a', { comment: 'Edited after the backup' });
+    // Backups from older versions carried the sync journal, which must not replace this device's
+    await storageService.importData(JSON.stringify({
+      ...backup,
+      metadata: { lastSyncTime: new Date(0).toISOString(), cloudDataHash: '', pendingChanges: [], remoteFiles: {} }
+    }));
+    const metadata = await storageService.getSyncMetadata();
+    expect(metadata.pendingChanges).toEqual(['a']);
+    expect(metadata.pendingPreferences).toBe(true);
+    expect(metadata.remoteFiles).toHaveProperty(['encounter-a.json']);
+
+    await syncService.sync();
+
+    expect((drive.files.get('encounter-a.json')?.data as CatEncounter).comment).toBe('Edited after the backup');
+  });
+
+  it('should queue differing copies for review when there is no base yet', async () => {
+    // Recorded on both devices before either synced: one side is newer, the other has the same timestamp
+    await storageService.applySyncedChanges({
+      encounters: [
+        encounter('a', '2024-01-01T00:00:00.000Z', { comment: 'Local comment' }),
+        encounter('b', '2024-01-01T00:00:00.000Z', { behavior: 'Shy' })
+      ]
+    });
+    drive.putRecord('encounter-a.json', encounter('a', '2030-01-01T00:00:00.000Z', { comment: 'Cloud comment' }));
+    drive.putRecord('encounter-b.json', encounter('b', '2024-01-01T00:00:00.000Z', { behavior: 'Curious' }));
+
+    await syncService.sync();
+
+    const conflicts = await syncService.getConflicts();
+    expect(conflicts.map(c => c.id).sort()).toEqual(['encounter:a', 'encounter:b']);
+    expect(conflicts.find(c => c.id === 'encounter:a')?.conflicts).toEqual([
+      { field: 'comment', localValue: 'Local comment', cloudValue: 'Cloud comment', timestamp: '2030-01-01T00:00:00.000Z' }
+    ]);
+    expect(conflicts.find(c => c.id === 'encounter:b')?.base).toBeUndefined();
+    // Neither side is overwritten until the user chooses
+    expect((await storageService.getEncounters()).find(e => e.id === 'a')?.comment).toBe('Local comment');
+    expect((drive.files.get('encounter-b.json')?.data as CatEncounter).behavior).toBe('Curious');
+  });
+
+  it('should pull only files changed since the last sync', async () => {
+    await syncService.sync();
+    drive.putRecord('encounter-remote.json', encounter('remote', '2024-02-01T00:00:00.000Z'));
+
+    await syncService.sync();
+    const lastSyncTime = (await storageService.getSyncMetadata()).lastSyncTime;
+
+    expect((await storageService.getEncounters()).map(e => e.id)).toEqual(['remote']);
+    expect(drive.listFiles).toHaveBeenLastCalledWith(expect.any(Array), expect.any(String));
+
+    drive.reads = 0;
+    await syncService.sync();
+    expect(drive.reads).toBe(0);
+    expect(drive.listFiles).toHaveBeenLastCalledWith(expect.any(Array), lastSyncTime);
+  });
+
+  it('should propagate deletions as tombstone files', async () => {
+    await storageService.saveEncounter(encounter('a', '2024-01-01T00:00:00.000Z'));
+    await syncService.sync();
+
+    await storageService.deleteEncounter('a');
+    await syncService.sync();
+
+    expect((drive.files.get('encounter-a.json')?.data as CatEncounter).isDeleted).toBe(true);
+  });
+
+  it('should push and pull colonies as their own files', async () => {
+    const colony: Colony = {
+      id: 'park',
+      name: 'Park',
+      boundary: [[40.71, -74.01], [40.71, -74.0], [40.72, -74.0]],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+    await storageService.saveColony(colony);
+    await syncService.sync();
+
+    expect((drive.files.get('colony-park.json')?.data as Colony).name).toBe('Park');
+    expect((await storageService.getSyncMetadata()).pendingColonyChanges).toEqual([]);
+
+    drive.putRecord('colony-yard.json', { ...colony, id: 'yard', name: 'Yard', updatedAt: '2024-02-01T00:00:00.000Z' });
+    await syncService.sync();
+
+    expect((await storageService.getColonies()).map(c => c.id)).toEqual(['park', 'yard']);
+  });
+
+  it('should upload each photo of an encounter and download photos added elsewhere', async () => {
+    const first = await storageService.savePhoto(new Blob(['one'], { type: 'image/jpeg' }));
+    const second = await storageService.savePhoto(new Blob(['two'], { type: 'image/jpeg' }));
+    await storageService.saveEncounter(encounter('a', '2024-01-01T00:00:00.000Z', {
+      photos: [{ blobId: first }, { blobId: second }],
+      photoBlobId: second
+    }));
+    await syncService.sync();
+
+    const pushed = drive.files.get('encounter-a.json')?.data as CatEncounter;
+    expect(drive.savePhoto).toHaveBeenCalledTimes(2);
+    expect(pushed.photos?.every(photo => photo.driveId)).toBe(true);
+    expect(pushed.photoDriveId).toBe(pushed.photos?.[1].driveId);
+
+    // Another device adds a third photo
+    drive.putRecord('encounter-a.json', {
+      ...pushed,
+      photos: [...pushed.photos!, { blobId: 'other-device-blob', driveId: 'remote-photo' }],
+      updatedAt: '2030-01-01T00:00:00.000Z'
+    });
+    await syncService.sync();
+
+    const [local] = await storageService.getEncounters();
+    expect(local.photos?.map(photo => photo.driveId)).toEqual([...pushed.photos!.map(photo => photo.driveId), 'remote-photo']);
+    expect(local.photos?.slice(0, 2).map(photo => photo.blobId)).toEqual([first, second]);
+    expect(local.photos?.[2].blobId).not.toBe('other-device-blob');
+    expect(await storageService.getPhoto(local.photos![2].blobId!)).not.toBeNull();
+    expect(local.photoBlobId).toBe(second);
+  });
+
+  it('should download a cat\'s profile photo only when this device lacks it', async () => {
+    const profilePhotoBlobId = await storageService.savePhoto(new Blob(['profile'], { type: 'image/jpeg' }));
+    await storageService.saveCat({
+      id: 'tabby',
+      name: 'Tabby',
+      profilePhotoBlobId,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    });
+    await syncService.sync();
+    const pushed = drive.files.get('cat-tabby.json')?.data as Cat;
+    expect(pushed.profilePhotoDriveId).toBeDefined();
+
+    // Renamed on another device, which keeps the photo
+    drive.putRecord('cat-tabby.json', { ...pushed, name: 'Tabby Cat', updatedAt: '2030-01-01T00:00:00.000Z' });
+    const savePhoto = vi.spyOn(storageService, 'savePhoto');
+    await syncService.sync();
+
+    const [local] = await storageService.getCats();
+    expect(local).toMatchObject({ name: 'Tabby Cat', profilePhotoBlobId });
+    expect(savePhoto).not.toHaveBeenCalled();
+
+    // A new photo chosen elsewhere is downloaded
+    drive.putRecord('cat-tabby.json', {
+      ...pushed,
+      profilePhotoBlobId: 'other-device-blob',
+      profilePhotoDriveId: 'remote-profile',
+      updatedAt: '2031-01-01T00:00:00.000Z'
+    });
+    await syncService.sync();
+
+    expect(savePhoto).toHaveBeenCalledTimes(1);
+    expect((await storageService.getCats())[0].profilePhotoBlobId).not.toBe('other-device-blob');
+    savePhoto.mockRestore();
+  });
+
+  it('should seed per-record files from the legacy app data file', async () => {
+    drive.legacyData = { encounters: [encounter('legacy', '2023-06-01T00:00:00.000Z')], cats: [], preferences: {} };
+
+    await syncService.sync();
+
+    expect(drive.files.has('encounter-legacy.json')).toBe(true);
+    expect((await storageService.getEncounters()).map(e => e.id)).toEqual(['legacy']);
+  });
+
+  it('should restore the full remote state and clear the journal', async () => {
+    drive.putRecord('encounter-remote.json', encounter('remote', '2024-02-01T00:00:00.000Z'));
+    await storageService.saveEncounter(encounter('local', '2024-01-01T00:00:00.000Z'));
+
+    const restored = await syncService.restore();
+
+    expect(restored.map(e => e.id)).toEqual(['remote']);
+    expect((await storageService.getEncounters()).map(e => e.id)).toEqual(['remote']);
+    expect((await storageService.getSyncMetadata()).pendingChanges).toEqual([]);
+  });
+});
+
+describe('SyncService conflict review', () => {
+  let drive: FakeDrive;
+
+  beforeEach(async () => {
+    drive = new FakeDrive();
+    syncService.setAutoSync(false);
+    syncService.setProvider(drive as unknown as GoogleDriveService);
+
+    // Both sides start from the same synced version
+    await storageService.saveEncounter(encounter('a', '2024-01-01T00:00:00.000Z', { comment: 'Base', behavior: 'Friendly' }));
+    await syncService.sync();
+  });
+
+  afterEach(async () => {
+    syncService.disconnect();
+    await storageService.clearStorage();
+  });
+
+  it('should merge edits to different fields without a conflict', async () => {
+    await storageService.updateEncounter('a', { comment: 'Local comment' });
+    drive.putRecord('encounter-a.json', encounter('a', '2030-01-01T00:00:00.000Z', { comment: 'Base', behavior: 'Shy' }));
+
+    await syncService.sync();
+
+    const [merged] = await storageService.getEncounters();
+    expect(merged.comment).toBe('Local comment');
+    expect(merged.behavior).toBe('Shy');
+    expect(await syncService.getConflicts()).toEqual([]);
+    expect((drive.files.get('encounter-a.json')?.data as CatEncounter).comment).toBe('Local comment');
+  });
+
+  it('should queue colliding edits instead of pushing them', async () => {
+    await storageService.updateEncounter('a', { comment: 'Local comment' });
+    drive.putRecord('encounter-a.json', encounter('a', '2030-01-01T00:00:00.000Z', { comment: 'Cloud comment', behavior: 'Friendly' }));
+    const listener = vi.fn();
+    const unsubscribe = syncService.onConflictsChange(listener);
+
+    await syncService.sync();
+    unsubscribe();
+
+    const conflicts = await syncService.getConflicts();
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].id).toBe('encounter:a');
+    expect(conflicts[0].conflicts).toEqual([
+      expect.objectContaining({ field: 'comment', localValue: 'Local comment', cloudValue: 'Cloud comment', baseValue: 'Base' })
+    ]);
+    expect(listener).toHaveBeenCalledWith(conflicts);
+    expect((drive.files.get('encounter-a.json')?.data as CatEncounter).comment).toBe('Cloud comment');
+  });
+
+  it('should return the chosen values and clear the conflict once resolved', async () => {
+    await storageService.updateEncounter('a', { comment: 'Local comment' });
+    drive.putRecord('encounter-a.json', encounter('a', '2030-01-01T00:00:00.000Z', { comment: 'Cloud comment', behavior: 'Friendly' }));
+    await syncService.sync();
+
+    const result = await syncService.resolveConflict('encounter:a', {
+      comment: { action: 'merge', mergedValue: 'Local comment; Cloud comment' }
+    });
+
+    expect(result).toEqual({ recordType: 'encounter', recordId: 'a', updates: { comment: 'Local comment; Cloud comment' } });
+    expect(await syncService.getConflicts()).toEqual([]);
+
+    await storageService.updateEncounter('a', result.updates);
+    await syncService.sync();
+
+    expect((drive.files.get('encounter-a.json')?.data as CatEncounter).comment).toBe('Local comment; Cloud comment');
+    expect(await syncService.getConflicts()).toEqual([]);
+  });
+});
+
+describe('SyncService provider switching', () => {
+  afterEach(async () => {
+    syncService.disconnect();
+    await storageService.clearStorage();
+  });
+
+  it('should push everything and re-upload photos to a newly chosen provider', async () => {
+    syncService.setAutoSync(false);
+    const drive = new FakeDrive();
+    syncService.setProvider(drive as unknown as GoogleDriveService);
+    const photoBlobId = await storageService.savePhoto(new Blob(['photo'], { type: 'image/jpeg' }));
+    await storageService.saveEncounter(encounter('a', '2024-01-01T00:00:00.000Z', { photoBlobId }));
+    await syncService.sync();
+    expect((await storageService.getEncounters())[0].photoDriveId).toMatch(/^google-drive-photo-/);
+
+    const webdav = new FakeDrive('webdav:https://dav.example.test/cats/');
+    syncService.setProvider(webdav as unknown as GoogleDriveService);
+    await syncService.sync();
+
+    const pushed = webdav.files.get('encounter-a.json')?.data as CatEncounter;
+    expect(pushed.photoDriveId).toMatch(/^webdav:.*-photo-/);
+    expect(webdav.savePhoto).toHaveBeenCalledTimes(1);
+    expect((await storageService.getEncounters())[0].photoDriveId).toBe(pushed.photoDriveId);
+    expect((await storageService.getSyncMetadata()).providerId).toBe(webdav.id);
+  });
+});
+
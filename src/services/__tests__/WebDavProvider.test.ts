@@ -0,0 +1,172 @@
+/**
+ * Unit tests for WebDavProvider
+ * Runs against an in-memory stand-in for a WebDAV server, reached through fetch
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { WebDavProvider } from '../WebDavProvider';
+import { syncService } from '../SyncService';
+import { storageService } from '../StorageService';
+import type { CatEncounter } from '../../types';
+
+const FOLDER_URL = 'https://dav.example.test/files/me/cats/';
+const CREDENTIALS = { username: 'me', password: 'app-password' };
+
+interface StoredFile {
+  body: string | Blob;
+  contentType: string;
+  modified: Date;
+}
+
+/**
+ * Minimal WebDAV server: one folder, Basic auth, whole-second modification times
+ */
+class StandInWebDavServer {
+  files = new Map<string, StoredFile>();
+  folderExists = true;
+  requests: string[] = [];
+  private clock = Date.parse('2024-03-01T00:00:00.000Z');
+
+  fetch = async (input: string | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = String(input);
+    const method = init.method ?? 'GET';
+    const headers = init.headers as Record<string, string>;
+    this.requests.push(`${method} ${url}`);
+
+    if (headers.Authorization !== `Basic ${btoa(`${CREDENTIALS.username}:${CREDENTIALS.password}`)}`) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (url === FOLDER_URL) {
+      if (method === 'MKCOL') {
+        this.folderExists = true;
+        return new Response(null, { status: 201 });
+      }
+      if (!this.folderExists) return new Response('Not Found', { status: 404 });
+      const entries = headers.Depth === '1' ? [...this.files.entries()] : [];
+      return this.multistatus([this.folderEntry(), ...entries.map(([name, file]) => this.fileEntry(name, file))]);
+    }
+
+    const name = decodeURIComponent(url.slice(FOLDER_URL.length));
+    const file = this.files.get(name);
+    switch (method) {
+      case 'PUT':
+        this.clock += 1000;
+        this.files.set(name, { body: init.body as string | Blob, contentType: headers['Content-Type'], modified: new Date(this.clock) });
+        return new Response(null, { status: 201 });
+      case 'PROPFIND':
+        return file ? this.multistatus([this.fileEntry(name, file)]) : new Response('Not Found', { status: 404 });
+      case 'GET':
+        return file ? new Response(file.body, { headers: { 'Content-Type': file.contentType } }) : new Response('Not Found', { status: 404 });
+      default:
+        return new Response('Method Not Allowed', { status: 405 });
+    }
+  };
+
+  private multistatus(entries: string[]): Response {
+    return new Response(`<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${entries.join('')}</d:multistatus>`, { status: 207 });
+  }
+
+  private folderEntry(): string {
+    return `<d:response><d:href>/files/me/cats/</d:href><d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop></d:propstat></d:response>`;
+  }
+
+  private fileEntry(name: string, file: StoredFile): string {
+    return `<d:response><d:href>/files/me/cats/${encodeURIComponent(name)}</d:href><d:propstat><d:prop>` +
+      `<d:getlastmodified>${file.modified.toUTCString()}</d:getlastmodified><d:resourcetype/></d:prop></d:propstat></d:response>`;
+  }
+}
+
+const encounter = (id: string, updatedAt: string): CatEncounter => ({
+  id,
+  lat: 40.7128,
+  lng: -74.0060,
+  dateTime: '2024-01-15T10:30:00.000Z',
+  catColor: 'Black',
+  coatLength: 'Shorthair',
+  catType: 'Domestic Shorthair',
+  behavior: 'Friendly',
+  createdAt: '2024-01-15T10:30:00.000Z',
+  updatedAt
+});
+
+describe('WebDavProvider', () => {
+  let server: StandInWebDavServer;
+  let provider: WebDavProvider;
+
+  beforeEach(() => {
+    server = new StandInWebDavServer();
+    vi.stubGlobal('fetch', server.fetch);
+    provider = new WebDavProvider({ url: FOLDER_URL, ...CREDENTIALS });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should create the sync folder when it does not exist', async () => {
+    server.folderExists = false;
+
+    await provider.init();
+
+    expect(server.requests).toContain(`MKCOL ${FOLDER_URL}`);
+    expect(server.folderExists).toBe(true);
+  });
+
+  it('should report rejected credentials', async () => {
+    const wrong = new WebDavProvider({ url: FOLDER_URL, username: 'me', password: 'wrong' });
+
+    await expect(wrong.init()).rejects.toThrow('WebDAV server rejected the username or password.');
+  });
+
+  it('should write, list and read JSON files', async () => {
+    const written = await provider.writeJsonFile('encounter-a.json', { id: 'a' });
+    await provider.writeJsonFile('preferences.json', { theme: 'dark' });
+
+    expect(written).toEqual({ id: 'encounter-a.json', name: 'encounter-a.json', modifiedTime: '2024-03-01T00:00:01.000Z' });
+    expect((await provider.listFiles(['encounter-'])).map(f => f.name)).toEqual(['encounter-a.json']);
+    expect(await provider.readJsonFile(written.id)).toEqual({ id: 'a' });
+  });
+
+  it('should include files modified in the same second as modifiedAfter', async () => {
+    const first = await provider.writeJsonFile('encounter-a.json', { id: 'a' });
+    await provider.writeJsonFile('encounter-b.json', { id: 'b' });
+
+    const files = await provider.listFiles(['encounter-'], first.modifiedTime);
+
+    expect(files.map(f => f.name)).toEqual(['encounter-a.json', 'encounter-b.json']);
+  });
+
+  it('should store photos under unique names', async () => {
+    const photo = new NodeFile(['jpeg-bytes'], 'cat.JPG', { type: 'image/jpeg' }) as unknown as File;
+
+    const photoId = await provider.savePhoto(photo);
+    const downloaded = await provider.getPhoto(photoId);
+
+    expect(photoId).toMatch(/^photo-.+\.jpg$/);
+    expect(await downloaded.text()).toBe('jpeg-bytes');
+  });
+
+  describe('with SyncService', () => {
+    afterEach(async () => {
+      syncService.disconnect();
+      await storageService.clearStorage();
+    });
+
+    it('should push local changes and pull remote ones', async () => {
+      syncService.setAutoSync(false);
+      syncService.setProvider(provider);
+      await storageService.saveEncounter(encounter('local', '2024-01-01T00:00:00.000Z'));
+
+      await syncService.sync();
+      expect(JSON.parse(server.files.get('encounter-local.json')?.body as string).id).toBe('local');
+
+      await provider.writeJsonFile('encounter-remote.json', encounter('remote', '2024-02-01T00:00:00.000Z'));
+      await syncService.sync();
+
+      expect((await storageService.getEncounters()).map(e => e.id).sort()).toEqual(['local', 'remote']);
+      expect((await storageService.getSyncMetadata()).providerId).toBe(`webdav:${FOLDER_URL}`);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for IndexedDB schema migrations
+ * Tests the migration registry, legacy data upgrades and pre-migration snapshots
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { openDB, deleteDB } from 'idb';
+import {
+  MIGRATIONS,
+  LATEST_DB_VERSION,
+  getMigrationPath,
+  runMigrations,
+  getStoredVersion,
+  type Migration
+} from '../migrations';
+import { StorageService } from '../StorageService';
+import { LEGACY_COAT_LENGTH } from '../../models/CatEncounter';
+
+const DB_NAME = 'cat-a-log-db';
+
+/**
+ * Creates the database at an older version with the given legacy encounters
+ */
+async function createLegacyDatabase(version: number, encounters: Array<Record<string, unknown>>) {
+  const db = await openDB(DB_NAME, version, {
+    upgrade(database, oldVersion, newVersion, tx) {
+      runMigrations(database, oldVersion, newVersion ?? version, tx);
+    }
+  });
+  for (const encounter of encounters) {
+    await db.put('encounters', encounter);
+  }
+  db.close();
+}
+
+const legacyEncounter = {
+  id: 'legacy-1',
+  lat: 40.7128,
+  lng: -74.0060,
+  dateTime: '2023-06-01T10:00:00.000Z',
+  catColor: 'Black',
+  catType: 'Persian',
+  behavior: 'Friendly',
+  createdAt: '2023-06-01T10:00:00.000Z',
+  updatedAt: '2023-06-01T10:00:00.000Z'
+};
+
+describe('migrations', () => {
+  let storageService: StorageService | null = null;
+
+  afterEach(async () => {
+    await storageService?.close();
+    storageService = null;
+    await deleteDB(DB_NAME);
+  });
+
+  describe('registry', () => {
+    it('should form a contiguous chain ending at the latest version', () => {
+      const path = getMigrationPath(0, LATEST_DB_VERSION);
+
+      expect(path).toEqual(MIGRATIONS);
+      path.forEach((step, index) => {
+        expect(step.fromVersion).toBe(index === 0 ? 0 : path[index - 1].toVersion);
+      });
+    });
+
+    it('should return only the steps after the stored version', () => {
+      const path = getMigrationPath(2, LATEST_DB_VERSION);
+      expect(path[0].fromVersion).toBe(2);
+    });
+
+    it('should throw when a step is missing', () => {
+      const gapped: Migration[] = [
+        { fromVersion: 0, toVersion: 1, description: 'first', migrate: async () => {} },
+        { fromVersion: 2, toVersion: 3, description: 'third', migrate: async () => {} }
+      ];
+
+      expect(() => getMigrationPath(0, 3, gapped)).toThrow('No migration registered from version 1');
+    });
+  });
+
+  describe('upgrading a legacy database', () => {
+    it('should report the stored version without creating the database', async () => {
+      expect(await getStoredVersion(DB_NAME)).toBe(0);
+
+      await createLegacyDatabase(1, []);
+      expect(await getStoredVersion(DB_NAME)).toBe(1);
+    });
+
+    it('should backfill coatLength and keep existing data', async () => {
+      await createLegacyDatabase(1, [legacyEncounter, { ...legacyEncounter, id: 'legacy-2', catType: 'Stray' }]);
+
+      storageService = new StorageService();
+      const encounters = await storageService.getEncounters();
+
+      expect(encounters).toHaveLength(2);
+      expect(encounters.find(e => e.id === 'legacy-1')?.coatLength).toBe('Longhair');
+      expect(encounters.find(e => e.id === 'legacy-2')?.coatLength).toBe(LEGACY_COAT_LENGTH);
+      expect(await storageService.getCats()).toEqual([]);
+    });
+
+    it('should index existing encounters for full-text search', async () => {
+      await createLegacyDatabase(7, [{ ...legacyEncounter, comment: 'Sleeps on the porch' }]);
+
+      storageService = new StorageService();
+      expect(await storageService.searchEncounters('persian porch')).toEqual([
+        { id: 'legacy-1', score: expect.any(Number) }
+      ]);
+    });
+
+    it('should take a snapshot before migrating and restore it on rollback', async () => {
+      await createLegacyDatabase(1, [legacyEncounter]);
+
+      storageService = new StorageService();
+      await storageService.getEncounters();
+
+      const snapshots = await storageService.getMigrationSnapshots();
+      expect(snapshots.length).toBeGreaterThan(0);
+      expect(snapshots[0].fromVersion).toBe(1);
+      expect(snapshots[0].toVersion).toBe(LATEST_DB_VERSION);
+      expect(snapshots[0].stores.encounters[0].value).toEqual(legacyEncounter);
+
+      await storageService.restoreMigrationSnapshot(snapshots[0].id);
+      expect(await getStoredVersion(DB_NAME)).toBe(1);
+
+      const db = await openDB(DB_NAME);
+      expect(await db.get('encounters', 'legacy-1')).toEqual(legacyEncounter);
+      db.close();
+    });
+
+    it('should leave the database untouched when a step fails', async () => {
+      await createLegacyDatabase(1, [legacyEncounter]);
+
+      const failing: Migration[] = [
+        ...MIGRATIONS.slice(0, 1),
+        { fromVersion: 1, toVersion: 2, description: 'broken', migrate: async () => { throw new Error('boom'); } }
+      ];
+
+      await expect(openDB(DB_NAME, 2, {
+        upgrade(database, oldVersion, newVersion, tx) {
+          runMigrations(database, oldVersion, newVersion ?? 2, tx, failing).catch(() => {});
+        }
+      })).rejects.toThrow();
+
+      expect(await getStoredVersion(DB_NAME)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Builds and connects sync providers from saved settings
+ * Google Drive is connected through the Google sign-in flow in useUser instead.
+ */
+
+import type { SyncProviderSettings } from '@/types';
+import type { SyncProvider } from './SyncProvider';
+import { SyncServerProvider } from './SyncServerProvider';
+import { WebDavProvider } from './WebDavProvider';
+import { S3Provider } from './S3Provider';
+import { LocalFolderProvider } from './LocalFolderProvider';
+
+export type ConfigurableProviderSettings = Exclude<SyncProviderSettings, { type: 'google-drive' }>;
+
+/**
+ * Creates the provider described by the settings and checks that it can be reached
+ */
+export async function createSyncProvider(settings: ConfigurableProviderSettings): Promise<SyncProvider> {
+  switch (settings.type) {
+    case 'sync-server': {
+      const provider = new SyncServerProvider(settings.server);
+      await provider.init();
+      return provider;
+    }
+    case 'webdav': {
+      const provider = new WebDavProvider(settings.webdav);
+      await provider.init();
+      return provider;
+    }
+    case 's3': {
+      const provider = new S3Provider(settings.s3);
+      await provider.init();
+      return provider;
+    }
+    case 'local-folder': {
+      const provider = new LocalFolderProvider(settings.directoryHandle);
+      await provider.init();
+      return provider;
+    }
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * Versioned IndexedDB schema migrations for StorageService
+ * Each step upgrades the database from one version to the next, and a snapshot
+ * of the existing data is taken before any step runs so an upgrade can be rolled back.
+ */
+
+import { openDB, deleteDB, type IDBPDatabase, type IDBPTransaction } from 'idb';
+import type { Cat, CatEncounter } from '../types';
+import { getEncounterPostings } from '../utils/searchIndex';
+import { getCatDisplayName } from '../models/Cat';
+import { inferCoatLength } from '../models/CatEncounter';
+
+export type UpgradeTransaction = IDBPTransaction<unknown, string[], 'versionchange'>;
+
+/**
+ * A single ordered migration step
+ */
+export interface Migration {
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  migrate(db: IDBPDatabase, tx: UpgradeTransaction): Promise<void>;
+}
+
+/**
+ * Data captured from every store before a migration runs
+ */
+export interface MigrationSnapshot {
+  id: string;
+  databaseName: string;
+  fromVersion: number;
+  toVersion: number;
+  createdAt: string;
+  stores: { [storeName: string]: Array<{ key: IDBValidKey; value: unknown }> };
+}
+
+const BACKUP_DB_NAME = 'cat-a-log-migration-backups';
+const SNAPSHOTS_STORE = 'snapshots';
+const MAX_SNAPSHOTS = 3;
+
+/**
+ * Ordered migration registry. Append new steps here; never edit a released step.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    fromVersion: 0,
+    toVersion: 1,
+    description: 'Create encounters, photos and metadata stores',
+    async migrate(db) {
+      const encountersStore = db.createObjectStore('encounters', { keyPath: 'id' });
+      encountersStore.createIndex('dateTime', 'dateTime');
+      encountersStore.createIndex('catColor', 'catColor');
+      encountersStore.createIndex('catType', 'catType');
+
+      db.createObjectStore('photos');
+      db.createObjectStore('metadata');
+    }
+  },
+  {
+    fromVersion: 1,
+    toVersion: 2,
+    description: 'Create known cats store',
+    async migrate(db) {
+      const catsStore = db.createObjectStore('cats', { keyPath: 'id' });
+      catsStore.createIndex('name', 'name');
+    }
+  },
+  {
+    fromVersion: 2,
+    toVersion: 3,
+    description: 'Index encounters by cat and backfill coatLength on legacy encounters',
+    async migrate(_db, tx) {
+      const store = tx.objectStore('encounters');
+      store.createIndex('catId', 'catId');
+
+      let cursor = await store.openCursor();
+      while (cursor) {
+        const encounter = cursor.value as CatEncounter;
+        if (!encounter.coatLength) {
+          await cursor.update({ ...encounter, coatLength: inferCoatLength(encounter.catType) });
+        }
+        cursor = await cursor.continue();
+      }
+    }
+  },
+  {
+    fromVersion: 3,
+    toVersion: 4,
+    description: 'Create sync base and sync conflict stores for three-way merging',
+    async migrate(db) {
+      db.createObjectStore('syncBase');
+      db.createObjectStore('syncConflicts', { keyPath: 'id' });
+    }
+  },
+  {
+    fromVersion: 4,
+    toVersion: 5,
+    description: 'Create colonies store and index encounters by colony',
+    async migrate(db, tx) {
+      const coloniesStore = db.createObjectStore('colonies', { keyPath: 'id' });
+      coloniesStore.createIndex('name', 'name');
+      tx.objectStore('encounters').createIndex('colonyId', 'colonyId');
+    }
+  },
+  {
+    fromVersion: 5,
+    toVersion: 6,
+    description: 'Create photo thumbnails store',
+    async migrate(db) {
+      // Filled outside the upgrade: making thumbnails needs image decoding, which would end the transaction
+      db.createObjectStore('thumbnails');
+    }
+  },
+  {
+    fromVersion: 6,
+    toVersion: 7,
+    description: 'Create perceptual photo hash store',
+    async migrate(db) {
+      db.createObjectStore('photoHashes');
+    }
+  },
+  {
+    fromVersion: 7,
+    toVersion: 8,
+    description: 'Create full-text search index and index existing encounters',
+    async migrate(db, tx) {
+      const indexStore = db.createObjectStore('searchIndex', { keyPath: ['term', 'encounterId'] });
+      indexStore.createIndex('encounterId', 'encounterId');
+
+      const cats: Cat[] = await tx.objectStore('cats').getAll();
+      const catNames = new Map(cats.filter(cat => !cat.isDeleted).map(cat => [cat.id, getCatDisplayName(cat)]));
+      let cursor = await tx.objectStore('encounters').openCursor();
+      while (cursor) {
+        const encounter = cursor.value as CatEncounter;
+        for (const posting of getEncounterPostings(encounter, encounter.catId ? catNames.get(encounter.catId) : undefined)) {
+          await indexStore.put(posting);
+        }
+        cursor = await cursor.continue();
+      }
+    }
+  }
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].toVersion;
+
+/**
+ * Returns the steps needed to move from oldVersion to newVersion, in order
+ */
+export function getMigrationPath(oldVersion: number, newVersion: number, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const path: Migration[] = [];
+  let version = oldVersion;
+
+  while (version < newVersion) {
+    const step = migrations.find(m => m.fromVersion === version);
+    if (!step) {
+      throw new Error(`No migration registered from version ${version}`);
+    }
+    if (step.toVersion <= step.fromVersion) {
+      throw new Error(`Migration from version ${step.fromVersion} must increase the version`);
+    }
+    path.push(step);
+    version = step.toVersion;
+  }
+
+  if (version !== newVersion) {
+    throw new Error(`Migrations overshoot target version ${newVersion} (reached ${version})`);
+  }
+
+  return path;
+}
+
+/**
+ * Runs the migration path inside an upgrade transaction.
+ * Any failure aborts the transaction, which leaves the database at its old version.
+ */
+export async function runMigrations(
+  db: IDBPDatabase,
+  oldVersion: number,
+  newVersion: number,
+  tx: UpgradeTransaction,
+  migrations: Migration[] = MIGRATIONS
+): Promise<void> {
+  try {
+    for (const step of getMigrationPath(oldVersion, newVersion, migrations)) {
+      console.log(`Migrations: ${step.fromVersion} -> ${step.toVersion}: ${step.description}`);
+      await step.migrate(db, tx);
+    }
+  } catch (error) {
+    console.error('Migrations: upgrade failed, aborting:', error);
+    // The failed open request reports the abort; don't surface it twice
+    tx.done.catch(() => {});
+    tx.abort();
+    // Aborting already closes the connection in browsers; close explicitly so a
+    // pending deleteDB or reopen is never blocked by it
+    db.close();
+    throw error;
+  }
+}
+
+/**
+ * Reads the stored version of a database without creating or upgrading it.
+ * Returns 0 when the database does not exist yet.
+ */
+export async function getStoredVersion(databaseName: string): Promise<number> {
+  if (typeof indexedDB.databases === 'function') {
+    const databases = await indexedDB.databases();
+    return databases.find(db => db.name === databaseName)?.version ?? 0;
+  }
+
+  // Older browsers: open without a version and abort if that would create the database
+  try {
+    const db = await openDB(databaseName, undefined, {
+      upgrade(_db, _oldVersion, _newVersion, tx) {
+        tx.done.catch(() => {});
+        tx.abort();
+      }
+    });
+    const version = db.version;
+    db.close();
+    return version;
+  } catch {
+    return 0;
+  }
+}
+
+function openBackupDB(): Promise<IDBPDatabase> {
+  return openDB(BACKUP_DB_NAME, 1, {
+    upgrade(db) {
+      db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+    }
+  });
+}
+
+/**
+ * Copies every store of the database at its current version into the backup database
+ */
+export async function createMigrationSnapshot(databaseName: string, toVersion: number): Promise<MigrationSnapshot> {
+  const db = await openDB(databaseName);
+  const snapshot: MigrationSnapshot = {
+    id: `${databaseName}-v${db.version}-${Date.now()}`,
+    databaseName,
+    fromVersion: db.version,
+    toVersion,
+    createdAt: new Date().toISOString(),
+    stores: {}
+  };
+
+  try {
+    const storeNames = Array.from(db.objectStoreNames);
+    if (storeNames.length > 0) {
+      const tx = db.transaction(storeNames, 'readonly');
+      for (const storeName of storeNames) {
+        const store = tx.objectStore(storeName);
+        const [keys, values] = await Promise.all([store.getAllKeys(), store.getAll()]);
+        snapshot.stores[storeName] = keys.map((key, i) => ({ key, value: values[i] }));
+      }
+      await tx.done;
+    }
+  } finally {
+    db.close();
+  }
+
+  const backupDB = await openBackupDB();
+  try {
+    await backupDB.put(SNAPSHOTS_STORE, snapshot);
+
+    // Keep only the most recent snapshots for this database
+    const existing = (await backupDB.getAll(SNAPSHOTS_STORE) as MigrationSnapshot[])
+      .filter(s => s.databaseName === databaseName)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+    for (const stale of existing.slice(MAX_SNAPSHOTS)) {
+      await backupDB.delete(SNAPSHOTS_STORE, stale.id);
+    }
+  } finally {
+    backupDB.close();
+  }
+
+  return snapshot;
+}
+
+/**
+ * Lists stored snapshots for a database, newest first
+ */
+export async function getMigrationSnapshots(databaseName: string): Promise<MigrationSnapshot[]> {
+  const backupDB = await openBackupDB();
+  try {
+    const snapshots = await backupDB.getAll(SNAPSHOTS_STORE) as MigrationSnapshot[];
+    return snapshots
+      .filter(s => s.databaseName === databaseName)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  } finally {
+    backupDB.close();
+  }
+}
+
+/**
+ * Rolls a database back to a snapshot: recreates it at the snapshot's version and
+ * restores every record. The next normal open will migrate it forward again.
+ * All connections to the database must be closed first.
+ */
+export async function restoreMigrationSnapshot(snapshot: MigrationSnapshot): Promise<void> {
+  await deleteDB(snapshot.databaseName);
+
+  const db = await openDB(snapshot.databaseName, snapshot.fromVersion, {
+    upgrade(database, oldVersion, newVersion, tx) {
+      runMigrations(database, oldVersion, newVersion ?? snapshot.fromVersion, tx).catch(console.error);
+    }
+  });
+
+  try {
+    const storeNames = Object.keys(snapshot.stores).filter(name => db.objectStoreNames.contains(name));
+    if (storeNames.length > 0) {
+      const tx = db.transaction(storeNames, 'readwrite');
+      for (const storeName of storeNames) {
+        const store = tx.objectStore(storeName);
+        for (const { key, value } of snapshot.stores[storeName]) {
+          // Stores with a keyPath take the key from the value itself
+          await (store.keyPath ? store.put(value) : store.put(value, key));
+        }
+      }
+      await tx.done;
+    }
+  } finally {
+    db.close();
+  }
+}
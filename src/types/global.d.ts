@@ -4,5 +4,6 @@ declare global {
   interface Window {
     editEncounter: (encounterId: string) => void;
     deleteEncounter: (encounterId: string) => void;
+    shareEncounter: (encounterId: string) => void;
   }
 }
\ No newline at end of file
@@ -14,12 +14,84 @@ export interface CatEncounter {
   behavior: string;        // Preset or custom behavior
   comment?: string;        // Optional user comment
   photoBlobId?: string;    // Reference to photo in IndexedDB
-  photoDriveId?: string;   // Reference to photo in Google Drive
+  photoDriveId?: string;   // Reference to photo in the sync provider (Google Drive file ID or file name)
+  photos?: EncounterPhoto[]; // All photos in order when there are several; photoBlobId/photoDriveId name the cover
+  catId?: string;          // Reference to a known Cat, if identified
+  colonyId?: string;       // Colony whose boundary contains the location, assigned automatically
+  health?: EncounterHealth; // Health observed or recorded at this encounter
+  isDraft?: boolean;       // Created from a photo; the cat is not described yet
   createdAt: string;       // ISO-8601 creation timestamp
   updatedAt: string;       // ISO-8601 last update timestamp
   isDeleted?: boolean;     // Flag for soft deletes
 }
 
+// One of several photos of an encounter
+export interface EncounterPhoto {
+  blobId?: string;         // Reference to photo in IndexedDB, on this device only
+  driveId?: string;        // Reference to photo in the sync provider
+  width?: number;          // Size of the original photo before it was scaled for storage
+  height?: number;
+}
+
+// Trap-neuter-return status; ear-tipped cats are assumed neutered but not confirmed
+export type TnrStatus = 'intact' | 'ear-tipped' | 'neutered' | 'unknown';
+
+export interface Vaccination {
+  name: string;            // e.g. Rabies, FVRCP
+  date: string;            // YYYY-MM-DD
+}
+
+export interface VetVisit {
+  date: string;            // YYYY-MM-DD
+  reason: string;
+  notes?: string;
+}
+
+// Structured health sub-record of an encounter
+export interface EncounterHealth {
+  tnrStatus?: TnrStatus;
+  vaccinations?: Vaccination[];
+  injuries?: string;       // Description of visible injuries
+  pregnant?: boolean;
+  vetVisits?: VetVisit[];
+}
+
+// Known individual cat that many encounters can be linked to
+export interface Cat {
+  id: string;                    // UUID v4
+  name: string;                  // Display name
+  nickname?: string;             // Optional informal name
+  distinguishingMarks?: string;  // Notches, scars, patterns, collar, etc.
+  profilePhotoBlobId?: string;   // Reference to profile photo in IndexedDB
+  profilePhotoDriveId?: string;  // Reference to profile photo in the sync provider
+  notes?: string;                // Optional free-form notes
+  createdAt: string;             // ISO-8601 creation timestamp
+  updatedAt: string;             // ISO-8601 last update timestamp
+  isDeleted?: boolean;           // Flag for soft deletes
+}
+
+// Colony of cats living in one area, outlined on the map
+export interface Colony {
+  id: string;                    // UUID v4
+  name: string;                  // Display name
+  caretakerNotes?: string;       // Who looks after the colony, access, hazards
+  feedingSchedule?: string;      // Free-form, e.g. "Daily 7am and 6pm by Ana"
+  boundary: [number, number][];  // Polygon corners as [lat, lng], not closed
+  createdAt: string;             // ISO-8601 creation timestamp
+  updatedAt: string;             // ISO-8601 last update timestamp
+  isDeleted?: boolean;           // Flag for soft deletes
+}
+
+// Named search kept in preferences, shown as a chip and a smart collection
+export interface SavedFilter {
+  id: string;                    // UUID v4
+  name: string;                  // Display name, e.g. "Cats without photos"
+  query: string;                 // Search query, e.g. "-has:photo after:month"
+  createdAt: string;             // ISO-8601 creation timestamp
+  updatedAt: string;             // ISO-8601 last update timestamp
+  isDeleted?: boolean;           // Kept so the deletion syncs
+}
+
 // Behavior preset configuration
 export interface BehaviorPreset {
   id: string;
@@ -33,18 +105,81 @@ export interface UserPreferences {
   defaultMapZoom: number;
   autoSync: boolean;
   photoQuality: 'low' | 'medium' | 'high';
+  keepPhotoMetadata?: boolean; // Keep EXIF data such as the GPS position in stored photos
   theme: 'light' | 'dark' | 'auto';
   customCatColors: string[];
   customCoatLengths: string[];
   customCatTypes: string[];
   customBehaviors: string[];
+  savedFilters?: SavedFilter[];
 }
 
 // Sync metadata for conflict resolution
 export interface SyncMetadata {
-  lastSyncTime: string;
+  lastSyncTime: string;              // Latest remote modification already pulled
   cloudDataHash: string;
-  pendingChanges: string[]; // Array of encounter IDs
+  pendingChanges: string[];          // IDs of encounters changed locally since the last sync
+  pendingCatChanges?: string[];      // IDs of known cats changed locally since the last sync
+  pendingColonyChanges?: string[];   // IDs of colonies changed locally since the last sync
+  pendingPreferences?: boolean;      // Preferences changed locally since the last sync
+  remoteFiles?: { [fileName: string]: { id: string; modifiedTime: string } }; // Absent until the first delta sync
+  providerId?: string;               // SyncProvider.id the sync position above belongs to
+}
+
+export type SyncProviderType = 'google-drive' | 'sync-server' | 'webdav' | 's3' | 'local-folder';
+
+export interface SyncServerSettings {
+  url: string;                 // Site serving the sync API, e.g. https://cat-a-log.example.com
+  username: string;
+  token: string;               // Session token from signing in
+}
+
+export interface WebDavSettings {
+  url: string;                 // Folder URL, e.g. https://cloud.example.com/remote.php/dav/files/me/CAT-a-log/
+  username: string;
+  password: string;            // App password
+}
+
+export interface S3Settings {
+  endpoint: string;            // e.g. https://s3.eu-central-1.amazonaws.com or a MinIO URL
+  region: string;
+  bucket: string;
+  prefix?: string;             // Folder inside the bucket
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Provider chosen on this device; never synced, since it holds credentials
+export type SyncProviderSettings =
+  | { type: 'google-drive' }
+  | { type: 'sync-server'; server: SyncServerSettings }
+  | { type: 'webdav'; webdav: WebDavSettings }
+  | { type: 's3'; s3: S3Settings }
+  | { type: 'local-folder'; directoryHandle: FileSystemDirectoryHandle };
+
+// Public share links published to the worker at /s/<token>
+export type ShareKind = 'encounter' | 'cat';
+
+export interface ShareSnapshot {
+  kind: ShareKind;
+  title: string;
+  description?: string;                          // Encounter comment or cat notes
+  details: { label: string; value: string }[];
+  seenAt?: string;                               // ISO-8601 time of the encounter or latest sighting
+  lat: number;                                   // Fuzzed location, never the exact spot
+  lng: number;
+  radiusMeters: number;                          // How far the exact spot may be from lat/lng
+}
+
+export interface SharedLink {
+  token: string;
+  url: string;
+  kind: ShareKind;
+  recordId: string;        // Encounter or cat the snapshot was taken from
+  title: string;
+  revokeKey: string;       // Secret returned on publish; needed to revoke the link
+  createdAt: string;
+  expiresAt: string;
 }
 
 // IndexedDB schema interfaces
@@ -59,6 +194,14 @@ export interface DatabaseSchema {
     };
   };
   
+  cats: {
+    key: string; // cat.id
+    value: Cat;
+    indexes: {
+      name: string;
+    };
+  };
+
   photos: {
     key: string; // photoBlobId
     value: Blob;
@@ -68,6 +211,21 @@ export interface DatabaseSchema {
     key: string; // setting name
     value: unknown;   // setting value
   };
+
+  colonies: {
+    key: string; // colony.id
+    value: Colony;
+  };
+
+  syncBase: {
+    key: string; // `${recordType}:${id}`
+    value: CatEncounter | Cat | Colony; // Last version known to match the cloud
+  };
+
+  syncConflicts: {
+    key: string; // conflict.id
+    value: SyncConflict;
+  };
 }
 
 // Google Drive data format
@@ -75,9 +233,12 @@ export interface CloudBackup {
   version: string;
   exportedAt: string;
   encounters: CatEncounter[];
+  cats?: Cat[];            // Absent in backups created before cats existed
+  colonies?: Colony[];     // Absent in backups created before colonies existed
   photos: { [photoBlobId: string]: string }; // Base64 encoded
+  photoTypes?: { [photoBlobId: string]: string }; // MIME types; absent in older backups
   preferences: UserPreferences;
-  metadata: SyncMetadata;
+  metadata?: SyncMetadata; // Written by older versions; never imported
 }
 
 import { GoogleDriveService } from '@/services/GoogleDriveService';
@@ -93,6 +254,8 @@ export interface UserState {
 
 export interface AppState {
   encounters: CatEncounter[];
+  cats: Cat[];
+  colonies: Colony[];
   user: UserState;
   ui: {
     selectedEncounter?: string;
@@ -129,10 +292,19 @@ export interface StorageService {
   getEncounters(): Promise<CatEncounter[]>;
   updateEncounter(id: string, updates: Partial<CatEncounter>): Promise<void>;
   deleteEncounter(id: string): Promise<void>;
+  searchEncounters(query: string, limit?: number): Promise<Array<{ id: string; score: number }>>; // Best first
+
+  // Cat Management
+  saveCat(cat: Cat): Promise<void>;
+  getCats(): Promise<Cat[]>;
+  getCat(id: string): Promise<Cat | null>;
+  updateCat(id: string, updates: Partial<Cat>): Promise<void>;
+  deleteCat(id: string): Promise<void>;
   
   // Photo Management
   savePhoto(blob: Blob): Promise<string>; // returns photoBlobId
   getPhoto(photoBlobId: string): Promise<Blob | null>;
+  getThumbnail(photoBlobId: string): Promise<Blob | null>;
   deletePhoto(photoBlobId: string): Promise<void>;
   
   // Data Export/Import
@@ -178,6 +350,7 @@ export interface DataConflict {
   field: string;
   localValue: unknown;
   cloudValue: unknown;
+  baseValue?: unknown;   // Value both sides started from, when a base version is stored
   timestamp: string;
 }
 
@@ -186,6 +359,20 @@ export interface Resolution {
   mergedValue?: unknown;
 }
 
+export type SyncRecordType = 'encounter' | 'cat' | 'colony';
+
+// A record whose local and cloud edits collide, queued for review
+export interface SyncConflict {
+  id: string;                  // `${recordType}:${recordId}`
+  recordType: SyncRecordType;
+  recordId: string;
+  local: CatEncounter | Cat | Colony;
+  cloud: CatEncounter | Cat | Colony;
+  base?: CatEncounter | Cat | Colony;
+  conflicts: DataConflict[];   // Only the fields changed differently on both sides
+  detectedAt: string;
+}
+
 export interface ErrorHandler {
   handleStorageError(error: StorageError): void;
   handleNetworkError(error: NetworkError): void;
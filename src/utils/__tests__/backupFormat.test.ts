@@ -0,0 +1,107 @@
+/**
+ * Unit tests for backup format versioning and the upgrade chain
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BACKUP_UPGRADES,
+  CURRENT_BACKUP_VERSION,
+  LEGACY_BACKUP_VERSION,
+  compareBackupVersions,
+  getBackupUpgradePath,
+  normalizeBackupVersion,
+  upgradeBackup,
+  type BackupUpgrade
+} from '../backupFormat';
+
+const legacyEncounter = {
+  id: 'legacy-1',
+  lat: 40.7128,
+  lng: -74.0060,
+  dateTime: '2023-06-01T10:00:00.000Z',
+  catColor: 'Black',
+  catType: 'Persian',
+  behavior: 'Friendly',
+  createdAt: '2023-06-01T10:00:00.000Z',
+  updatedAt: '2023-06-01T10:00:00.000Z'
+};
+
+describe('backupFormat', () => {
+  describe('versions', () => {
+    it('should normalize short and missing versions', () => {
+      expect(normalizeBackupVersion('1.0')).toBe('1.0.0');
+      expect(normalizeBackupVersion('1.1.0')).toBe('1.1.0');
+      expect(normalizeBackupVersion(undefined)).toBe(LEGACY_BACKUP_VERSION);
+      expect(normalizeBackupVersion('beta')).toBe(LEGACY_BACKUP_VERSION);
+    });
+
+    it('should compare versions numerically', () => {
+      expect(compareBackupVersions('1.10.0', '1.2.0')).toBeGreaterThan(0);
+      expect(compareBackupVersions('1.0.0', '1.1.0')).toBeLessThan(0);
+      expect(compareBackupVersions('1.1.0', '1.1.0')).toBe(0);
+    });
+
+    it('should chain every step up to the current version', () => {
+      const path = getBackupUpgradePath(LEGACY_BACKUP_VERSION);
+
+      expect(path).toEqual(BACKUP_UPGRADES);
+      expect(path[path.length - 1].toVersion).toBe(CURRENT_BACKUP_VERSION);
+    });
+
+    it('should throw when a step is missing', () => {
+      const gapped: BackupUpgrade[] = [
+        { fromVersion: '1.0.0', toVersion: '1.1.0', description: 'only', upgrade: data => data }
+      ];
+
+      expect(() => getBackupUpgradePath('0.0.0', CURRENT_BACKUP_VERSION, gapped))
+        .toThrow('No backup upgrade registered from version 0.0.0');
+    });
+  });
+
+  describe('upgradeBackup', () => {
+    it('should wrap a bare encounter array from the oldest Drive format', () => {
+      const result = upgradeBackup([legacyEncounter]);
+
+      expect(result.originalVersion).toBe(LEGACY_BACKUP_VERSION);
+      expect(result.appliedUpgrades).toEqual(['0.0.0 -> 1.0.0', '1.0.0 -> 1.1.0']);
+      expect(result.data.version).toBe(CURRENT_BACKUP_VERSION);
+      expect(result.data.photos).toEqual({});
+      expect(result.data.cats).toEqual([]);
+    });
+
+    it('should upgrade 1.0.0 backups by adding cats and backfilling coatLength', () => {
+      const result = upgradeBackup({
+        version: '1.0.0',
+        exportedAt: '2024-01-15T10:30:00.000Z',
+        encounters: [legacyEncounter, { ...legacyEncounter, id: 'legacy-2', coatLength: 'Shorthair' }],
+        photos: {}
+      });
+      const encounters = result.data.encounters as Array<{ coatLength: string }>;
+
+      expect(result.appliedUpgrades).toEqual(['1.0.0 -> 1.1.0']);
+      expect(encounters[0].coatLength).toBe('Longhair');
+      expect(encounters[1].coatLength).toBe('Shorthair');
+      expect(result.data.cats).toEqual([]);
+    });
+
+    it('should leave current backups unchanged', () => {
+      const backup = { version: CURRENT_BACKUP_VERSION, encounters: [], cats: [], photos: {} };
+      const result = upgradeBackup(backup);
+
+      expect(result.appliedUpgrades).toEqual([]);
+      expect(result.data).toEqual(backup);
+    });
+
+    it('should flag backups from a newer app version without touching them', () => {
+      const backup = { version: '9.0.0', encounters: [] };
+      const result = upgradeBackup(backup);
+
+      expect(result.isNewerVersion).toBe(true);
+      expect(result.data).toEqual(backup);
+    });
+
+    it('should reject non-object data', () => {
+      expect(() => upgradeBackup('nope')).toThrow('Backup data must be a JSON object');
+    });
+  });
+});
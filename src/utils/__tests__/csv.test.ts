@@ -0,0 +1,62 @@
+/**
+ * Unit tests for CSV reading and writing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, formatCsv, parseCsv } from '../csv';
+
+describe('parseCsv', () => {
+  it('should split rows and cells', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('should read quoted cells with delimiters, quotes and line breaks', () => {
+    const text = 'name,comment\r\n"Tom","Sits on the wall, ""mostly""\r\nat noon"\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['name', 'comment'],
+      ['Tom', 'Sits on the wall, "mostly"\r\nat noon']
+    ]);
+  });
+
+  it('should skip blank lines and a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should keep empty cells', () => {
+    expect(parseCsv('a,,c\n,,\n')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+
+  it('should read the last row without a trailing newline', () => {
+    expect(parseCsv('a;b\n1;2', ';')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('should pick the delimiter that splits the header most', () => {
+    expect(detectDelimiter('Date;Latitude;Longitude\n2024-01-01;1,5;2,5')).toBe(';');
+    expect(detectDelimiter('Date\tLatitude\tLongitude')).toBe('\t');
+    expect(detectDelimiter('Date,Latitude,Longitude')).toBe(',');
+  });
+
+  it('should default to a comma for a single column', () => {
+    expect(detectDelimiter('Date')).toBe(',');
+  });
+});
+
+describe('formatCsv', () => {
+  it('should quote only cells that need it', () => {
+    expect(formatCsv([['a', 'b, c', 'say "hi"'], [1, undefined, 'line\nbreak']])).toBe(
+      'a,"b, c","say ""hi"""\r\n1,,"line\nbreak"\r\n'
+    );
+  });
+
+  it('should defuse cells that spreadsheets would run as formulas', () => {
+    expect(formatCsv([['=HYPERLINK("x")', '-74.5', '@cat']])).toBe(`"'=HYPERLINK(""x"")",-74.5,'@cat\r\n`);
+    expect(formatCsv([['\t=1+1', '\t5', '\rnote']])).toBe(`'\t=1+1,'\t5,"'\rnote"\r\n`);
+  });
+
+  it('should round-trip through parseCsv', () => {
+    const rows = [['Date', 'Comment'], ['2024-01-01', 'Tabby; "shy"\nby the shed']];
+    expect(parseCsv(formatCsv(rows, ';'), ';')).toEqual(rows);
+  });
+});
@@ -9,9 +9,15 @@ import {
   validateImportData,
   transformImportData,
   mergeEncounterData,
+  createImportPreview,
+  getDefaultImportSelection,
   blobToBase64,
   base64ToBlob,
-  sanitizeEncounterForExport
+  sanitizeEncounterForExport,
+  createGeoJsonExport,
+  createKmlExport,
+  createGpxExport,
+  parseGeoImport
 } from '../dataTransform';
 import { CatEncounter, UserPreferences, SyncMetadata } from '../../types';
 import * as dataUtils from '../dataUtils';
@@ -96,7 +102,7 @@ describe('Data Transform Utils', () => {
       
       const result = createExportData(encounters, photos, mockPreferences, mockMetadata);
       
-      expect(result.version).toBe('1.0.0');
+      expect(result.version).toBe('1.1.0');
       expect(result.exportedAt).toBe('2024-01-15T10:30:00.000Z');
       expect(result.encounters).toEqual([mockEncounter]);
       expect(result.photos).toEqual(photos);
@@ -109,7 +115,7 @@ describe('Data Transform Utils', () => {
       
       const result = createExportData(encounters);
       
-      expect(result.version).toBe('1.0.0');
+      expect(result.version).toBe('1.1.0');
       expect(result.exportedAt).toBe('2024-01-15T10:30:00.000Z');
       expect(result.encounters).toEqual([mockEncounter]);
       expect(result.photos).toEqual({});
@@ -138,6 +144,26 @@ describe('Data Transform Utils', () => {
       expect(result.invalidEncounters).toHaveLength(0);
     });
 
+    it('should validate known cats and flag links to missing cats', () => {
+      const cat = {
+        id: 'cat-1',
+        name: 'Bakery Tabby',
+        createdAt: '2024-01-15T10:00:00.000Z',
+        updatedAt: '2024-01-15T10:00:00.000Z'
+      };
+      const result = validateImportData({
+        ...validImportData,
+        encounters: [{ ...mockEncounter, catId: 'cat-1' }, { ...mockEncounter, id: 'encounter-2', catId: 'cat-2' }],
+        cats: [cat, { ...cat, id: 'cat-3', name: '' }]
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.validCats).toEqual([cat]);
+      expect(result.invalidCats).toHaveLength(1);
+      expect(result.invalidCats[0].errors).toContain('Cat 2: Name is required');
+      expect(result.warnings).toContain('1 encounter(s) reference cats that are not included in the import');
+    });
+
     it('should reject non-object data', () => {
       const result = validateImportData('not an object');
       
@@ -168,16 +194,28 @@ describe('Data Transform Utils', () => {
       expect(result.invalidEncounters[0].errors[0]).toContain('Encounter 2:');
     });
 
-    it('should warn about missing version', () => {
-      const dataWithoutVersion = { ...validImportData };
+    it('should upgrade unversioned data instead of warning', () => {
+      const dataWithoutVersion: Partial<typeof validImportData> = { ...validImportData };
       delete dataWithoutVersion.version;
       
       const result = validateImportData(dataWithoutVersion);
       
-      expect(result.warnings).toContain('No version information found in import data');
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+      expect(result.validEncounters).toEqual([mockEncounter]);
     });
 
-    it('should warn about incompatible version', () => {
+    it('should accept 1.0.0 encounters recorded before coatLength existed', () => {
+      const legacyEncounter: Partial<CatEncounter> = { ...mockEncounter, catType: 'Persian' };
+      delete legacyEncounter.coatLength;
+
+      const result = validateImportData({ ...validImportData, encounters: [legacyEncounter] });
+
+      expect(result.invalidEncounters).toHaveLength(0);
+      expect(result.validEncounters[0].coatLength).toBe('Longhair');
+    });
+
+    it('should warn about a newer version', () => {
       const dataWithBadVersion = { ...validImportData, version: '2.0.0' };
       
       const result = validateImportData(dataWithBadVersion);
@@ -263,6 +301,20 @@ describe('Data Transform Utils', () => {
       expect(result.conflicts).toHaveLength(1);
       expect(result.conflicts[0].local).toEqual(local);
       expect(result.conflicts[0].imported).toEqual(imported);
+      expect(result.conflicts[0].fields.map(f => f.field)).toEqual(['behavior']);
+      expect(result.merged).toEqual([local]);
+    });
+
+    it('should merge edits to different fields against a common base', () => {
+      const base = { ...localEncounter, behavior: 'Base behavior', comment: 'Base comment' };
+      const local = { ...base, behavior: 'Local behavior', updatedAt: '2024-01-15T12:00:00.000Z' };
+      const imported = { ...base, comment: 'Imported comment', updatedAt: '2024-01-15T11:00:00.000Z' };
+
+      const result = mergeEncounterData([local], [imported], new Map([[base.id, base]]));
+
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.merged[0].behavior).toBe('Local behavior');
+      expect(result.merged[0].comment).toBe('Imported comment');
     });
 
     it('should add new encounters from import', () => {
@@ -282,6 +334,61 @@ describe('Data Transform Utils', () => {
     });
   });
 
+  describe('createImportPreview', () => {
+    const validation = (encounters: CatEncounter[]) => validateImportData({
+      version: '1.1.0',
+      exportedAt: '2024-01-20T10:00:00.000Z',
+      encounters,
+      photos: {}
+    });
+
+    it('should classify imported encounters against local copies', () => {
+      const preview = createImportPreview(
+        validation([
+          mockEncounter,
+          { ...mockEncounter, id: 'newer', comment: 'Imported', updatedAt: '2024-01-20T10:00:00.000Z' },
+          { ...mockEncounter, id: 'older', comment: 'Imported', updatedAt: '2024-01-01T10:00:00.000Z' },
+          { ...mockEncounter, id: 'added' }
+        ]),
+        {
+          encounters: [
+            // Photos are stored per device, so a different photo ID is not a change
+            { ...mockEncounter, photoBlobId: 'local-photo' },
+            { ...mockEncounter, id: 'newer' },
+            { ...mockEncounter, id: 'older' }
+          ],
+          cats: [],
+          colonies: [],
+          photoIds: ['photo-1']
+        },
+        { photoIds: ['photo-1', 'photo-2'], hasSettings: true }
+      );
+
+      expect(preview.encounters.map(({ record, status }) => [record.id, status])).toEqual([
+        ['encounter-1', 'unchanged'],
+        ['newer', 'updated'],
+        ['older', 'older'],
+        ['added', 'new']
+      ]);
+      expect(preview.encounters[1].changes.map(change => change.field)).toEqual(['comment']);
+      expect(preview.photoCount).toBe(2);
+      expect(preview.newPhotoCount).toBe(1);
+    });
+
+    it('should select new and updated records by default', () => {
+      const preview = createImportPreview(
+        validation([
+          { ...mockEncounter, id: 'older', updatedAt: '2024-01-01T10:00:00.000Z', comment: 'Imported' },
+          { ...mockEncounter, id: 'added' }
+        ]),
+        { encounters: [{ ...mockEncounter, id: 'older' }], cats: [], colonies: [], photoIds: [] },
+        { photoIds: [], hasSettings: false }
+      );
+
+      expect(getDefaultImportSelection(preview)).toEqual({ encounterIds: ['added'], catIds: [], colonyIds: [], settings: false });
+    });
+  });
+
   describe('blobToBase64', () => {
     it('should convert blob to base64 string', async () => {
       const blob = new Blob(['test data'], { type: 'text/plain' });
@@ -307,6 +414,12 @@ describe('Data Transform Utils', () => {
       
       expect(blob.type).toBe('image/jpeg');
     });
+
+    it('should detect the image type when none is given', () => {
+      const png = btoa(String.fromCharCode(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a));
+
+      expect(base64ToBlob(png).type).toBe('image/png');
+    });
   });
 
   describe('sanitizeEncounterForExport', () => {
@@ -340,4 +453,100 @@ describe('Data Transform Utils', () => {
       expect(result.comment).toBeUndefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('map formats', () => {
+    const withoutPhoto: CatEncounter = { ...mockEncounter, photoBlobId: undefined };
+    const customColor: CatEncounter = {
+      ...withoutPhoto,
+      id: 'encounter-2',
+      lat: 51.5074,
+      lng: -0.1278,
+      catColor: 'Lilac & "Smoke"',
+      comment: 'Under <the> bench',
+      catId: 'cat-1'
+    };
+    const cats = [{ id: 'cat-1', name: 'Smokey', createdAt: mockEncounter.createdAt, updatedAt: mockEncounter.updatedAt }];
+
+    it.each([
+      ['GeoJSON', createGeoJsonExport, 'geojson'],
+      ['KML', createKmlExport, 'kml'],
+      ['GPX', createGpxExport, 'gpx']
+    ] as const)('should round-trip encounters through %s', (_label, exporter, format) => {
+      const result = parseGeoImport(exporter([mockEncounter, customColor], cats));
+
+      expect(result.format).toBe(format);
+      expect(result.invalidEncounters).toEqual([]);
+      expect(result.validEncounters).toEqual([withoutPhoto, customColor]);
+    });
+
+    it('should write GeoJSON points as longitude, latitude with a display name', () => {
+      const collection = JSON.parse(createGeoJsonExport([customColor], cats));
+
+      expect(collection.type).toBe('FeatureCollection');
+      expect(collection.features[0].geometry).toEqual({ type: 'Point', coordinates: [-0.1278, 51.5074] });
+      expect(collection.features[0].properties.name).toBe('Smokey');
+    });
+
+    it('should style KML placemarks by coat color', () => {
+      const kml = createKmlExport([mockEncounter, customColor]);
+
+      expect(kml).toContain('<Style id="color-black">');
+      expect(kml).toContain('<Style id="color-lilac-smoke-">');
+      expect(kml).toContain('<styleUrl>#color-black</styleUrl>');
+      expect(kml).toContain('<name>Black Domestic Shorthair</name>');
+    });
+
+    it('should give points from other tools new IDs and current timestamps', () => {
+      const gpx = `<?xml version="1.0"?>
+        <gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+          <wpt lat="48.8566" lon="2.3522"><time>2024-02-01T08:00:00Z</time><desc>Seen from the bus</desc></wpt>
+        </gpx>`;
+
+      const result = parseGeoImport(gpx);
+
+      expect(result.validEncounters).toEqual([]);
+      expect(result.invalidEncounters[0].data).toMatchObject({
+        id: 'generated-uuid-123',
+        lat: 48.8566,
+        lng: 2.3522,
+        dateTime: '2024-02-01T08:00:00Z',
+        comment: 'Seen from the bus',
+        createdAt: '2024-01-15T10:30:00.000Z'
+      });
+      expect(result.invalidEncounters[0].errors).toContain('Waypoint 1: Cat color is required');
+    });
+
+    it('should read KML dates and descriptions from standard elements', () => {
+      const kml = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+        <Placemark>
+          <description>By the fountain</description>
+          <TimeStamp><when>2024-03-02T09:15:00.000Z</when></TimeStamp>
+          <ExtendedData>
+            <Data name="catColor"><value>Gray</value></Data>
+            <Data name="coatLength"><value>Longhair</value></Data>
+            <Data name="catType"><value>Persian</value></Data>
+            <Data name="behavior"><value>Shy/Timid</value></Data>
+          </ExtendedData>
+          <Point><coordinates>2.3522,48.8566,0</coordinates></Point>
+        </Placemark>
+        <Placemark><name>Route</name><LineString><coordinates>0,0 1,1</coordinates></LineString></Placemark>
+      </Document></kml>`;
+
+      const result = parseGeoImport(kml);
+
+      expect(result.validEncounters[0]).toMatchObject({
+        lat: 48.8566,
+        lng: 2.3522,
+        dateTime: '2024-03-02T09:15:00.000Z',
+        catColor: 'Gray',
+        comment: 'By the fountain'
+      });
+      expect(result.warnings).toEqual(['1 placemark(s) without a point were skipped']);
+    });
+
+    it('should reject files in other formats', () => {
+      expect(() => parseGeoImport('id,lat,lng')).toThrow('Unrecognized file: expected GeoJSON, KML or GPX');
+      expect(() => parseGeoImport('<gpx><wpt></gpx>')).toThrow('Invalid GPX: the file is not well-formed XML');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for density map layer data
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  filterDensityEncounters,
+  kernelDensity,
+  hexBin,
+  hexagonCorners,
+  densityColor
+} from '../densityLayers';
+import type { CatEncounter } from '../../types';
+
+const encounter = (id: string, dateTime: string, overrides: Partial<CatEncounter> = {}): CatEncounter => ({
+  id,
+  lat: 51.5,
+  lng: -0.12,
+  dateTime,
+  catColor: 'Black',
+  catType: 'Domestic Shorthair',
+  behavior: 'Friendly',
+  createdAt: dateTime,
+  updatedAt: dateTime,
+  ...overrides
+});
+
+describe('densityLayers', () => {
+  it('should filter encounters by time range and attribute', () => {
+    const now = new Date('2025-03-31T12:00:00.000Z');
+    const encounters = [
+      encounter('recent', '2025-03-28T12:00:00.000Z'),
+      encounter('ginger', '2025-03-20T12:00:00.000Z', { catColor: 'Orange/Ginger' }),
+      encounter('old', '2024-06-01T12:00:00.000Z')
+    ];
+    const ids = (filter: Parameters<typeof filterDensityEncounters>[1]) =>
+      filterDensityEncounters(encounters, filter, now).map(({ id }) => id);
+
+    expect(ids({ range: 'all' })).toEqual(['recent', 'ginger', 'old']);
+    expect(ids({ range: 'week' })).toEqual(['recent']);
+    expect(ids({ range: 'month' })).toEqual(['recent', 'ginger']);
+    expect(ids({ range: 'all', field: 'catColor', value: 'black' })).toEqual(['recent', 'old']);
+  });
+
+  it('should spread each point over nearby cells, peaking at the point', () => {
+    const grid = kernelDensity([10, 10, 10, 10, 90, 90], 100, 100, 4, 12);
+    expect(grid.columns).toBe(25);
+    expect(grid.rows).toBe(25);
+
+    const at = (x: number, y: number) => grid.values[Math.floor(y / 4) * grid.columns + Math.floor(x / 4)];
+    expect(at(10, 10)).toBe(grid.max);
+    expect(at(10, 10)).toBeCloseTo(2 * at(90, 90));
+    expect(at(14, 10)).toBeLessThan(at(10, 10));
+    expect(at(50, 50)).toBe(0);
+  });
+
+  it('should ignore points far outside the grid', () => {
+    expect(kernelDensity([-500, 50, 50, 900], 100, 100, 4, 12).max).toBe(0);
+  });
+
+  it('should count points per hexagon', () => {
+    const bins = hexBin([0, 0, 3, 2, -2, 4, 100, 0], 10);
+    expect(bins).toHaveLength(2);
+    expect(bins.find(bin => bin.count === 3)).toMatchObject({ x: 0, y: 0 });
+
+    // Every point lies within its hexagon's radius of the center
+    const far = bins.find(bin => bin.count === 1)!;
+    expect(Math.hypot(far.x - 100, far.y)).toBeLessThanOrEqual(10);
+    expect(hexagonCorners(0, 0, 10)).toHaveLength(6);
+  });
+
+  it('should fade low densities and turn red at the peak', () => {
+    expect(densityColor(0)[3]).toBe(0);
+    expect(densityColor(1)).toEqual([220, 38, 38, 200]);
+    expect(densityColor(2)).toEqual(densityColor(1));
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for converting encounters to and from spreadsheet rows
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CSV_EXPORT_MARKER,
+  DEFAULT_CSV_EXPORT_OPTIONS,
+  csvRowsToEncounters,
+  encountersToCsv,
+  formatCsvDate,
+  guessColumnMapping,
+  isOwnCsvExport,
+  parseCsvDate,
+  type CsvImportOptions
+} from '../encounterCsv';
+import { parseCsv } from '../csv';
+import type { Cat, CatEncounter } from '../../types';
+
+const encounter = (id: string, dateTime: string, overrides: Partial<CatEncounter> = {}): CatEncounter => ({
+  id,
+  lat: 40.712776,
+  lng: -74.005974,
+  dateTime,
+  catColor: 'Orange/Ginger',
+  coatLength: 'Shorthair',
+  catType: 'Domestic Shorthair',
+  behavior: 'Friendly',
+  createdAt: dateTime,
+  updatedAt: dateTime,
+  ...overrides
+});
+
+const cat: Cat = {
+  id: 'cat-1',
+  name: 'Marmalade',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+const importOptions: CsvImportOptions = {
+  dateFormat: 'dmy',
+  cats: [cat],
+  customOptions: { catColor: [], coatLength: [], catType: [], behavior: ['Napping'] }
+};
+
+// Local time, as the app shows it
+const local = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute).toISOString();
+
+describe('formatCsvDate and parseCsvDate', () => {
+  const iso = local(2024, 3, 1, 14, 30);
+
+  it('should write each format in local time', () => {
+    expect(formatCsvDate(iso, 'iso')).toBe(iso);
+    expect(formatCsvDate(iso, 'ymd')).toBe('2024-03-01 14:30');
+    expect(formatCsvDate(iso, 'mdy')).toBe('03/01/2024 14:30');
+    expect(formatCsvDate(iso, 'dmy')).toBe('01/03/2024 14:30');
+  });
+
+  it('should read back what it writes', () => {
+    for (const format of ['iso', 'ymd', 'mdy', 'dmy'] as const) {
+      expect(parseCsvDate(formatCsvDate(iso, format), format)).toBe(iso);
+    }
+  });
+
+  it('should accept dates without a time and ISO dates in any format', () => {
+    expect(parseCsvDate('1/3/2024', 'dmy')).toBe(local(2024, 3, 1));
+    expect(parseCsvDate('2024-03-01T14:30:00Z', 'mdy')).toBe('2024-03-01T14:30:00.000Z');
+  });
+
+  it('should reject impossible and unreadable dates', () => {
+    expect(parseCsvDate('31/02/2024', 'dmy')).toBeNull();
+    expect(parseCsvDate('13/01/2024', 'mdy')).toBeNull();
+    expect(parseCsvDate('last tuesday', 'ymd')).toBeNull();
+    expect(parseCsvDate('', 'ymd')).toBeNull();
+  });
+});
+
+describe('encountersToCsv', () => {
+  it('should write the chosen columns oldest first', () => {
+    const csv = encountersToCsv(
+      [
+        encounter('b', local(2024, 5, 2, 9, 0), { catId: 'cat-1', comment: 'By the shed, again' }),
+        encounter('a', local(2024, 5, 1, 18, 45))
+      ],
+      [cat],
+      { ...DEFAULT_CSV_EXPORT_OPTIONS, coordinatePrecision: 3 }
+    );
+
+    expect(parseCsv(csv)).toEqual([
+      ['Date', 'Latitude', 'Longitude', 'Color', 'Coat Length', 'Type', 'Behavior', 'Comment', 'Cat', CSV_EXPORT_MARKER],
+      ['2024-05-01 18:45', '40.713', '-74.006', 'Orange/Ginger', 'Shorthair', 'Domestic Shorthair', 'Friendly', '', '', ''],
+      ['2024-05-02 09:00', '40.713', '-74.006', 'Orange/Ginger', 'Shorthair', 'Domestic Shorthair', 'Friendly', 'By the shed, again', 'Marmalade', '']
+    ]);
+  });
+
+  it('should use the chosen delimiter and date format', () => {
+    const csv = encountersToCsv([encounter('a', '2024-05-01T18:45:00.000Z')], [], {
+      fields: ['id', 'dateTime', 'lat'],
+      dateFormat: 'iso',
+      coordinatePrecision: 6,
+      delimiter: ';'
+    });
+    expect(csv).toBe(`ID;Date;Latitude;${CSV_EXPORT_MARKER}\r\na;2024-05-01T18:45:00.000Z;40.712776;\r\n`);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('should recognise common header spellings', () => {
+    expect(guessColumnMapping(['Seen At', 'LAT', 'Lon', 'Colour', 'Coat', 'Breed', 'Behaviour', 'Notes', 'Cat Name', 'Extra']))
+      .toEqual({ dateTime: 0, lat: 1, lng: 2, catColor: 3, coatLength: 4, catType: 5, behavior: 6, comment: 7, catName: 8 });
+  });
+
+  it('should map the exported headers back to their fields', () => {
+    const headers = parseCsv(encountersToCsv([], [], DEFAULT_CSV_EXPORT_OPTIONS))[0];
+    expect(Object.keys(guessColumnMapping(headers)).sort()).toEqual([...DEFAULT_CSV_EXPORT_OPTIONS.fields].sort());
+  });
+});
+
+describe('csvRowsToEncounters', () => {
+  const mapping = { dateTime: 0, lat: 1, lng: 2, catColor: 3, coatLength: 4, catType: 5, behavior: 6, comment: 7, catName: 8 };
+
+  it('should build valid encounters and match known values ignoring case', () => {
+    const [row] = csvRowsToEncounters(
+      [['01/03/2024 14:30', '40,7128', '-74,006', 'orange/ginger', 'SHORTHAIR', 'domestic shorthair', 'napping', 'Under the car', 'marmalade']],
+      mapping,
+      importOptions
+    );
+
+    expect(row.errors).toEqual([]);
+    expect(row.unknownValues).toEqual([]);
+    expect(row.encounter).toMatchObject({
+      dateTime: local(2024, 3, 1, 14, 30),
+      lat: 40.7128,
+      lng: -74.006,
+      catColor: 'Orange/Ginger',
+      coatLength: 'Shorthair',
+      catType: 'Domestic Shorthair',
+      behavior: 'Napping',
+      comment: 'Under the car',
+      catId: 'cat-1'
+    });
+  });
+
+  it('should report validation errors with the file row number', () => {
+    const rows = csvRowsToEncounters(
+      [
+        ['01/03/2024', '40.7', '-74.0', 'Black', 'Shorthair', 'Siamese', 'Curious', '', ''],
+        ['', '95', 'east', 'Black', '', 'Siamese', 'Curious', '', '']
+      ],
+      mapping,
+      importOptions
+    );
+
+    expect(rows[0].rowNumber).toBe(2);
+    expect(rows[0].encounter).toBeDefined();
+    expect(rows[1].rowNumber).toBe(3);
+    expect(rows[1].encounter).toBeUndefined();
+    expect(rows[1].errors).toEqual([
+      'Latitude must be between -90 and 90 degrees',
+      'Longitude is required and must be a valid number',
+      'DateTime is required and must be a string',
+      'Coat length is required'
+    ]);
+  });
+
+  it('should explain dates that do not match the chosen format', () => {
+    const [row] = csvRowsToEncounters(
+      [['2024/31/12', '40.7', '-74.0', 'Black', 'Shorthair', 'Siamese', 'Curious']],
+      mapping,
+      importOptions
+    );
+    expect(row.errors).toEqual(['Date "2024/31/12" does not match the chosen date format']);
+  });
+
+  it('should flag unknown option values and cat names without rejecting the row', () => {
+    const [row] = csvRowsToEncounters(
+      [['01/03/2024', '40.7', '-74.0', 'Lilac', 'Shorthair', 'Ragamuffin', 'Curious', '', 'Ghost']],
+      mapping,
+      importOptions
+    );
+
+    expect(row.encounter).toMatchObject({ catColor: 'Lilac', catType: 'Ragamuffin', catId: undefined });
+    expect(row.unknownValues).toEqual([
+      { field: 'catColor', value: 'Lilac' },
+      { field: 'catType', value: 'Ragamuffin' }
+    ]);
+    expect(row.warnings).toEqual(['No known cat named "Ghost"; the encounter will not be linked']);
+  });
+
+  it('should keep a valid exported ID so re-imports update the encounter', () => {
+    const id = '550e8400-e29b-41d4-a716-446655440000';
+    const rows = csvRowsToEncounters(
+      [
+        [id, '01/03/2024', '40.7', '-74.0', 'Black', 'Shorthair', 'Siamese', 'Curious'],
+        ['row-7', '01/03/2024', '40.7', '-74.0', 'Black', 'Shorthair', 'Siamese', 'Curious']
+      ],
+      { id: 0, dateTime: 1, lat: 2, lng: 3, catColor: 4, coatLength: 5, catType: 6, behavior: 7 },
+      importOptions
+    );
+
+    expect(rows[0].encounter?.id).toBe(id);
+    expect(rows[1].encounter?.id).not.toBe('row-7');
+  });
+
+  it('should read back comments the export guarded against formulas', () => {
+    const comments = ['- shy near bins', '=1+1', "'quoted' on purpose"];
+    const csv = encountersToCsv(
+      comments.map((comment, index) => encounter(`e${index}`, local(2024, 3, index + 1), { comment })),
+      [],
+      DEFAULT_CSV_EXPORT_OPTIONS
+    );
+    expect(csv).toContain("'- shy near bins");
+
+    const [headers, ...rows] = parseCsv(csv);
+    expect(isOwnCsvExport(headers)).toBe(true);
+    const imported = csvRowsToEncounters(rows, guessColumnMapping(headers), {
+      ...importOptions,
+      dateFormat: 'ymd',
+      fromOwnExport: true
+    });
+    expect(imported.map(row => row.encounter?.comment)).toEqual(comments);
+  });
+
+  it('should keep a leading quote the user typed in other files', () => {
+    expect(isOwnCsvExport(['Date', 'Latitude', 'Longitude', 'Comment'])).toBe(false);
+
+    const [row] = csvRowsToEncounters(
+      [['01/03/2024 14:30', '40.7', '-74.0', 'Black', 'Shorthair', 'Siamese', 'Curious', "'=fine", '']],
+      mapping,
+      importOptions
+    );
+    expect(row.encounter?.comment).toBe("'=fine");
+  });
+});
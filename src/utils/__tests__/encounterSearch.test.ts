@@ -0,0 +1,128 @@
+/**
+ * Tests for the encounter search query language
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSearchQuery,
+  filterEncounters,
+  getHighlightTerms,
+  splitHighlights,
+  getSearchSuggestions,
+  usesDistance
+} from '../encounterSearch';
+import type { CatEncounter } from '../../types';
+
+const encounter = (overrides: Partial<CatEncounter>): CatEncounter => ({
+  id: 'encounter',
+  lat: 51.5,
+  lng: -0.12,
+  dateTime: '2025-03-10T12:00:00.000Z',
+  catColor: 'Black',
+  coatLength: 'Shorthair',
+  catType: 'Domestic Shorthair',
+  behavior: 'Friendly',
+  createdAt: '2025-03-10T12:00:00.000Z',
+  updatedAt: '2025-03-10T12:00:00.000Z',
+  ...overrides
+});
+
+const encounters = [
+  encounter({ id: 'whiskers', catId: 'cat-1', photoBlobId: 'photo-1', comment: 'Sleeps under the blue car' }),
+  encounter({ id: 'ginger', catColor: 'Orange/Ginger', behavior: 'Shy/Timid', dateTime: '2024-12-01T12:00:00.000Z', lat: 51.6 }),
+  encounter({ id: 'draft', catColor: '', behavior: '', isDraft: true })
+];
+
+const context = {
+  getCatName: (catId: string) => catId === 'cat-1' ? 'Mr Whiskers' : undefined,
+  origin: { lat: 51.5, lng: -0.12 }
+};
+
+const search = (query: string) =>
+  filterEncounters(encounters, parseSearchQuery(query), context).map(({ id }) => id);
+
+describe('parseSearchQuery', () => {
+  it('should read filters, quoted values and free text', () => {
+    const { terms, errors } = parseSearchQuery('color:black cat:"Mr Whiskers" near:1.5km blue car');
+    expect(errors).toEqual([]);
+    expect(terms).toEqual([
+      { kind: 'attribute', field: 'catColor', value: 'black' },
+      { kind: 'cat', value: 'mr whiskers' },
+      { kind: 'near', meters: 1500 },
+      { kind: 'text', value: 'blue' },
+      { kind: 'text', value: 'car' }
+    ]);
+  });
+
+  it('should report parts it does not understand and leave them out', () => {
+    const { terms, errors } = parseSearchQuery('after:yesterday near:far has:wings size:big');
+    expect(terms).toEqual([]);
+    expect(errors).toHaveLength(4);
+  });
+
+  it('should read negated filters and dates relative to now', () => {
+    const { terms, errors } = parseSearchQuery('-has:photo after:month');
+    expect(errors).toEqual([]);
+    expect(terms[0]).toEqual({ kind: 'not', term: { kind: 'has', value: 'photo' } });
+
+    const now = new Date();
+    expect(terms[1]).toEqual({ kind: 'after', date: new Date(now.getFullYear(), now.getMonth(), 1) });
+    const [week] = parseSearchQuery('after:week').terms;
+    expect(week.kind === 'after' && week.date.getDay()).toBe(1);
+  });
+
+  it('should ignore a filter that has no value yet', () => {
+    expect(parseSearchQuery('color:').terms).toEqual([]);
+    expect(usesDistance(parseSearchQuery('near:500m'))).toBe(true);
+  });
+});
+
+describe('filterEncounters', () => {
+  it('should match every part of the query', () => {
+    expect(search('')).toEqual(['whiskers', 'ginger', 'draft']);
+    expect(search('color:black behavior:friendly')).toEqual(['whiskers']);
+    expect(search('color:orange')).toEqual(['ginger']);
+    expect(search('cat:"mr whiskers" has:photo')).toEqual(['whiskers']);
+    expect(search('blue car')).toEqual(['whiskers']);
+    expect(search('is:draft')).toEqual(['draft']);
+    expect(search('-has:photo')).toEqual(['ginger', 'draft']);
+    expect(search('-color:black -is:draft')).toEqual(['ginger']);
+  });
+
+  it('should filter by date and distance', () => {
+    expect(search('after:2025-01-01')).toEqual(['whiskers', 'draft']);
+    expect(search('before:2025-01-01')).toEqual(['ginger']);
+    // The ginger cat was seen about 11km north
+    expect(search('near:500m')).toEqual(['whiskers', 'draft']);
+    expect(search('near:20km')).toHaveLength(3);
+  });
+});
+
+describe('highlighting', () => {
+  it('should mark each match once, ignoring case', () => {
+    const terms = getHighlightTerms(parseSearchQuery('color:bla black after:2025-01-01'));
+    expect(terms).toEqual(['bla', 'black']);
+    expect(splitHighlights('Black and blue', terms)).toEqual([
+      { text: 'Black', match: true },
+      { text: ' and blue', match: false }
+    ]);
+    expect(splitHighlights('Tabby', terms)).toEqual([{ text: 'Tabby', match: false }]);
+  });
+});
+
+describe('getSearchSuggestions', () => {
+  const options = { color: ['Black', 'Orange/Ginger', 'Black'], cat: ['Mr Whiskers'] };
+
+  it('should complete filter names', () => {
+    expect(getSearchSuggestions('co', options).map(({ query }) => query)).toEqual(['color:', 'coat:', 'colony:']);
+    expect(getSearchSuggestions('has:photo ', options)).toHaveLength(8);
+  });
+
+  it('should complete known values, quoting them when needed', () => {
+    expect(getSearchSuggestions('near:1km color:bl', options).map(({ query }) => query)).toEqual(['near:1km color:Black ']);
+    expect(getSearchSuggestions('cat:whis', options).map(({ query }) => query)).toEqual(['cat:"Mr Whiskers" ']);
+    expect(getSearchSuggestions('has:p', options).map(({ query }) => query)).toEqual(['has:photo ']);
+    expect(getSearchSuggestions('-has:p', options).map(({ query }) => query)).toEqual(['-has:photo ']);
+    expect(getSearchSuggestions('-ne', options).map(({ query }) => query)).toEqual(['-near:']);
+  });
+});
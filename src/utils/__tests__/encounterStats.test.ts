@@ -0,0 +1,86 @@
+/**
+ * Tests for the stats dashboard statistics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countOverTime,
+  countByField,
+  limitCounts,
+  countByWeekdayAndHour,
+  getPhotoCoverage,
+  getMostVisitedAreas,
+  getStreaks
+} from '../encounterStats';
+import type { CatEncounter } from '../../types';
+
+// Local times, so the tests do not depend on the time zone
+const encounter = (id: string, dateTime: string, overrides: Partial<CatEncounter> = {}): CatEncounter => ({
+  id,
+  lat: 51.5,
+  lng: -0.12,
+  dateTime: new Date(dateTime).toISOString(),
+  catColor: 'Black',
+  catType: 'Domestic Shorthair',
+  behavior: 'Friendly',
+  createdAt: '2025-03-01T00:00:00.000Z',
+  updatedAt: '2025-03-01T00:00:00.000Z',
+  ...overrides
+});
+
+const encounters = [
+  encounter('a', '2025-03-03T08:30:00', { photoBlobId: 'photo-a' }),
+  encounter('b', '2025-03-04T08:10:00', { catColor: 'black', colonyId: 'park' }),
+  encounter('c', '2025-03-05T21:00:00', { catColor: 'Orange/Ginger', lat: 51.6, colonyId: 'park' }),
+  encounter('d', '2025-03-17T08:45:00', { catColor: '', photoBlobId: 'photo-d1', photos: [{ blobId: 'photo-d1' }, { blobId: 'photo-d2' }] })
+];
+
+describe('encounterStats', () => {
+  it('should count encounters per interval, filling empty ones', () => {
+    expect(countOverTime(encounters, 'week')).toEqual([
+      { start: '2025-03-03', count: 3 },
+      { start: '2025-03-10', count: 0 },
+      { start: '2025-03-17', count: 1 }
+    ]);
+    expect(countOverTime(encounters, 'day')).toHaveLength(15);
+    expect(countOverTime(encounters, 'month')).toEqual([{ start: '2025-03-01', count: 4 }]);
+    expect(countOverTime([], 'day')).toEqual([]);
+  });
+
+  it('should count field values ignoring case, and group the rest as Other', () => {
+    const colors = countByField(encounters, 'catColor');
+    expect(colors).toEqual([
+      { label: 'Black', count: 2 },
+      { label: 'Not recorded', count: 1 },
+      { label: 'Orange/Ginger', count: 1 }
+    ]);
+    expect(limitCounts(colors, 2)).toEqual([{ label: 'Black', count: 2 }, { label: 'Other', count: 2 }]);
+  });
+
+  it('should count by weekday and hour', () => {
+    const table = countByWeekdayAndHour(encounters);
+    // Monday 8am twice, Tuesday 8am, Wednesday 9pm
+    expect(table[0][8]).toBe(2);
+    expect(table[1][8]).toBe(1);
+    expect(table[2][21]).toBe(1);
+    expect(table.flat().reduce((sum, count) => sum + count, 0)).toBe(4);
+  });
+
+  it('should measure photo coverage', () => {
+    expect(getPhotoCoverage(encounters)).toEqual({ total: 4, withPhotos: 2, photoCount: 3 });
+  });
+
+  it('should rank areas and name their colony', () => {
+    const [busiest, other] = getMostVisitedAreas(encounters);
+    expect(busiest).toMatchObject({ lat: 51.5, count: 3 });
+    expect(busiest.colonyId).toBeUndefined();
+    expect(other).toMatchObject({ lat: 51.6, count: 1, colonyId: 'park' });
+  });
+
+  it('should find the current and longest streaks', () => {
+    expect(getStreaks(encounters, new Date('2025-03-18T12:00:00'))).toEqual({ current: 1, longest: 3, activeDays: 4 });
+    expect(getStreaks(encounters, new Date('2025-03-17T07:00:00')).current).toBe(1);
+    expect(getStreaks(encounters, new Date('2025-03-20T12:00:00')).current).toBe(0);
+    expect(getStreaks([])).toEqual({ current: 0, longest: 0, activeDays: 0 });
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
 import {
   resizeImage,
   generateThumbnail,
@@ -10,8 +11,14 @@ import {
   isValidImageFile,
   createImageURL,
   revokeImageURL,
-  getImageDimensions
+  getImageDimensions,
+  detectImageType,
+  getImageExtension,
+  parseExif,
+  extractExifSegment,
+  removePhotoMetadata
 } from '../imageUtils';
+import { stripJpegMetadata } from '../jpegMetadata';
 
 // Mock Canvas API
 const mockCanvas = {
@@ -254,4 +261,139 @@ describe('imageUtils', () => {
       await expect(dimensionsPromise).rejects.toThrow('Failed to load image');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('detectImageType', () => {
+  const bytes = (...values: Array<number | string>) => new Uint8Array(
+    values.flatMap(value => typeof value === 'string' ? [...value].map(char => char.charCodeAt(0)) : [value])
+  );
+
+  it('should recognise common photo formats from their first bytes', () => {
+    expect(detectImageType(bytes(0xff, 0xd8, 0xff, 0xe1))).toBe('image/jpeg');
+    expect(detectImageType(bytes(0x89, 'PNG', 0x0d, 0x0a))).toBe('image/png');
+    expect(detectImageType(bytes('GIF89a'))).toBe('image/gif');
+    expect(detectImageType(bytes('RIFF', 0, 0, 0, 0, 'WEBP'))).toBe('image/webp');
+    expect(detectImageType(bytes(0, 0, 0, 24, 'ftypheic'))).toBe('image/heic');
+    expect(detectImageType(bytes(0, 0, 0, 24, 'ftypavif'))).toBe('image/avif');
+  });
+
+  it('should return undefined for other content', () => {
+    expect(detectImageType(bytes('{"encounters"'))).toBeUndefined();
+    expect(detectImageType(new Uint8Array())).toBeUndefined();
+  });
+});
+
+describe('getImageExtension', () => {
+  it('should map image types to file extensions', () => {
+    expect(getImageExtension('image/jpeg')).toBe('jpg');
+    expect(getImageExtension('image/webp')).toBe('webp');
+    expect(getImageExtension('application/octet-stream')).toBe('bin');
+  });
+});
+
+describe('EXIF parsing', () => {
+  type Entry = [tag: number, type: number, count: number, value: number];
+
+  // A little-endian TIFF block with IFD0, an Exif IFD and a GPS IFD
+  const buildTiff = (gps: { latRef: string; lat: number[]; lngRef: string; lng: number[] }) => {
+    const view = new DataView(new ArrayBuffer(256));
+    const writeIfd = (start: number, entries: Entry[]) => {
+      view.setUint16(start, entries.length, true);
+      entries.forEach(([tag, type, count, value], i) => {
+        const at = start + 2 + i * 12;
+        view.setUint16(at, tag, true);
+        view.setUint16(at + 2, type, true);
+        view.setUint32(at + 4, count, true);
+        if (type === 3) view.setUint16(at + 8, value, true);
+        else view.setUint32(at + 8, value, true);
+      });
+    };
+    const writeAscii = (at: number, text: string) => [...text].forEach((char, i) => view.setUint8(at + i, char.charCodeAt(0)));
+    const writeRationals = (at: number, values: number[]) => values.forEach((value, i) => {
+      view.setUint32(at + i * 8, value * 100, true);
+      view.setUint32(at + i * 8 + 4, 100, true);
+    });
+
+    writeAscii(0, 'II');
+    view.setUint16(2, 42, true);
+    view.setUint32(4, 8, true);
+    writeIfd(8, [[0x0112, 3, 1, 6], [0x8769, 4, 1, 50], [0x8825, 4, 1, 108]]);
+    writeIfd(50, [[0x9003, 2, 20, 80], [0x9011, 2, 7, 100]]);
+    writeAscii(80, '2024:05:01 14:30:00');
+    writeAscii(100, '+02:00');
+    writeIfd(108, [[0x0001, 2, 2, 0], [0x0002, 5, 3, 162], [0x0003, 2, 2, 0], [0x0004, 5, 3, 186]]);
+    writeAscii(108 + 2 + 8, gps.latRef);
+    writeAscii(108 + 2 + 24 + 8, gps.lngRef);
+    writeRationals(162, gps.lat);
+    writeRationals(186, gps.lng);
+    return new Uint8Array(view.buffer, 0, 210);
+  };
+
+  // A JPEG header with a JFIF segment before the EXIF one
+  const buildJpeg = (tiff: Uint8Array) => {
+    const exifLength = 2 + 6 + tiff.length;
+    return new Uint8Array([
+      0xff, 0xd8,
+      0xff, 0xe0, 0x00, 0x10, ...new Array(14).fill(0),
+      0xff, 0xe1, exifLength >> 8, exifLength & 0xff, ...[...'Exif'].map(c => c.charCodeAt(0)), 0, 0, ...tiff,
+      0xff, 0xda, 0x00, 0x02
+    ]);
+  };
+
+  it('should read location, capture time and orientation', () => {
+    const metadata = parseExif(buildJpeg(buildTiff({ latRef: 'S', lat: [33, 51, 36], lngRef: 'E', lng: [151, 12, 18] })));
+
+    expect(metadata?.lat).toBeCloseTo(-33.86, 6);
+    expect(metadata?.lng).toBeCloseTo(151.205, 6);
+    expect(metadata?.dateTime).toBe('2024-05-01T12:30:00.000Z');
+    expect(metadata?.orientation).toBe(6);
+  });
+
+  it('should ignore a 0,0 position written without a GPS fix', () => {
+    const metadata = parseExif(buildJpeg(buildTiff({ latRef: 'N', lat: [0, 0, 0], lngRef: 'E', lng: [0, 0, 0] })));
+
+    expect(metadata?.lat).toBeUndefined();
+    expect(metadata?.dateTime).toBe('2024-05-01T12:30:00.000Z');
+  });
+
+  it('should return null without EXIF data', () => {
+    expect(parseExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]))).toBeNull();
+    expect(parseExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+
+  it('should copy the EXIF segment with the orientation reset to upright', () => {
+    const jpeg = buildJpeg(buildTiff({ latRef: 'N', lat: [51, 30, 0], lngRef: 'W', lng: [0, 7, 30] }));
+    const segment = extractExifSegment(jpeg)!;
+
+    expect(segment[0]).toBe(0xff);
+    expect(segment[1]).toBe(0xe1);
+    const metadata = parseExif(new Uint8Array([0xff, 0xd8, ...segment, 0xff, 0xda, 0x00, 0x02]));
+    expect(metadata?.orientation).toBe(1);
+    expect(metadata?.lat).toBeCloseTo(51.5, 6);
+    expect(metadata?.lng).toBeCloseTo(-0.125, 6);
+    // The source bytes are left untouched
+    expect(parseExif(jpeg)?.orientation).toBe(6);
+    expect(extractExifSegment(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]))).toBeNull();
+  });
+
+  it('should strip EXIF and keep the other segments and image data', () => {
+    const jpeg = buildJpeg(buildTiff({ latRef: 'N', lat: [51, 30, 0], lngRef: 'W', lng: [0, 7, 30] }));
+    const stripped = stripJpegMetadata(new Uint8Array([...jpeg, 1, 2, 3, 0xff, 0xd9]));
+
+    expect(parseExif(stripped)).toBeNull();
+    expect([...stripped]).toEqual([...jpeg.subarray(0, 20), 0xff, 0xda, 0x00, 0x02, 1, 2, 3, 0xff, 0xd9]);
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    expect(stripJpegMetadata(png)).toBe(png);
+  });
+
+  it('should publish upright JPEGs without their metadata', async () => {
+    const tiff = buildTiff({ latRef: 'N', lat: [51, 30, 0], lngRef: 'W', lng: [0, 7, 30] });
+    // Orientation 1, so the image data can be kept
+    tiff[8 + 2 + 8] = 1;
+    const photo = await removePhotoMetadata(new NodeBlob([buildJpeg(tiff)], { type: 'image/jpeg' }) as unknown as Blob);
+
+    expect(photo.type).toBe('image/jpeg');
+    // Only the JFIF segment and the start of the image data are left
+    expect(photo.size).toBe(24);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for photo editor edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  NO_PHOTO_EDITS,
+  MIN_REGION_SIZE,
+  hasPhotoEdits,
+  hidesPhotoContent,
+  regionBetween,
+  moveRegion,
+  resizeRegion,
+  rotatePhotoEdits,
+  editedSize,
+  type PhotoEdits
+} from '../photoEdits';
+
+describe('regions', () => {
+  it('should span two points in any order and stay inside the photo', () => {
+    expect(regionBetween({ x: 0.75, y: 0.5 }, { x: 0.25, y: 0 })).toEqual({ x: 0.25, y: 0, width: 0.5, height: 0.5 });
+    expect(regionBetween({ x: -0.5, y: 0.5 }, { x: 0.5, y: 1.5 })).toEqual({ x: 0, y: 0.5, width: 0.5, height: 0.5 });
+  });
+
+  it('should move and resize without leaving the photo', () => {
+    const region = { x: 0.5, y: 0.5, width: 0.25, height: 0.25 };
+    expect(moveRegion(region, 0.5, -0.75)).toEqual({ x: 0.75, y: 0, width: 0.25, height: 0.25 });
+    expect(resizeRegion(region, 1, -1)).toEqual({ x: 0.5, y: 0.5, width: 0.5, height: MIN_REGION_SIZE });
+  });
+});
+
+describe('rotatePhotoEdits', () => {
+  const edits: PhotoEdits = {
+    rotation: 0,
+    crop: { x: 0, y: 0, width: 0.5, height: 0.25 },
+    blurs: [{ type: 'brush', points: [{ x: 0.25, y: 0 }], radius: 0.04 }]
+  };
+
+  it('should turn the crop and blurred areas with the photo', () => {
+    const turned = rotatePhotoEdits(edits, 1);
+    expect(turned.rotation).toBe(90);
+    // The top left corner ends up top right
+    expect(turned.crop).toEqual({ x: 0.75, y: 0, width: 0.25, height: 0.5 });
+    expect(turned.blurs[0]).toEqual({ type: 'brush', points: [{ x: 1, y: 0.25 }], radius: 0.04 });
+  });
+
+  it('should undo a turn with a turn the other way', () => {
+    expect(rotatePhotoEdits(edits, -1).rotation).toBe(270);
+    expect(rotatePhotoEdits(rotatePhotoEdits(edits, 1), -1)).toEqual(edits);
+  });
+});
+
+describe('editedSize', () => {
+  it('should swap the sides for quarter turns and apply the crop', () => {
+    expect(editedSize(4000, 3000, NO_PHOTO_EDITS)).toEqual({ width: 4000, height: 3000 });
+    expect(editedSize(4000, 3000, { rotation: 90, blurs: [] })).toEqual({ width: 3000, height: 4000 });
+    expect(editedSize(4000, 3000, { rotation: 180, crop: { x: 0.1, y: 0.1, width: 0.5, height: 0.25 }, blurs: [] }))
+      .toEqual({ width: 2000, height: 750 });
+  });
+});
+
+describe('hasPhotoEdits', () => {
+  it('should tell edits that hide content from a plain rotation', () => {
+    const rotated: PhotoEdits = { rotation: 90, blurs: [] };
+    const blurred: PhotoEdits = { rotation: 0, blurs: [{ type: 'box', region: { x: 0, y: 0, width: 0.5, height: 0.5 } }] };
+
+    expect(hasPhotoEdits(NO_PHOTO_EDITS)).toBe(false);
+    expect(hasPhotoEdits(rotated)).toBe(true);
+    expect(hidesPhotoContent(rotated)).toBe(false);
+    expect(hidesPhotoContent(blurred)).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for perceptual photo hashing and match ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  HASH_SAMPLE_SIZE,
+  computeDHash,
+  toGrayscale,
+  hammingDistance,
+  distanceInMeters,
+  rankPhotoMatches,
+  type PhotoMatchCandidate
+} from '../photoMatching';
+
+// Grayscale sample whose brightness follows f(x, y)
+const sample = (f: (x: number, y: number) => number) =>
+  Array.from({ length: HASH_SAMPLE_SIZE * HASH_SAMPLE_SIZE }, (_, i) => f(i % HASH_SAMPLE_SIZE, Math.floor(i / HASH_SAMPLE_SIZE)));
+
+describe('computeDHash', () => {
+  it('should set a bit wherever brightness falls to the right', () => {
+    expect(computeDHash(sample(x => 255 - x))).toBe('ffffffffffffffff');
+    expect(computeDHash(sample(x => x))).toBe('0000000000000000');
+    // Only the top half darkens to the right
+    expect(computeDHash(sample((x, y) => y < HASH_SAMPLE_SIZE / 2 ? 255 - x : x))).toBe('ffffffff00000000');
+  });
+
+  it('should give similar photos similar hashes', () => {
+    const photo = sample((x, y) => 128 + 100 * Math.sin(x / 9) * Math.cos(y / 13));
+    const brighter = photo.map(value => value * 0.9 + 20);
+    const other = sample((x, y) => 128 + 100 * Math.cos(x / 5 + y / 7));
+
+    expect(hammingDistance(computeDHash(photo), computeDHash(brighter))).toBe(0);
+    expect(hammingDistance(computeDHash(photo), computeDHash(other))).toBeGreaterThan(20);
+  });
+
+  it('should reject samples of the wrong size', () => {
+    expect(() => computeDHash([1, 2, 3])).toThrow();
+  });
+});
+
+describe('toGrayscale', () => {
+  it('should weigh the colour channels by luminance', () => {
+    expect(toGrayscale([255, 255, 255, 255, 0, 0, 0, 255, 0, 255, 0, 255])).toEqual([
+      expect.closeTo(255, 6), 0, expect.closeTo(149.685, 6)
+    ]);
+  });
+});
+
+describe('distanceInMeters', () => {
+  it('should measure great-circle distances', () => {
+    expect(distanceInMeters({ lat: 0, lng: 0 }, { lat: 0, lng: 1 })).toBeCloseTo(111195, -1);
+    expect(distanceInMeters({ lat: 40.7128, lng: -74.006 }, { lat: 40.7128, lng: -74.006 })).toBe(0);
+  });
+});
+
+describe('rankPhotoMatches', () => {
+  const target = { hashes: ['ffffffffffffffff'], lat: 40.7128, lng: -74.006, catColor: 'Orange', coatLength: 'Shorthair', catType: 'Tabby' };
+
+  it('should suggest each known cat once, ranked by photo, details and distance', () => {
+    const candidates: PhotoMatchCandidate[] = [
+      { catId: 'far', hash: 'ffffffffffffffff', lat: 41.5, lng: -74.006, catColor: 'Black' },
+      { catId: 'near', hash: 'fffffffffffffff0', lat: 40.7129, lng: -74.006, catColor: 'Orange', coatLength: 'Shorthair', catType: 'Tabby' },
+      { catId: 'near', hash: '00ffffffffffffff' },
+      { catId: 'unrelated', hash: '0000000000000000', lat: 40.7128, lng: -74.006, catColor: 'Orange' }
+    ];
+
+    const matches = rankPhotoMatches(target, candidates);
+
+    expect(matches.map(match => match.catId)).toEqual(['near', 'far']);
+    expect(matches[0]).toMatchObject({ photoSimilarity: 60 / 64, attributesMatched: 3 });
+    expect(matches[0].distance).toBeCloseTo(11, 0);
+    expect(matches[1]).toMatchObject({ photoSimilarity: 1, attributesMatched: 0 });
+  });
+
+  it('should suggest nothing without photos to compare', () => {
+    expect(rankPhotoMatches({ ...target, hashes: [] }, [{ catId: 'cat', hash: 'ffffffffffffffff' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for text analysis of the full-text encounter index
+ */
+
+import { describe, it, expect } from 'vitest';
+import { foldText, stemWord, tokenizeText, getEncounterPostings } from '../searchIndex';
+import type { CatEncounter } from '../../types';
+
+const encounter: CatEncounter = {
+  id: 'encounter-1',
+  lat: 51.5,
+  lng: -0.12,
+  dateTime: '2025-03-10T12:00:00.000Z',
+  catColor: 'Black',
+  catType: 'Domestic Shorthair',
+  behavior: 'Friendly',
+  comment: 'A friendly black cat sleeping by the Café',
+  createdAt: '2025-03-10T12:00:00.000Z',
+  updatedAt: '2025-03-10T12:00:00.000Z'
+};
+
+describe('searchIndex', () => {
+  it('should fold case and accents', () => {
+    expect(foldText('Café CRÈME')).toBe('cafe creme');
+  });
+
+  it('should reduce words to a shared stem', () => {
+    expect(stemWord('kitties')).toBe('kitty');
+    expect(stemWord('running')).toBe('run');
+    expect(stemWord('hissed')).toBe('hiss');
+    expect(stemWord('purrs')).toBe(stemWord('purring'));
+    expect(stemWord('friendly')).toBe('friend');
+  });
+
+  it('should drop stop words and single letters', () => {
+    expect(tokenizeText('The cat is on a mat, sleeping!')).toEqual(['cat', 'mat', 'sleep']);
+  });
+
+  it('should add up the weights of every field a term appears in', () => {
+    const postings = getEncounterPostings(encounter, 'Mr Whiskers');
+    const weightOf = (term: string) => postings.find(posting => posting.term === term)?.weight;
+
+    expect(weightOf('whisker')).toBe(3);
+    expect(weightOf('black')).toBe(3);
+    expect(weightOf('friend')).toBe(3);
+    expect(weightOf('cafe')).toBe(1);
+    expect(postings.every(posting => posting.encounterId === 'encounter-1')).toBe(true);
+  });
+
+  it('should not index deleted encounters', () => {
+    expect(getEncounterPostings({ ...encounter, isDeleted: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for share link snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fuzzLocation, createEncounterSnapshot, createCatSnapshot, SHARE_LOCATION_RADIUS_METERS } from '../shareSnapshot';
+import type { Cat, CatEncounter } from '../../types';
+
+const encounter = (id: string, dateTime: string, overrides: Partial<CatEncounter> = {}): CatEncounter => ({
+  id,
+  lat: 40.712776,
+  lng: -74.005974,
+  dateTime,
+  catColor: 'Orange',
+  coatLength: 'Shorthair',
+  catType: 'Tabby',
+  behavior: 'Friendly',
+  comment: 'Sits by the bakery door',
+  createdAt: dateTime,
+  updatedAt: dateTime,
+  ...overrides
+});
+
+const cat: Cat = {
+  id: 'cat-1',
+  name: 'Marmalade',
+  distinguishingMarks: 'Notched left ear',
+  notes: 'Loves sardines',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+// Equirectangular distance, accurate enough at these scales
+function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const dLat = (a.lat - b.lat) * 111_320;
+  const dLng = (a.lng - b.lng) * 111_320 * Math.cos(a.lat * Math.PI / 180);
+  return Math.hypot(dLat, dLng);
+}
+
+describe('fuzzLocation', () => {
+  it('should keep the real spot inside the share radius', () => {
+    const spot = { lat: 40.712776, lng: -74.005974 };
+    for (const [r1, r2] of [[0, 0], [1, 0], [1, 0.25], [1, 0.5], [1, 0.75], [0.5, 0.6]]) {
+      const values = [r1, r2];
+      const fuzzed = fuzzLocation(spot.lat, spot.lng, SHARE_LOCATION_RADIUS_METERS, () => values.shift()!);
+      expect(distanceMeters(spot, fuzzed)).toBeLessThan(SHARE_LOCATION_RADIUS_METERS);
+    }
+  });
+
+  it('should round to three decimals', () => {
+    const fuzzed = fuzzLocation(40.712776, -74.005974, SHARE_LOCATION_RADIUS_METERS, () => 0.5);
+
+    expect(fuzzed.lat.toString()).toMatch(/^-?\d+(\.\d{1,3})?$/);
+    expect(fuzzed.lng.toString()).toMatch(/^-?\d+(\.\d{1,3})?$/);
+  });
+});
+
+describe('createEncounterSnapshot', () => {
+  it('should describe the encounter without its exact location', () => {
+    const snapshot = createEncounterSnapshot(encounter('e1', '2024-03-01T10:00:00.000Z'));
+
+    expect(snapshot).toMatchObject({
+      kind: 'encounter',
+      title: 'Orange Tabby',
+      description: 'Sits by the bakery door',
+      seenAt: '2024-03-01T10:00:00.000Z',
+      radiusMeters: SHARE_LOCATION_RADIUS_METERS
+    });
+    expect(snapshot.details).toContainEqual({ label: 'Behavior', value: 'Friendly' });
+    expect(snapshot.lat).not.toBe(40.712776);
+    expect(snapshot).not.toHaveProperty('id');
+  });
+
+  it('should use the linked cat\'s name as the title', () => {
+    expect(createEncounterSnapshot(encounter('e1', '2024-03-01T10:00:00.000Z'), cat).title).toBe('Marmalade');
+  });
+});
+
+describe('createCatSnapshot', () => {
+  it('should locate the cat at its latest encounter and count its sightings', () => {
+    const encounters = [
+      encounter('e1', '2024-03-01T10:00:00.000Z', { catId: 'cat-1', behavior: 'Shy' }),
+      encounter('e2', '2024-03-05T10:00:00.000Z', { catId: 'cat-1', lat: 51.5, lng: -0.12 }),
+      encounter('e3', '2024-03-09T10:00:00.000Z', { catId: 'cat-1', isDeleted: true }),
+      encounter('e4', '2024-03-10T10:00:00.000Z')
+    ];
+
+    const snapshot = createCatSnapshot(cat, encounters);
+
+    expect(snapshot.kind).toBe('cat');
+    expect(snapshot.seenAt).toBe('2024-03-05T10:00:00.000Z');
+    expect(distanceMeters({ lat: 51.5, lng: -0.12 }, snapshot)).toBeLessThan(SHARE_LOCATION_RADIUS_METERS);
+    expect(snapshot.details).toContainEqual({ label: 'Marks', value: 'Notched left ear' });
+    expect(snapshot.details).toContainEqual({ label: 'Sightings', value: '2' });
+    expect(snapshot.description).toBe('Loves sardines');
+  });
+
+  it('should refuse a cat without encounters', () => {
+    expect(() => createCatSnapshot(cat, [])).toThrow('Marmalade has no encounters to share');
+  });
+});
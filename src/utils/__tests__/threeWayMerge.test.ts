@@ -0,0 +1,137 @@
+/**
+ * Unit tests for field-level three-way merging
+ */
+
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge, applyResolutions, recordsDiffer, valuesEqual } from '../threeWayMerge';
+
+interface Note {
+  id: string;
+  updatedAt: string;
+  title: string;
+  body: string;
+  photoBlobId?: string;
+  photos?: Array<{ blobId?: string; driveId?: string }>;
+  health?: { tnrStatus?: string; vaccinations?: Array<{ name: string; date: string }> };
+}
+
+const base: Note = { id: 'n1', updatedAt: '2024-01-01T00:00:00.000Z', title: 'Tabby', body: 'Near the bakery' };
+
+describe('threeWayMerge', () => {
+  it('should take each side\'s edits when they touch different fields', () => {
+    const local = { ...base, title: 'Orange tabby', updatedAt: '2024-01-02T00:00:00.000Z' };
+    const cloud = { ...base, body: 'Behind the bakery', updatedAt: '2024-01-03T00:00:00.000Z' };
+
+    const { merged, conflicts } = threeWayMerge(base, local, cloud);
+
+    expect(conflicts).toEqual([]);
+    expect(merged).toEqual({ ...base, title: 'Orange tabby', body: 'Behind the bakery', updatedAt: '2024-01-03T00:00:00.000Z' });
+  });
+
+  it('should report a conflict when both sides change the same field differently', () => {
+    const local = { ...base, title: 'Orange tabby', updatedAt: '2024-01-02T00:00:00.000Z' };
+    const cloud = { ...base, title: 'Ginger', updatedAt: '2024-01-03T00:00:00.000Z' };
+
+    const { merged, conflicts } = threeWayMerge(base, local, cloud);
+
+    expect(merged.title).toBe('Orange tabby');
+    expect(conflicts).toEqual([{
+      field: 'title',
+      localValue: 'Orange tabby',
+      cloudValue: 'Ginger',
+      baseValue: 'Tabby',
+      timestamp: '2024-01-03T00:00:00.000Z'
+    }]);
+  });
+
+  it('should not conflict when both sides make the same change', () => {
+    const local = { ...base, title: 'Ginger' };
+    const cloud = { ...base, title: 'Ginger' };
+
+    expect(threeWayMerge(base, local, cloud).conflicts).toEqual([]);
+  });
+
+  it('should treat every differing field as a conflict without a base', () => {
+    const local = { ...base, title: 'Orange tabby' };
+    const cloud = { ...base, body: 'Behind the bakery' };
+
+    const { conflicts } = threeWayMerge(undefined, local, cloud);
+
+    expect(conflicts.map(c => c.field)).toEqual(['title', 'body']);
+    expect(conflicts[0]).not.toHaveProperty('baseValue');
+  });
+
+  it('should keep device-local fields from this device', () => {
+    const local = { ...base, photoBlobId: 'local-blob' };
+    const cloud = { ...base, photoBlobId: 'other-blob' };
+
+    const { merged, conflicts } = threeWayMerge(base, local, cloud);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.photoBlobId).toBe('local-blob');
+    expect(recordsDiffer(local, cloud)).toBe(false);
+  });
+
+  it('should compare photo lists by their provider IDs only', () => {
+    const withPhotos = { ...base, photos: [{ blobId: 'base-blob', driveId: 'drive-1' }] };
+    const local = { ...withPhotos, photos: [{ blobId: 'local-blob', driveId: 'drive-1' }] };
+    const cloud = { ...withPhotos, photos: [{ blobId: 'other-blob', driveId: 'drive-1' }, { driveId: 'drive-2' }] };
+
+    expect(recordsDiffer(local, { ...cloud, photos: [{ blobId: 'other-blob', driveId: 'drive-1' }] })).toBe(false);
+
+    const { merged, conflicts } = threeWayMerge(withPhotos, local, cloud);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.photos).toEqual(cloud.photos);
+  });
+
+  it('should not see a change when nested keys come back in another order', () => {
+    const local = {
+      ...base,
+      health: { tnrStatus: 'neutered', vaccinations: [{ name: 'Rabies', date: '2024-01-01' }] },
+      photos: [{ blobId: 'local-blob', driveId: 'drive-1' }]
+    };
+    // As another device or a provider's JSON round trip may write it
+    const cloud = {
+      photos: [{ driveId: 'drive-1', blobId: 'other-blob' }],
+      health: { vaccinations: [{ date: '2024-01-01', name: 'Rabies' }], tnrStatus: 'neutered' },
+      ...base
+    };
+
+    expect(recordsDiffer(local, cloud)).toBe(false);
+    expect(threeWayMerge(undefined, local, cloud).conflicts).toEqual([]);
+  });
+});
+
+describe('valuesEqual', () => {
+  it('should compare nested values structurally', () => {
+    expect(valuesEqual({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 })).toBe(true);
+    expect(valuesEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true);
+    expect(valuesEqual({ a: [1, 2] }, { a: [2, 1] })).toBe(false);
+    expect(valuesEqual({ a: null }, { a: undefined })).toBe(false);
+    expect(valuesEqual([], {})).toBe(false);
+  });
+});
+
+describe('applyResolutions', () => {
+  const local = { ...base, title: 'Orange tabby', body: 'Near the bakery at night' };
+  const conflicts = [
+    { field: 'title', localValue: 'Orange tabby', cloudValue: 'Ginger', timestamp: base.updatedAt },
+    { field: 'body', localValue: 'Near the bakery at night', cloudValue: 'Behind the bakery', timestamp: base.updatedAt }
+  ];
+
+  it('should apply local, cloud and merged choices per field', () => {
+    const resolved = applyResolutions(local, conflicts, {
+      title: { action: 'use_cloud' },
+      body: { action: 'merge', mergedValue: 'Behind the bakery at night' }
+    });
+
+    expect(resolved.title).toBe('Ginger');
+    expect(resolved.body).toBe('Behind the bakery at night');
+  });
+
+  it('should throw when a field has no resolution', () => {
+    expect(() => applyResolutions(local, conflicts, { title: { action: 'use_local' } }))
+      .toThrow('No resolution chosen for body');
+  });
+});
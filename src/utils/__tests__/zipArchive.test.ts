@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the ZIP archive writer and reader
+ */
+
+import { describe, it, expect } from 'vitest';
+// jsdom's Blob cannot be read back, so use Node's
+import { Blob } from 'node:buffer';
+import { crc32, createZipStream, readZipEntries, type ZipEntryInput } from '../zipArchive';
+
+// Written by Python's zipfile with deflate compression, as OS zip tools do
+const DEFLATED_ZIP =
+  'UEsDBBQAAAAIAA6gUl0AAAAAAgAAAAAAAAAGAAAAbm90ZXMvAwBQSwMEFAAAAAgADqBSXWcS5vYiAAAAdAAAAA8AAABub3Rlcy9oZWxsby50eHTz' +
+  'SM3JyVdIK8rPVUhUSElNy0ksSU1RSM0rKapUVPCgjSQAUEsBAhQDFAAAAAgADqBSXQAAAAACAAAAAAAAAAYAAAAAAAAAAAAQAP1BAAAAAG5vdGVz' +
+  'L1BLAQIUAxQAAAAIAA6gUl1nEub2IgAAAHQAAAAPAAAAAAAAAAAAAACAASYAAABub3Rlcy9oZWxsby50eHRQSwUGAAAAAAIAAgBxAAAAdQAAAAAA';
+
+async function zip(entries: ZipEntryInput[]): Promise<globalThis.Blob> {
+  return new Response(createZipStream(entries)).blob();
+}
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should continue across chunks', () => {
+    const encoder = new TextEncoder();
+    expect(crc32(encoder.encode('6789'), crc32(encoder.encode('12345')))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZipStream and readZipEntries', () => {
+  it('should round-trip text and binary entries', async () => {
+    const photo = new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3])], { type: 'image/jpeg' });
+    const archive = await zip([
+      { name: 'manifest.json', data: '{"format":"test","name":"Café"}' },
+      { name: 'photos/ab12.jpg', data: photo as unknown as globalThis.Blob }
+    ]);
+
+    const entries = await readZipEntries(archive);
+
+    expect(entries.map(entry => [entry.name, entry.size])).toEqual([['manifest.json', 32], ['photos/ab12.jpg', 7]]);
+    expect(JSON.parse(await entries[0].text())).toEqual({ format: 'test', name: 'Café' });
+    const restored = await entries[1].blob('image/jpeg');
+    expect(restored.type).toBe('image/jpeg');
+    expect([...new Uint8Array(await restored.arrayBuffer())]).toEqual([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+  });
+
+  it('should write entries one at a time from an async source', async () => {
+    const pulled: string[] = [];
+    async function* entries(): AsyncGenerator<ZipEntryInput> {
+      for (const name of ['a.json', 'b.json']) {
+        pulled.push(name);
+        yield { name, data: `"${name}"` };
+      }
+    }
+
+    const reader = createZipStream(entries()).getReader();
+    await reader.read();
+    expect(pulled).toEqual(['a.json']);
+    await reader.cancel();
+  });
+
+  it('should read an empty archive', async () => {
+    expect(await readZipEntries(await zip([]))).toEqual([]);
+  });
+
+  it('should read deflated entries and skip folders', async () => {
+    const archive = new Blob([Uint8Array.from(atob(DEFLATED_ZIP), char => char.charCodeAt(0))]);
+
+    const entries = await readZipEntries(archive as unknown as globalThis.Blob);
+
+    expect(entries.map(entry => entry.name)).toEqual(['notes/hello.txt']);
+    expect(await entries[0].text()).toBe('Hello from a deflated entry! '.repeat(4));
+  });
+
+  it('should reject files that are not ZIP archives', async () => {
+    await expect(readZipEntries(new Blob(['{"encounters":[]}']) as unknown as globalThis.Blob)).rejects.toThrow('Not a ZIP archive');
+  });
+});
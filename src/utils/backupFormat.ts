@@ -0,0 +1,177 @@
+/**
+ * Versioned backup format shared by JSON exports and Google Drive files
+ * Older backups are upgraded one step at a time until they reach the current version.
+ */
+
+import { inferCoatLength } from '../models/CatEncounter';
+
+export const CURRENT_BACKUP_VERSION = '1.1.0';
+
+// Version assigned to backups written before the format carried a version field
+export const LEGACY_BACKUP_VERSION = '0.0.0';
+
+export type BackupDocument = Record<string, unknown>;
+
+// Zip backups keep each part in its own file and photos as their original binaries
+export const BACKUP_ARCHIVE_EXTENSION = '.catalog.zip';
+export const BACKUP_ARCHIVE_FORMAT = 'cat-a-log-backup';
+
+export const BACKUP_ARCHIVE_FILES = {
+  manifest: 'manifest.json',
+  encounters: 'encounters.json',
+  cats: 'cats.json',
+  colonies: 'colonies.json',
+  preferences: 'preferences.json'
+} as const;
+
+/**
+ * manifest.json of a zip backup
+ */
+export interface BackupArchiveManifest {
+  format: typeof BACKUP_ARCHIVE_FORMAT;
+  version: string;
+  exportedAt: string;
+  encounterCount: number;
+  catCount: number;
+  colonyCount?: number;  // Absent in archives written before colonies existed
+  photos: Array<{ id: string; path: string; type: string; size: number }>;
+}
+
+/**
+ * A single upgrade from one backup version to the next
+ */
+export interface BackupUpgrade {
+  fromVersion: string;
+  toVersion: string;
+  description: string;
+  upgrade(data: BackupDocument): BackupDocument;
+}
+
+/**
+ * Result of running a backup through the upgrade chain
+ */
+export interface BackupUpgradeResult {
+  data: BackupDocument;
+  originalVersion: string;
+  appliedUpgrades: string[];
+  isNewerVersion: boolean;
+}
+
+/**
+ * Ordered upgrade chain. Append new steps here when the backup format changes.
+ */
+export const BACKUP_UPGRADES: BackupUpgrade[] = [
+  {
+    fromVersion: LEGACY_BACKUP_VERSION,
+    toVersion: '1.0.0',
+    description: 'Wrap unversioned Drive files and bare encounter arrays',
+    upgrade(data) {
+      // Bare arrays are wrapped by upgradeBackup; Drive files only lacked photos
+      return {
+        ...data,
+        photos: data.photos && typeof data.photos === 'object' ? data.photos : {}
+      };
+    }
+  },
+  {
+    fromVersion: '1.0.0',
+    toVersion: '1.1.0',
+    description: 'Add known cats and backfill coatLength on encounters',
+    upgrade(data) {
+      const encounters = Array.isArray(data.encounters)
+        ? data.encounters.map((encounter: unknown) => {
+            if (!encounter || typeof encounter !== 'object') return encounter;
+            const record = encounter as { coatLength?: unknown; catType?: unknown };
+            return record.coatLength
+              ? record
+              : { ...record, coatLength: inferCoatLength(typeof record.catType === 'string' ? record.catType : undefined) };
+          })
+        : data.encounters;
+
+      return {
+        ...data,
+        encounters,
+        cats: Array.isArray(data.cats) ? data.cats : []
+      };
+    }
+  }
+];
+
+/**
+ * Normalizes a version string to major.minor.patch ("1.0" becomes "1.0.0")
+ */
+export function normalizeBackupVersion(version: unknown): string {
+  if (typeof version !== 'string' || !/^\d+(\.\d+){0,2}$/.test(version.trim())) {
+    return LEGACY_BACKUP_VERSION;
+  }
+  const parts = version.trim().split('.');
+  while (parts.length < 3) parts.push('0');
+  return parts.map(part => String(Number(part))).join('.');
+}
+
+/**
+ * Compares two normalized versions, returning a negative, zero or positive number
+ */
+export function compareBackupVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+/**
+ * Returns the upgrade steps needed to bring a backup up to targetVersion
+ */
+export function getBackupUpgradePath(
+  fromVersion: string,
+  targetVersion: string = CURRENT_BACKUP_VERSION,
+  upgrades: BackupUpgrade[] = BACKUP_UPGRADES
+): BackupUpgrade[] {
+  const path: BackupUpgrade[] = [];
+  let version = fromVersion;
+
+  while (compareBackupVersions(version, targetVersion) < 0) {
+    const step = upgrades.find(u => u.fromVersion === version);
+    if (!step) {
+      throw new Error(`No backup upgrade registered from version ${version}`);
+    }
+    path.push(step);
+    version = step.toVersion;
+  }
+
+  return path;
+}
+
+/**
+ * Upgrades backup data of any known version to the current format.
+ * Bare arrays (the oldest Drive format) are treated as a list of encounters.
+ * Backups from a newer app version are returned unchanged with isNewerVersion set.
+ */
+export function upgradeBackup(raw: unknown, upgrades: BackupUpgrade[] = BACKUP_UPGRADES): BackupUpgradeResult {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Backup data must be a JSON object');
+  }
+
+  const document: BackupDocument = Array.isArray(raw) ? { encounters: raw } : { ...(raw as BackupDocument) };
+  const hasVersion = !Array.isArray(raw) && typeof document.version === 'string';
+  const originalVersion = hasVersion ? normalizeBackupVersion(document.version) : LEGACY_BACKUP_VERSION;
+
+  if (compareBackupVersions(originalVersion, CURRENT_BACKUP_VERSION) > 0) {
+    return { data: document, originalVersion, appliedUpgrades: [], isNewerVersion: true };
+  }
+
+  let data = document;
+  const appliedUpgrades: string[] = [];
+  for (const step of getBackupUpgradePath(originalVersion, CURRENT_BACKUP_VERSION, upgrades)) {
+    data = { ...step.upgrade(data), version: step.toVersion };
+    appliedUpgrades.push(`${step.fromVersion} -> ${step.toVersion}`);
+  }
+
+  if (appliedUpgrades.length > 0) {
+    console.log(`Backup upgraded from ${originalVersion} to ${CURRENT_BACKUP_VERSION}`);
+  }
+
+  return { data: { ...data, version: CURRENT_BACKUP_VERSION }, originalVersion, appliedUpgrades, isNewerVersion: false };
+}
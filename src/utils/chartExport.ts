@@ -0,0 +1,74 @@
+/**
+ * Saves dashboard charts as standalone SVG or PNG files
+ */
+
+import { downloadFile } from './download';
+
+// Charts draw text and lines in currentColor, which a standalone file resolves from here
+const EXPORT_COLOR = '#1f2937';
+const EXPORT_BACKGROUND = '#ffffff';
+const PNG_SCALE = 2;
+
+export type ChartFormat = 'svg' | 'png';
+
+/**
+ * Standalone SVG markup of a chart on a white background
+ */
+export function serializeChart(svg: SVGSVGElement): string {
+  const { width, height } = svg.viewBox.baseVal;
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+  copy.setAttribute('style', `color: ${EXPORT_COLOR}; font-family: system-ui, sans-serif`);
+  copy.removeAttribute('class');
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', EXPORT_BACKGROUND);
+  copy.insertBefore(background, copy.firstChild);
+
+  return new XMLSerializer().serializeToString(copy);
+}
+
+/**
+ * Draws a chart into a PNG at twice its size, for sharp text on high-density screens
+ */
+export async function renderChartPng(svg: SVGSVGElement): Promise<Blob> {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(new Blob([serializeChart(svg)], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to render chart'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * PNG_SCALE);
+    canvas.height = Math.round(height * PNG_SCALE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to create blob from canvas')), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Downloads a chart as name.svg or name.png
+ */
+export async function exportChart(svg: SVGSVGElement, name: string, format: ChartFormat): Promise<void> {
+  if (format === 'svg') {
+    downloadFile([serializeChart(svg)], `${name}.svg`, 'image/svg+xml');
+  } else {
+    downloadFile([await renderChartPng(svg)], `${name}.png`, 'image/png');
+  }
+}
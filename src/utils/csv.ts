@@ -0,0 +1,98 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+/**
+ * Picks the delimiter that splits the first line into the most columns
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '';
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = parseCsv(firstLine, delimiter)[0]?.length ?? 0;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain delimiters,
+ * doubled quotes and line breaks; blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Formats rows as CSV with CRLF line endings, quoting cells only where needed
+ */
+export function formatCsv(rows: Array<Array<string | number | undefined>>, delimiter: CsvDelimiter = ','): string {
+  return rows.map(row => row.map(value => formatCell(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+function formatCell(value: string | number | undefined, delimiter: CsvDelimiter): string {
+  if (value === undefined) return '';
+  let text = String(value);
+
+  // Spreadsheets run cells starting with these as formulas; a leading tab or
+  // carriage return can hide one, and Number() would skip it as whitespace
+  if (typeof value === 'string' && (/^[\t\r]/.test(text) || (/^[=+\-@]/.test(text) && isNaN(Number(text))))) {
+    text = `'${text}`;
+  }
+
+  if (text.includes(delimiter) || text.includes('"') || text.includes('\n') || text.includes('\r')) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
@@ -2,9 +2,14 @@
  * Data transformation helpers for import/export operations
  */
 
-import type { CatEncounter, UserPreferences, SyncMetadata } from '../types';
+import type { CatEncounter, Cat, Colony, UserPreferences, SyncMetadata, DataConflict } from '../types';
 import { validateCatEncounter } from '../models/CatEncounter';
+import { validateCat, getCatDisplayName } from '../models/Cat';
+import { validateColony } from '../models/Colony';
 import { isValidISOTimestamp, getCurrentTimestamp, generateUUID } from './dataUtils';
+import { CURRENT_BACKUP_VERSION, upgradeBackup } from './backupFormat';
+import { threeWayMerge } from './threeWayMerge';
+import { detectImageType } from './imageUtils';
 
 /**
  * Export data format for JSON backup
@@ -13,7 +18,10 @@ export interface ExportData {
   version: string;
   exportedAt: string;
   encounters: CatEncounter[];
+  cats?: Cat[];
+  colonies?: Colony[];
   photos: { [photoBlobId: string]: string }; // Base64 encoded
+  photoTypes?: { [photoBlobId: string]: string }; // MIME types; absent in older backups
   preferences?: UserPreferences;
   metadata?: SyncMetadata;
 }
@@ -27,6 +35,10 @@ export interface ImportValidationResult {
   warnings: string[];
   validEncounters: CatEncounter[];
   invalidEncounters: Array<{ data: any; errors: string[] }>;
+  validCats: Cat[];
+  invalidCats: Array<{ data: unknown; errors: string[] }>;
+  validColonies: Colony[];
+  invalidColonies: Array<{ data: unknown; errors: string[] }>;
 }
 
 /**
@@ -49,12 +61,14 @@ export function createExportData(
   encounters: CatEncounter[],
   photos: { [photoBlobId: string]: string } = {},
   preferences?: UserPreferences,
-  metadata?: SyncMetadata
+  metadata?: SyncMetadata,
+  cats: Cat[] = []
 ): ExportData {
   return {
-    version: '1.0.0',
+    version: CURRENT_BACKUP_VERSION,
     exportedAt: getCurrentTimestamp(),
     encounters: transformEncountersForExport(encounters),
+    cats,
     photos,
     preferences,
     metadata
@@ -62,13 +76,343 @@ export function createExportData(
 }
 
 /**
- * Validates import data structure
+ * Map formats for GIS tools such as QGIS and Google Earth
+ */
+export type GeoFormat = 'geojson' | 'kml' | 'gpx';
+
+export const GEO_FORMATS: Record<GeoFormat, { label: string; extension: string; mimeType: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' }
+};
+
+/**
+ * Encounters read from a map file
+ */
+export interface GeoImportResult {
+  format: GeoFormat;
+  validEncounters: CatEncounter[];
+  invalidEncounters: Array<{ data: unknown; errors: string[] }>;
+  warnings: string[];
+}
+
+// Fields written alongside the coordinates; photos stay on the device
+const GEO_FIELDS = [
+  'id', 'dateTime', 'catColor', 'coatLength', 'catType', 'behavior', 'comment', 'catId', 'createdAt', 'updatedAt'
+] as const;
+
+type GeoFields = Partial<Record<typeof GEO_FIELDS[number], string>>;
+
+// The parts of a GeoJSON feature the importer reads
+interface GeoJsonFeature {
+  type?: string;
+  id?: unknown;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+  properties?: Record<string, unknown> | null;
+}
+
+// Namespace of the encounter fields in GPX <extensions>
+const GPX_EXTENSION_NS = 'urn:cat-a-log:gpx:1';
+
+// Placemark colors for the standard coat colors; custom colors share the last one
+const CAT_COLOR_HEX: Record<string, string> = {
+  'Black': '#212121',
+  'White': '#fafafa',
+  'Gray': '#9e9e9e',
+  'Orange/Ginger': '#ef8a17',
+  'Brown/Chocolate': '#6d4c41',
+  'Cream': '#f3e0b5',
+  'Calico': '#d9822b',
+  'Tortoiseshell': '#5d3a1a',
+  'Tabby': '#a1887f',
+  'Tuxedo': '#424242',
+  'Siamese': '#d7c4a3',
+  'Mixed/Other': '#8e24aa'
+};
+const CUSTOM_COLOR_HEX = '#8e24aa';
+
+/**
+ * Creates a GeoJSON FeatureCollection with a point feature per encounter
+ */
+export function createGeoJsonExport(encounters: CatEncounter[], cats: Cat[] = []): string {
+  const names = placemarkNames(cats);
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: encounters.map(encounter => ({
+      type: 'Feature',
+      id: encounter.id,
+      geometry: { type: 'Point', coordinates: [encounter.lng, encounter.lat] },
+      properties: { name: names(encounter), ...geoFields(encounter) }
+    }))
+  }, null, 2);
+}
+
+/**
+ * Creates a KML document with a placemark per encounter, styled by coat color
+ */
+export function createKmlExport(encounters: CatEncounter[], cats: Cat[] = []): string {
+  const names = placemarkNames(cats);
+  const colors = [...new Set(encounters.map(encounter => encounter.catColor))];
+
+  const styles = colors.map(color => `    <Style id="${kmlStyleId(color)}">
+      <IconStyle>
+        <color>${toKmlColor(CAT_COLOR_HEX[color] ?? CUSTOM_COLOR_HEX)}</color>
+        <Icon><href>https://maps.google.com/mapfiles/kml/paddle/wht-blank.png</href></Icon>
+      </IconStyle>
+    </Style>`);
+
+  const placemarks = encounters.map(encounter => {
+    const data = Object.entries(geoFields(encounter))
+      .map(([name, value]) => `        <Data name="${name}"><value>${escapeXml(value)}</value></Data>`);
+    return `    <Placemark>
+      <name>${escapeXml(names(encounter))}</name>
+${encounter.comment ? `      <description>${escapeXml(encounter.comment)}</description>\n` : ''}      <styleUrl>#${kmlStyleId(encounter.catColor)}</styleUrl>
+      <TimeStamp><when>${encounter.dateTime}</when></TimeStamp>
+      <ExtendedData>
+${data.join('\n')}
+      </ExtendedData>
+      <Point><coordinates>${encounter.lng},${encounter.lat}</coordinates></Point>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>CAT-a-log encounters</name>
+${[...styles, ...placemarks].join('\n')}
+  </Document>
+</kml>
+`;
+}
+
+/**
+ * Creates a GPX 1.1 file with a waypoint per encounter. The encounter fields
+ * that GPX has no element for are kept in the waypoint's extensions.
+ */
+export function createGpxExport(encounters: CatEncounter[], cats: Cat[] = []): string {
+  const names = placemarkNames(cats);
+
+  const waypoints = encounters.map(encounter => {
+    const extensions = Object.entries(geoFields(encounter))
+      .map(([name, value]) => `        <catalog:${name}>${escapeXml(value)}</catalog:${name}>`);
+    return `  <wpt lat="${encounter.lat}" lon="${encounter.lng}">
+    <time>${encounter.dateTime}</time>
+    <name>${escapeXml(names(encounter))}</name>
+${encounter.comment ? `    <desc>${escapeXml(encounter.comment)}</desc>\n` : ''}    <type>${escapeXml(encounter.catColor)}</type>
+    <extensions>
+      <catalog:encounter>
+${extensions.join('\n')}
+      </catalog:encounter>
+    </extensions>
+  </wpt>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="CAT-a-log" xmlns="http://www.topografix.com/GPX/1/1" xmlns:catalog="${GPX_EXTENSION_NS}">
+  <metadata><time>${getCurrentTimestamp()}</time></metadata>
+${waypoints.join('\n')}
+</gpx>
+`;
+}
+
+/**
+ * Reads encounters from a GeoJSON, KML or GPX file, telling the format from the content.
+ * IDs and timestamps written by the exporters are kept; points from other tools get new ones.
+ */
+export function parseGeoImport(text: string): GeoImportResult {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    return parseGeoJsonImport(trimmed);
+  }
+  if (/<gpx[\s>]/.test(trimmed)) {
+    return parseGpxImport(trimmed);
+  }
+  if (/<kml[\s>]/.test(trimmed)) {
+    return parseKmlImport(trimmed);
+  }
+  throw new Error('Unrecognized file: expected GeoJSON, KML or GPX');
+}
+
+export function parseGeoJsonImport(text: string): GeoImportResult {
+  let data: GeoJsonFeature & { features?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON format');
+  }
+
+  const features: Array<GeoJsonFeature | null> = data?.type === 'FeatureCollection' && Array.isArray(data.features)
+    ? data.features
+    : data?.type === 'Feature' ? [data] : [];
+  if (features.length === 0 && data?.type !== 'FeatureCollection') {
+    throw new Error('Invalid GeoJSON: expected a FeatureCollection or Feature');
+  }
+
+  const result = emptyGeoImport('geojson');
+  let skipped = 0;
+  features.forEach((feature, index) => {
+    const coordinates = feature?.geometry?.type === 'Point' ? feature.geometry.coordinates : null;
+    if (!feature || !Array.isArray(coordinates)) {
+      skipped++;
+      return;
+    }
+
+    const properties = feature.properties && typeof feature.properties === 'object' ? feature.properties : {};
+    const fields: GeoFields = {};
+    for (const field of GEO_FIELDS) {
+      const value = properties[field];
+      if (typeof value === 'string') fields[field] = value;
+    }
+    fields.id ??= typeof feature.id === 'string' ? feature.id : undefined;
+    addGeoEncounter(result, fields, Number(coordinates[1]), Number(coordinates[0]), `Feature ${index + 1}`);
+  });
+
+  if (skipped > 0) {
+    result.warnings.push(`${skipped} feature(s) without a point geometry were skipped`);
+  }
+  return result;
+}
+
+export function parseKmlImport(text: string): GeoImportResult {
+  const doc = parseXml(text, 'KML');
+  const result = emptyGeoImport('kml');
+  let skipped = 0;
+
+  Array.from(doc.getElementsByTagName('Placemark')).forEach((placemark, index) => {
+    const coordinates = placemark.getElementsByTagName('Point')[0]?.getElementsByTagName('coordinates')[0]?.textContent;
+    if (!coordinates) {
+      skipped++;
+      return;
+    }
+
+    const fields: GeoFields = {};
+    for (const data of Array.from(placemark.getElementsByTagName('Data'))) {
+      const name = data.getAttribute('name') as typeof GEO_FIELDS[number];
+      if (GEO_FIELDS.includes(name)) {
+        fields[name] = data.getElementsByTagName('value')[0]?.textContent ?? undefined;
+      }
+    }
+    fields.dateTime ??= childText(placemark.getElementsByTagName('TimeStamp')[0], 'when');
+    fields.comment ??= childText(placemark, 'description');
+
+    const [lng, lat] = coordinates.trim().split(',').map(Number);
+    addGeoEncounter(result, fields, lat, lng, `Placemark ${index + 1}`);
+  });
+
+  if (skipped > 0) {
+    result.warnings.push(`${skipped} placemark(s) without a point were skipped`);
+  }
+  return result;
+}
+
+export function parseGpxImport(text: string): GeoImportResult {
+  const doc = parseXml(text, 'GPX');
+  const result = emptyGeoImport('gpx');
+
+  Array.from(doc.getElementsByTagName('wpt')).forEach((waypoint, index) => {
+    const fields: GeoFields = {};
+    for (const field of GEO_FIELDS) {
+      const value = waypoint.getElementsByTagNameNS(GPX_EXTENSION_NS, field)[0]?.textContent;
+      if (value) fields[field] = value;
+    }
+    fields.dateTime ??= childText(waypoint, 'time');
+    fields.comment ??= childText(waypoint, 'desc');
+
+    addGeoEncounter(
+      result,
+      fields,
+      Number(waypoint.getAttribute('lat')),
+      Number(waypoint.getAttribute('lon')),
+      `Waypoint ${index + 1}`
+    );
+  });
+
+  return result;
+}
+
+function geoFields(encounter: CatEncounter): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const field of GEO_FIELDS) {
+    const value = encounter[field];
+    if (value !== undefined && value !== '') fields[field] = value;
+  }
+  return fields;
+}
+
+function placemarkNames(cats: Cat[]): (encounter: CatEncounter) => string {
+  const catNames = new Map(cats.map(cat => [cat.id, getCatDisplayName(cat)]));
+  return encounter => (encounter.catId && catNames.get(encounter.catId)) || `${encounter.catColor} ${encounter.catType}`;
+}
+
+function emptyGeoImport(format: GeoFormat): GeoImportResult {
+  return { format, validEncounters: [], invalidEncounters: [], warnings: [] };
+}
+
+function addGeoEncounter(result: GeoImportResult, fields: GeoFields, lat: number, lng: number, label: string): void {
+  const now = getCurrentTimestamp();
+  const encounter = {
+    ...fields,
+    id: fields.id || generateUUID(),
+    lat,
+    lng,
+    comment: fields.comment?.trim() || undefined,
+    createdAt: fields.createdAt || now,
+    updatedAt: fields.updatedAt || now
+  } as CatEncounter;
+
+  const validation = validateCatEncounter(encounter);
+  if (validation.isValid) {
+    result.validEncounters.push(encounter);
+  } else {
+    result.invalidEncounters.push({
+      data: encounter,
+      errors: validation.errors.map(err => `${label}: ${err}`)
+    });
+  }
+}
+
+function parseXml(text: string, formatName: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid ${formatName}: the file is not well-formed XML`);
+  }
+  return doc;
+}
+
+function childText(parent: Element | undefined, tagName: string): string | undefined {
+  return parent?.getElementsByTagName(tagName)[0]?.textContent?.trim() || undefined;
+}
+
+function kmlStyleId(color: string): string {
+  return `color-${color.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+}
+
+// KML colors are aabbggrr
+function toKmlColor(hex: string): string {
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `ff${b}${g}${r}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Validates import data structure. Older backup versions are upgraded first.
  */
 export function validateImportData(data: any): ImportValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
   const validEncounters: CatEncounter[] = [];
   const invalidEncounters: Array<{ data: any; errors: string[] }> = [];
+  const validCats: Cat[] = [];
+  const invalidCats: Array<{ data: unknown; errors: string[] }> = [];
+  const validColonies: Colony[] = [];
+  const invalidColonies: Array<{ data: unknown; errors: string[] }> = [];
 
   // Check if data is an object
   if (!data || typeof data !== 'object') {
@@ -77,15 +421,33 @@ export function validateImportData(data: any): ImportValidationResult {
       errors: ['Import data must be a valid JSON object'],
       warnings: [],
       validEncounters: [],
-      invalidEncounters: []
+      invalidEncounters: [],
+      validCats: [],
+      invalidCats: [],
+      validColonies: [],
+      invalidColonies: []
     };
   }
 
-  // Check version compatibility
-  if (!data.version || typeof data.version !== 'string') {
-    warnings.push('No version information found in import data');
-  } else if (!isCompatibleVersion(data.version)) {
-    warnings.push(`Import data version ${data.version} may not be fully compatible`);
+  // Bring older backups up to the current format
+  try {
+    const upgrade = upgradeBackup(data);
+    data = upgrade.data;
+    if (upgrade.isNewerVersion) {
+      warnings.push(`Import data version ${data.version} may not be fully compatible`);
+    }
+  } catch (error) {
+    return {
+      isValid: false,
+      errors: [error instanceof Error ? error.message : 'Unsupported backup version'],
+      warnings: [],
+      validEncounters: [],
+      invalidEncounters: [],
+      validCats: [],
+      invalidCats: [],
+      validColonies: [],
+      invalidColonies: []
+    };
   }
 
   // Check exportedAt timestamp
@@ -110,6 +472,51 @@ export function validateImportData(data: any): ImportValidationResult {
     });
   }
 
+  // Validate known cats (optional, absent in older backups)
+  if (data.cats !== undefined) {
+    if (!Array.isArray(data.cats)) {
+      warnings.push('Cats data should be an array');
+    } else {
+      data.cats.forEach((cat: unknown, index: number) => {
+        const validation = validateCat(cat as Partial<Cat>);
+        if (validation.isValid) {
+          validCats.push(cat as Cat);
+        } else {
+          invalidCats.push({
+            data: cat,
+            errors: validation.errors.map(err => `Cat ${index + 1}: ${err}`)
+          });
+        }
+      });
+    }
+  }
+
+  // Validate colonies (optional, absent in older backups)
+  if (data.colonies !== undefined) {
+    if (!Array.isArray(data.colonies)) {
+      warnings.push('Colonies data should be an array');
+    } else {
+      data.colonies.forEach((colony: unknown, index: number) => {
+        const validation = validateColony(colony as Partial<Colony>);
+        if (validation.isValid) {
+          validColonies.push(colony as Colony);
+        } else {
+          invalidColonies.push({
+            data: colony,
+            errors: validation.errors.map(err => `Colony ${index + 1}: ${err}`)
+          });
+        }
+      });
+    }
+  }
+
+  // Warn about encounters linked to cats that are not part of the import
+  const knownCatIds = new Set(validCats.map(cat => cat.id));
+  const orphanedLinks = validEncounters.filter(e => e.catId && !knownCatIds.has(e.catId)).length;
+  if (orphanedLinks > 0) {
+    warnings.push(`${orphanedLinks} encounter(s) reference cats that are not included in the import`);
+  }
+
   // Validate photos object
   if (data.photos && typeof data.photos !== 'object') {
     warnings.push('Photos data should be an object with photoBlobId keys');
@@ -130,27 +537,37 @@ export function validateImportData(data: any): ImportValidationResult {
     errors,
     warnings,
     validEncounters,
-    invalidEncounters
+    invalidEncounters,
+    validCats,
+    invalidCats,
+    validColonies,
+    invalidColonies
   };
 }
 
 /**
  * Transforms import data to internal format
  */
-export function transformImportData(data: ExportData): {
+export function transformImportData(rawData: unknown): {
   encounters: CatEncounter[];
+  cats: Cat[];
+  colonies: Colony[];
   photos: { [photoBlobId: string]: string };
   preferences?: UserPreferences;
   metadata?: SyncMetadata;
 } {
-  const validation = validateImportData(data);
+  const validation = validateImportData(rawData);
   
   if (!validation.isValid) {
     throw new Error(`Invalid import data: ${validation.errors.join(', ')}`);
   }
 
+  const data = upgradeBackup(rawData).data as Partial<ExportData>;
+
   return {
     encounters: validation.validEncounters,
+    cats: validation.validCats,
+    colonies: validation.validColonies,
     photos: data.photos || {},
     preferences: data.preferences,
     metadata: data.metadata
@@ -158,26 +575,47 @@ export function transformImportData(data: ExportData): {
 }
 
 /**
- * Merges two sets of encounter data, resolving conflicts by timestamp
+ * An imported encounter that collides with the local copy
+ */
+export interface EncounterMergeConflict {
+  local: CatEncounter;
+  imported: CatEncounter;
+  fields: DataConflict[];
+}
+
+/**
+ * Merges two sets of encounter data. With a stored base version, edits are merged
+ * field by field and only fields changed differently on both sides are conflicts.
+ * Without one, the newer copy wins and equal timestamps with different content conflict.
  */
 export function mergeEncounterData(
   localEncounters: CatEncounter[],
-  importedEncounters: CatEncounter[]
+  importedEncounters: CatEncounter[],
+  bases: Map<string, CatEncounter> = new Map()
 ): {
   merged: CatEncounter[];
-  conflicts: Array<{ local: CatEncounter; imported: CatEncounter }>;
+  conflicts: EncounterMergeConflict[];
 } {
   const merged: CatEncounter[] = [];
-  const conflicts: Array<{ local: CatEncounter; imported: CatEncounter }> = [];
+  const conflicts: EncounterMergeConflict[] = [];
   const localMap = new Map(localEncounters.map(e => [e.id, e]));
 
   // Add all imported encounters, checking for conflicts
   importedEncounters.forEach(imported => {
     const local = localMap.get(imported.id);
+    const base = bases.get(imported.id);
     
     if (!local) {
       // New encounter, add it
       merged.push(imported);
+    } else if (base) {
+      // Three-way merge against the common base
+      const result = threeWayMerge(base, local, imported);
+      merged.push(result.merged);
+      if (result.conflicts.length > 0) {
+        conflicts.push({ local, imported, fields: result.conflicts });
+      }
+      localMap.delete(imported.id);
     } else {
       // Conflict detected, resolve by timestamp
       const localUpdated = new Date(local.updatedAt);
@@ -190,8 +628,11 @@ export function mergeEncounterData(
         // Local is newer, keep it
         merged.push(local);
       } else {
-        // Same timestamp, flag as conflict
-        conflicts.push({ local, imported });
+        // Same timestamp, flag differing fields as conflicts
+        const fields = threeWayMerge(undefined, local, imported).conflicts;
+        if (fields.length > 0) {
+          conflicts.push({ local, imported, fields });
+        }
         merged.push(local); // Default to local
       }
       
@@ -208,6 +649,133 @@ export function mergeEncounterData(
   return { merged, conflicts };
 }
 
+/**
+ * How an imported record compares with the copy on this device
+ */
+export type ImportRecordStatus = 'new' | 'updated' | 'unchanged' | 'older';
+
+export const IMPORT_RECORD_STATUSES: Array<{ status: ImportRecordStatus; label: string }> = [
+  { status: 'new', label: 'New' },
+  { status: 'updated', label: 'Updated' },
+  { status: 'older', label: 'Older than this device' },
+  { status: 'unchanged', label: 'Unchanged' }
+];
+
+/**
+ * One valid record of an import, with the fields that differ from the local copy
+ */
+export interface ImportRecordPreview<T> {
+  status: ImportRecordStatus;
+  record: T;
+  local?: T;
+  changes: DataConflict[];
+}
+
+/**
+ * Dry run of an import: what each record would do to the data on this device
+ */
+export interface ImportPreview {
+  encounters: ImportRecordPreview<CatEncounter>[];
+  cats: ImportRecordPreview<Cat>[];
+  colonies: ImportRecordPreview<Colony>[];
+  invalidEncounters: ImportValidationResult['invalidEncounters'];
+  invalidCats: ImportValidationResult['invalidCats'];
+  invalidColonies: ImportValidationResult['invalidColonies'];
+  photoCount: number;
+  newPhotoCount: number;
+  hasSettings: boolean;
+  warnings: string[];
+}
+
+/**
+ * Compares validated import data with the local records without writing anything.
+ * A record is "updated" when it differs and is at least as new as the local copy,
+ * which is when a plain restore would replace it.
+ */
+export function createImportPreview(
+  validation: ImportValidationResult,
+  local: { encounters: CatEncounter[]; cats: Cat[]; colonies: Colony[]; photoIds: string[] },
+  imported: { photoIds: string[]; hasSettings: boolean }
+): ImportPreview {
+  const localPhotoIds = new Set(local.photoIds);
+
+  return {
+    encounters: previewRecords(validation.validEncounters, local.encounters),
+    cats: previewRecords(validation.validCats, local.cats),
+    colonies: previewRecords(validation.validColonies, local.colonies),
+    invalidEncounters: validation.invalidEncounters,
+    invalidCats: validation.invalidCats,
+    invalidColonies: validation.invalidColonies,
+    photoCount: imported.photoIds.length,
+    newPhotoCount: imported.photoIds.filter(id => !localPhotoIds.has(id)).length,
+    hasSettings: imported.hasSettings,
+    warnings: validation.warnings
+  };
+}
+
+function previewRecords<T extends CatEncounter | Cat | Colony>(records: T[], localRecords: T[]): ImportRecordPreview<T>[] {
+  const localMap = new Map(localRecords.map(record => [record.id, record]));
+
+  return records.map(record => {
+    const local = localMap.get(record.id);
+    if (!local) {
+      return { status: 'new', record, changes: [] };
+    }
+
+    const changes = threeWayMerge(undefined, local, record).conflicts;
+    let status: ImportRecordStatus;
+    if (changes.length === 0) {
+      status = 'unchanged';
+    } else if (new Date(record.updatedAt) >= new Date(local.updatedAt)) {
+      status = 'updated';
+    } else {
+      status = 'older';
+    }
+    return { status, record, local, changes };
+  });
+}
+
+/**
+ * The records of an import chosen to be applied
+ */
+export interface ImportSelection {
+  encounterIds: string[];
+  catIds: string[];
+  colonyIds: string[];
+  settings: boolean;
+}
+
+/**
+ * What an applied import wrote
+ */
+export interface ImportSummary {
+  encounters: number;
+  cats: number;
+  colonies: number;
+  photos: number;
+  skipped: number;
+  settings: boolean;
+}
+
+/**
+ * Records applied unless the user changes the selection: new ones and newer versions
+ */
+export function isSelectedByDefault(preview: ImportRecordPreview<CatEncounter | Cat | Colony>): boolean {
+  return preview.status === 'new' || preview.status === 'updated';
+}
+
+/**
+ * The selection a plain restore applies
+ */
+export function getDefaultImportSelection(preview: ImportPreview): ImportSelection {
+  return {
+    encounterIds: preview.encounters.filter(isSelectedByDefault).map(({ record }) => record.id),
+    catIds: preview.cats.filter(isSelectedByDefault).map(({ record }) => record.id),
+    colonyIds: preview.colonies.filter(isSelectedByDefault).map(({ record }) => record.id),
+    settings: preview.hasSettings
+  };
+}
+
 /**
  * Converts Blob to Base64 string for export
  */
@@ -226,18 +794,18 @@ export async function blobToBase64(blob: Blob): Promise<string> {
 }
 
 /**
- * Converts Base64 string to Blob for import
+ * Converts Base64 string to Blob for import. Without a MIME type, the type is
+ * recognised from the image bytes, falling back to JPEG.
  */
-export function base64ToBlob(base64: string, mimeType: string = 'image/jpeg'): Blob {
+export function base64ToBlob(base64: string, mimeType?: string): Blob {
   const byteCharacters = atob(base64);
-  const byteNumbers = new Array(byteCharacters.length);
+  const byteArray = new Uint8Array(byteCharacters.length);
   
   for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i);
+    byteArray[i] = byteCharacters.charCodeAt(i);
   }
   
-  const byteArray = new Uint8Array(byteNumbers);
-  return new Blob([byteArray], { type: mimeType });
+  return new Blob([byteArray], { type: mimeType ?? detectImageType(byteArray) ?? 'image/jpeg' });
 }
 
 /**
@@ -251,14 +819,6 @@ export function sanitizeEncounterForExport(encounter: CatEncounter): CatEncounte
   };
 }
 
-/**
- * Checks version compatibility
- */
-function isCompatibleVersion(version: string): boolean {
-  const supportedVersions = ['1.0.0'];
-  return supportedVersions.includes(version);
-}
-
 /**
  * Validates user preferences structure
  */
@@ -0,0 +1,162 @@
+/**
+ * Density map layers: which encounters they show, and the kernel density and hexagon
+ * binning they are drawn from. Points are screen pixels packed as x0, y0, x1, y1...
+ * so tens of thousands of them can be binned on every map move.
+ */
+
+import type { CatEncounter } from '../types';
+import type { StatsField } from './encounterStats';
+
+export type MapLayerMode = 'markers' | 'heatmap' | 'hexbin';
+
+export type DensityTimeRange = 'all' | 'week' | 'month' | 'year';
+
+export interface DensityFilter {
+  range: DensityTimeRange;
+  field?: StatsField;            // Attribute to match, with value
+  value?: string;
+}
+
+export const DENSITY_TIME_RANGES: Array<{ range: DensityTimeRange; label: string; days?: number }> = [
+  { range: 'all', label: 'All time' },
+  { range: 'week', label: 'Past week', days: 7 },
+  { range: 'month', label: 'Past month', days: 30 },
+  { range: 'year', label: 'Past year', days: 365 }
+];
+
+export interface DensityGrid {
+  values: Float32Array;          // Row by row, columns * rows cells
+  columns: number;
+  rows: number;
+  max: number;
+}
+
+export interface HexBin {
+  x: number;                     // Center, in the same pixels as the points
+  y: number;
+  count: number;
+}
+
+const SQRT3 = Math.sqrt(3);
+
+// Blue for a few sightings through to red for the busiest spots
+const DENSITY_RAMP: Array<[number, [number, number, number]]> = [
+  [0, [59, 130, 246]],
+  [0.35, [34, 197, 94]],
+  [0.6, [234, 179, 8]],
+  [0.8, [249, 115, 22]],
+  [1, [220, 38, 38]]
+];
+
+/**
+ * Encounters within the time range that have the chosen attribute value, ignoring case
+ */
+export function filterDensityEncounters(encounters: CatEncounter[], filter: DensityFilter, now = new Date()): CatEncounter[] {
+  const days = DENSITY_TIME_RANGES.find(({ range }) => range === filter.range)?.days;
+  const since = days ? now.getTime() - days * 24 * 60 * 60 * 1000 : -Infinity;
+  const { field } = filter;
+  const value = filter.value?.toLowerCase();
+
+  return encounters.filter(encounter =>
+    new Date(encounter.dateTime).getTime() >= since &&
+    (!field || !value || (encounter[field] ?? '').trim().toLowerCase() === value));
+}
+
+/**
+ * Adds a Gaussian kernel of the given radius around every point into a grid of cells
+ * covering width x height pixels. Points just outside still warm the edges.
+ */
+export function kernelDensity(points: ArrayLike<number>, width: number, height: number, cellSize: number, radius: number): DensityGrid {
+  const columns = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  const values = new Float32Array(columns * rows);
+
+  // One precomputed kernel, stamped at each point
+  const reach = Math.max(1, Math.ceil(radius / cellSize));
+  const sigma = reach / 2;
+  const size = reach * 2 + 1;
+  const kernel = new Float32Array(size * size);
+  for (let dy = -reach; dy <= reach; dy++) {
+    for (let dx = -reach; dx <= reach; dx++) {
+      const distance = dx * dx + dy * dy;
+      kernel[(dy + reach) * size + dx + reach] = distance > reach * reach ? 0 : Math.exp(-distance / (2 * sigma * sigma));
+    }
+  }
+
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    const column = Math.floor(points[i] / cellSize);
+    const row = Math.floor(points[i + 1] / cellSize);
+    if (column < -reach || column >= columns + reach || row < -reach || row >= rows + reach) continue;
+
+    const top = Math.max(0, row - reach);
+    const bottom = Math.min(rows - 1, row + reach);
+    const left = Math.max(0, column - reach);
+    const right = Math.min(columns - 1, column + reach);
+    for (let y = top; y <= bottom; y++) {
+      const kernelRow = (y - row + reach) * size + reach - column;
+      for (let x = left; x <= right; x++) {
+        values[y * columns + x] += kernel[kernelRow + x];
+      }
+    }
+  }
+
+  let max = 0;
+  for (const value of values) max = Math.max(max, value);
+  return { values, columns, rows, max };
+}
+
+/**
+ * Counts points per pointy-top hexagon of the given radius. Hexagons are laid out from
+ * the pixel origin, so bins stay put as the map pans when points are world pixels.
+ */
+export function hexBin(points: ArrayLike<number>, radius: number): HexBin[] {
+  const bins = new Map<string, HexBin>();
+
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    // Axial coordinates, rounded through cube coordinates to the nearest hexagon
+    const q = (SQRT3 / 3 * points[i] - points[i + 1] / 3) / radius;
+    const r = (2 / 3 * points[i + 1]) / radius;
+    let rq = Math.round(q);
+    let rr = Math.round(r);
+    const rs = Math.round(-q - r);
+    const dq = Math.abs(rq - q);
+    const dr = Math.abs(rr - r);
+    const ds = Math.abs(rs + q + r);
+    if (dq > dr && dq > ds) rq = -rr - rs;
+    else if (dr > ds) rr = -rq - rs;
+
+    const key = `${rq},${rr}`;
+    const bin = bins.get(key);
+    if (bin) {
+      bin.count++;
+    } else {
+      bins.set(key, { x: radius * SQRT3 * (rq + rr / 2), y: radius * 1.5 * rr, count: 1 });
+    }
+  }
+
+  return [...bins.values()];
+}
+
+/**
+ * Corners of a pointy-top hexagon
+ */
+export function hexagonCorners(x: number, y: number, radius: number): Array<[number, number]> {
+  return Array.from({ length: 6 }, (_, index) => {
+    const angle = Math.PI / 180 * (60 * index - 30);
+    return [x + radius * Math.cos(angle), y + radius * Math.sin(angle)];
+  });
+}
+
+/**
+ * Color for a density between 0 and 1 as RGBA bytes; low densities fade out
+ */
+export function densityColor(t: number): [number, number, number, number] {
+  const value = Math.min(1, Math.max(0, t));
+  let index = 1;
+  while (index < DENSITY_RAMP.length - 1 && DENSITY_RAMP[index][0] < value) index++;
+  const [start, from] = DENSITY_RAMP[index - 1];
+  const [end, to] = DENSITY_RAMP[index];
+  const mix = (value - start) / (end - start);
+  const channel = (c: number) => Math.round(from[c] + (to[c] - from[c]) * mix);
+  return [channel(0), channel(1), channel(2), Math.round(Math.min(1, value * 3) * 200)];
+}
@@ -0,0 +1,12 @@
+/**
+ * Saves generated content as a file through the browser's download
+ */
+
+export function downloadFile(content: BlobPart[], fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob(content, { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
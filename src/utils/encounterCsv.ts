@@ -0,0 +1,309 @@
+/**
+ * Converts encounters to and from spreadsheet rows
+ */
+
+import type { Cat, CatEncounter } from '../types';
+import {
+  BEHAVIOR_PRESETS,
+  CAT_COLORS,
+  CAT_TYPES,
+  COAT_LENGTHS,
+  createCatEncounter,
+  validateCatEncounter
+} from '../models/CatEncounter';
+import { getCatDisplayName } from '../models/Cat';
+import { isValidUUID } from './dataUtils';
+import { formatCsv, type CsvDelimiter } from './csv';
+
+export type EncounterCsvField =
+  | 'id'
+  | 'dateTime'
+  | 'lat'
+  | 'lng'
+  | 'catColor'
+  | 'coatLength'
+  | 'catType'
+  | 'behavior'
+  | 'comment'
+  | 'catName'
+  | 'createdAt'
+  | 'updatedAt';
+
+// 'iso' is UTC ISO-8601; the others are in local time, with minutes
+export type CsvDateFormat = 'iso' | 'ymd' | 'mdy' | 'dmy';
+
+export type OptionField = 'catColor' | 'coatLength' | 'catType' | 'behavior';
+
+export const ENCOUNTER_CSV_FIELDS: { field: EncounterCsvField; header: string }[] = [
+  { field: 'id', header: 'ID' },
+  { field: 'dateTime', header: 'Date' },
+  { field: 'lat', header: 'Latitude' },
+  { field: 'lng', header: 'Longitude' },
+  { field: 'catColor', header: 'Color' },
+  { field: 'coatLength', header: 'Coat Length' },
+  { field: 'catType', header: 'Type' },
+  { field: 'behavior', header: 'Behavior' },
+  { field: 'comment', header: 'Comment' },
+  { field: 'catName', header: 'Cat' },
+  { field: 'createdAt', header: 'Created' },
+  { field: 'updatedAt', header: 'Updated' }
+];
+
+// Header of an empty last column that marks files written by encountersToCsv
+export const CSV_EXPORT_MARKER = 'Exported by CAT-a-log';
+
+export const CSV_DATE_FORMATS: { format: CsvDateFormat; label: string }[] = [
+  { format: 'iso', label: 'ISO 8601 (2024-03-01T14:30:00.000Z)' },
+  { format: 'ymd', label: 'Year-month-day (2024-03-01 14:30)' },
+  { format: 'mdy', label: 'Month/day/year (03/01/2024 14:30)' },
+  { format: 'dmy', label: 'Day/month/year (01/03/2024 14:30)' }
+];
+
+export interface EncounterCsvExportOptions {
+  fields: EncounterCsvField[];
+  dateFormat: CsvDateFormat;
+  coordinatePrecision: number;   // Decimal places for latitude and longitude
+  delimiter: CsvDelimiter;
+}
+
+export const DEFAULT_CSV_EXPORT_OPTIONS: EncounterCsvExportOptions = {
+  fields: ['dateTime', 'lat', 'lng', 'catColor', 'coatLength', 'catType', 'behavior', 'comment', 'catName'],
+  dateFormat: 'ymd',
+  coordinatePrecision: 5,
+  delimiter: ','
+};
+
+/**
+ * Builds a CSV document of encounters, oldest first, with the chosen columns
+ */
+export function encountersToCsv(encounters: CatEncounter[], cats: Cat[], options: EncounterCsvExportOptions): string {
+  const catNames = new Map(cats.map(cat => [cat.id, getCatDisplayName(cat)]));
+  const headers = [
+    ...options.fields.map(field => ENCOUNTER_CSV_FIELDS.find(f => f.field === field)?.header ?? field),
+    CSV_EXPORT_MARKER
+  ];
+
+  const rows = [...encounters]
+    .sort((a, b) => a.dateTime.localeCompare(b.dateTime))
+    .map(encounter => options.fields.map(field => {
+      switch (field) {
+        case 'lat':
+        case 'lng':
+          return encounter[field].toFixed(options.coordinatePrecision);
+        case 'dateTime':
+        case 'createdAt':
+        case 'updatedAt':
+          return formatCsvDate(encounter[field], options.dateFormat);
+        case 'catName':
+          return encounter.catId ? catNames.get(encounter.catId) : undefined;
+        default:
+          return encounter[field];
+      }
+    }));
+
+  return formatCsv([headers, ...rows.map(row => [...row, undefined])], options.delimiter);
+}
+
+export function formatCsvDate(iso: string, format: CsvDateFormat): string {
+  if (format === 'iso') return iso;
+
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const [year, month, day] = [date.getFullYear(), pad(date.getMonth() + 1), pad(date.getDate())];
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+  switch (format) {
+    case 'ymd': return `${year}-${month}-${day} ${time}`;
+    case 'mdy': return `${month}/${day}/${year} ${time}`;
+    case 'dmy': return `${day}/${month}/${year} ${time}`;
+  }
+}
+
+/**
+ * Reads a date in the given format (ISO 8601 is always accepted) and returns it as
+ * an ISO timestamp, or null when it cannot be read. Dates without a time are midnight local time.
+ */
+export function parseCsvDate(value: string, format: CsvDateFormat): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const patterns: Record<Exclude<CsvDateFormat, 'iso'>, RegExp> = {
+    ymd: /^(?<year>\d{4})[-/.](?<month>\d{1,2})[-/.](?<day>\d{1,2})(?:[ T](?<hour>\d{1,2}):(?<minute>\d{2})(?::(?<second>\d{2}))?)?$/,
+    mdy: /^(?<month>\d{1,2})[-/.](?<day>\d{1,2})[-/.](?<year>\d{4})(?:[ T](?<hour>\d{1,2}):(?<minute>\d{2})(?::(?<second>\d{2}))?)?$/,
+    dmy: /^(?<day>\d{1,2})[-/.](?<month>\d{1,2})[-/.](?<year>\d{4})(?:[ T](?<hour>\d{1,2}):(?<minute>\d{2})(?::(?<second>\d{2}))?)?$/
+  };
+
+  const match = format === 'iso' ? null : patterns[format].exec(text) ?? patterns.ymd.exec(text);
+  if (match?.groups) {
+    const { year, month, day, hour = '0', minute = '0', second = '0' } = match.groups;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    // Reject rollovers such as 31/02
+    if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) return null;
+    return date.toISOString();
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    const time = Date.parse(text);
+    return isNaN(time) ? null : new Date(time).toISOString();
+  }
+  return null;
+}
+
+// Header spellings recognised when guessing the column mapping
+const HEADER_ALIASES: Record<EncounterCsvField, string[]> = {
+  id: ['id', 'encounter id', 'uuid'],
+  dateTime: ['date', 'datetime', 'date time', 'date/time', 'time', 'seen', 'seen at', 'when', 'timestamp'],
+  lat: ['latitude', 'lat', 'y'],
+  lng: ['longitude', 'lng', 'lon', 'long', 'x'],
+  catColor: ['color', 'colour', 'cat color', 'cat colour', 'coat color', 'coat colour'],
+  coatLength: ['coat length', 'coat', 'hair', 'hair length', 'fur'],
+  catType: ['type', 'cat type', 'breed'],
+  behavior: ['behavior', 'behaviour', 'temperament', 'mood'],
+  comment: ['comment', 'comments', 'notes', 'note', 'description'],
+  catName: ['cat', 'cat name', 'name', 'known cat'],
+  createdAt: ['created', 'created at'],
+  updatedAt: ['updated', 'updated at', 'modified']
+};
+
+// Fields that can be imported; createdAt/updatedAt are set by the import itself
+export const IMPORTABLE_CSV_FIELDS: EncounterCsvField[] = [
+  'dateTime', 'lat', 'lng', 'catColor', 'coatLength', 'catType', 'behavior', 'comment', 'catName', 'id'
+];
+
+export const REQUIRED_CSV_FIELDS: EncounterCsvField[] = ['dateTime', 'lat', 'lng', 'catColor', 'coatLength', 'catType', 'behavior'];
+
+// Column index for each mapped field
+export type CsvColumnMapping = Partial<Record<EncounterCsvField, number>>;
+
+/**
+ * Maps each importable field to the first column whose header matches one of its spellings
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase().replace(/[_\s]+/g, ' '));
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const field of IMPORTABLE_CSV_FIELDS) {
+    const index = normalized.findIndex((header, i) => !used.has(i) && HEADER_ALIASES[field].includes(header));
+    if (index > -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+export interface CsvImportRow {
+  rowNumber: number;                       // 1-based line in the file, counting the header
+  encounter?: CatEncounter;                // Present when the row is valid
+  errors: string[];
+  warnings: string[];
+  unknownValues: { field: OptionField; value: string }[];
+}
+
+export interface CsvImportOptions {
+  dateFormat: CsvDateFormat;
+  cats: Cat[];
+  customOptions: Record<OptionField, string[]>;
+  fromOwnExport?: boolean;                 // Undo the formula guard of encountersToCsv
+}
+
+/**
+ * Whether a header row was written by encountersToCsv
+ */
+export function isOwnCsvExport(headers: string[]): boolean {
+  return headers.some(header => header.trim() === CSV_EXPORT_MARKER);
+}
+
+const STANDARD_OPTIONS: Record<OptionField, readonly string[]> = {
+  catColor: CAT_COLORS,
+  coatLength: COAT_LENGTHS,
+  catType: CAT_TYPES,
+  behavior: BEHAVIOR_PRESETS
+};
+
+/**
+ * Turns data rows (without the header) into encounters, validating each one with
+ * validateCatEncounter. Option values are matched to known ones ignoring case;
+ * values that match nothing are reported so they can be added as custom options.
+ */
+export function csvRowsToEncounters(rows: string[][], mapping: CsvColumnMapping, options: CsvImportOptions): CsvImportRow[] {
+  const knownOptions = Object.fromEntries(
+    (Object.keys(STANDARD_OPTIONS) as OptionField[]).map(field => [
+      field,
+      new Map([...STANDARD_OPTIONS[field], ...options.customOptions[field]].map(value => [value.toLowerCase(), value]))
+    ])
+  ) as Record<OptionField, Map<string, string>>;
+  const catsByName = new Map<string, Cat>();
+  for (const cat of options.cats) {
+    for (const name of [cat.name, cat.nickname]) {
+      if (name) catsByName.set(name.trim().toLowerCase(), cat);
+    }
+  }
+
+  return rows.map((row, index) => {
+    const result: CsvImportRow = { rowNumber: index + 2, errors: [], warnings: [], unknownValues: [] };
+    const cell = (field: EncounterCsvField) => {
+      const column = mapping[field];
+      const value = column === undefined ? '' : (row[column] ?? '').trim();
+      // Drop the quote our export puts before cells a spreadsheet would run as
+      // formulas; in other files the user may have typed it on purpose
+      return options.fromOwnExport ? value.replace(/^'(?=[=+\-@\t\r])/, '') : value;
+    };
+
+    const optionValue = (field: OptionField) => {
+      const value = cell(field);
+      if (!value) return '';
+      const known = knownOptions[field].get(value.toLowerCase());
+      if (known) return known;
+      result.unknownValues.push({ field, value });
+      return value;
+    };
+
+    const dateTime = parseCsvDate(cell('dateTime'), options.dateFormat);
+    const unreadableDate = !!cell('dateTime') && !dateTime;
+    if (unreadableDate) {
+      result.errors.push(`Date "${cell('dateTime')}" does not match the chosen date format`);
+    }
+
+    const catName = cell('catName');
+    const cat = catName ? catsByName.get(catName.toLowerCase()) : undefined;
+    if (catName && !cat) {
+      result.warnings.push(`No known cat named "${catName}"; the encounter will not be linked`);
+    }
+
+    const encounter = createCatEncounter(
+      parseCoordinate(cell('lat')),
+      parseCoordinate(cell('lng')),
+      optionValue('catColor'),
+      optionValue('coatLength'),
+      optionValue('catType'),
+      optionValue('behavior'),
+      {
+        comment: cell('comment') || undefined,
+        catId: cat?.id
+      }
+    );
+    // createCatEncounter would default a missing date to now
+    encounter.dateTime = dateTime ?? '';
+    // Keeping exported IDs lets a re-imported file update encounters instead of duplicating them
+    const id = cell('id');
+    if (id && isValidUUID(id)) {
+      encounter.id = id.toLowerCase();
+    }
+
+    const validation = validateCatEncounter(encounter);
+    result.errors.push(...validation.errors.filter(error => !(unreadableDate && error.startsWith('DateTime'))));
+    if (result.errors.length === 0) {
+      result.encounter = encounter;
+    }
+    return result;
+  });
+}
+
+// Accepts a decimal comma, as written by spreadsheets in many locales
+function parseCoordinate(value: string): number {
+  if (!value) return NaN;
+  const normalized = value.includes('.') ? value : value.replace(',', '.');
+  return /^[-+]?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+}
@@ -0,0 +1,345 @@
+/**
+ * Encounter search with a small query language, e.g.
+ *   color:black behavior:friendly after:2025-01-01 near:500m has:photo cat:"Mr Whiskers"
+ * Words without a filter match the cat's description, name and notes. All parts must match;
+ * a filter prefixed with - must not, e.g. -has:photo.
+ */
+
+import type { CatEncounter } from '../types';
+import { getEncounterPhotos } from '../models/CatEncounter';
+import { distanceInMeters } from './photoMatching';
+import { tokenizeText } from './searchIndex';
+
+type AttributeField = 'catColor' | 'coatLength' | 'catType' | 'behavior';
+
+export type SearchTerm =
+  | { kind: 'text'; value: string }
+  | { kind: 'attribute'; field: AttributeField; value: string }
+  | { kind: 'cat' | 'colony'; value: string }
+  | { kind: 'after' | 'before'; date: Date }
+  | { kind: 'near'; meters: number }
+  | { kind: 'has'; value: HasValue }
+  | { kind: 'is'; value: 'draft' }
+  | { kind: 'not'; term: SearchTerm };
+
+type HasValue = typeof HAS_VALUES[number];
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+  errors: string[];   // Parts of the query that were not understood and are left out
+}
+
+// A word or quoted phrase of the query, with the filter it names
+interface QueryToken {
+  field?: string;
+  negated: boolean;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const ATTRIBUTE_FIELDS: Record<string, AttributeField> = {
+  color: 'catColor',
+  colour: 'catColor',
+  coat: 'coatLength',
+  type: 'catType',
+  behavior: 'behavior',
+  behaviour: 'behavior'
+};
+
+const HAS_VALUES = ['photo', 'comment', 'cat', 'health'] as const;
+const NEAR_EXAMPLES = ['100m', '500m', '1km', '5km'];
+// Dates relative to now, so a saved search keeps meaning "this month"
+const RELATIVE_DAYS = ['today', 'week', 'month', 'year'] as const;
+
+/**
+ * Filters offered by autocomplete, with what they match
+ */
+export const SEARCH_FILTERS: Array<{ name: string; description: string }> = [
+  { name: 'color', description: 'Coat color' },
+  { name: 'coat', description: 'Coat length' },
+  { name: 'type', description: 'Kind of cat' },
+  { name: 'behavior', description: 'Behavior' },
+  { name: 'cat', description: 'Known cat name' },
+  { name: 'colony', description: 'Colony name' },
+  { name: 'after', description: 'On or after a date, YYYY-MM-DD, or today, week, month, year' },
+  { name: 'before', description: 'Before a date, YYYY-MM-DD, or today, week, month, year' },
+  { name: 'near', description: 'Within a distance of you, e.g. 500m' },
+  { name: 'has', description: 'photo, comment, cat or health' },
+  { name: 'is', description: 'draft' }
+];
+
+/**
+ * Values the autocomplete can offer for each filter
+ */
+export type SearchOptions = Partial<Record<'color' | 'coat' | 'type' | 'behavior' | 'cat' | 'colony', string[]>>;
+
+export interface SearchSuggestion {
+  label: string;
+  description?: string;
+  query: string;       // The whole query once the suggestion is chosen
+}
+
+/**
+ * What encounters are matched against besides their own fields
+ */
+export interface SearchContext {
+  getCatName?: (catId: string) => string | undefined;
+  getColonyName?: (colonyId: string) => string | undefined;
+  origin?: { lat: number; lng: number };  // Where near: distances are measured from
+  textMatches?: Map<string, number>;      // Full-text index scores of the encounters matching the free text
+}
+
+// Splits a query into words and quoted phrases, each optionally prefixed by field: or -field:
+function tokenize(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const field = /^(-?)([a-z]+):/i.exec(query.slice(i));
+    if (field) i += field[0].length;
+
+    let value: string;
+    if (query[i] === '"') {
+      const close = query.indexOf('"', i + 1);
+      const end = close === -1 ? query.length : close;
+      value = query.slice(i + 1, end);
+      i = close === -1 ? query.length : close + 1;
+    } else {
+      const space = query.slice(i).search(/\s/);
+      const end = space === -1 ? query.length : i + space;
+      value = query.slice(i, end);
+      i = end;
+    }
+    tokens.push({ field: field?.[2].toLowerCase(), negated: !!field?.[1], value, start, end: i });
+  }
+  return tokens;
+}
+
+// Start of a YYYY-MM-DD day, or of the current day, week, month or year, in local time
+function parseDay(value: string, now = new Date()): Date | null {
+  const relative = RELATIVE_DAYS.find(option => option === value.toLowerCase());
+  if (relative) {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    // Weeks start on Monday
+    if (relative === 'week') start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    if (relative === 'month') start.setDate(1);
+    if (relative === 'year') start.setMonth(0, 1);
+    return start;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseDistance(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)(m|km)?$/i.exec(value);
+  if (!match) return null;
+  return parseFloat(match[1]) * (match[2]?.toLowerCase() === 'km' ? 1000 : 1);
+}
+
+/**
+ * Parses a search query. Parts that are not understood are reported and left out.
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const terms: SearchTerm[] = [];
+  const errors: string[] = [];
+
+  for (const { field, negated, value } of tokenize(query)) {
+    const text = value.trim();
+    if (!field) {
+      if (text) terms.push({ kind: 'text', value: text.toLowerCase() });
+      continue;
+    }
+    // A filter still being typed matches everything
+    if (!text) continue;
+
+    let term: SearchTerm | undefined;
+    if (ATTRIBUTE_FIELDS[field]) {
+      term = { kind: 'attribute', field: ATTRIBUTE_FIELDS[field], value: text.toLowerCase() };
+    } else if (field === 'cat' || field === 'colony') {
+      term = { kind: field, value: text.toLowerCase() };
+    } else if (field === 'after' || field === 'before') {
+      const date = parseDay(text);
+      if (date) term = { kind: field, date };
+      else errors.push(`${field}: needs a date like 2025-01-31 or month`);
+    } else if (field === 'near') {
+      const meters = parseDistance(text);
+      if (meters !== null) term = { kind: 'near', meters };
+      else errors.push('near: needs a distance like 500m or 2km');
+    } else if (field === 'has') {
+      const has = HAS_VALUES.find(option => option === text.toLowerCase());
+      if (has) term = { kind: 'has', value: has };
+      else errors.push(`has: can be ${HAS_VALUES.join(', ')}`);
+    } else if (field === 'is' && text.toLowerCase() === 'draft') {
+      term = { kind: 'is', value: 'draft' };
+    } else if (field === 'is') {
+      errors.push('is: can be draft');
+    } else {
+      errors.push(`Unknown filter ${field}:`);
+    }
+    if (term) terms.push(negated ? { kind: 'not', term } : term);
+  }
+
+  return { terms, errors };
+}
+
+function matchesTerm(encounter: CatEncounter, term: SearchTerm, context: SearchContext): boolean {
+  const catName = encounter.catId ? context.getCatName?.(encounter.catId) : undefined;
+  switch (term.kind) {
+    case 'text':
+      if (context.textMatches) return context.textMatches.has(encounter.id);
+      return [encounter.catColor, encounter.coatLength, encounter.catType, encounter.behavior, encounter.comment, catName]
+        .some(field => field?.toLowerCase().includes(term.value));
+    case 'attribute':
+      return encounter[term.field]?.toLowerCase().includes(term.value) ?? false;
+    case 'cat':
+      return catName?.toLowerCase().includes(term.value) ?? false;
+    case 'colony': {
+      const colonyName = encounter.colonyId ? context.getColonyName?.(encounter.colonyId) : undefined;
+      return colonyName?.toLowerCase().includes(term.value) ?? false;
+    }
+    case 'after':
+      return new Date(encounter.dateTime) >= term.date;
+    case 'before':
+      return new Date(encounter.dateTime) < term.date;
+    case 'near':
+      // Without a position to measure from, distance does not narrow the results
+      return !context.origin || distanceInMeters(context.origin, encounter) <= term.meters;
+    case 'has':
+      switch (term.value) {
+        case 'photo': return getEncounterPhotos(encounter).length > 0;
+        case 'comment': return !!encounter.comment?.trim();
+        case 'cat': return !!encounter.catId;
+        case 'health': return !!encounter.health;
+      }
+      return false;
+    case 'is':
+      return !!encounter.isDraft;
+    case 'not':
+      return !matchesTerm(encounter, term.term, context);
+  }
+}
+
+/**
+ * Encounters matching every part of a parsed query
+ */
+export function filterEncounters(encounters: CatEncounter[], query: SearchQuery, context: SearchContext = {}): CatEncounter[] {
+  if (query.terms.length === 0) return encounters;
+  const matching = encounters.filter(encounter => query.terms.every(term => matchesTerm(encounter, term, context)));
+
+  // Free text ranks the results by relevance
+  const { textMatches } = context;
+  if (!textMatches || !getFreeText(query)) return matching;
+  return matching.sort((a, b) => (textMatches.get(b.id) ?? 0) - (textMatches.get(a.id) ?? 0));
+}
+
+/**
+ * The free text of a query, for the full-text index
+ */
+export function getFreeText(query: SearchQuery): string {
+  return query.terms.flatMap(term => term.kind === 'text' ? [term.value] : []).join(' ');
+}
+
+/**
+ * Whether a query filters on distance, so the caller knows to find a position
+ */
+export function usesDistance(query: SearchQuery): boolean {
+  return query.terms.some(term => term.kind === 'near' || (term.kind === 'not' && term.term.kind === 'near'));
+}
+
+/**
+ * Words to highlight in results: the stems of free text, so "sleeps" marks "sleeping",
+ * and the values of text filters
+ */
+export function getHighlightTerms(query: SearchQuery): string[] {
+  return query.terms.flatMap(term =>
+    term.kind === 'text' ? tokenizeText(term.value)
+      : term.kind === 'attribute' || term.kind === 'cat' ? [term.value]
+      : []);
+}
+
+/**
+ * Splits text into parts that do and do not match any of the terms, ignoring case
+ */
+export function splitHighlights(text: string, terms: string[]): Array<{ text: string; match: boolean }> {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    if (!term) continue;
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  }
+  if (ranges.length === 0) return [{ text, match: false }];
+
+  // Merge overlapping and touching matches into one
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of ranges) {
+    const previous = merged[merged.length - 1];
+    if (previous && start <= previous[1]) previous[1] = Math.max(previous[1], end);
+    else merged.push([start, end]);
+  }
+
+  const parts: Array<{ text: string; match: boolean }> = [];
+  let position = 0;
+  for (const [start, end] of merged) {
+    if (start > position) parts.push({ text: text.slice(position, start), match: false });
+    parts.push({ text: text.slice(start, end), match: true });
+    position = end;
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), match: false });
+  return parts;
+}
+
+const quote = (value: string) => /\s/.test(value) ? `"${value}"` : value;
+
+/**
+ * Completions for the part of the query being typed: filter names, then the
+ * known values of the filter
+ */
+export function getSearchSuggestions(query: string, options: SearchOptions, limit = 8): SearchSuggestion[] {
+  const tokens = tokenize(query);
+  const last = tokens[tokens.length - 1];
+  // After a space a new part starts; offer the filters
+  const current = last && last.end === query.length && !/\s$/.test(query) ? last : undefined;
+  const prefix = current ? query.slice(0, current.start) : query;
+  const typed = current?.value.toLowerCase() ?? '';
+
+  if (!current?.field) {
+    // A leading - starts a filter that must not match
+    const sign = typed.startsWith('-') ? '-' : '';
+    return SEARCH_FILTERS
+      .filter(filter => filter.name.startsWith(typed.slice(sign.length)))
+      .slice(0, limit)
+      .map(filter => ({
+        label: `${sign}${filter.name}:`,
+        description: sign ? `Not: ${filter.description}` : filter.description,
+        query: `${prefix}${sign}${filter.name}:`
+      }));
+  }
+  const sign = current.negated ? '-' : '';
+
+  const field = current.field === 'colour' ? 'color' : current.field === 'behaviour' ? 'behavior' : current.field;
+  const values = field === 'has' ? [...HAS_VALUES]
+    : field === 'is' ? ['draft']
+    : field === 'near' ? NEAR_EXAMPLES
+    : field === 'after' || field === 'before' ? [...RELATIVE_DAYS]
+    : options[field as keyof SearchOptions] ?? [];
+
+  // Values starting with what was typed come before values merely containing it
+  const unique = [...new Set(values)];
+  const ranked = [
+    ...unique.filter(value => value.toLowerCase().startsWith(typed)),
+    ...unique.filter(value => !value.toLowerCase().startsWith(typed) && value.toLowerCase().includes(typed))
+  ];
+  return ranked
+    .filter(value => value.toLowerCase() !== typed)
+    .slice(0, limit)
+    .map(value => ({ label: `${sign}${field}:${value}`, query: `${prefix}${sign}${field}:${quote(value)} ` }));
+}
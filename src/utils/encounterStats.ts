@@ -0,0 +1,210 @@
+/**
+ * Statistics for the stats dashboard, computed on the device from stored encounters.
+ * Days, weeks and hours are in local time, as the encounters were seen.
+ */
+
+import type { CatEncounter } from '../types';
+import { getEncounterPhotos } from '../models/CatEncounter';
+
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export type StatsField = 'catColor' | 'coatLength' | 'catType' | 'behavior';
+
+export interface StatsCount {
+  label: string;
+  count: number;
+}
+
+export interface TimeBucket {
+  start: string;      // First day of the bucket, YYYY-MM-DD
+  count: number;
+}
+
+export interface PhotoCoverage {
+  total: number;
+  withPhotos: number;
+  photoCount: number;
+}
+
+export interface VisitedArea {
+  lat: number;        // Average position of the encounters in the area
+  lng: number;
+  count: number;
+  colonyId?: string;  // Colony most of them belong to, if any
+}
+
+export interface EncounterStreaks {
+  current: number;    // Days in a row up to today, or yesterday until today's first encounter
+  longest: number;
+  activeDays: number;
+}
+
+// Areas are cells of about 100m, three decimal places of latitude and longitude
+const AREA_PRECISION = 3;
+const NOT_RECORDED = 'Not recorded';
+
+/**
+ * Local calendar day of a date, YYYY-MM-DD
+ */
+export function getDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Start of the day, Monday-based week or month holding a date
+function startOfInterval(date: Date, interval: StatsInterval): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (interval === 'week') start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+  if (interval === 'month') start.setDate(1);
+  return start;
+}
+
+function nextInterval(date: Date, interval: StatsInterval): Date {
+  const next = new Date(date);
+  if (interval === 'day') next.setDate(next.getDate() + 1);
+  if (interval === 'week') next.setDate(next.getDate() + 7);
+  if (interval === 'month') next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+/**
+ * Encounters per day, week or month from the first to the last, including empty ones
+ */
+export function countOverTime(encounters: CatEncounter[], interval: StatsInterval): TimeBucket[] {
+  if (encounters.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  let first = Infinity;
+  let last = -Infinity;
+  for (const encounter of encounters) {
+    const start = startOfInterval(new Date(encounter.dateTime), interval);
+    const key = getDayKey(start);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    first = Math.min(first, start.getTime());
+    last = Math.max(last, start.getTime());
+  }
+
+  const buckets: TimeBucket[] = [];
+  for (let date = new Date(first); date.getTime() <= last; date = nextInterval(date, interval)) {
+    const key = getDayKey(date);
+    buckets.push({ start: key, count: counts.get(key) ?? 0 });
+  }
+  return buckets;
+}
+
+/**
+ * Encounters per value of a field, most common first. Values differing only in case
+ * are counted together under the first spelling seen.
+ */
+export function countByField(encounters: CatEncounter[], field: StatsField): StatsCount[] {
+  const counts = new Map<string, StatsCount>();
+  for (const encounter of encounters) {
+    const label = encounter[field]?.trim() || NOT_RECORDED;
+    const key = label.toLowerCase();
+    const entry = counts.get(key) ?? { label, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/**
+ * Keeps the most common values and adds up the rest as "Other"
+ */
+export function limitCounts(counts: StatsCount[], limit: number): StatsCount[] {
+  if (counts.length <= limit) return counts;
+  const other = counts.slice(limit - 1).reduce((sum, { count }) => sum + count, 0);
+  return [...counts.slice(0, limit - 1), { label: 'Other', count: other }];
+}
+
+/**
+ * Encounters by day of the week (rows, Monday first) and hour of the day (columns)
+ */
+export function countByWeekdayAndHour(encounters: CatEncounter[]): number[][] {
+  const table = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  for (const encounter of encounters) {
+    const date = new Date(encounter.dateTime);
+    table[(date.getDay() + 6) % 7][date.getHours()]++;
+  }
+  return table;
+}
+
+/**
+ * How many encounters have at least one photo, and how many photos there are
+ */
+export function getPhotoCoverage(encounters: CatEncounter[]): PhotoCoverage {
+  let withPhotos = 0;
+  let photoCount = 0;
+  for (const encounter of encounters) {
+    const photos = getEncounterPhotos(encounter).length;
+    if (photos > 0) withPhotos++;
+    photoCount += photos;
+  }
+  return { total: encounters.length, withPhotos, photoCount };
+}
+
+/**
+ * Areas with the most encounters, busiest first
+ */
+export function getMostVisitedAreas(encounters: CatEncounter[], limit = 5): VisitedArea[] {
+  const areas = new Map<string, { lat: number; lng: number; count: number; colonies: Map<string, number> }>();
+  for (const encounter of encounters) {
+    const key = `${encounter.lat.toFixed(AREA_PRECISION)},${encounter.lng.toFixed(AREA_PRECISION)}`;
+    const area = areas.get(key) ?? { lat: 0, lng: 0, count: 0, colonies: new Map() };
+    area.lat += encounter.lat;
+    area.lng += encounter.lng;
+    area.count++;
+    if (encounter.colonyId) area.colonies.set(encounter.colonyId, (area.colonies.get(encounter.colonyId) ?? 0) + 1);
+    areas.set(key, area);
+  }
+
+  return [...areas.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map(({ lat, lng, count, colonies }) => {
+      const [colonyId, colonyCount] = [...colonies].sort((a, b) => b[1] - a[1])[0] ?? [];
+      return {
+        lat: lat / count,
+        lng: lng / count,
+        count,
+        colonyId: colonyCount && colonyCount * 2 > count ? colonyId : undefined
+      };
+    });
+}
+
+/**
+ * Encounters per local day, keyed YYYY-MM-DD
+ */
+export function countByDay(encounters: CatEncounter[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const encounter of encounters) {
+    const key = getDayKey(new Date(encounter.dateTime));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Runs of consecutive days with at least one encounter
+ */
+export function getStreaks(encounters: CatEncounter[], today = new Date()): EncounterStreaks {
+  const days = [...countByDay(encounters).keys()].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: Date | undefined;
+  for (const day of days) {
+    const date = new Date(`${day}T00:00:00`);
+    run = previous && getDayKey(nextInterval(previous, 'day')) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  // The latest run still counts while today has no encounter yet
+  const todayKey = getDayKey(today);
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  const lastDay = days[days.length - 1];
+  const current = lastDay === todayKey || lastDay === getDayKey(yesterday) ? run : 0;
+
+  return { current, longest, activeDays: days.length };
+}
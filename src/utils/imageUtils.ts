@@ -2,6 +2,10 @@
  * Image processing utilities for photo capture and resizing
  */
 
+import type { UserPreferences } from '../types';
+import { editedSize, hidesPhotoContent, type PhotoEdits } from './photoEdits';
+import { stripJpegMetadata } from './jpegMetadata';
+
 export interface ImageResizeOptions {
   maxWidth?: number;
   maxHeight?: number;
@@ -98,6 +102,8 @@ export async function generateThumbnail(
     }
 
     img.onload = () => {
+      URL.revokeObjectURL(img.src);
+
       // Calculate square thumbnail dimensions
       const { width, height } = img;
       const minDimension = Math.min(width, height);
@@ -132,6 +138,7 @@ export async function generateThumbnail(
     };
 
     img.onerror = () => {
+      URL.revokeObjectURL(img.src);
       reject(new Error('Failed to load image for thumbnail'));
     };
 
@@ -187,4 +194,470 @@ export function getImageDimensions(file: File): Promise<{ width: number; height:
     
     img.src = URL.createObjectURL(file);
   });
-}
\ No newline at end of file
+}
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'image/avif': 'avif'
+};
+
+/**
+ * Recognise an image format from its first bytes, for photos stored without a type
+ */
+export function detectImageType(bytes: Uint8Array): string | undefined {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  }
+  return undefined;
+}
+
+/**
+ * The blob's type, or the type recognised from its content when it has none
+ */
+export async function getImageType(blob: Blob): Promise<string> {
+  if (blob.type) return blob.type;
+  const header = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  return detectImageType(header) ?? 'application/octet-stream';
+}
+
+/**
+ * File extension for an image type, used when writing photos as files
+ */
+export function getImageExtension(type: string): string {
+  return IMAGE_EXTENSIONS[type] ?? 'bin';
+}
+
+/**
+ * Metadata read from a photo's EXIF block
+ */
+export interface PhotoMetadata {
+  lat?: number;
+  lng?: number;
+  dateTime?: string;     // ISO-8601; without a recorded UTC offset the camera's time is read as local time
+  orientation?: number;  // EXIF orientation 1-8; browsers apply it when drawing, so resized copies come out upright
+}
+
+// EXIF sits near the start of a JPEG; reading this much covers it without loading the whole photo
+const EXIF_SEARCH_BYTES = 256 * 1024;
+
+// Tags read from the TIFF structure inside the EXIF block
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Byte size of each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/**
+ * Read GPS position, capture time and orientation from a photo.
+ * Resolves to null for photos without EXIF data, such as screenshots or resized copies.
+ */
+export async function readPhotoMetadata(blob: Blob): Promise<PhotoMetadata | null> {
+  const bytes = new Uint8Array(await blob.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+  return parseExif(bytes);
+}
+
+/**
+ * Parse the EXIF block of JPEG bytes
+ */
+export function parseExif(bytes: Uint8Array): PhotoMetadata | null {
+  const segment = findExifSegment(bytes);
+  if (!segment) return null;
+  try {
+    return readTiffMetadata(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), segment.start + EXIF_HEADER_BYTES);
+  } catch (error) {
+    console.warn('Failed to read photo EXIF data:', error);
+    return null;
+  }
+}
+
+// Marker, length and "Exif\0\0" come before the TIFF structure of an EXIF segment
+const EXIF_HEADER_BYTES = 10;
+
+// Position of the APP1 EXIF segment in JPEG bytes, from its marker to its end
+function findExifSegment(bytes: Uint8Array): { start: number; end: number } | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // Image data starts at SOS; metadata segments all come before it
+    if (marker === 0xda) break;
+    const isExif = marker === 0xe1 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 10)) === 'Exif\0\0';
+    if (isExif) {
+      return offset + 2 + length <= bytes.length ? { start: offset, end: offset + 2 + length } : null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function readTiffMetadata(view: DataView, tiffStart: number): PhotoMetadata | null {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifd0 = readIfd(view, tiffStart, tiffStart + view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+  const exifIfd = ifd0.has(TAG_EXIF_IFD)
+    ? readIfd(view, tiffStart, tiffStart + (ifd0.get(TAG_EXIF_IFD) as number[])[0], littleEndian)
+    : new Map<number, TiffValue>();
+  const gpsIfd = ifd0.has(TAG_GPS_IFD)
+    ? readIfd(view, tiffStart, tiffStart + (ifd0.get(TAG_GPS_IFD) as number[])[0], littleEndian)
+    : new Map<number, TiffValue>();
+
+  const metadata: PhotoMetadata = {};
+
+  const orientation = (ifd0.get(TAG_ORIENTATION) as number[] | undefined)?.[0];
+  if (orientation && orientation >= 1 && orientation <= 8) {
+    metadata.orientation = orientation;
+  }
+
+  const dateTime = parseExifDate(
+    (exifIfd.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME)) as string | undefined,
+    exifIfd.get(TAG_OFFSET_TIME_ORIGINAL) as string | undefined
+  );
+  if (dateTime) {
+    metadata.dateTime = dateTime;
+  }
+
+  const lat = toDegrees(gpsIfd.get(TAG_GPS_LATITUDE), gpsIfd.get(TAG_GPS_LATITUDE_REF), 'S');
+  const lng = toDegrees(gpsIfd.get(TAG_GPS_LONGITUDE), gpsIfd.get(TAG_GPS_LONGITUDE_REF), 'W');
+  // Cameras without a fix sometimes write 0,0
+  if (lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && (lat !== 0 || lng !== 0)) {
+    metadata.lat = lat;
+    metadata.lng = lng;
+  }
+
+  return Object.keys(metadata).length > 0 ? metadata : null;
+}
+
+type TiffValue = string | number[];
+
+// Reads the ASCII, integer and rational entries of one IFD
+function readIfd(view: DataView, tiffStart: number, ifdStart: number, littleEndian: boolean): Map<number, TiffValue> {
+  const entries = new Map<number, TiffValue>();
+  const count = view.getUint16(ifdStart, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = TIFF_TYPE_SIZES[type];
+    if (!size) continue;
+
+    // Values of up to four bytes are stored in the entry itself
+    const valueStart = size * valueCount <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+    if (type === 2) {
+      const chars: number[] = [];
+      for (let j = 0; j < valueCount; j++) {
+        const char = view.getUint8(valueStart + j);
+        if (char === 0) break;
+        chars.push(char);
+      }
+      entries.set(tag, String.fromCharCode(...chars));
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let j = 0; j < valueCount; j++) {
+      const at = valueStart + j * size;
+      switch (type) {
+        case 3: values.push(view.getUint16(at, littleEndian)); break;
+        case 4: values.push(view.getUint32(at, littleEndian)); break;
+        case 9: values.push(view.getInt32(at, littleEndian)); break;
+        case 5: values.push(view.getUint32(at, littleEndian) / view.getUint32(at + 4, littleEndian)); break;
+        case 10: values.push(view.getInt32(at, littleEndian) / view.getInt32(at + 4, littleEndian)); break;
+        default: values.push(view.getUint8(at));
+      }
+    }
+    entries.set(tag, values);
+  }
+
+  return entries;
+}
+
+// Degrees, minutes and seconds to signed decimal degrees
+function toDegrees(value: TiffValue | undefined, ref: TiffValue | undefined, negativeRef: string): number | undefined {
+  if (!Array.isArray(value) || value.length < 3 || !value.every(Number.isFinite)) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === negativeRef ? -degrees : degrees;
+}
+
+// "YYYY:MM:DD HH:MM:SS" with an optional "+HH:MM" offset to ISO-8601
+function parseExifDate(value: string | undefined, offset: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const date = offset && /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${offset}`)
+    : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * A copy of the EXIF segment of JPEG bytes with its orientation reset to upright,
+ * for re-encoded photos whose pixels are already turned the right way
+ */
+export function extractExifSegment(bytes: Uint8Array): Uint8Array | null {
+  const position = findExifSegment(bytes);
+  if (!position) return null;
+
+  const segment = bytes.slice(position.start, position.end);
+  const view = new DataView(segment.buffer);
+  try {
+    const tiffStart = EXIF_HEADER_BYTES;
+    const littleEndian = view.getUint16(tiffStart) === 0x4949;
+    const ifd0 = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+    const count = view.getUint16(ifd0, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd0 + 2 + i * 12;
+      if (view.getUint16(entry, littleEndian) === TAG_ORIENTATION) {
+        view.setUint16(entry + 8, 1, littleEndian);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read photo EXIF data:', error);
+    return null;
+  }
+  return segment;
+}
+
+/**
+ * A copy of a photo that is safe to publish, without the GPS position or other metadata
+ * stored photos may carry. JPEGs keep their image data unless their EXIF orientation
+ * turns them, in which case they are redrawn upright like other formats.
+ */
+export async function removePhotoMetadata(photo: Blob): Promise<Blob> {
+  const bytes = new Uint8Array(await photo.arrayBuffer());
+  if (detectImageType(bytes) === 'image/jpeg' && (parseExif(bytes)?.orientation ?? 1) === 1) {
+    return new Blob([stripJpegMetadata(bytes)], { type: 'image/jpeg' });
+  }
+
+  const image = await decodeUpright(photo);
+  const canvas = document.createElement('canvas');
+  canvas.width = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  canvas.height = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0);
+  if (!(image instanceof HTMLImageElement)) image.close();
+  return encodeJpeg(canvas, PHOTO_QUALITY_SETTINGS.high.quality);
+}
+
+/**
+ * Longest edge and JPEG quality of stored photos for each photo quality preference
+ */
+export const PHOTO_QUALITY_SETTINGS: Record<UserPreferences['photoQuality'], { maxDimension: number; quality: number }> = {
+  low: { maxDimension: 1024, quality: 0.6 },
+  medium: { maxDimension: 1600, quality: 0.8 },
+  high: { maxDimension: 2560, quality: 0.92 }
+};
+
+export interface PhotoIngestOptions {
+  quality?: UserPreferences['photoQuality'];
+  keepMetadata?: boolean; // Copy the EXIF data, GPS position included, into the stored photo
+}
+
+export interface IngestedPhoto {
+  file: File;
+  width: number;   // Size of the original photo, upright
+  height: number;
+}
+
+/**
+ * Prepare a picked photo for storage: turn it upright, scale and re-encode it as JPEG
+ * for the photo quality preference, and drop its EXIF data unless asked to keep it.
+ * Read metadata before calling this: stored copies carry none by default.
+ */
+export async function ingestPhoto(file: File, options: PhotoIngestOptions = {}): Promise<IngestedPhoto> {
+  const { quality = 'medium', keepMetadata = false } = options;
+  if (!isValidImageFile(file)) {
+    throw new Error('Please select a valid image file (JPEG, PNG, or WebP)');
+  }
+
+  const image = await decodeUpright(file);
+  const width = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const height = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  const settings = PHOTO_QUALITY_SETTINGS[quality];
+  const scale = Math.min(1, settings.maxDimension / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  // JPEG has no transparency; flatten onto white rather than black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  if (!(image instanceof HTMLImageElement)) image.close();
+
+  const blob = await encodeJpeg(canvas, settings.quality, keepMetadata ? file : undefined);
+  console.log(`Stored photo ${file.name}: ${width}x${height} -> ${canvas.width}x${canvas.height}, ${file.size} -> ${blob.size} bytes`);
+  const name = file.name.replace(/\.[^.]*$/, '') + '.jpg';
+  return { file: new File([blob], name, { type: 'image/jpeg' }), width, height };
+}
+
+// Encodes a canvas as JPEG, copying the EXIF data of a source photo when given one
+async function encodeJpeg(canvas: HTMLCanvasElement, quality: number, exifSource?: Blob): Promise<Blob> {
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      result => result ? resolve(result) : reject(new Error('Failed to create blob from canvas')),
+      'image/jpeg',
+      quality
+    );
+  });
+
+  const exif = exifSource && extractExifSegment(new Uint8Array(await exifSource.slice(0, EXIF_SEARCH_BYTES).arrayBuffer()));
+  // The canvas output starts with its SOI marker; EXIF goes right after it
+  return exif ? new Blob([blob.slice(0, 2), exif, blob.slice(2)], { type: 'image/jpeg' }) : blob;
+}
+
+/**
+ * Decodes a photo with its EXIF orientation applied
+ */
+export async function decodeUpright(file: Blob): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap === 'function') {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+
+  // Image elements apply the orientation by default
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } catch {
+    throw new Error('Failed to load image');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Blurred areas are redrawn from a copy of the photo shrunk to this longest edge
+const BLUR_SAMPLE_SIZE = 32;
+
+/**
+ * Draws a decoded photo with its edits applied, at a scale of its own size.
+ * Without the crop the whole rotated photo is drawn, as the photo editor shows it.
+ */
+export function drawEditedPhoto(
+  image: ImageBitmap | HTMLImageElement,
+  edits: PhotoEdits,
+  options: { scale?: number; crop?: boolean } = {}
+): HTMLCanvasElement {
+  const { scale = 1, crop = true } = options;
+  const imageWidth = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const imageHeight = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  const { width, height } = editedSize(imageWidth * scale, imageHeight * scale, { ...edits, crop: undefined });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(edits.rotation * Math.PI / 180);
+  ctx.drawImage(image, -imageWidth * scale / 2, -imageHeight * scale / 2, imageWidth * scale, imageHeight * scale);
+  ctx.restore();
+
+  if (edits.blurs.length > 0) {
+    // Shrinking the photo and stretching it back leaves nothing recognisable
+    const sampleScale = BLUR_SAMPLE_SIZE / Math.max(width, height);
+    const sample = document.createElement('canvas');
+    sample.width = Math.max(1, Math.round(width * sampleScale));
+    sample.height = Math.max(1, Math.round(height * sampleScale));
+    sample.getContext('2d')?.drawImage(canvas, 0, 0, sample.width, sample.height);
+
+    // Paint the blurred areas as a mask, then fill the mask with the blurred photo
+    const mask = document.createElement('canvas');
+    mask.width = width;
+    mask.height = height;
+    const maskCtx = mask.getContext('2d');
+    if (!maskCtx) {
+      throw new Error('Canvas context not available');
+    }
+    maskCtx.fillStyle = maskCtx.strokeStyle = '#000000';
+    maskCtx.lineCap = maskCtx.lineJoin = 'round';
+    for (const mark of edits.blurs) {
+      if (mark.type === 'box') {
+        const { x, y, width: w, height: h } = mark.region;
+        maskCtx.fillRect(x * width, y * height, w * width, h * height);
+      } else {
+        const radius = mark.radius * Math.min(width, height);
+        maskCtx.lineWidth = radius * 2;
+        maskCtx.beginPath();
+        mark.points.forEach(({ x, y }, index) => {
+          if (index === 0) maskCtx.moveTo(x * width, y * height);
+          maskCtx.lineTo(x * width, y * height);
+        });
+        maskCtx.stroke();
+      }
+    }
+    maskCtx.globalCompositeOperation = 'source-in';
+    maskCtx.imageSmoothingQuality = 'high';
+    maskCtx.drawImage(sample, 0, 0, width, height);
+    ctx.drawImage(mask, 0, 0);
+  }
+
+  if (!crop || !edits.crop) return canvas;
+
+  const cropped = document.createElement('canvas');
+  const cropX = Math.round(edits.crop.x * width);
+  const cropY = Math.round(edits.crop.y * height);
+  cropped.width = Math.max(1, Math.round(edits.crop.width * width));
+  cropped.height = Math.max(1, Math.round(edits.crop.height * height));
+  cropped.getContext('2d')?.drawImage(canvas, cropX, cropY, cropped.width, cropped.height, 0, 0, cropped.width, cropped.height);
+  return cropped;
+}
+
+/**
+ * Applies photo editor edits to a stored-size photo and re-encodes it.
+ * EXIF data is only kept when nothing was hidden: its embedded preview would still
+ * show what was cropped away or blurred.
+ */
+export async function applyPhotoEdits(file: File, edits: PhotoEdits, options: PhotoIngestOptions = {}): Promise<File> {
+  const { quality = 'medium', keepMetadata = false } = options;
+  const image = await decodeUpright(file);
+  let canvas: HTMLCanvasElement;
+  try {
+    canvas = drawEditedPhoto(image, edits);
+  } finally {
+    if (!(image instanceof HTMLImageElement)) image.close();
+  }
+
+  const exifSource = keepMetadata && !hidesPhotoContent(edits) ? file : undefined;
+  const blob = await encodeJpeg(canvas, PHOTO_QUALITY_SETTINGS[quality].quality, exifSource);
+  console.log(`Edited photo ${file.name}: ${canvas.width}x${canvas.height}, ${blob.size} bytes`);
+  return new File([blob], file.name, { type: 'image/jpeg' });
+}
@@ -3,4 +3,9 @@
  */
 
 export * from './dataUtils';
-export * from './dataTransform';
\ No newline at end of file
+export * from './dataTransform';
+export * from './backupFormat';
+export * from './threeWayMerge';
+export * from './shareSnapshot';
+export * from './csv';
+export * from './encounterCsv';
@@ -0,0 +1,36 @@
+/**
+ * Metadata removal for JPEG bytes, shared by the app and the share link worker
+ * Uses no DOM APIs so it runs in both.
+ */
+
+// APP1 holds EXIF and XMP, APP13 holds IPTC; any of them can carry where the photo was taken
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed]);
+
+/**
+ * JPEG bytes without their EXIF, XMP and IPTC segments. The image data is copied as is;
+ * other bytes are returned unchanged.
+ */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return bytes;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Image data starts at SOS; metadata segments all come before it
+    if (marker === 0xda) break;
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (!JPEG_METADATA_MARKERS.has(marker)) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  kept.push(bytes.subarray(offset));
+
+  const stripped = new Uint8Array(kept.reduce((length, part) => length + part.length, 0));
+  let position = 0;
+  for (const part of kept) {
+    stripped.set(part, position);
+    position += part.length;
+  }
+  return stripped;
+}
@@ -0,0 +1,125 @@
+/**
+ * Crop, rotate and blur edits of a photo, kept as a description until the photo is saved
+ * Positions are fractions (0-1) of the photo after rotation, so they do not depend on
+ * the size the photo is shown or stored at.
+ */
+
+export type PhotoRotation = 0 | 90 | 180 | 270;
+
+export interface PhotoPoint {
+  x: number;
+  y: number;
+}
+
+export interface PhotoRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// An area to blur: a box, or a brush stroke whose radius is a fraction of the photo's shorter side
+export type BlurMark =
+  | { type: 'box'; region: PhotoRegion }
+  | { type: 'brush'; points: PhotoPoint[]; radius: number };
+
+export interface PhotoEdits {
+  rotation: PhotoRotation;  // Clockwise
+  crop?: PhotoRegion;
+  blurs: BlurMark[];
+}
+
+export const NO_PHOTO_EDITS: PhotoEdits = { rotation: 0, blurs: [] };
+
+// Regions drawn or resized smaller than this are too small to be deliberate
+export const MIN_REGION_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Whether the edits change the photo at all
+ */
+export function hasPhotoEdits(edits: PhotoEdits): boolean {
+  return edits.rotation !== 0 || edits.crop !== undefined || edits.blurs.length > 0;
+}
+
+/**
+ * Whether the edits hide part of the photo, by cropping or blurring it
+ */
+export function hidesPhotoContent(edits: PhotoEdits): boolean {
+  return edits.crop !== undefined || edits.blurs.length > 0;
+}
+
+/**
+ * Region spanning two points, such as the start and end of a drag, kept inside the photo
+ */
+export function regionBetween(a: PhotoPoint, b: PhotoPoint): PhotoRegion {
+  const left = clamp(Math.min(a.x, b.x), 0, 1);
+  const top = clamp(Math.min(a.y, b.y), 0, 1);
+  return {
+    x: left,
+    y: top,
+    width: clamp(Math.max(a.x, b.x), 0, 1) - left,
+    height: clamp(Math.max(a.y, b.y), 0, 1) - top
+  };
+}
+
+/**
+ * Moves a region by an offset without letting it leave the photo
+ */
+export function moveRegion(region: PhotoRegion, dx: number, dy: number): PhotoRegion {
+  return {
+    ...region,
+    x: clamp(region.x + dx, 0, 1 - region.width),
+    y: clamp(region.y + dy, 0, 1 - region.height)
+  };
+}
+
+/**
+ * Grows or shrinks a region from its top left corner, keeping it inside the photo
+ */
+export function resizeRegion(region: PhotoRegion, dw: number, dh: number): PhotoRegion {
+  return {
+    ...region,
+    width: clamp(region.width + dw, MIN_REGION_SIZE, 1 - region.x),
+    height: clamp(region.height + dh, MIN_REGION_SIZE, 1 - region.y)
+  };
+}
+
+// Where a point ends up after a quarter turn clockwise (1) or anticlockwise (-1)
+function rotatePoint({ x, y }: PhotoPoint, turn: 1 | -1): PhotoPoint {
+  return turn === 1 ? { x: 1 - y, y: x } : { x: y, y: 1 - x };
+}
+
+function rotateRegion(region: PhotoRegion, turn: 1 | -1): PhotoRegion {
+  const a = rotatePoint(region, turn);
+  const b = rotatePoint({ x: region.x + region.width, y: region.y + region.height }, turn);
+  return regionBetween(a, b);
+}
+
+/**
+ * Turns the photo a quarter turn, taking the crop and blurred areas with it
+ */
+export function rotatePhotoEdits(edits: PhotoEdits, turn: 1 | -1): PhotoEdits {
+  return {
+    rotation: ((edits.rotation + turn * 90 + 360) % 360) as PhotoRotation,
+    crop: edits.crop && rotateRegion(edits.crop, turn),
+    blurs: edits.blurs.map(mark => mark.type === 'box'
+      ? { type: 'box', region: rotateRegion(mark.region, turn) }
+      : { ...mark, points: mark.points.map(point => rotatePoint(point, turn)) })
+  };
+}
+
+/**
+ * Size of a photo once the edits are applied
+ */
+export function editedSize(width: number, height: number, edits: PhotoEdits): { width: number; height: number } {
+  const turned = edits.rotation === 90 || edits.rotation === 270;
+  const rotatedWidth = turned ? height : width;
+  const rotatedHeight = turned ? width : height;
+  const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  return {
+    width: Math.max(1, Math.round(rotatedWidth * crop.width)),
+    height: Math.max(1, Math.round(rotatedHeight * crop.height))
+  };
+}
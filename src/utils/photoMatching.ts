@@ -0,0 +1,160 @@
+/**
+ * Perceptual photo hashing and "same cat" match ranking
+ * Photos are compared by a difference hash (dHash) of their centre square, so
+ * stored thumbnails and newly picked photos hash alike.
+ */
+
+// Edge of the grayscale square a photo is sampled to before hashing; divisible by both hash dimensions
+export const HASH_SAMPLE_SIZE = 72;
+
+// A dHash compares each of 8 rows of 9 cells with its right neighbour: 64 bits
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+const HASH_BITS = (HASH_COLUMNS - 1) * HASH_ROWS;
+
+// Photos differing in more bits than this are treated as unrelated
+const MAX_HASH_DISTANCE = 20;
+
+// Encounters further away than this add nothing for proximity
+const NEARBY_METERS = 2000;
+
+// How much each kind of evidence counts towards a match
+const SCORE_WEIGHTS = { photo: 0.6, attributes: 0.25, proximity: 0.15 };
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Grayscale luminance of RGBA pixel data
+ */
+export function toGrayscale(rgba: ArrayLike<number>): number[] {
+  const gray: number[] = [];
+  for (let i = 0; i < rgba.length; i += 4) {
+    gray.push(0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]);
+  }
+  return gray;
+}
+
+/**
+ * Difference hash of a HASH_SAMPLE_SIZE square of grayscale values, as 16 hex digits.
+ * Each bit records whether a cell is brighter than the one to its right.
+ */
+export function computeDHash(gray: ArrayLike<number>): string {
+  if (gray.length !== HASH_SAMPLE_SIZE * HASH_SAMPLE_SIZE) {
+    throw new Error(`Expected a ${HASH_SAMPLE_SIZE}x${HASH_SAMPLE_SIZE} grayscale sample`);
+  }
+
+  // Average the sample down to the hash grid
+  const cellWidth = HASH_SAMPLE_SIZE / HASH_COLUMNS;
+  const cellHeight = HASH_SAMPLE_SIZE / HASH_ROWS;
+  const cells: number[] = new Array(HASH_COLUMNS * HASH_ROWS).fill(0);
+  for (let y = 0; y < HASH_SAMPLE_SIZE; y++) {
+    for (let x = 0; x < HASH_SAMPLE_SIZE; x++) {
+      cells[Math.floor(y / cellHeight) * HASH_COLUMNS + Math.floor(x / cellWidth)] += gray[y * HASH_SAMPLE_SIZE + x];
+    }
+  }
+
+  let hash = '';
+  for (let row = 0; row < HASH_ROWS; row++) {
+    for (let column = 0; column < HASH_COLUMNS - 1; column += 4) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const cell = row * HASH_COLUMNS + column + bit;
+        nibble = (nibble << 1) | (cells[cell] > cells[cell + 1] ? 1 : 0);
+      }
+      hash += nibble.toString(16);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+}
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function distanceInMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * A hashed photo of a known cat, from one of its encounters or its profile
+ */
+export interface PhotoMatchCandidate {
+  catId: string;
+  hash: string;
+  lat?: number;
+  lng?: number;
+  catColor?: string;
+  coatLength?: string;
+  catType?: string;
+}
+
+/**
+ * The photos and details of the encounter being logged
+ */
+export interface PhotoMatchTarget {
+  hashes: string[];
+  lat?: number;
+  lng?: number;
+  catColor?: string;
+  coatLength?: string;
+  catType?: string;
+}
+
+export interface PhotoMatch {
+  catId: string;
+  score: number;            // 0-1, used for ranking
+  photoSimilarity: number;  // 0-1, of the closest pair of photos
+  attributesMatched: number; // Color, coat length and type shared with the target
+  distance?: number;        // Meters to the sighting of the closest photo
+}
+
+/**
+ * Known cats whose photos resemble the target's, best first. Photo similarity
+ * decides whether a cat is suggested; shared attributes and nearby sightings rank it.
+ */
+export function rankPhotoMatches(target: PhotoMatchTarget, candidates: PhotoMatchCandidate[], limit = 3): PhotoMatch[] {
+  if (target.hashes.length === 0) return [];
+  const attributes = ['catColor', 'coatLength', 'catType'] as const;
+  const best = new Map<string, PhotoMatch>();
+
+  for (const candidate of candidates) {
+    const hashDistance = Math.min(...target.hashes.map(hash => hammingDistance(hash, candidate.hash)));
+    if (hashDistance > MAX_HASH_DISTANCE) continue;
+
+    const photoSimilarity = 1 - hashDistance / HASH_BITS;
+    const attributesMatched = attributes.filter(key => target[key] && target[key] === candidate[key]).length;
+    const distance = target.lat !== undefined && target.lng !== undefined && candidate.lat !== undefined && candidate.lng !== undefined
+      ? distanceInMeters({ lat: target.lat, lng: target.lng }, { lat: candidate.lat, lng: candidate.lng })
+      : undefined;
+    const proximity = distance === undefined ? 0 : Math.max(0, 1 - distance / NEARBY_METERS);
+    const score = SCORE_WEIGHTS.photo * photoSimilarity +
+      SCORE_WEIGHTS.attributes * attributesMatched / attributes.length +
+      SCORE_WEIGHTS.proximity * proximity;
+
+    // A cat is as good a match as its best photo
+    const previous = best.get(candidate.catId);
+    if (!previous || score > previous.score) {
+      best.set(candidate.catId, { catId: candidate.catId, score, photoSimilarity, attributesMatched, distance });
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
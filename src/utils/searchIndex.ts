@@ -0,0 +1,109 @@
+/**
+ * Text analysis for the full-text encounter index kept by StorageService
+ * Words are lower-cased, stripped of accents and reduced to a stem, so "Café",
+ * "cafe" and "cafes" all land on the same index entry.
+ */
+
+import type { CatEncounter } from '../types';
+
+/**
+ * One entry of the inverted index: an encounter that contains a term
+ */
+export interface SearchPosting {
+  term: string;
+  encounterId: string;
+  weight: number;   // How strongly the term describes the encounter
+}
+
+// Words in a cat's name or type say more about it than words in the notes
+const FIELD_WEIGHTS = {
+  catName: 3,
+  catType: 2,
+  behavior: 2,
+  catColor: 2,
+  coatLength: 1,
+  comment: 1
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'there', 'they', 'this',
+  'to', 'was', 'were', 'with'
+]);
+
+/**
+ * Lower-cases text and removes accents
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Reduces an English word to a stem by removing common suffixes:
+ * "kitties" -> "kitty", "sleeping" -> "sleep", "hissed" -> "hiss", "friendly" -> "friend"
+ */
+export function stemWord(word: string): string {
+  let stem = word;
+  if (stem.length > 4 && stem.endsWith('ies')) {
+    stem = stem.slice(0, -3) + 'y';
+  } else if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2);
+  } else if (stem.length > 3 && stem.endsWith('s') && !stem.endsWith('ss') && !stem.endsWith('us')) {
+    stem = stem.slice(0, -1);
+  }
+
+  if (stem.length > 5 && stem.endsWith('ing')) {
+    stem = stem.slice(0, -3);
+  } else if (stem.length > 4 && stem.endsWith('ed') && !stem.endsWith('eed')) {
+    stem = stem.slice(0, -2);
+  } else if (stem.length > 5 && stem.endsWith('ly')) {
+    stem = stem.slice(0, -2);
+  }
+  // "running" -> "runn" -> "run", and "purrs" and "purring" both end up "pur"; "hiss" stays
+  if (/([^aeiouslz])\1$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+  return stem;
+}
+
+/**
+ * Folded words of a text, without stop words and single letters
+ */
+export function splitWords(text: string): string[] {
+  return foldText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Index terms of a text: its folded, stemmed words
+ */
+export function tokenizeText(text: string): string[] {
+  return splitWords(text).map(stemWord);
+}
+
+/**
+ * Index entries for an encounter, one per distinct term with the weights of every
+ * field it appears in added up. Deleted encounters have none.
+ */
+export function getEncounterPostings(encounter: CatEncounter, catName?: string): SearchPosting[] {
+  if (encounter.isDeleted) return [];
+
+  const weights = new Map<string, number>();
+  const fields: Array<[keyof typeof FIELD_WEIGHTS, string | undefined]> = [
+    ['catName', catName],
+    ['catType', encounter.catType],
+    ['behavior', encounter.behavior],
+    ['catColor', encounter.catColor],
+    ['coatLength', encounter.coatLength],
+    ['comment', encounter.comment]
+  ];
+  for (const [field, text] of fields) {
+    if (!text) continue;
+    for (const term of tokenizeText(text)) {
+      weights.set(term, (weights.get(term) ?? 0) + FIELD_WEIGHTS[field]);
+    }
+  }
+
+  return [...weights].map(([term, weight]) => ({ term, encounterId: encounter.id, weight }));
+}
@@ -0,0 +1,85 @@
+/**
+ * Builds the public snapshot published for a share link
+ * Only what is shown on the share page leaves the device, and never the exact location.
+ */
+
+import type { Cat, CatEncounter, ShareSnapshot } from '../types';
+import { getCatDisplayName } from '../models/Cat';
+
+// The published point is at most half this far from the real spot, plus the
+// rounding to three decimals (under 80 m), so the spot is always inside the circle on the page
+export const SHARE_LOCATION_RADIUS_METERS = 250;
+
+const METERS_PER_DEGREE_LAT = 111_320;
+
+/**
+ * Moves a location a random distance of up to half the share radius and rounds it
+ * to three decimals, so the published point cannot be traced back to a doorstep
+ */
+export function fuzzLocation(
+  lat: number,
+  lng: number,
+  radiusMeters = SHARE_LOCATION_RADIUS_METERS,
+  random: () => number = Math.random
+): { lat: number; lng: number } {
+  const distance = radiusMeters / 2 * Math.sqrt(random());
+  const bearing = random() * 2 * Math.PI;
+  const fuzzedLat = lat + distance * Math.cos(bearing) / METERS_PER_DEGREE_LAT;
+  const fuzzedLng = lng + distance * Math.sin(bearing) / (METERS_PER_DEGREE_LAT * Math.cos(lat * Math.PI / 180));
+
+  return {
+    lat: Math.round(fuzzedLat * 1000) / 1000,
+    lng: Math.round(fuzzedLng * 1000) / 1000
+  };
+}
+
+/**
+ * Snapshot of a single encounter; the linked cat's name becomes the title
+ */
+export function createEncounterSnapshot(encounter: CatEncounter, cat?: Cat): ShareSnapshot {
+  return {
+    kind: 'encounter',
+    title: cat ? getCatDisplayName(cat) : `${encounter.catColor} ${encounter.catType}`,
+    description: encounter.comment?.trim() || undefined,
+    details: encounterDetails(encounter),
+    seenAt: encounter.dateTime,
+    ...fuzzLocation(encounter.lat, encounter.lng),
+    radiusMeters: SHARE_LOCATION_RADIUS_METERS
+  };
+}
+
+/**
+ * Snapshot of a known cat, located at its most recent encounter
+ */
+export function createCatSnapshot(cat: Cat, encounters: CatEncounter[]): ShareSnapshot {
+  const sightings = encounters
+    .filter(encounter => encounter.catId === cat.id && !encounter.isDeleted)
+    .sort((a, b) => b.dateTime.localeCompare(a.dateTime));
+  const latest = sightings[0];
+  if (!latest) {
+    throw new Error(`${getCatDisplayName(cat)} has no encounters to share`);
+  }
+
+  return {
+    kind: 'cat',
+    title: getCatDisplayName(cat),
+    description: cat.notes?.trim() || undefined,
+    details: [
+      ...(cat.distinguishingMarks ? [{ label: 'Marks', value: cat.distinguishingMarks }] : []),
+      ...encounterDetails(latest),
+      { label: 'Sightings', value: String(sightings.length) }
+    ],
+    seenAt: latest.dateTime,
+    ...fuzzLocation(latest.lat, latest.lng),
+    radiusMeters: SHARE_LOCATION_RADIUS_METERS
+  };
+}
+
+function encounterDetails(encounter: CatEncounter): ShareSnapshot['details'] {
+  return [
+    { label: 'Color', value: encounter.catColor },
+    ...(encounter.coatLength ? [{ label: 'Coat', value: encounter.coatLength }] : []),
+    { label: 'Type', value: encounter.catType },
+    { label: 'Behavior', value: encounter.behavior }
+  ];
+}
@@ -0,0 +1,149 @@
+/**
+ * Field-level three-way merge for synced records
+ * Compares local and cloud copies against the last version both sides agreed on.
+ */
+
+import type { DataConflict, Resolution } from '../types';
+
+// Minimal shape of a record that can be merged
+export type MergeableRecord = { id: string; createdAt?: string; updatedAt: string };
+
+// Bookkeeping fields that are never merged field by field
+const BOOKKEEPING_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+// Fields that point at data stored on this device only; the local value always wins
+const DEVICE_LOCAL_FIELDS = ['photoBlobId', 'profilePhotoBlobId'];
+
+// List fields whose entries carry such device-local keys; those keys are ignored when comparing
+const DEVICE_LOCAL_ENTRY_KEYS: Record<string, string[]> = { photos: ['blobId'] };
+
+/**
+ * Result of merging two copies of a record
+ */
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: DataConflict[];
+}
+
+/**
+ * Structural equality for plain JSON values. Object keys may come in any order, and a
+ * key holding undefined equals a missing one, as after a JSON round trip.
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => valuesEqual(item, b[index]));
+  }
+  if (!isObject(a) || !isObject(b)) return false;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])].every(key => valuesEqual(a[key], b[key]));
+}
+
+/**
+ * Returns true when two copies differ in any synced field
+ */
+export function recordsDiffer<T extends MergeableRecord>(a: T, b: T): boolean {
+  return getMergeFields(a, b).some(field => !valuesEqual(syncedValue(a, field), syncedValue(b, field)));
+}
+
+/**
+ * Merges local and cloud copies field by field.
+ * A field changed on one side only takes that side's value; a field changed differently
+ * on both sides is reported as a conflict and keeps the local value until resolved.
+ * Without a base every differing field is a conflict.
+ */
+export function threeWayMerge<T extends MergeableRecord>(base: T | undefined, local: T, cloud: T): MergeResult<T> {
+  const merged: Record<string, unknown> = { ...local };
+  const conflicts: DataConflict[] = [];
+
+  for (const field of getMergeFields(local, cloud, base)) {
+    const localValue = fieldValue(local, field);
+    const cloudValue = fieldValue(cloud, field);
+
+    if (valuesEqual(syncedValue(local, field), syncedValue(cloud, field))) {
+      continue;
+    }
+
+    const baseValue = base ? fieldValue(base, field) : undefined;
+    if (base && valuesEqual(syncedValue(base, field), syncedValue(local, field))) {
+      // Only the cloud changed this field
+      merged[field] = cloudValue;
+    } else if (base && valuesEqual(syncedValue(base, field), syncedValue(cloud, field))) {
+      // Only this device changed this field
+      merged[field] = localValue;
+    } else {
+      conflicts.push({
+        field,
+        localValue,
+        cloudValue,
+        ...(base ? { baseValue } : {}),
+        timestamp: cloud.updatedAt
+      });
+    }
+  }
+
+  merged.updatedAt = local.updatedAt > cloud.updatedAt ? local.updatedAt : cloud.updatedAt;
+  return { merged: merged as T, conflicts };
+}
+
+/**
+ * Applies the user's per-field choices to a record
+ */
+export function applyResolutions<T extends MergeableRecord>(
+  record: T,
+  conflicts: DataConflict[],
+  resolutions: { [field: string]: Resolution }
+): T {
+  const resolved: Record<string, unknown> = { ...record };
+
+  for (const conflict of conflicts) {
+    const resolution = resolutions[conflict.field];
+    if (!resolution) {
+      throw new Error(`No resolution chosen for ${conflict.field}`);
+    }
+
+    switch (resolution.action) {
+      case 'use_local':
+        resolved[conflict.field] = conflict.localValue;
+        break;
+      case 'use_cloud':
+        resolved[conflict.field] = conflict.cloudValue;
+        break;
+      case 'merge':
+        resolved[conflict.field] = resolution.mergedValue;
+        break;
+    }
+  }
+
+  return resolved as T;
+}
+
+function getMergeFields(...records: Array<MergeableRecord | undefined>): string[] {
+  const fields = new Set<string>();
+  for (const record of records) {
+    if (!record) continue;
+    for (const key of Object.keys(record)) {
+      if (!BOOKKEEPING_FIELDS.includes(key) && !DEVICE_LOCAL_FIELDS.includes(key)) {
+        fields.add(key);
+      }
+    }
+  }
+  return [...fields];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function fieldValue(record: MergeableRecord, field: string): unknown {
+  return (record as Record<string, unknown>)[field];
+}
+
+// Field value without the keys that only mean something on one device
+function syncedValue(record: MergeableRecord, field: string): unknown {
+  const value = fieldValue(record, field);
+  const localKeys = DEVICE_LOCAL_ENTRY_KEYS[field];
+  if (!localKeys || !Array.isArray(value)) return value;
+  return value.map(entry => Object.fromEntries(
+    Object.entries(entry as Record<string, unknown>).filter(([key]) => !localKeys.includes(key))
+  ));
+}
@@ -0,0 +1,263 @@
+/**
+ * Minimal streaming ZIP writer and random-access ZIP reader
+ * Entries are written uncompressed: photos are already compressed and the JSON
+ * parts are small once photos are no longer base64 inside them. Deflated entries,
+ * as written by OS zip tools, are read through DecompressionStream.
+ */
+
+export interface ZipEntryInput {
+  name: string;
+  data: Blob | string;
+  lastModified?: Date;
+}
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  blob(type?: string): Promise<Blob>;
+  text(): Promise<string>;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+// Sizes and CRC follow the data; names are UTF-8
+const FLAGS = 0x0008 | 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const ZIP_VERSION = 20;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Continues a CRC-32 over another chunk; start with 0
+ */
+export function crc32(chunk: Uint8Array, crc = 0): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+/**
+ * Streams a ZIP archive of the entries. Entries are pulled one at a time and
+ * blobs are read chunk by chunk, so only one chunk is in memory at once.
+ */
+export function createZipStream(entries: Iterable<ZipEntryInput> | AsyncIterable<ZipEntryInput>): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
+
+async function* zipChunks(entries: Iterable<ZipEntryInput> | AsyncIterable<ZipEntryInput>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const [time, date] = toDosDateTime(entry.lastModified ?? new Date());
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, ZIP_VERSION, true);
+    header.setUint16(6, FLAGS, true);
+    header.setUint16(8, METHOD_STORED, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint16(26, name.length, true);
+    yield new Uint8Array(header.buffer);
+    yield name;
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of dataChunks(entry.data, encoder)) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      yield chunk;
+    }
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    descriptor.setUint32(4, crc, true);
+    descriptor.setUint32(8, size, true);
+    descriptor.setUint32(12, size, true);
+    yield new Uint8Array(descriptor.buffer);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, FLAGS, true);
+    central.setUint16(10, METHOD_STORED, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    const centralBytes = new Uint8Array(central.buffer);
+    centralBytes.set(name, 46);
+    centralHeaders.push(centralBytes);
+
+    offset += 30 + name.length + size + 16;
+    if (offset > 0xffffffff) {
+      throw new Error('Backup is larger than 4 GB, which ZIP archives without ZIP64 cannot hold');
+    }
+  }
+
+  let centralSize = 0;
+  for (const centralHeader of centralHeaders) {
+    centralSize += centralHeader.length;
+    yield centralHeader;
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, centralHeaders.length, true);
+  end.setUint16(10, centralHeaders.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  yield new Uint8Array(end.buffer);
+}
+
+async function* dataChunks(data: Blob | string, encoder: TextEncoder): AsyncGenerator<Uint8Array> {
+  if (typeof data === 'string') {
+    yield encoder.encode(data);
+    return;
+  }
+
+  const reader = data.stream().getReader();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Lists the entries of a ZIP file from its central directory. Entry data is only
+ * read when asked for, so large archives are never loaded whole.
+ */
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  // The end record is 22 bytes plus a comment of up to 65535 bytes
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = await readBytes(file.slice(tailStart));
+  let endOffset = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (readUint32(tail, i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = readUint16(tail, endOffset + 10);
+  const centralSize = readUint32(tail, endOffset + 12);
+  const centralOffset = readUint32(tail, endOffset + 16);
+  if (entryCount === 0xffff || centralOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const central = await readBytes(file.slice(centralOffset, centralOffset + centralSize));
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (readUint32(central, position) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP archive: bad central directory');
+    }
+    const method = readUint16(central, position + 10);
+    const compressedSize = readUint32(central, position + 20);
+    const size = readUint32(central, position + 24);
+    const nameLength = readUint16(central, position + 28);
+    const extraLength = readUint16(central, position + 30);
+    const commentLength = readUint16(central, position + 32);
+    const localOffset = readUint32(central, position + 42);
+    const name = decoder.decode(central.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Folder entries
+
+    const blob = async (type = '') => {
+      const local = await readBytes(file.slice(localOffset, localOffset + 30));
+      if (readUint32(local, 0) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt ZIP archive: bad header for ${name}`);
+      }
+      const dataStart = localOffset + 30 + readUint16(local, 26) + readUint16(local, 28);
+      const data = file.slice(dataStart, dataStart + compressedSize, type);
+
+      if (method === METHOD_STORED) return data;
+      if (method === METHOD_DEFLATE && typeof DecompressionStream !== 'undefined') {
+        const inflated = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        return new Response(inflated, { headers: type ? { 'Content-Type': type } : {} }).blob();
+      }
+      throw new Error(`Unsupported compression for ${name}`);
+    };
+
+    entries.push({
+      name,
+      size,
+      blob,
+      text: async () => decoder.decode(await readBytes(await blob()))
+    });
+  }
+
+  return entries;
+}
+
+async function readBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function toDosDateTime(date: Date): [number, number] {
+  const year = Math.max(1980, date.getFullYear());
+  return [
+    (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  ];
+}
@@ -0,0 +1,42 @@
+/**
+ * Web Worker computing perceptual hashes of photos off the main thread
+ */
+
+import { computeDHash, toGrayscale, HASH_SAMPLE_SIZE } from '../utils/photoMatching';
+
+export interface PhotoHashRequest {
+  id: number;
+  blob: Blob;
+}
+
+export type PhotoHashResponse = { id: number; hash: string } | { id: number; error: string };
+
+self.onmessage = async (event: MessageEvent<PhotoHashRequest>) => {
+  const { id, blob } = event.data;
+  let response: PhotoHashResponse;
+
+  try {
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    // Sample the centre square, the same part of the photo its thumbnail shows
+    const side = Math.min(bitmap.width, bitmap.height);
+    const canvas = new OffscreenCanvas(HASH_SAMPLE_SIZE, HASH_SAMPLE_SIZE);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(
+      bitmap,
+      (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side,
+      0, 0, HASH_SAMPLE_SIZE, HASH_SAMPLE_SIZE
+    );
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, HASH_SAMPLE_SIZE, HASH_SAMPLE_SIZE);
+    response = { id, hash: computeDHash(toGrayscale(data)) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Failed to hash photo' };
+  }
+
+  self.postMessage(response);
+};
@@ -5,5 +5,15 @@ export default defineConfig({
     environment: 'jsdom',
     setupFiles: ['./src/test-setup.ts'],
     globals: true,
+    projects: [
+      {
+        extends: true,
+        test: { name: 'app', include: ['src/**/*.test.{ts,tsx}'] }
+      },
+      // The worker runs in workerd through Miniflare; its tests need none of the browser setup
+      {
+        test: { name: 'worker', include: ['worker/**/*.test.ts'], environment: 'node', globals: true }
+      }
+    ]
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,51 @@
+/**
+ * Runs the worker in workerd through Miniflare for tests, with an in-memory D1 database
+ * migrated like a deployed one and an in-memory R2 bucket, or neither like the default deploy
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { Miniflare } from 'miniflare';
+
+const WORKER_DIR = fileURLToPath(new URL('..', import.meta.url));
+
+// Same as wrangler.jsonc
+const COMPATIBILITY_DATE = '2025-07-12';
+
+export const TEST_ORIGIN = 'https://cats.example.test';
+
+export async function startTestWorker(vars: Record<string, string> = {}, withStorage = true): Promise<Miniflare> {
+  const bundle = await build({
+    entryPoints: [`${WORKER_DIR}/index.ts`],
+    bundle: true,
+    format: 'esm',
+    platform: 'neutral',
+    write: false
+  });
+  const worker = new Miniflare({
+    modules: true,
+    script: bundle.outputFiles[0].text,
+    compatibilityDate: COMPATIBILITY_DATE,
+    d1Databases: withStorage ? ['DB'] : [],
+    r2Buckets: withStorage ? ['PHOTOS'] : [],
+    bindings: vars
+  });
+  if (!withStorage) return worker;
+
+  const db = await worker.getD1Database('DB');
+  for (const file of readdirSync(`${WORKER_DIR}/migrations`).sort()) {
+    const statements = readFileSync(`${WORKER_DIR}/migrations/${file}`, 'utf8')
+      .replace(/--.*$/gm, '')
+      .split(';')
+      .map(statement => statement.trim())
+      .filter(Boolean);
+    await db.batch(statements.map(statement => db.prepare(statement)));
+  }
+  return worker;
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -1,3 +1,7 @@
 interface Env {
   ASSETS: Fetcher;
+  DB: D1Database;         // Sync API records, accounts and sessions; share links (only in the "sync" environment)
+  PHOTOS: R2Bucket;       // Sync API and share link photos (only in the "sync" environment)
+  ALLOW_SIGNUP?: string;  // "true" to let anyone create an account; closed otherwise
+  ALLOW_SHARING?: string; // "true" to let anyone publish share links; closed otherwise
 }
\ No newline at end of file
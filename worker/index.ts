@@ -1,8 +1,27 @@
+import { handleSyncRequest, SYNC_API_PREFIX } from './sync/api';
+import { handleShareApiRequest, SHARE_API_PREFIX, SHARE_PAGE_PREFIX } from './share/api';
+import { handleSharePage } from './share/page';
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    // The self-hosted sync API; everything else is the app itself
+    if (pathname.startsWith(SYNC_API_PREFIX)) {
+      return handleSyncRequest(request, env);
+    }
+
+    // Public share links and the API that publishes them
+    if (pathname === SHARE_API_PREFIX || pathname.startsWith(`${SHARE_API_PREFIX}/`)) {
+      return handleShareApiRequest(request, env);
+    }
+    if (pathname.startsWith(SHARE_PAGE_PREFIX)) {
+      return handleSharePage(request, env);
+    }
+
     // By returning the result of ASSETS.fetch, we delegate asset serving to Pages.
     // This is the recommended approach for SPAs, as it respects the configuration
     // in wrangler.jsonc, including "not_found_handling": "single-page-application".
     return env.ASSETS.fetch(request);
   },
-};
\ No newline at end of file
+};
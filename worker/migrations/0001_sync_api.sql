@@ -0,0 +1,33 @@
+-- Sync API storage: accounts, session tokens and synced records
+-- Photos are kept in R2 under users/<user id>/photos/<photo id>
+
+CREATE TABLE users (
+  id TEXT PRIMARY KEY,
+  username TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,   -- base64 PBKDF2-SHA256 output
+  password_salt TEXT NOT NULL,   -- base64 random salt
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE sessions (
+  token_hash TEXT PRIMARY KEY,   -- hex SHA-256 of the bearer token; the token itself is never stored
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX sessions_user ON sessions(user_id);
+
+-- One row per synced record. modified_ms increases strictly per user, so it doubles
+-- as the change feed cursor and as the record's ETag.
+CREATE TABLE records (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('encounter', 'cat', 'preferences')),
+  id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  deleted INTEGER NOT NULL DEFAULT 0,
+  modified_ms INTEGER NOT NULL,
+  PRIMARY KEY (user_id, kind, id)
+);
+
+CREATE INDEX records_feed ON records(user_id, modified_ms);
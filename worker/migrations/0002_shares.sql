@@ -0,0 +1,14 @@
+-- Public share links: a frozen snapshot of an encounter or cat served at /s/<token>
+-- Share photos are kept in R2 under shares/<token>.<ext>
+
+CREATE TABLE shares (
+  token TEXT PRIMARY KEY,
+  revoke_key_hash TEXT NOT NULL,  -- hex SHA-256 of the key the creator uses to revoke the share
+  kind TEXT NOT NULL CHECK (kind IN ('encounter', 'cat')),
+  snapshot TEXT NOT NULL,         -- JSON; the location is already fuzzed by the client
+  photo_key TEXT,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX shares_expiry ON shares(expires_at);
@@ -0,0 +1,20 @@
+-- Colonies sync as their own record kind. SQLite cannot alter a CHECK constraint,
+-- so the records table is rebuilt with the wider kind list.
+
+CREATE TABLE records_new (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('encounter', 'cat', 'colony', 'preferences')),
+  id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  deleted INTEGER NOT NULL DEFAULT 0,
+  modified_ms INTEGER NOT NULL,
+  PRIMARY KEY (user_id, kind, id)
+);
+
+INSERT INTO records_new (user_id, kind, id, data, deleted, modified_ms)
+  SELECT user_id, kind, id, data, deleted, modified_ms FROM records;
+
+DROP TABLE records;
+ALTER TABLE records_new RENAME TO records;
+
+CREATE INDEX records_feed ON records(user_id, modified_ms);
@@ -0,0 +1,82 @@
+/**
+ * Tests for the share link API, run in workerd against D1 and R2 emulated by Miniflare
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+// Miniflare's own FormData, which it can send as multipart
+import { FormData, type Miniflare } from 'miniflare';
+import { startTestWorker, TEST_ORIGIN } from '../../__tests__/testWorker';
+
+const snapshot = {
+  kind: 'encounter',
+  title: 'Black cat',
+  details: [],
+  lat: 51.5,
+  lng: -0.12,
+  radiusMeters: 250
+};
+
+// A JPEG with a JFIF segment, an EXIF segment and the start of the image data
+const JFIF = [0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46];
+const EXIF = [0xff, 0xe1, 0x00, 0x0a, ...[...'Exif'].map(c => c.charCodeAt(0)), 0, 0, 0x47, 0x50];
+const IMAGE = [0xff, 0xda, 0x00, 0x02, 1, 2, 3, 0xff, 0xd9];
+
+describe('share API', () => {
+  let worker: Miniflare;
+
+  beforeAll(async () => {
+    worker = await startTestWorker({ ALLOW_SHARING: 'true' });
+  });
+
+  afterAll(async () => {
+    await worker.dispose();
+  });
+
+  const post = (fields: Record<string, string | Blob>, to = worker) => {
+    const form = new FormData();
+    for (const [name, value] of Object.entries(fields)) {
+      if (typeof value === 'string') form.append(name, value);
+      else form.append(name, value, 'photo');
+    }
+    return to.dispatchFetch(`${TEST_ORIGIN}/api/shares`, { method: 'POST', body: form });
+  };
+
+  const publish = async (photo: Uint8Array, type: string) => {
+    const response = await post({ snapshot: JSON.stringify(snapshot), photo: new Blob([photo], { type }) });
+    expect(response.status).toBe(201);
+    return response.json() as Promise<{ token: string }>;
+  };
+
+  it('should refuse to publish unless the server allows sharing', async () => {
+    const closed = await startTestWorker();
+    try {
+      const response = await post({ snapshot: JSON.stringify(snapshot) }, closed);
+      expect(response.status).toBe(403);
+    } finally {
+      await closed.dispose();
+    }
+  });
+
+  it('should reject snapshots that are not JSON objects', async () => {
+    for (const body of ['null', '[]', '"cat"']) {
+      const response = await post({ snapshot: body });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'snapshot must be a JSON object' });
+    }
+  });
+
+  it('should store shared JPEGs without their EXIF data', async () => {
+    const { token } = await publish(new Uint8Array([0xff, 0xd8, ...JFIF, ...EXIF, ...IMAGE]), 'image/jpeg');
+
+    const stored = await (await worker.getR2Bucket('PHOTOS')).get(`shares/${token}.jpg`);
+    expect([...new Uint8Array(await stored!.arrayBuffer())]).toEqual([0xff, 0xd8, ...JFIF, ...IMAGE]);
+  });
+
+  it('should store other formats as they are', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const { token } = await publish(png, 'image/png');
+
+    const stored = await (await worker.getR2Bucket('PHOTOS')).get(`shares/${token}.png`);
+    expect(new Uint8Array(await stored!.arrayBuffer())).toEqual(png);
+  });
+});
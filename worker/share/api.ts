@@ -0,0 +1,134 @@
+/**
+ * Share link API served under /api/shares
+ *
+ *   POST   /api/shares          publish a snapshot (multipart: snapshot JSON, optional photo, expiresInDays)
+ *   DELETE /api/shares/:token   revoke a share (Authorization: Bearer <revoke key>)
+ *
+ * Sharing needs no account, so publishing is off unless ALLOW_SHARING is "true";
+ * the creator keeps the revoke key returned on publish. Revoking always works.
+ */
+
+import { errorResponse, getBearerToken, HttpError, json, requireStorage } from '../sync/http';
+import { randomToken, sha256Hex, timingSafeEqual } from '../sync/crypto';
+import { parseSnapshot, type ShareRow } from './snapshot';
+import { stripJpegMetadata } from '../../src/utils/jpegMetadata';
+
+export const SHARE_API_PREFIX = '/api/shares';
+export const SHARE_PAGE_PREFIX = '/s/';
+
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+const DEFAULT_EXPIRY_DAYS = 7;
+const MAX_EXPIRY_DAYS = 365;
+const EXPIRED_CLEANUP_BATCH = 20;
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export async function handleShareApiRequest(request: Request, env: Env): Promise<Response> {
+  try {
+    requireStorage(env);
+    const path = new URL(request.url).pathname.slice(SHARE_API_PREFIX.length).split('/').filter(Boolean);
+    if (path.length === 0 && request.method === 'POST') {
+      return await createShare(request, env);
+    }
+    if (path.length === 1 && request.method === 'DELETE') {
+      return await revokeShare(request, env, path[0]);
+    }
+    throw new HttpError(404, 'Not found');
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+async function createShare(request: Request, env: Env): Promise<Response> {
+  if (env.ALLOW_SHARING !== 'true') {
+    throw new HttpError(403, 'Sharing is disabled on this server');
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    throw new HttpError(400, 'Request body must be multipart form data');
+  }
+
+  const snapshotField = form.get('snapshot');
+  if (typeof snapshotField !== 'string') {
+    throw new HttpError(400, 'snapshot is required');
+  }
+  const snapshot = parseSnapshot(snapshotField);
+
+  const days = Number(form.get('expiresInDays') ?? DEFAULT_EXPIRY_DAYS);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+    throw new HttpError(400, `expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}`);
+  }
+
+  const token = randomToken(16);
+  const revokeKey = randomToken(32);
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+  let photoKey: string | null = null;
+  // The default workers-types predate file support in formData(); the runtime returns File
+  const photo = form.get('photo') as File | string | null;
+  if (photo && typeof photo !== 'string') {
+    const extension = PHOTO_EXTENSIONS[photo.type];
+    if (!extension) {
+      throw new HttpError(415, 'Photos must be JPEG, PNG, WebP or GIF');
+    }
+    if (photo.size > MAX_PHOTO_BYTES) {
+      throw new HttpError(413, 'Photo is too large');
+    }
+    photoKey = `shares/${token}.${extension}`;
+    let data: Uint8Array = new Uint8Array(await photo.arrayBuffer());
+    // The app strips photos before sharing them; this also covers older clients
+    if (photo.type === 'image/jpeg') {
+      data = stripJpegMetadata(data);
+    }
+    await env.PHOTOS.put(photoKey, data, { httpMetadata: { contentType: photo.type } });
+  }
+
+  await env.DB.prepare(
+    `INSERT INTO shares (token, revoke_key_hash, kind, snapshot, photo_key, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).bind(token, await sha256Hex(revokeKey), snapshot.kind, JSON.stringify(snapshot), photoKey, now.toISOString(), expiresAt).run();
+
+  await deleteExpiredShares(env);
+
+  const url = new URL(`${SHARE_PAGE_PREFIX}${token}`, request.url).toString();
+  return json({ token, url, revokeKey, createdAt: now.toISOString(), expiresAt }, { status: 201 });
+}
+
+async function revokeShare(request: Request, env: Env, token: string): Promise<Response> {
+  const share = await env.DB.prepare('SELECT * FROM shares WHERE token = ?').bind(token).first<ShareRow>();
+  // Already gone, whether revoked before or cleaned up after expiring
+  if (!share) {
+    return new Response(null, { status: 204 });
+  }
+  if (!timingSafeEqual(await sha256Hex(getBearerToken(request)), share.revoke_key_hash)) {
+    throw new HttpError(403, 'Wrong revoke key for this share');
+  }
+
+  await deleteShare(env, share);
+  return new Response(null, { status: 204 });
+}
+
+export async function deleteShare(env: Env, share: Pick<ShareRow, 'token' | 'photo_key'>): Promise<void> {
+  await env.DB.prepare('DELETE FROM shares WHERE token = ?').bind(share.token).run();
+  if (share.photo_key) {
+    await env.PHOTOS.delete(share.photo_key);
+  }
+}
+
+// Expired shares are removed a few at a time as new ones are published
+async function deleteExpiredShares(env: Env): Promise<void> {
+  const { results } = await env.DB.prepare('SELECT token, photo_key FROM shares WHERE expires_at <= ? LIMIT ?')
+    .bind(new Date().toISOString(), EXPIRED_CLEANUP_BATCH)
+    .all<Pick<ShareRow, 'token' | 'photo_key'>>();
+  for (const share of results) {
+    await deleteShare(env, share);
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Server-rendered public pages for share links
+ *
+ *   GET /s/:token         the share page, with Open Graph tags for link previews
+ *   GET /s/:token/photo   the shared photo
+ */
+
+import { deleteShare, SHARE_PAGE_PREFIX } from './api';
+import type { ShareRow, ShareSnapshot } from './snapshot';
+
+const MAP_ZOOM = 15;
+const MAP_WIDTH = 320;
+const MAP_HEIGHT = 200;
+const TILE_SIZE = 256;
+const TILE_URL = 'https://tile.openstreetmap.org';
+// Short so a revoked link stops working in link previews and browser caches soon
+const PAGE_CACHE_CONTROL = 'public, max-age=300';
+
+export async function handleSharePage(request: Request, env: Env): Promise<Response> {
+  const [token, asset, ...rest] = new URL(request.url).pathname.slice(SHARE_PAGE_PREFIX.length).split('/');
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return new Response('Method Not Allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+  }
+  if (!env.DB || !env.PHOTOS) {
+    return messagePage(503, 'Sharing unavailable', 'Share links are not set up on this server.');
+  }
+  if (!token || rest.length > 0 || (asset !== undefined && asset !== 'photo')) {
+    return messagePage(404, 'Share not found', 'This link does not point to a shared cat.');
+  }
+
+  const share = await env.DB.prepare('SELECT * FROM shares WHERE token = ?').bind(token).first<ShareRow>();
+  if (!share) {
+    return messagePage(404, 'Share not found', 'This link was revoked or never existed.');
+  }
+  if (share.expires_at <= new Date().toISOString()) {
+    await deleteShare(env, share);
+    return messagePage(410, 'Share expired', 'This link has expired.');
+  }
+
+  if (asset === 'photo') {
+    const object = share.photo_key ? await env.PHOTOS.get(share.photo_key) : null;
+    if (!object) {
+      return new Response('Not Found', { status: 404 });
+    }
+    const headers = new Headers({ ETag: object.httpEtag, 'Cache-Control': PAGE_CACHE_CONTROL });
+    object.writeHttpMetadata(headers);
+    return new Response(object.body, { headers });
+  }
+
+  const snapshot = JSON.parse(share.snapshot) as ShareSnapshot;
+  const pageUrl = new URL(`${SHARE_PAGE_PREFIX}${token}`, request.url).toString();
+  return new Response(renderSharePage(snapshot, share, pageUrl), {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': PAGE_CACHE_CONTROL,
+      'X-Robots-Tag': 'noindex'
+    }
+  });
+}
+
+function renderSharePage(snapshot: ShareSnapshot, share: ShareRow, pageUrl: string): string {
+  const photoUrl = share.photo_key ? `${pageUrl}/photo` : null;
+  const map = miniMap(snapshot);
+  const seen = snapshot.seenAt ? `Seen ${formatDate(snapshot.seenAt)}` : '';
+  const summary = [seen, snapshot.details.map(d => d.value).join(', ')].filter(Boolean).join(' · ');
+  const description = snapshot.description ? `${summary}. ${snapshot.description}` : summary;
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(snapshot.title)} · CAT-a-log</title>
+<meta name="description" content="${escapeHtml(description)}">
+<meta property="og:type" content="article">
+<meta property="og:site_name" content="CAT-a-log">
+<meta property="og:title" content="${escapeHtml(snapshot.title)}">
+<meta property="og:description" content="${escapeHtml(description)}">
+<meta property="og:url" content="${escapeHtml(pageUrl)}">
+<meta property="og:image" content="${escapeHtml(photoUrl ?? map.centerTileUrl)}">
+<meta name="twitter:card" content="${photoUrl ? 'summary_large_image' : 'summary'}">
+<style>
+  body { margin: 0; font-family: system-ui, -apple-system, sans-serif; background: #f8fafc; color: #0f172a; }
+  main { max-width: 480px; margin: 0 auto; padding: 16px; }
+  .card { background: #fff; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgb(0 0 0 / 0.1); }
+  .photo { width: 100%; max-height: 360px; object-fit: cover; display: block; }
+  .body { padding: 16px; }
+  h1 { font-size: 1.4rem; margin: 0 0 4px; }
+  .muted { color: #64748b; font-size: 0.875rem; }
+  dl { display: grid; grid-template-columns: auto 1fr; gap: 4px 12px; margin: 12px 0; }
+  dt { color: #64748b; }
+  dd { margin: 0; text-transform: capitalize; }
+  .map { position: relative; width: ${MAP_WIDTH}px; max-width: 100%; height: ${MAP_HEIGHT}px; overflow: hidden; border-radius: 8px; margin: 12px auto 4px; background: #e2e8f0; }
+  .map img { position: absolute; width: ${TILE_SIZE}px; height: ${TILE_SIZE}px; }
+  .area { position: absolute; border: 2px solid #f97316; background: rgb(249 115 22 / 0.2); border-radius: 50%; }
+  footer { text-align: center; margin-top: 16px; }
+  a { color: #ea580c; }
+</style>
+</head>
+<body>
+<main>
+  <article class="card">
+    ${photoUrl ? `<img class="photo" src="${escapeHtml(photoUrl)}" alt="${escapeHtml(snapshot.title)}">` : ''}
+    <div class="body">
+      <h1>${escapeHtml(snapshot.title)}</h1>
+      ${seen ? `<div class="muted">${escapeHtml(seen)}</div>` : ''}
+      ${snapshot.details.length > 0 ? `<dl>${snapshot.details.map(d => `<dt>${escapeHtml(d.label)}</dt><dd>${escapeHtml(d.value)}</dd>`).join('')}</dl>` : ''}
+      ${snapshot.description ? `<p>${escapeHtml(snapshot.description)}</p>` : ''}
+      ${map.html}
+      <div class="muted">Somewhere in the circle, within about ${Math.round(snapshot.radiusMeters)} m. Map data © <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors.</div>
+    </div>
+  </article>
+  <footer class="muted">Shared with <a href="/">CAT-a-log</a> · link expires ${escapeHtml(formatDate(share.expires_at))}</footer>
+</main>
+</body>
+</html>`;
+}
+
+/**
+ * A static map built from OpenStreetMap tiles positioned around the share's location,
+ * with a circle showing how far off the fuzzed point may be
+ */
+function miniMap(snapshot: ShareSnapshot): { html: string; centerTileUrl: string } {
+  const scale = TILE_SIZE * 2 ** MAP_ZOOM;
+  const latRad = snapshot.lat * Math.PI / 180;
+  const pointX = (snapshot.lng + 180) / 360 * scale;
+  const pointY = (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * scale;
+  const left = pointX - MAP_WIDTH / 2;
+  const top = pointY - MAP_HEIGHT / 2;
+
+  const tiles: string[] = [];
+  for (let tileX = Math.floor(left / TILE_SIZE); tileX * TILE_SIZE < left + MAP_WIDTH; tileX++) {
+    for (let tileY = Math.floor(top / TILE_SIZE); tileY * TILE_SIZE < top + MAP_HEIGHT; tileY++) {
+      tiles.push(`<img src="${TILE_URL}/${MAP_ZOOM}/${tileX}/${tileY}.png" alt="" style="left:${Math.round(tileX * TILE_SIZE - left)}px;top:${Math.round(tileY * TILE_SIZE - top)}px">`);
+    }
+  }
+
+  const metersPerPixel = 156543.03392 * Math.cos(latRad) / 2 ** MAP_ZOOM;
+  const radius = Math.round(snapshot.radiusMeters / metersPerPixel);
+  const area = `<div class="area" style="left:${MAP_WIDTH / 2 - radius}px;top:${MAP_HEIGHT / 2 - radius}px;width:${radius * 2}px;height:${radius * 2}px"></div>`;
+
+  return {
+    html: `<div class="map" role="img" aria-label="Map of roughly where the cat was seen">${tiles.join('')}${area}</div>`,
+    centerTileUrl: `${TILE_URL}/${MAP_ZOOM}/${Math.floor(pointX / TILE_SIZE)}/${Math.floor(pointY / TILE_SIZE)}.png`
+  };
+}
+
+function messagePage(status: number, title: string, message: string): Response {
+  const html = `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><meta name="robots" content="noindex"><title>${escapeHtml(title)} · CAT-a-log</title></head>
+<body style="font-family: system-ui, sans-serif; text-align: center; padding: 48px 16px; color: #334155">
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(message)}</p>
+<p><a href="/" style="color: #ea580c">Open CAT-a-log</a></p>
+</body>
+</html>`;
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } });
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,82 @@
+/**
+ * The snapshot stored for a share link and its validation
+ */
+
+import { HttpError } from '../sync/http';
+
+export interface ShareSnapshot {
+  kind: 'encounter' | 'cat';
+  title: string;
+  description?: string;
+  details: { label: string; value: string }[];
+  seenAt?: string;        // ISO timestamp of the encounter, or of the cat's latest sighting
+  lat: number;            // Fuzzed by the client before publishing
+  lng: number;
+  radiusMeters: number;   // How far the real spot may be from lat/lng
+}
+
+export interface ShareRow {
+  token: string;
+  revoke_key_hash: string;
+  kind: ShareSnapshot['kind'];
+  snapshot: string;
+  photo_key: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+const MAX_SNAPSHOT_BYTES = 16 * 1024;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_DETAILS = 20;
+
+/**
+ * Parses and validates a snapshot, keeping only the known fields
+ */
+export function parseSnapshot(raw: string): ShareSnapshot {
+  if (raw.length > MAX_SNAPSHOT_BYTES) {
+    throw new HttpError(413, 'Snapshot is too large');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'snapshot must be valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new HttpError(400, 'snapshot must be a JSON object');
+  }
+  const value = parsed as Record<string, unknown>;
+
+  if (value.kind !== 'encounter' && value.kind !== 'cat') {
+    throw new HttpError(400, 'snapshot.kind must be "encounter" or "cat"');
+  }
+  const lat = Number(value.lat);
+  const lng = Number(value.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 85 || Math.abs(lng) > 180) {
+    throw new HttpError(400, 'snapshot must have a valid location');
+  }
+  const details = Array.isArray(value.details) ? value.details.slice(0, MAX_DETAILS) : [];
+
+  return {
+    kind: value.kind,
+    title: text(value.title, 'snapshot.title') || 'A cat',
+    description: text(value.description, 'snapshot.description') || undefined,
+    details: details
+      .map(detail => ({ label: text(detail?.label, 'detail label'), value: text(detail?.value, 'detail value') }))
+      .filter(detail => detail.label && detail.value),
+    seenAt: typeof value.seenAt === 'string' && !isNaN(Date.parse(value.seenAt)) ? value.seenAt : undefined,
+    // Never store more than ~100 m of precision, whatever the client sent
+    lat: Math.round(lat * 1000) / 1000,
+    lng: Math.round(lng * 1000) / 1000,
+    radiusMeters: Math.min(Math.max(Number(value.radiusMeters) || 0, 100), 5000)
+  };
+}
+
+function text(value: unknown, field: string): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') {
+    throw new HttpError(400, `${field} must be a string`);
+  }
+  return value.trim().slice(0, MAX_TEXT_LENGTH);
+}
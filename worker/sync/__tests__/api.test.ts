@@ -0,0 +1,231 @@
+/**
+ * Tests for the sync API handlers, run in workerd against D1 and R2 emulated by Miniflare
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Miniflare } from 'miniflare';
+import { startTestWorker, sha256Hex, TEST_ORIGIN } from '../../__tests__/testWorker';
+
+const API_URL = `${TEST_ORIGIN}/api/sync`;
+
+describe('sync API', () => {
+  let worker: Miniflare;
+  let token: string;
+  let userId: string;
+
+  const request = (path: string, init: { method?: string; headers?: Record<string, string>; body?: string | Uint8Array } = {}, as = token) =>
+    worker.dispatchFetch(`${API_URL}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${as}`, ...init.headers }
+    });
+
+  const signUp = async (username: string) => {
+    const response = await worker.dispatchFetch(`${API_URL}/accounts`, {
+      method: 'POST',
+      body: JSON.stringify({ username, password: 'correct horse' })
+    });
+    expect(response.status).toBe(201);
+    return response.json() as Promise<{ userId: string; username: string; token: string }>;
+  };
+
+  const putRecord = (kind: string, id: string, data: object, headers: Record<string, string>) =>
+    request(`/records/${kind}/${id}`, { method: 'PUT', headers, body: JSON.stringify(data) });
+
+  beforeAll(async () => {
+    worker = await startTestWorker({ ALLOW_SIGNUP: 'true' });
+    ({ token, userId } = await signUp('alice'));
+  });
+
+  afterAll(async () => {
+    await worker.dispose();
+  });
+
+  it('should answer 503 on a deploy without the sync environment', async () => {
+    const bare = await startTestWorker({ ALLOW_SIGNUP: 'true', ALLOW_SHARING: 'true' }, false);
+    try {
+      const account = await bare.dispatchFetch(`${API_URL}/account`, { headers: { Authorization: `Bearer ${token}` } });
+      expect(account.status).toBe(503);
+      expect(account.headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(await account.json()).toEqual({ error: 'Sync and share links are not set up on this server' });
+      expect((await bare.dispatchFetch(`${TEST_ORIGIN}/api/shares`, { method: 'POST' })).status).toBe(503);
+      expect((await bare.dispatchFetch(`${TEST_ORIGIN}/s/some-token`)).status).toBe(503);
+    } finally {
+      await bare.dispose();
+    }
+  });
+
+  describe('accounts and sessions', () => {
+    it('should store only hashes of passwords and session tokens', async () => {
+      const db = await worker.getD1Database('DB');
+      const user = await db.prepare('SELECT * FROM users WHERE id = ?').bind(userId).first<Record<string, string>>();
+      expect(user?.username).toBe('alice');
+      expect(user?.password_hash).not.toContain('correct horse');
+
+      const sessions = await db.prepare('SELECT token_hash FROM sessions WHERE user_id = ?').bind(userId).all<{ token_hash: string }>();
+      expect(sessions.results.map(session => session.token_hash)).toEqual([await sha256Hex(token)]);
+    });
+
+    it('should reject taken usernames and wrong passwords', async () => {
+      const taken = await worker.dispatchFetch(`${API_URL}/accounts`, {
+        method: 'POST',
+        body: JSON.stringify({ username: 'Alice', password: 'another password' })
+      });
+      expect(taken.status).toBe(409);
+
+      const wrong = await worker.dispatchFetch(`${API_URL}/sessions`, {
+        method: 'POST',
+        body: JSON.stringify({ username: 'alice', password: 'wrong horse' })
+      });
+      expect(wrong.status).toBe(401);
+    });
+
+    it('should sign in, and sign out by revoking only that token', async () => {
+      const login = await worker.dispatchFetch(`${API_URL}/sessions`, {
+        method: 'POST',
+        body: JSON.stringify({ username: 'alice', password: 'correct horse' })
+      });
+      expect(login.status).toBe(201);
+      const { token: second } = await login.json() as { token: string };
+
+      expect(await (await request('/account', {}, second)).json()).toEqual({ userId, username: 'alice' });
+      expect((await request('/sessions/current', { method: 'DELETE' }, second)).status).toBe(204);
+      expect((await request('/account', {}, second)).status).toBe(401);
+      expect((await request('/account')).status).toBe(200);
+    });
+
+    it('should require a valid bearer token', async () => {
+      expect((await worker.dispatchFetch(`${API_URL}/changes`)).status).toBe(401);
+      expect((await request('/changes', {}, 'not-a-session')).status).toBe(401);
+    });
+
+    it('should refuse sign-up unless the server allows it', async () => {
+      const closed = await startTestWorker();
+      try {
+        const response = await closed.dispatchFetch(`${API_URL}/accounts`, {
+          method: 'POST',
+          body: JSON.stringify({ username: 'mallory', password: 'correct horse' })
+        });
+        expect(response.status).toBe(403);
+      } finally {
+        await closed.dispose();
+      }
+    });
+  });
+
+  describe('records', () => {
+    it('should create a record only once and replace it only with the current ETag', async () => {
+      const cat = { id: 'cat-1', name: 'Tabby', updatedAt: '2024-03-01T00:00:00.000Z' };
+
+      expect((await putRecord('cat', 'cat-1', cat, {})).status).toBe(428);
+      const created = await putRecord('cat', 'cat-1', cat, { 'If-None-Match': '*' });
+      expect(created.status).toBe(201);
+      const etag = created.headers.get('ETag')!;
+      expect(etag).toMatch(/^"\d+"$/);
+
+      const again = await putRecord('cat', 'cat-1', cat, { 'If-None-Match': '*' });
+      expect(again.status).toBe(412);
+      expect(again.headers.get('ETag')).toBe(etag);
+
+      const replaced = await putRecord('cat', 'cat-1', { ...cat, name: 'Ginger' }, { 'If-Match': etag });
+      expect(replaced.status).toBe(200);
+      const newEtag = replaced.headers.get('ETag')!;
+      expect(Number(newEtag.slice(1, -1))).toBeGreaterThan(Number(etag.slice(1, -1)));
+
+      // Another device still holding the first version
+      const stale = await putRecord('cat', 'cat-1', { ...cat, name: 'Stale' }, { 'If-Match': etag });
+      expect(stale.status).toBe(412);
+      expect(stale.headers.get('ETag')).toBe(newEtag);
+
+      const read = await request('/records/cat/cat-1');
+      expect(read.headers.get('ETag')).toBe(newEtag);
+      expect(await read.json()).toMatchObject({ name: 'Ginger' });
+      expect((await request('/records/cat/cat-1', { headers: { 'If-None-Match': newEtag } })).status).toBe(304);
+    });
+
+    it('should validate record kinds, ids and bodies', async () => {
+      expect((await putRecord('encounter', 'enc-1', { id: 'other' }, { 'If-None-Match': '*' })).status).toBe(400);
+      expect((await putRecord('dog', 'dog-1', { id: 'dog-1' }, { 'If-None-Match': '*' })).status).toBe(404);
+      expect((await putRecord('cat', 'bad.id', { id: 'bad.id' }, { 'If-None-Match': '*' })).status).toBe(400);
+      expect((await request('/records/cat/missing')).status).toBe(404);
+    });
+
+    it('should reject malformed escapes in the path', async () => {
+      const response = await request('/records/cat/%E0%A4%A');
+      expect(response.status).toBe(400);
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    });
+
+    it('should tombstone deleted records and list changes in pages after a cursor', async () => {
+      const { results: [{ cursor }] } = await (await worker.getD1Database('DB'))
+        .prepare('SELECT COALESCE(MAX(modified_ms), 0) AS cursor FROM records WHERE user_id = ?')
+        .bind(userId)
+        .all<{ cursor: number }>();
+
+      for (const id of ['enc-a', 'enc-b', 'enc-c']) {
+        await putRecord('encounter', id, { id, updatedAt: '2024-03-01T00:00:00.000Z' }, { 'If-None-Match': '*' });
+      }
+      const etag = (await request('/records/encounter/enc-b')).headers.get('ETag')!;
+      expect((await request('/records/encounter/enc-b', { method: 'DELETE' })).status).toBe(428);
+      expect((await request('/records/encounter/enc-b', { method: 'DELETE', headers: { 'If-Match': etag } })).status).toBe(204);
+
+      const first = await (await request(`/changes?cursor=${cursor}&limit=2`)).json() as {
+        changes: Array<{ id: string; deleted: boolean; data: { isDeleted?: boolean } }>;
+        cursor: string;
+        hasMore: boolean;
+      };
+      expect(first.changes.map(change => change.id)).toEqual(['enc-a', 'enc-c']);
+      expect(first.hasMore).toBe(true);
+
+      const second = await (await request(`/changes?cursor=${first.cursor}&limit=2`)).json() as typeof first;
+      expect(second.changes).toEqual([expect.objectContaining({ id: 'enc-b', deleted: true, data: expect.objectContaining({ isDeleted: true }) })]);
+      expect(second.hasMore).toBe(false);
+
+      expect((await request('/changes?cursor=abc')).status).toBe(400);
+    });
+
+    it('should keep each account\'s records apart', async () => {
+      const bob = await signUp('bob');
+      expect((await request('/records/cat/cat-1', {}, bob.token)).status).toBe(404);
+      const feed = await (await request('/changes', {}, bob.token)).json() as { changes: unknown[] };
+      expect(feed.changes).toEqual([]);
+
+      // Bob can use the same id without touching Alice's record
+      expect((await putRecord('cat', 'cat-1', { id: 'cat-1', name: 'Bob\'s cat' }, { 'If-None-Match': '*', Authorization: `Bearer ${bob.token}` })).status).toBe(201);
+      expect(await (await request('/records/cat/cat-1')).json()).toMatchObject({ name: 'Ginger' });
+    });
+  });
+
+  describe('photos', () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+
+    it('should store photos under the user\'s prefix and serve them back', async () => {
+      const upload = await request('/photos', { method: 'POST', headers: { 'Content-Type': 'image/jpeg' }, body: jpeg });
+      expect(upload.status).toBe(201);
+      const { id } = await upload.json() as { id: string };
+      expect(id).toMatch(/\.jpg$/);
+
+      const bucket = await worker.getR2Bucket('PHOTOS');
+      expect((await bucket.list({ prefix: `users/${userId}/photos/` })).objects.map(object => object.key))
+        .toContain(`users/${userId}/photos/${id}`);
+
+      const download = await request(`/photos/${id}`);
+      expect(download.status).toBe(200);
+      expect(download.headers.get('Content-Type')).toBe('image/jpeg');
+      expect(new Uint8Array(await download.arrayBuffer())).toEqual(jpeg);
+      const etag = download.headers.get('ETag')!;
+      expect((await request(`/photos/${id}`, { headers: { 'If-None-Match': etag } })).status).toBe(304);
+
+      const carol = await signUp('carol');
+      expect((await request(`/photos/${id}`, {}, carol.token)).status).toBe(404);
+
+      expect((await request(`/photos/${id}`, { method: 'DELETE' })).status).toBe(204);
+      expect((await request(`/photos/${id}`)).status).toBe(404);
+    });
+
+    it('should reject other file types, empty uploads and bad ids', async () => {
+      expect((await request('/photos', { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: 'hello' })).status).toBe(415);
+      expect((await request('/photos', { method: 'POST', headers: { 'Content-Type': 'image/jpeg' }, body: new Uint8Array() })).status).toBe(400);
+      expect((await request('/photos/..%2Fsecret.jpg')).status).toBe(400);
+    });
+  });
+});
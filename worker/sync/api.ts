@@ -0,0 +1,102 @@
+/**
+ * REST sync API served under /api/sync
+ *
+ *   POST   /api/sync/accounts               create an account, returns a session token
+ *   POST   /api/sync/sessions               sign in, returns a session token
+ *   DELETE /api/sync/sessions/current       sign out
+ *   GET    /api/sync/account                the signed-in user
+ *   GET    /api/sync/changes?cursor=        change feed
+ *   GET    /api/sync/records/:kind/:id      read a record (ETag)
+ *   PUT    /api/sync/records/:kind/:id      create (If-None-Match: *) or replace (If-Match)
+ *   DELETE /api/sync/records/:kind/:id      tombstone a record (If-Match)
+ *   POST   /api/sync/photos                 upload a photo, returns its id
+ *   GET    /api/sync/photos/:id             download a photo
+ *   DELETE /api/sync/photos/:id             delete a photo
+ */
+
+import { authenticate, handleLogin, handleLogout, handleSignup } from './auth';
+import { errorResponse, HttpError, json, requireStorage } from './http';
+import { handleChanges, handleDeleteRecord, handleGetRecord, handlePutRecord } from './records';
+import { handleDeletePhoto, handleGetPhoto, handleUploadPhoto } from './photos';
+
+export const SYNC_API_PREFIX = '/api/sync/';
+
+// Bearer tokens rather than cookies, so any origin may call the API
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+  'Access-Control-Max-Age': '86400'
+};
+
+export async function handleSyncRequest(request: Request, env: Env): Promise<Response> {
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  let response: Response;
+  try {
+    response = await route(request, env);
+  } catch (error) {
+    response = errorResponse(error);
+  }
+
+  const headers = new Headers(response.headers);
+  Object.entries(CORS_HEADERS).forEach(([name, value]) => headers.set(name, value));
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
+async function route(request: Request, env: Env): Promise<Response> {
+  requireStorage(env);
+  const path = parsePath(new URL(request.url).pathname);
+  const method = request.method;
+
+  // Unauthenticated routes
+  if (path.length === 1 && path[0] === 'accounts' && method === 'POST') {
+    return handleSignup(request, env);
+  }
+  if (path.length === 1 && path[0] === 'sessions' && method === 'POST') {
+    return handleLogin(request, env);
+  }
+
+  const userId = await authenticate(request, env);
+
+  switch (path[0]) {
+    case 'sessions':
+      if (path[1] === 'current' && path.length === 2 && method === 'DELETE') return handleLogout(request, env);
+      break;
+    case 'account':
+      if (path.length === 1 && method === 'GET') {
+        const user = await env.DB.prepare('SELECT id, username FROM users WHERE id = ?').bind(userId).first<{ id: string; username: string }>();
+        return json({ userId, username: user?.username });
+      }
+      break;
+    case 'changes':
+      if (path.length === 1 && method === 'GET') return handleChanges(request, env, userId);
+      break;
+    case 'records':
+      if (path.length === 3) {
+        const [, kind, id] = path;
+        if (method === 'GET') return handleGetRecord(request, env, userId, kind, id);
+        if (method === 'PUT') return handlePutRecord(request, env, userId, kind, id);
+        if (method === 'DELETE') return handleDeleteRecord(request, env, userId, kind, id);
+      }
+      break;
+    case 'photos':
+      if (path.length === 1 && method === 'POST') return handleUploadPhoto(request, env, userId);
+      if (path.length === 2 && method === 'GET') return handleGetPhoto(request, env, userId, path[1]);
+      if (path.length === 2 && method === 'DELETE') return handleDeletePhoto(env, userId, path[1]);
+      break;
+  }
+
+  throw new HttpError(404, 'Not found');
+}
+
+function parsePath(pathname: string): string[] {
+  try {
+    return pathname.slice(SYNC_API_PREFIX.length).split('/').map(decodeURIComponent);
+  } catch {
+    throw new HttpError(400, 'Malformed URL path');
+  }
+}
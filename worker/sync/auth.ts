@@ -0,0 +1,114 @@
+/**
+ * Accounts and bearer-token sessions for the sync API
+ * Passwords are stored as PBKDF2 hashes; session tokens only as SHA-256 hashes.
+ */
+
+import { getBearerToken, HttpError, json, readJsonObject } from './http';
+import { fromBase64, randomToken, sha256Hex, timingSafeEqual, toBase64 } from './crypto';
+
+const PBKDF2_ITERATIONS = 100_000;
+const SESSION_DAYS = 90;
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,64}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+interface UserRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  password_salt: string;
+}
+
+/**
+ * POST /api/sync/accounts - creates an account and returns a session token
+ */
+export async function handleSignup(request: Request, env: Env): Promise<Response> {
+  if (env.ALLOW_SIGNUP !== 'true') {
+    throw new HttpError(403, 'Sign-up is disabled on this server');
+  }
+
+  const { username, password } = await readCredentials(request);
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new HttpError(400, 'Username must be 3-64 characters of lowercase letters, digits, dots, dashes or underscores');
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const existing = await env.DB.prepare('SELECT id FROM users WHERE username = ?').bind(username).first();
+  if (existing) {
+    throw new HttpError(409, 'Username is already taken');
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const userId = crypto.randomUUID();
+  await env.DB.prepare(
+    'INSERT INTO users (id, username, password_hash, password_salt, created_at) VALUES (?, ?, ?, ?, ?)'
+  ).bind(userId, username, await hashPassword(password, salt), toBase64(salt), new Date().toISOString()).run();
+
+  return json({ userId, username, token: await createSession(env, userId) }, { status: 201 });
+}
+
+/**
+ * POST /api/sync/sessions - exchanges a username and password for a session token
+ */
+export async function handleLogin(request: Request, env: Env): Promise<Response> {
+  const { username, password } = await readCredentials(request);
+  const user = await env.DB.prepare('SELECT * FROM users WHERE username = ?').bind(username).first<UserRow>();
+
+  // Hash even for unknown users so response times do not reveal which usernames exist
+  const salt = user ? fromBase64(user.password_salt) : new Uint8Array(16);
+  const hash = await hashPassword(password, salt);
+  if (!user || !timingSafeEqual(hash, user.password_hash)) {
+    throw new HttpError(401, 'Invalid username or password');
+  }
+
+  return json({ userId: user.id, username: user.username, token: await createSession(env, user.id) }, { status: 201 });
+}
+
+/**
+ * DELETE /api/sync/sessions/current - revokes the token used for the request
+ */
+export async function handleLogout(request: Request, env: Env): Promise<Response> {
+  const token = getBearerToken(request);
+  await env.DB.prepare('DELETE FROM sessions WHERE token_hash = ?').bind(await sha256Hex(token)).run();
+  return new Response(null, { status: 204 });
+}
+
+/**
+ * Resolves the bearer token to a user ID, or throws 401
+ */
+export async function authenticate(request: Request, env: Env): Promise<string> {
+  const token = getBearerToken(request);
+  const session = await env.DB.prepare('SELECT user_id, expires_at FROM sessions WHERE token_hash = ?')
+    .bind(await sha256Hex(token))
+    .first<{ user_id: string; expires_at: string }>();
+
+  if (!session || session.expires_at <= new Date().toISOString()) {
+    throw new HttpError(401, 'Session expired or invalid');
+  }
+  return session.user_id;
+}
+
+async function createSession(env: Env, userId: string): Promise<string> {
+  const token = randomToken(32);
+  const now = new Date();
+  const expires = new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  await env.DB.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+    .bind(await sha256Hex(token), userId, now.toISOString(), expires.toISOString())
+    .run();
+  return token;
+}
+
+async function readCredentials(request: Request): Promise<{ username: string; password: string }> {
+  const body = await readJsonObject(request);
+  if (typeof body.username !== 'string' || typeof body.password !== 'string') {
+    throw new HttpError(400, 'username and password are required');
+  }
+  return { username: body.username.trim().toLowerCase(), password: body.password };
+}
+
+async function hashPassword(password: string, salt: Uint8Array): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS }, key, 256);
+  return toBase64(new Uint8Array(bits));
+}
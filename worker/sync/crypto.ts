@@ -0,0 +1,32 @@
+/**
+ * Hashing and token helpers shared by the sync API and share links
+ */
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * URL-safe random token of the given number of bytes
+ */
+export function randomToken(byteLength: number): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(byteLength))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
@@ -0,0 +1,77 @@
+/**
+ * Response helpers shared by the sync API handlers
+ */
+
+/**
+ * An error that maps directly to an HTTP status
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Throws 503 when the worker was deployed without the "sync" environment's database and bucket
+ */
+export function requireStorage(env: Env): void {
+  if (!env.DB || !env.PHOTOS) {
+    throw new HttpError(503, 'Sync and share links are not set up on this server');
+  }
+}
+
+export function json(body: unknown, init: ResponseInit = {}): Response {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(body), { ...init, headers });
+}
+
+export function errorResponse(error: unknown): Response {
+  if (error instanceof HttpError) {
+    return json({ error: error.message }, { status: error.status });
+  }
+  console.error('Sync API error:', error);
+  return json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * Parses a JSON request body, rejecting anything that is not a JSON object
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Reads the token from an `Authorization: Bearer` header, or throws 401
+ */
+export function getBearerToken(request: Request): string {
+  const match = /^Bearer (\S+)$/.exec(request.headers.get('Authorization') ?? '');
+  if (!match) {
+    throw new HttpError(401, 'Missing bearer token');
+  }
+  return match[1];
+}
+
+/**
+ * Strong ETag for a record version
+ */
+export function toEtag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Reads the version out of an If-Match header; returns null for a missing or malformed header
+ */
+export function parseIfMatch(header: string | null): number | null {
+  const match = /^"(\d+)"$/.exec(header?.trim() ?? '');
+  return match ? Number(match[1]) : null;
+}
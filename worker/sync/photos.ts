@@ -0,0 +1,76 @@
+/**
+ * Photo storage for the sync API, backed by R2
+ * Each user's photos live under users/<user id>/photos/.
+ */
+
+import { HttpError, json } from './http';
+
+const MAX_PHOTO_BYTES = 20 * 1024 * 1024;
+const PHOTO_ID_PATTERN = /^[A-Za-z0-9-]{1,64}\.(jpg|jpeg|png|webp|heic|gif)$/;
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/gif': 'gif'
+};
+
+/**
+ * POST /api/sync/photos - stores the request body and returns the new photo's id
+ */
+export async function handleUploadPhoto(request: Request, env: Env, userId: string): Promise<Response> {
+  const contentType = request.headers.get('Content-Type')?.split(';')[0].trim() ?? '';
+  const extension = EXTENSIONS[contentType];
+  if (!extension) {
+    throw new HttpError(415, 'Photos must be JPEG, PNG, WebP, HEIC or GIF');
+  }
+  if (Number(request.headers.get('Content-Length') ?? 0) > MAX_PHOTO_BYTES) {
+    throw new HttpError(413, 'Photo is too large');
+  }
+
+  const body = await request.arrayBuffer();
+  if (body.byteLength === 0 || body.byteLength > MAX_PHOTO_BYTES) {
+    throw new HttpError(body.byteLength === 0 ? 400 : 413, body.byteLength === 0 ? 'Photo is empty' : 'Photo is too large');
+  }
+
+  const id = `${crypto.randomUUID()}.${extension}`;
+  const object = await env.PHOTOS.put(photoKey(userId, id), body, { httpMetadata: { contentType } });
+  return json({ id }, { status: 201, headers: { ETag: object.httpEtag } });
+}
+
+/**
+ * GET /api/sync/photos/:id
+ */
+export async function handleGetPhoto(request: Request, env: Env, userId: string, id: string): Promise<Response> {
+  const object = await env.PHOTOS.get(photoKey(userId, validatePhotoId(id)));
+  if (!object) {
+    throw new HttpError(404, 'Photo not found');
+  }
+
+  // Photos never change after upload
+  const headers = new Headers({ ETag: object.httpEtag, 'Cache-Control': 'private, max-age=31536000, immutable' });
+  object.writeHttpMetadata(headers);
+  if (request.headers.get('If-None-Match') === object.httpEtag) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(object.body, { headers });
+}
+
+/**
+ * DELETE /api/sync/photos/:id
+ */
+export async function handleDeletePhoto(env: Env, userId: string, id: string): Promise<Response> {
+  await env.PHOTOS.delete(photoKey(userId, validatePhotoId(id)));
+  return new Response(null, { status: 204 });
+}
+
+function photoKey(userId: string, id: string): string {
+  return `users/${userId}/photos/${id}`;
+}
+
+function validatePhotoId(id: string): string {
+  if (!PHOTO_ID_PATTERN.test(id)) {
+    throw new HttpError(400, 'Invalid photo id');
+  }
+  return id;
+}
@@ -0,0 +1,191 @@
+/**
+ * Record storage and change feed for the sync API, backed by D1
+ */
+
+import { HttpError, json, parseIfMatch, readJsonObject, toEtag } from './http';
+
+export const RECORD_KINDS = ['encounter', 'cat', 'colony', 'preferences'] as const;
+export type RecordKind = typeof RECORD_KINDS[number];
+
+const RECORD_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const MAX_RECORD_BYTES = 256 * 1024;
+const DEFAULT_FEED_LIMIT = 200;
+const MAX_FEED_LIMIT = 1000;
+
+interface RecordRow {
+  kind: RecordKind;
+  id: string;
+  data: string;
+  deleted: number;
+  modified_ms: number;
+}
+
+// Next version for a user: the clock, but always past the user's latest write
+const NEXT_VERSION_SQL = 'MAX(?, COALESCE((SELECT MAX(modified_ms) FROM records WHERE user_id = ?), 0) + 1)';
+
+/**
+ * GET /api/sync/changes?cursor=&limit=&include=meta
+ * Returns records changed after the cursor, oldest first. The returned cursor is
+ * passed back to continue; an absent cursor starts from the beginning.
+ */
+export async function handleChanges(request: Request, env: Env, userId: string): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const cursor = params.get('cursor') ?? '0';
+  if (!/^\d+$/.test(cursor)) {
+    throw new HttpError(400, 'Invalid cursor');
+  }
+  const limit = Math.min(Math.max(Number(params.get('limit')) || DEFAULT_FEED_LIMIT, 1), MAX_FEED_LIMIT);
+  const includeData = params.get('include') !== 'meta';
+
+  const { results } = await env.DB.prepare(
+    `SELECT kind, id, ${includeData ? 'data' : "'' AS data"}, deleted, modified_ms FROM records
+     WHERE user_id = ? AND modified_ms > ? ORDER BY modified_ms LIMIT ?`
+  ).bind(userId, Number(cursor), limit + 1).all<RecordRow>();
+
+  const page = results.slice(0, limit);
+  return json({
+    changes: page.map(row => ({
+      kind: row.kind,
+      id: row.id,
+      ...versionInfo(row.modified_ms),
+      deleted: row.deleted === 1,
+      ...(includeData ? { data: JSON.parse(row.data) } : {})
+    })),
+    cursor: page.length > 0 ? String(page[page.length - 1].modified_ms) : cursor,
+    hasMore: results.length > limit
+  });
+}
+
+/**
+ * GET /api/sync/records/:kind/:id
+ */
+export async function handleGetRecord(request: Request, env: Env, userId: string, kind: string, id: string): Promise<Response> {
+  const row = await findRecord(env, userId, validateKind(kind), validateId(id));
+  if (!row) {
+    throw new HttpError(404, 'Record not found');
+  }
+
+  const etag = toEtag(row.modified_ms);
+  if (request.headers.get('If-None-Match') === etag) {
+    return new Response(null, { status: 304, headers: { ETag: etag } });
+  }
+  return new Response(row.data, { headers: { 'Content-Type': 'application/json', ETag: etag } });
+}
+
+/**
+ * PUT /api/sync/records/:kind/:id
+ * Requires `If-None-Match: *` to create or `If-Match: <etag>` to replace, so a client
+ * never overwrites a version it has not seen.
+ */
+export async function handlePutRecord(request: Request, env: Env, userId: string, kind: string, id: string): Promise<Response> {
+  const recordKind = validateKind(kind);
+  const recordId = validateId(id);
+
+  const length = Number(request.headers.get('Content-Length') ?? 0);
+  if (length > MAX_RECORD_BYTES) {
+    throw new HttpError(413, 'Record is too large');
+  }
+  const record = await readJsonObject(request);
+  if (recordKind !== 'preferences' && record.id !== recordId) {
+    throw new HttpError(400, 'Record id does not match the URL');
+  }
+  const data = JSON.stringify(record);
+  if (data.length > MAX_RECORD_BYTES) {
+    throw new HttpError(413, 'Record is too large');
+  }
+  const deleted = record.isDeleted === true ? 1 : 0;
+
+  if (request.headers.get('If-None-Match') === '*') {
+    const created = await env.DB.prepare(
+      `INSERT INTO records (user_id, kind, id, data, deleted, modified_ms)
+       VALUES (?, ?, ?, ?, ?, ${NEXT_VERSION_SQL})
+       ON CONFLICT (user_id, kind, id) DO NOTHING
+       RETURNING modified_ms`
+    ).bind(userId, recordKind, recordId, data, deleted, Date.now(), userId).first<{ modified_ms: number }>();
+
+    if (!created) {
+      return preconditionFailed(env, userId, recordKind, recordId);
+    }
+    return json(versionInfo(created.modified_ms), { status: 201, headers: { ETag: toEtag(created.modified_ms) } });
+  }
+
+  const expected = parseIfMatch(request.headers.get('If-Match'));
+  if (expected === null) {
+    throw new HttpError(428, 'PUT requires If-Match or If-None-Match: *');
+  }
+
+  const updated = await env.DB.prepare(
+    `UPDATE records SET data = ?, deleted = ?, modified_ms = ${NEXT_VERSION_SQL}
+     WHERE user_id = ? AND kind = ? AND id = ? AND modified_ms = ?
+     RETURNING modified_ms`
+  ).bind(data, deleted, Date.now(), userId, userId, recordKind, recordId, expected).first<{ modified_ms: number }>();
+
+  if (!updated) {
+    return preconditionFailed(env, userId, recordKind, recordId);
+  }
+  return json(versionInfo(updated.modified_ms), { headers: { ETag: toEtag(updated.modified_ms) } });
+}
+
+/**
+ * DELETE /api/sync/records/:kind/:id
+ * Keeps a tombstone so the deletion reaches other devices through the change feed.
+ */
+export async function handleDeleteRecord(request: Request, env: Env, userId: string, kind: string, id: string): Promise<Response> {
+  const recordKind = validateKind(kind);
+  const recordId = validateId(id);
+  const expected = parseIfMatch(request.headers.get('If-Match'));
+  if (expected === null) {
+    throw new HttpError(428, 'DELETE requires If-Match');
+  }
+
+  const now = Date.now();
+  const deleted = await env.DB.prepare(
+    `UPDATE records SET
+       data = json_set(data, '$.isDeleted', json('true'), '$.updatedAt', ?),
+       deleted = 1,
+       modified_ms = ${NEXT_VERSION_SQL}
+     WHERE user_id = ? AND kind = ? AND id = ? AND modified_ms = ?
+     RETURNING modified_ms`
+  ).bind(new Date(now).toISOString(), now, userId, userId, recordKind, recordId, expected).first<{ modified_ms: number }>();
+
+  if (!deleted) {
+    return preconditionFailed(env, userId, recordKind, recordId);
+  }
+  return new Response(null, { status: 204, headers: { ETag: toEtag(deleted.modified_ms) } });
+}
+
+// 404 when the record is gone, otherwise 412 with the current ETag so the client can refetch
+async function preconditionFailed(env: Env, userId: string, kind: RecordKind, id: string): Promise<Response> {
+  const current = await findRecord(env, userId, kind, id);
+  if (!current) {
+    throw new HttpError(404, 'Record not found');
+  }
+  return json(
+    { error: 'Record was changed by another device' },
+    { status: 412, headers: { ETag: toEtag(current.modified_ms) } }
+  );
+}
+
+function versionInfo(version: number): { etag: string; modifiedAt: string } {
+  return { etag: toEtag(version), modifiedAt: new Date(version).toISOString() };
+}
+
+async function findRecord(env: Env, userId: string, kind: RecordKind, id: string): Promise<RecordRow | null> {
+  return env.DB.prepare('SELECT kind, id, data, deleted, modified_ms FROM records WHERE user_id = ? AND kind = ? AND id = ?')
+    .bind(userId, kind, id)
+    .first<RecordRow>();
+}
+
+function validateKind(kind: string): RecordKind {
+  if (!(RECORD_KINDS as readonly string[]).includes(kind)) {
+    throw new HttpError(404, `Unknown record kind: ${kind}`);
+  }
+  return kind as RecordKind;
+}
+
+function validateId(id: string): string {
+  if (!RECORD_ID_PATTERN.test(id)) {
+    throw new HttpError(400, 'Invalid record id');
+  }
+  return id;
+}